@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { EmployerProvider } from "@/contexts/EmployerContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import CreatePAF from "./pages/CreatePAF";
@@ -14,6 +15,7 @@ import Lookup from "./pages/Lookup";
 import AdminImport from "./pages/AdminImport";
 import Settings from "./pages/Settings";
 import Login from "./pages/Login";
+import Verify from "./pages/Verify";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,25 +23,28 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
-            <Route path="/create" element={<ProtectedRoute><CreatePAF /></ProtectedRoute>} />
-            <Route path="/create-manual" element={<ProtectedRoute><CreateManualPAF /></ProtectedRoute>} />
-            <Route path="/edit/:id" element={<ProtectedRoute><EditPAF /></ProtectedRoute>} />
-            <Route path="/generated-pafs" element={<ProtectedRoute><GeneratedPAFs /></ProtectedRoute>} />
-            <Route path="/lookup" element={<ProtectedRoute><Lookup /></ProtectedRoute>} />
-            <Route path="/admin/import" element={<ProtectedRoute><AdminImport /></ProtectedRoute>} />
-            <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <EmployerProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/login" element={<Login />} />
+              <Route path="/verify" element={<Verify />} />
+              <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
+              <Route path="/create" element={<ProtectedRoute requiredRole="preparer"><CreatePAF /></ProtectedRoute>} />
+              <Route path="/create-manual" element={<ProtectedRoute requiredRole="preparer"><CreateManualPAF /></ProtectedRoute>} />
+              <Route path="/edit/:id" element={<ProtectedRoute><EditPAF /></ProtectedRoute>} />
+              <Route path="/generated-pafs" element={<ProtectedRoute><GeneratedPAFs /></ProtectedRoute>} />
+              <Route path="/lookup" element={<ProtectedRoute><Lookup /></ProtectedRoute>} />
+              <Route path="/admin/import" element={<ProtectedRoute requiredRole="admin"><AdminImport /></ProtectedRoute>} />
+              <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </EmployerProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
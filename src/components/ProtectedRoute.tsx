@@ -1,11 +1,22 @@
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { Loader2 } from 'lucide-react';
+import { useEmployer } from '@/hooks/useEmployer';
+import { useRoles, type AppRole } from '@/hooks/useRoles';
+import { Button } from '@/components/ui/button';
+import { Building2, Loader2, ShieldAlert } from 'lucide-react';
 
-export function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user, loading } = useAuth();
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  // Role needed in the active employer's organization
+  requiredRole?: AppRole;
+}
+
+export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps) {
+  const { user, loading, signOut } = useAuth();
+  const { activeEmployer, loading: employersLoading } = useEmployer();
+  const { hasRole, loading: rolesLoading } = useRoles();
 
-  if (loading) {
+  if (loading || employersLoading || rolesLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -17,5 +28,38 @@ export function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
+  // Every page works on behalf of an employer of the user's organizations
+  if (!activeEmployer) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <div className="max-w-md text-center space-y-4">
+          <Building2 className="h-10 w-10 mx-auto text-muted-foreground" />
+          <h1 className="text-xl font-semibold text-foreground">No employer available</h1>
+          <p className="text-sm text-muted-foreground">
+            Your account isn't a member of an organization with an employer yet. Ask an administrator to add you.
+          </p>
+          <Button variant="outline" onClick={signOut}>Log out</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (requiredRole && !hasRole(requiredRole)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <div className="max-w-md text-center space-y-4">
+          <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+          <h1 className="text-xl font-semibold text-foreground">Not allowed</h1>
+          <p className="text-sm text-muted-foreground">
+            This page needs the {requiredRole} role for {activeEmployer.legal_business_name}. Ask an administrator if you need access.
+          </p>
+          <Button variant="outline" asChild>
+            <Link to="/">Back to Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
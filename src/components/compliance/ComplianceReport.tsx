@@ -0,0 +1,109 @@
+import { AlertCircle, AlertTriangle, CheckCircle, ShieldAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { ComplianceFinding } from '@/lib/complianceRules';
+
+interface ComplianceReportProps {
+  findings: ComplianceFinding[];
+  // When given, blocking errors show a field for the reviewer's override reason
+  overrideReason?: string;
+  onOverrideReasonChange?: (reason: string) => void;
+  // Only reviewers may override; others see why generating is blocked
+  canOverride?: boolean;
+  // A previously recorded override, shown read-only
+  recordedOverride?: { reason: string; by?: string | null; at?: string | null } | null;
+}
+
+function FindingRow({ finding }: { finding: ComplianceFinding }) {
+  const isError = finding.severity === 'error';
+  const Icon = isError ? AlertCircle : AlertTriangle;
+  return (
+    <div className={`rounded-md border p-3 ${isError ? 'border-destructive/30 bg-destructive/5' : 'border-warning/30 bg-warning/5'}`}>
+      <div className="flex items-start gap-2">
+        <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${isError ? 'text-destructive' : 'text-warning'}`} />
+        <div className="space-y-1 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-foreground">{finding.title}</span>
+            <Badge variant="outline" className="text-xs font-normal">{finding.citation}</Badge>
+          </div>
+          <p className="text-muted-foreground">{finding.message}</p>
+          <p className="text-xs text-muted-foreground">Fix: {finding.fixHint}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ComplianceReport({ findings, overrideReason, onOverrideReasonChange, canOverride = true, recordedOverride }: ComplianceReportProps) {
+  const errors = findings.filter((f) => f.severity === 'error');
+  const warnings = findings.filter((f) => f.severity === 'warning');
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-accent/10">
+            <ShieldAlert className="h-4 w-4 text-accent" />
+          </div>
+          <h3 className="font-semibold text-foreground">Compliance Check</h3>
+        </div>
+        <div className="flex gap-2">
+          {errors.length > 0 && <Badge variant="destructive">{errors.length} error{errors.length === 1 ? '' : 's'}</Badge>}
+          {warnings.length > 0 && (
+            <Badge variant="outline" className="border-warning/50 text-warning">
+              {warnings.length} warning{warnings.length === 1 ? '' : 's'}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {findings.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-success">
+          <CheckCircle className="h-4 w-4" />
+          All compliance checks passed
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {[...errors, ...warnings].map((finding) => (
+            <FindingRow key={finding.ruleId} finding={finding} />
+          ))}
+        </div>
+      )}
+
+      {recordedOverride && (
+        <div className="mt-4 rounded-md bg-muted p-3 text-sm">
+          <p className="font-medium text-foreground">Errors overridden by reviewer</p>
+          <p className="text-muted-foreground mt-1">{recordedOverride.reason}</p>
+          {(recordedOverride.by || recordedOverride.at) && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {[recordedOverride.by, recordedOverride.at && new Date(recordedOverride.at).toLocaleString()].filter(Boolean).join(' • ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && onOverrideReasonChange && !canOverride && (
+        <p className="mt-4 text-xs text-muted-foreground">
+          Generating is blocked until the errors are fixed or a reviewer overrides them.
+        </p>
+      )}
+
+      {errors.length > 0 && onOverrideReasonChange && canOverride && (
+        <div className="mt-4 space-y-2">
+          <Label htmlFor="compliance-override">Override reason</Label>
+          <Textarea
+            id="compliance-override"
+            value={overrideReason ?? ''}
+            onChange={(e) => onOverrideReasonChange(e.target.value)}
+            placeholder="Explain why this PAF may be generated despite the errors above"
+            rows={2}
+          />
+          <p className="text-xs text-muted-foreground">
+            Generating is blocked until the errors are fixed or a reason is recorded. The reason is saved with the PAF.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
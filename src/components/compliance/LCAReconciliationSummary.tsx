@@ -0,0 +1,58 @@
+import { CheckCircle, GitCompare } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatReconciledValue, type LCAReconciliation } from '@/lib/lcaReconciliation';
+
+interface LCAReconciliationSummaryProps {
+  reconciliation: LCAReconciliation;
+}
+
+// Read-only record of how the scanned LCA was reconciled with the disclosure data
+export function LCAReconciliationSummary({ reconciliation }: LCAReconciliationSummaryProps) {
+  const { resolutions } = reconciliation;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-accent/10">
+            <GitCompare className="h-4 w-4 text-accent" />
+          </div>
+          <h3 className="font-semibold text-foreground">LCA Disclosure Cross-check</h3>
+        </div>
+        {resolutions.length > 0 && (
+          <Badge variant="outline">
+            {resolutions.length} difference{resolutions.length === 1 ? '' : 's'} resolved
+          </Badge>
+        )}
+      </div>
+
+      {resolutions.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-success">
+          <CheckCircle className="h-4 w-4" />
+          The scanned LCA matched the disclosure record for case {reconciliation.caseNumber}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {resolutions.map((resolution) => (
+            <div key={resolution.field} className="rounded-md border border-border p-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium text-foreground">{resolution.label}</span>
+                <Badge variant="secondary" className="text-xs font-normal">
+                  Kept {resolution.choice === 'scan' ? 'LCA scan' : 'disclosure data'}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground mt-1">
+                LCA scan: {formatReconciledValue(resolution.scanned)} • Disclosure data: {formatReconciledValue(resolution.disclosure)}
+              </p>
+              {resolution.note && <p className="text-xs text-muted-foreground mt-1">{resolution.note}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-4">
+        Checked {new Date(reconciliation.checkedAt).toLocaleString()}
+      </p>
+    </div>
+  );
+}
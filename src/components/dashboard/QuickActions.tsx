@@ -1,44 +1,49 @@
 import { Plus, Search, FileText, PenLine } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { useRoles, type AppRole } from '@/hooks/useRoles';
 
-const actions = [
+const actions: { title: string; description: string; icon: typeof Plus; href: string; variant: 'hero' | 'outline'; role?: AppRole }[] = [
   {
     title: 'Create New PAF',
     description: 'Auto-fill from existing LCA',
     icon: Plus,
     href: '/create',
-    variant: 'hero' as const,
+    variant: 'hero',
+    role: 'preparer',
   },
   {
     title: 'Manual PAF Entry',
     description: 'Enter LCA details manually',
     icon: PenLine,
     href: '/create-manual',
-    variant: 'hero' as const,
+    variant: 'hero',
+    role: 'preparer',
   },
   {
     title: 'Occupation Lookup',
     description: 'Search SOC/ONET codes',
     icon: Search,
     href: '/lookup',
-    variant: 'outline' as const,
+    variant: 'outline',
   },
   {
     title: 'View Sample PAF',
     description: 'See a completed example',
     icon: FileText,
     href: '/preview',
-    variant: 'outline' as const,
+    variant: 'outline',
   },
 ];
 
 export function QuickActions() {
+  const { hasRole } = useRoles();
+
   return (
     <div className="paf-section slide-up">
       <h3 className="mb-4 text-lg font-semibold text-foreground">Quick Actions</h3>
       <div className="grid gap-3">
-        {actions.map((action) => (
+        {actions.filter((action) => !action.role || hasRole(action.role)).map((action) => (
           <Link key={action.href} to={action.href} className="block">
             <Button
               variant={action.variant}
@@ -10,11 +10,13 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useActiveEmployer } from '@/hooks/useEmployer';
+import { useRoles } from '@/hooks/useRoles';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Link } from 'react-router-dom';
-import { downloadPAF } from '@/lib/pdfGenerator';
+import { downloadStoredPAF } from '@/lib/pafVersions';
+import { PAF_STATUS_BADGE_CLASSES, PAF_STATUS_LABELS, isLockedStatus, type PAFStatus } from '@/lib/pafReview';
 import { toast } from 'sonner';
-import type { PAFData } from '@/types/paf';
 
 interface PAFRecord {
   id: string;
@@ -22,85 +24,22 @@ interface PAFRecord {
   employer_legal_name: string;
   lca_case_number: string | null;
   lca_status: string;
+  status: PAFStatus;
   created_at: string;
   soc_code: string;
 }
-// Convert DB record to PAFData format
-function convertToPAFData(record: any): PAFData {
-  return {
-    visaType: record.visa_type || 'H-1B',
-    caseNumber: record.lca_case_number,
-    employer: {
-      legalBusinessName: record.employer_legal_name,
-      tradeName: record.employer_trade_name,
-      address1: record.employer_address1,
-      address2: record.employer_address2,
-      city: record.employer_city,
-      state: record.employer_state,
-      postalCode: record.employer_postal_code,
-      country: record.employer_country,
-      telephone: record.employer_telephone,
-      fein: record.employer_fein,
-      naicsCode: record.employer_naics_code,
-    },
-    contact: {
-      lastName: '',
-      firstName: '',
-      jobTitle: '',
-      address1: record.employer_address1,
-      city: record.employer_city,
-      state: record.employer_state,
-      postalCode: record.employer_postal_code,
-      country: record.employer_country,
-      telephone: record.employer_telephone,
-      email: '',
-    },
-    job: {
-      jobTitle: record.job_title,
-      socCode: record.soc_code,
-      socTitle: record.soc_title,
-      onetCode: record.onet_code,
-      onetTitle: record.onet_title,
-      isFullTime: record.is_full_time,
-      beginDate: record.begin_date,
-      endDate: record.end_date,
-      wageRateFrom: record.wage_rate_from,
-      wageRateTo: record.wage_rate_to,
-      wageUnit: record.wage_unit,
-      workersNeeded: record.workers_needed,
-      isRD: record.is_rd,
-    },
-    worksite: {
-      address1: record.worksite_address1,
-      address2: record.worksite_address2,
-      city: record.worksite_city,
-      state: record.worksite_state,
-      postalCode: record.worksite_postal_code,
-      county: record.worksite_county,
-      areaCode: record.worksite_area_code,
-      areaName: record.worksite_area_name,
-    },
-    wage: {
-      prevailingWage: record.prevailing_wage,
-      prevailingWageUnit: record.prevailing_wage_unit,
-      wageLevel: record.wage_level,
-      wageSource: record.wage_source,
-      wageSourceDate: record.wage_source_date,
-      actualWage: record.actual_wage,
-      actualWageUnit: record.actual_wage_unit,
-    },
-    isH1BDependent: record.is_h1b_dependent,
-    isWillfulViolator: record.is_willful_violator,
-  };
-}
 
 export function RecentPAFs() {
+  const employer = useActiveEmployer();
+  const { hasRole } = useRoles();
+  const canEdit = hasRole('preparer');
   const { data: pafs, isLoading } = useQuery({
-    queryKey: ['recent-pafs'],
+    queryKey: ['recent-pafs', employer.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('paf_records')
-        .select('id, job_title, employer_legal_name, lca_case_number, lca_status, created_at, soc_code')
+        .select('id, job_title, employer_legal_name, lca_case_number, lca_status, status, created_at, soc_code')
+        .eq('employer_id', employer.id)
         .order('created_at', { ascending: false })
         .limit(5);
       
@@ -134,12 +73,14 @@ export function RecentPAFs() {
           <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
           <p className="font-medium">No PAFs created yet</p>
           <p className="text-sm mt-1">Create your first Public Access File to get started</p>
-          <Button asChild className="mt-4">
-            <Link to="/create">
-              <Plus className="mr-2 h-4 w-4" />
-              Create PAF
-            </Link>
-          </Button>
+          {canEdit && (
+            <Button asChild className="mt-4">
+              <Link to="/create">
+                <Plus className="mr-2 h-4 w-4" />
+                Create PAF
+              </Link>
+            </Button>
+          )}
         </div>
       </div>
     );
@@ -149,16 +90,8 @@ export function RecentPAFs() {
     e.preventDefault();
     e.stopPropagation();
     try {
-      toast.loading('Generating PDF...', { id: 'download' });
-      const { data: fullRecord, error } = await supabase
-        .from('paf_records')
-        .select('*')
-        .eq('id', pafId)
-        .single();
-      
-      if (error) throw error;
-      const pafData = convertToPAFData(fullRecord);
-      await downloadPAF(pafData);
+      toast.loading('Preparing PDF...', { id: 'download' });
+      await downloadStoredPAF(pafId);
       toast.success('PAF downloaded successfully', { id: 'download' });
     } catch (error) {
       console.error('Download error:', error);
@@ -201,6 +134,9 @@ export function RecentPAFs() {
             </div>
             
             <div className="flex items-center gap-2">
+              <Badge variant="outline" className={`${PAF_STATUS_BADGE_CLASSES[paf.status]} text-xs`}>
+                {PAF_STATUS_LABELS[paf.status]}
+              </Badge>
               {paf.lca_status === 'in_process' && (
                 <Badge variant="secondary" className="bg-warning/20 text-warning border-warning/30 text-xs">
                   In Process
@@ -223,12 +159,14 @@ export function RecentPAFs() {
                     <Eye className="mr-2 h-4 w-4" /> View
                   </Link>
                 </DropdownMenuItem>
-                <DropdownMenuItem asChild>
-                  <Link to={`/edit/${paf.id}`}>
-                    <Edit className="mr-2 h-4 w-4" /> Edit
-                  </Link>
-                </DropdownMenuItem>
-                {paf.lca_status === 'in_process' && (
+                {canEdit && !isLockedStatus(paf.status) && (
+                  <DropdownMenuItem asChild>
+                    <Link to={`/edit/${paf.id}`}>
+                      <Edit className="mr-2 h-4 w-4" /> Edit
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                {canEdit && !isLockedStatus(paf.status) && paf.lca_status === 'in_process' && (
                   <DropdownMenuItem asChild>
                     <Link to={`/edit/${paf.id}`}>
                       <Upload className="mr-2 h-4 w-4" /> Upload Certified LCA
@@ -238,10 +176,14 @@ export function RecentPAFs() {
                 <DropdownMenuItem onClick={(e) => handleDownload(e, paf.id)}>
                   <Download className="mr-2 h-4 w-4" /> Download
                 </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem className="text-destructive">
-                  <Trash2 className="mr-2 h-4 w-4" /> Delete
-                </DropdownMenuItem>
+                {hasRole('admin') && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem className="text-destructive">
+                      <Trash2 className="mr-2 h-4 w-4" /> Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </Link>
@@ -0,0 +1,82 @@
+import { FilePen, Trash2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
+import { useActiveEmployer } from '@/hooks/useEmployer';
+import { useRoles } from '@/hooks/useRoles';
+import { deleteWizardDraft, fetchWizardDrafts } from '@/lib/wizardDrafts';
+import { toast } from 'sonner';
+
+// The user's auto-saved wizard drafts for the active employer; hidden when there are none
+export function WizardDrafts() {
+  const employer = useActiveEmployer();
+  const { user } = useAuth();
+  const { hasRole } = useRoles();
+  const queryClient = useQueryClient();
+
+  const { data: drafts } = useQuery({
+    queryKey: ['wizard-drafts', employer.id, user?.id],
+    queryFn: () => fetchWizardDrafts(employer.id, user!.id),
+    enabled: !!user && hasRole('preparer'),
+  });
+
+  if (!drafts || drafts.length === 0) return null;
+
+  const handleDiscard = async (e: React.MouseEvent, draftId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await deleteWizardDraft(draftId);
+      queryClient.invalidateQueries({ queryKey: ['wizard-drafts'] });
+      toast.success('Draft discarded');
+    } catch (error) {
+      console.error('Discard draft error:', error);
+      toast.error('Failed to discard draft');
+    }
+  };
+
+  return (
+    <div className="paf-section slide-up mb-8">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground">Drafts</h3>
+      </div>
+
+      <div className="divide-y divide-border">
+        {drafts.map((draft) => (
+          <Link
+            key={draft.id}
+            to={`${draft.mode === 'manual' ? '/create-manual' : '/create'}?draft=${draft.id}`}
+            className="flex items-center gap-4 py-4 transition-colors hover:bg-muted/30 cursor-pointer"
+          >
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-accent/10">
+              <FilePen className="h-5 w-5 text-accent" />
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-foreground truncate">{draft.title || 'Untitled PAF'}</p>
+              <p className="text-sm text-muted-foreground">
+                Step {draft.current_step + 1} • Saved {new Date(draft.updated_at).toLocaleString()}
+              </p>
+            </div>
+
+            <Badge variant="outline" className="bg-muted text-muted-foreground border-border">
+              {draft.mode === 'manual' ? 'Manual' : 'From LCA'}
+            </Badge>
+
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Discard draft"
+              onClick={(e) => handleDiscard(e, draft.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
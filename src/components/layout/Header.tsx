@@ -1,13 +1,16 @@
-import { FileText, Home, Plus, Search, Settings, LogOut, PenLine } from 'lucide-react';
+import { FileText, Home, Plus, Search, Settings, LogOut, PenLine, Building2 } from 'lucide-react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
+import { useEmployer } from '@/hooks/useEmployer';
+import { useRoles, type AppRole } from '@/hooks/useRoles';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
-const navItems = [
+const navItems: { href: string; label: string; icon: typeof Home; role?: AppRole }[] = [
   { href: '/', label: 'Dashboard', icon: Home },
-  { href: '/create', label: 'Create PAF', icon: Plus },
-  { href: '/create-manual', label: 'Manual PAF', icon: PenLine },
+  { href: '/create', label: 'Create PAF', icon: Plus, role: 'preparer' },
+  { href: '/create-manual', label: 'Manual PAF', icon: PenLine, role: 'preparer' },
   { href: '/lookup', label: 'Lookup', icon: Search },
   { href: '/settings', label: 'Settings', icon: Settings },
 ];
@@ -16,6 +19,8 @@ export function Header() {
   const location = useLocation();
   const navigate = useNavigate();
   const { signOut, user } = useAuth();
+  const { employers, activeEmployer, setActiveEmployerId } = useEmployer();
+  const { hasRole } = useRoles();
 
   const handleLogout = async () => {
     await signOut();
@@ -36,7 +41,25 @@ export function Header() {
         </Link>
 
         <nav className="flex items-center gap-1">
-          {navItems.map((item) => {
+          {activeEmployer && (
+            <Select value={activeEmployer.id} onValueChange={setActiveEmployerId} disabled={employers.length < 2}>
+              <SelectTrigger
+                aria-label="Active employer"
+                className="mr-2 h-9 w-auto max-w-[220px] gap-2 border-white/20 bg-white/10 text-primary-foreground"
+              >
+                <Building2 className="h-4 w-4 shrink-0" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {employers.map((employer) => (
+                  <SelectItem key={employer.id} value={employer.id}>
+                    {employer.legal_business_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {navItems.filter((item) => !item.role || hasRole(item.role)).map((item) => {
             const isActive = location.pathname === item.href;
             return (
               <Link
@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Search, Building2, FileText, MapPin, DollarSign } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useActiveEmployer } from "@/hooks/useEmployer";
 
 interface LCARecord {
   id: string;
@@ -23,6 +24,7 @@ interface LCARecord {
   wage_rate_to: number | null;
   wage_unit: string | null;
   prevailing_wage: number | null;
+  pw_unit: string | null;
   pw_wage_level: string | null;
   worksite_city: string | null;
   worksite_state: string | null;
@@ -35,6 +37,7 @@ interface LCARecord {
 
 export function LCALookup() {
   const [searchTerm, setSearchTerm] = useState("");
+  const employer = useActiveEmployer();
   const [searchQuery, setSearchQuery] = useState("");
 
   const { data: results, isLoading, error } = useQuery({
@@ -114,7 +117,7 @@ export function LCALookup() {
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <Input
-              placeholder="Enter employer name (e.g., Sai Business Solutions LLC) or case number..."
+              placeholder={`Enter employer name (e.g., ${employer.legal_business_name}) or case number...`}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               onKeyDown={handleKeyDown}
@@ -217,7 +220,7 @@ export function LCALookup() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        {formatCurrency(record.prevailing_wage, record.wage_unit)}
+                        {formatCurrency(record.prevailing_wage, record.pw_unit)}
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline">{record.pw_wage_level || "N/A"}</Badge>
@@ -239,7 +242,7 @@ export function LCALookup() {
           <div className="text-center py-8 text-muted-foreground">
             <Search className="h-12 w-12 mx-auto mb-2 opacity-50" />
             <p>Enter an employer name to search LCA history</p>
-            <p className="text-sm mt-1">Example: "Sai Business Solutions LLC"</p>
+            <p className="text-sm mt-1">Example: "{employer.legal_business_name}"</p>
           </div>
         )}
       </CardContent>
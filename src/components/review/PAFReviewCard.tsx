@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, ClipboardCheck, GitBranch, Loader2, MessageSquare, Send, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  PAF_STATUS_BADGE_CLASSES,
+  PAF_STATUS_LABELS,
+  REVIEW_SECTIONS,
+  addReviewComment,
+  approvePAF,
+  fetchReviewComments,
+  fetchReviewers,
+  requestChanges,
+  resolveReviewComment,
+  revisePAF,
+  submitForReview,
+  type ReviewSection,
+} from '@/lib/pafReview';
+import type { PAFRecordRow } from '@/lib/pafRecord';
+import type { AppRole } from '@/hooks/useRoles';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface PAFReviewCardProps {
+  pafRecord: PAFRecordRow;
+  hasRole: (role: AppRole) => boolean;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+// Status, transitions and section comments of the review workflow
+export function PAFReviewCard({ pafRecord, hasRole }: PAFReviewCardProps) {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [reviewerId, setReviewerId] = useState('');
+  const [signatoryId, setSignatoryId] = useState('');
+  const [section, setSection] = useState<ReviewSection>('general');
+  const [comment, setComment] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+
+  const status = pafRecord.status;
+  const canSubmit = hasRole('preparer') && (status === 'draft' || status === 'changes_requested');
+  const canReview = hasRole('reviewer') && status === 'in_review';
+  const canApprove = hasRole('signatory') && status === 'in_review';
+  const canRevise = hasRole('preparer') && status === 'approved';
+  const canComment = (hasRole('preparer') || hasRole('reviewer')) && status !== 'superseded';
+
+  const { data: reviewers } = useQuery({
+    queryKey: ['reviewers', pafRecord.employer_id],
+    queryFn: () => fetchReviewers(pafRecord.employer_id),
+    enabled: canSubmit,
+  });
+
+  // Signatories of the record's employer (which needn't be the active one)
+  // the user signs as, limited to the one chosen for the PAF
+  const { data: signatories } = useQuery({
+    queryKey: ['signatories', pafRecord.employer_id, 'approval', user?.id, pafRecord.signatory_id],
+    queryFn: async () => {
+      let query = supabase
+        .from('authorized_signatories')
+        .select('id, name, title, certificate_path')
+        .eq('employer_id', pafRecord.employer_id)
+        .eq('user_id', user!.id);
+      if (pafRecord.signatory_id) query = query.eq('id', pafRecord.signatory_id);
+      const { data, error } = await query
+        .order('is_default', { ascending: false })
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: canApprove && !!user,
+  });
+
+  const { data: comments } = useQuery({
+    // Nested under the record's key so transitions also refresh the comments
+    queryKey: ['paf-record', pafRecord.id, 'review-comments'],
+    queryFn: () => fetchReviewComments(pafRecord.id),
+  });
+
+  const run = async (action: string, fn: () => Promise<unknown>, success: string) => {
+    setPending(action);
+    try {
+      await fn();
+      queryClient.invalidateQueries({ queryKey: ['paf-record', pafRecord.id] });
+      queryClient.invalidateQueries({ queryKey: ['all-pafs'] });
+      toast.success(success);
+    } catch (err) {
+      console.error(`${action} error:`, err);
+      toast.error(err instanceof Error ? err.message : `Failed to ${action}`);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleRevise = async () => {
+    setPending('revise');
+    try {
+      const draft = await revisePAF(pafRecord.id);
+      queryClient.invalidateQueries({ queryKey: ['all-pafs'] });
+      toast.success('Revision created as a new draft');
+      navigate(`/edit/${draft.id}`);
+    } catch (err) {
+      console.error('Revise error:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to revise PAF');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleComment = () =>
+    run('comment', async () => {
+      await addReviewComment(pafRecord.id, section, comment);
+      setComment('');
+    }, 'Comment added');
+
+  const selectedSignatory = signatories?.find((s) => s.id === signatoryId);
+  const openComments = comments?.filter((c) => !c.resolved_at) ?? [];
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Review
+          <Badge variant="outline" className={PAF_STATUS_BADGE_CLASSES[status]}>
+            {PAF_STATUS_LABELS[status]}
+          </Badge>
+        </CardTitle>
+        {canRevise && (
+          <Button size="sm" variant="outline" onClick={handleRevise} disabled={pending !== null}>
+            {pending === 'revise' ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <GitBranch className="mr-1 h-4 w-4" />}
+            Revise
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1 text-sm text-muted-foreground">
+          {pafRecord.supersedes_id && (
+            <p>
+              Revision of{' '}
+              <button className="text-primary underline" onClick={() => navigate(`/edit/${pafRecord.supersedes_id}`)}>
+                an earlier PAF
+              </button>
+              , which it supersedes once approved.
+            </p>
+          )}
+          {pafRecord.reviewer_email && pafRecord.review_requested_at && (
+            <p>Submitted for review to {pafRecord.reviewer_email} on {formatDate(pafRecord.review_requested_at)}.</p>
+          )}
+          {pafRecord.approved_at && (
+            <p className="text-success">
+              <CheckCircle className="inline mr-1 h-4 w-4" />
+              Approved by {pafRecord.approved_by_email || 'unknown user'} on {formatDate(pafRecord.approved_at)}.
+            </p>
+          )}
+          {status === 'superseded' && <p>A later revision of this PAF has been approved.</p>}
+        </div>
+
+        {canSubmit && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1.5">
+              <Label>Reviewer</Label>
+              <Select value={reviewerId} onValueChange={setReviewerId}>
+                <SelectTrigger className="w-72">
+                  <SelectValue placeholder={reviewers?.length === 0 ? 'No reviewers in this organization' : 'Select reviewer'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {reviewers?.map((r) => (
+                    <SelectItem key={r.user_id} value={r.user_id}>
+                      {r.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => run('submit', () => submitForReview(pafRecord.id, reviewerId), 'Submitted for review')}
+              disabled={!reviewerId || pending !== null}
+            >
+              <Send className="mr-2 h-4 w-4" />
+              Submit for Review
+            </Button>
+          </div>
+        )}
+
+        {(canReview || canApprove) && (
+          <div className="flex flex-wrap items-end gap-2">
+            {canReview && (
+              <Button
+                variant="outline"
+                onClick={() => run('request changes', () => requestChanges(pafRecord.id), 'Changes requested')}
+                disabled={pending !== null}
+              >
+                <Undo2 className="mr-2 h-4 w-4" />
+                Request Changes
+              </Button>
+            )}
+            {canApprove && (
+              <>
+                <div className="space-y-1.5">
+                  <Label>Approve as</Label>
+                  <Select value={signatoryId} onValueChange={setSignatoryId}>
+                    <SelectTrigger className="w-72">
+                      <SelectValue
+                        placeholder={
+                          signatories?.length === 0
+                            ? pafRecord.signatory_id
+                              ? "Only the PAF's signatory can approve it"
+                              : 'No signatory linked to your account'
+                            : 'Select authorized signatory'
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {signatories?.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.name}, {s.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="success"
+                  onClick={() => run('approve', () => approvePAF(pafRecord, selectedSignatory!), 'PAF approved')}
+                  disabled={!selectedSignatory || pending !== null}
+                >
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  {selectedSignatory?.certificate_path ? 'Sign & Approve' : 'Approve'}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="border-t pt-4">
+          <p className="mb-2 font-medium flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            Comments
+            {openComments.length > 0 && <Badge variant="secondary">{openComments.length} open</Badge>}
+          </p>
+          {!comments || comments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No review comments.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {comments.map((c) => (
+                <li key={c.id} className={`py-2 flex items-start justify-between gap-4 ${c.resolved_at ? 'opacity-60' : ''}`}>
+                  <div>
+                    <p>
+                      <Badge variant="outline" className="mr-2">
+                        {REVIEW_SECTIONS[c.section as ReviewSection] ?? c.section}
+                      </Badge>
+                      {c.body}
+                    </p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {c.author_email || 'unknown user'} • {formatDate(c.created_at)}
+                      {c.resolved_at && ` • Resolved ${formatDate(c.resolved_at)}`}
+                    </p>
+                  </div>
+                  {!c.resolved_at && canComment && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => run('resolve comment', () => resolveReviewComment(c.id), 'Comment resolved')}
+                      disabled={pending !== null}
+                    >
+                      Resolve
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canComment && (
+            <div className="mt-3 flex flex-wrap items-start gap-2">
+              <Select value={section} onValueChange={(value) => setSection(value as ReviewSection)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REVIEW_SECTIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Add a comment on this section"
+                rows={2}
+                className="flex-1 min-w-64"
+              />
+              <Button onClick={handleComment} disabled={!comment.trim() || pending !== null}>
+                Comment
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Building2, Plus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useActiveEmployer, useSaveEmployer, type EmployerInput } from '@/hooks/useEmployer';
+import { useRoles } from '@/hooks/useRoles';
+import { sectionProfile, type EmployerProfile } from '@/lib/employers';
+import { resolvePAFSections } from '@/lib/pdf/sectionRegistry';
+
+interface EmployerForm {
+  fein: string;
+  legalBusinessName: string;
+  tradeName: string;
+  nameVariants: string;
+  address1: string;
+  address2: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  telephone: string;
+  naicsCode: string;
+}
+
+const emptyForm: EmployerForm = {
+  fein: '',
+  legalBusinessName: '',
+  tradeName: '',
+  nameVariants: '',
+  address1: '',
+  address2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: 'United States Of America',
+  telephone: '',
+  naicsCode: '',
+};
+
+function profileToForm(profile: EmployerProfile): EmployerForm {
+  return {
+    fein: profile.fein,
+    legalBusinessName: profile.legal_business_name,
+    tradeName: profile.trade_name ?? '',
+    nameVariants: profile.name_variants.join('\n'),
+    address1: profile.address1,
+    address2: profile.address2 ?? '',
+    city: profile.city,
+    state: profile.state,
+    postalCode: profile.postal_code,
+    country: profile.country,
+    telephone: profile.telephone ?? '',
+    naicsCode: profile.naics_code ?? '',
+  };
+}
+
+function formToInput(form: EmployerForm): EmployerInput {
+  return {
+    fein: form.fein.trim(),
+    legal_business_name: form.legalBusinessName.trim(),
+    trade_name: form.tradeName.trim() || null,
+    name_variants: form.nameVariants.split('\n').map((name) => name.trim()).filter(Boolean),
+    address1: form.address1.trim(),
+    address2: form.address2.trim() || null,
+    city: form.city.trim(),
+    state: form.state.trim(),
+    postal_code: form.postalCode.trim(),
+    country: form.country.trim(),
+    telephone: form.telephone.trim() || null,
+    naics_code: form.naicsCode.trim() || null,
+  };
+}
+
+const REQUIRED_FIELDS: (keyof EmployerForm)[] = ['fein', 'legalBusinessName', 'address1', 'city', 'state', 'postalCode', 'country'];
+
+// Edits the active employer's profile, or adds another employer to its organization
+export function EmployerProfileCard() {
+  const employer = useActiveEmployer();
+  const saveEmployer = useSaveEmployer();
+  const { hasRole } = useRoles();
+  const canManage = hasRole('admin');
+  const [isNew, setIsNew] = useState(false);
+  const [form, setForm] = useState<EmployerForm>(() => profileToForm(employer));
+  // Sections left out of the employer's PAFs
+  const [disabledSections, setDisabledSections] = useState<string[]>(() => sectionProfile(employer).disabled ?? []);
+
+  // Reload the form when another employer is selected in the header
+  const [loadedId, setLoadedId] = useState(employer.id);
+  if (loadedId !== employer.id) {
+    setLoadedId(employer.id);
+    setIsNew(false);
+    setForm(profileToForm(employer));
+    setDisabledSections(sectionProfile(employer).disabled ?? []);
+  }
+
+  const update = (field: keyof EmployerForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const isComplete = REQUIRED_FIELDS.every((field) => form[field].trim());
+
+  const toggleSection = (id: string, included: boolean) =>
+    setDisabledSections((prev) => (included ? prev.filter((s) => s !== id) : [...prev, id]));
+
+  const handleSave = async () => {
+    await saveEmployer.mutateAsync({
+      ...formToInput(form),
+      section_profile: { order: isNew ? undefined : sectionProfile(employer).order, disabled: disabledSections },
+      ...(!isNew && { id: employer.id }),
+    });
+    setIsNew(false);
+  };
+
+  const handleAdd = () => {
+    setIsNew(true);
+    setForm(emptyForm);
+    setDisabledSections([]);
+  };
+
+  const handleCancel = () => {
+    setIsNew(false);
+    setForm(profileToForm(employer));
+    setDisabledSections(sectionProfile(employer).disabled ?? []);
+  };
+
+  const field = (id: keyof EmployerForm, label: string, placeholder?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`employer-${id}`}>{label}</Label>
+      <Input id={`employer-${id}`} value={form[id]} onChange={update(id)} placeholder={placeholder} />
+    </div>
+  );
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-primary" />
+            <CardTitle>{isNew ? 'New Employer' : 'Employer Profile'}</CardTitle>
+          </div>
+          {!isNew && canManage && (
+            <Button size="sm" variant="outline" onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Employer
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          {isNew
+            ? 'Add a related entity to the same organization. Its LCAs, PAFs and signatories are kept separate.'
+            : 'Defaults for new PAFs of this employer. Name variants match its LCAs in the DOL disclosure data.'}
+          {!canManage && ' Only administrators can change it.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <fieldset disabled={!canManage} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            {field('legalBusinessName', 'Legal Business Name')}
+            {field('tradeName', 'Trade Name / DBA')}
+            {field('fein', 'FEIN', 'XX-XXXXXXX')}
+            {field('naicsCode', 'NAICS Code')}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="employer-nameVariants">Name Variants</Label>
+            <Textarea
+              id="employer-nameVariants"
+              value={form.nameVariants}
+              onChange={update('nameVariants')}
+              placeholder="One spelling per line, as it appears in the disclosure data"
+              rows={3}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {field('address1', 'Address')}
+            {field('address2', 'Suite / Unit')}
+            {field('city', 'City')}
+            {field('state', 'State')}
+            {field('postalCode', 'Postal Code')}
+            {field('country', 'Country')}
+            {field('telephone', 'Telephone')}
+          </div>
+          <div className="space-y-2">
+            <Label>PAF Sections</Label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {resolvePAFSections().map((section) => (
+                <label key={section.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={!disabledSections.includes(section.id)}
+                    onCheckedChange={(checked) => toggleSection(section.id, checked === true)}
+                  />
+                  {section.title}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Unchecked sections are left out of this employer's PAFs.</p>
+          </div>
+          {canManage && (
+            <div className="flex justify-end gap-2">
+              {isNew && (
+                <Button variant="outline" onClick={handleCancel}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={!isComplete || saveEmployer.isPending}>
+                {saveEmployer.isPending ? 'Saving...' : isNew ? 'Add Employer' : 'Save Changes'}
+              </Button>
+            </div>
+          )}
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+}
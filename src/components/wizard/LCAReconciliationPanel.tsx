@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, CheckCircle2, GitCompare, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import type { LCARecord } from './steps/LCASelectionStep';
+import type { LCAScanResult } from './steps/SupportingDocsStep';
+import {
+  formatReconciledValue,
+  reconcileScanWithDisclosure,
+  type LCAReconciliation,
+  type LCAResolution,
+  type ReconciliationChoice,
+} from '@/lib/lcaReconciliation';
+
+interface Decision {
+  choice?: ReconciliationChoice;
+  note: string;
+}
+
+interface LCAReconciliationPanelProps {
+  scanResult: LCAScanResult;
+  // The disclosure row picked on the Select LCA step, if any
+  selectedLca?: LCARecord | null;
+  // Called with the reconciliation so far and whether every difference is resolved
+  onChange: (reconciliation: LCAReconciliation | null, resolved: boolean) => void;
+}
+
+// Compares the scanned LCA with its DOL disclosure row and has the preparer resolve each difference
+export function LCAReconciliationPanel({ scanResult, selectedLca, onChange }: LCAReconciliationPanelProps) {
+  const caseNumber = scanResult.caseNumber?.trim().toUpperCase();
+  const preselected = selectedLca && selectedLca.case_number.toUpperCase() === caseNumber ? selectedLca : null;
+
+  const { data: fetchedLca, isLoading, error } = useQuery({
+    queryKey: ['lca-disclosure-case', caseNumber],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('lca_disclosure')
+        .select('*')
+        .eq('case_number', caseNumber!)
+        .order('decision_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as LCARecord | null;
+    },
+    enabled: !!caseNumber && !preselected,
+  });
+
+  const lca = preselected ?? fetchedLca ?? null;
+  const discrepancies = useMemo(() => (lca ? reconcileScanWithDisclosure(scanResult, lca) : []), [lca, scanResult]);
+  const [checkedAt] = useState(() => new Date().toISOString());
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+
+  const resolutions = useMemo(
+    () => discrepancies.flatMap((discrepancy): LCAResolution[] => {
+      const decision = decisions[discrepancy.field];
+      if (!decision?.choice) return [];
+      return [{ ...discrepancy, choice: decision.choice, note: decision.note.trim() || undefined }];
+    }),
+    [discrepancies, decisions]
+  );
+  const unresolved = discrepancies.length - resolutions.length;
+  const isLookingUp = !!caseNumber && !preselected && isLoading;
+
+  useEffect(() => {
+    if (!lca) {
+      // Nothing to cross-check against; a failed lookup doesn't hold the preparer up
+      onChange(null, !isLookingUp);
+      return;
+    }
+    onChange({ caseNumber: lca.case_number, disclosureId: lca.id, checkedAt, resolutions }, unresolved === 0);
+  }, [lca, resolutions, unresolved, checkedAt, isLookingUp, onChange]);
+
+  const updateDecision = (field: string, update: Partial<Decision>) => {
+    setDecisions((prev) => ({ ...prev, [field]: { note: '', ...prev[field], ...update } }));
+  };
+
+  if (!caseNumber) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-primary" />
+          Cross-check with DOL Disclosure Data
+          {unresolved > 0 && (
+            <Badge variant="outline" className="border-warning/50 text-warning">
+              {unresolved} to resolve
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          The scanned LCA is compared with the imported disclosure record for case {caseNumber}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLookingUp ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Looking up the disclosure record...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            Could not load the disclosure record: {error instanceof Error ? error.message : 'lookup failed'}. The scan was not cross-checked.
+          </p>
+        ) : !lca ? (
+          <p className="text-sm text-muted-foreground">
+            No imported disclosure record has this case number, so the scan was not cross-checked.
+          </p>
+        ) : discrepancies.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-success">
+            <CheckCircle2 className="h-4 w-4" />
+            The scan matches the disclosure record.
+          </div>
+        ) : (
+          <>
+            <div className="flex items-start gap-2 text-sm text-muted-foreground">
+              <AlertTriangle className="h-4 w-4 text-warning mt-0.5 shrink-0" />
+              Choose the value the PAF should use for each difference before continuing. The certified LCA is usually right; the disclosure data may predate a correction.
+            </div>
+            {discrepancies.map((discrepancy) => {
+              const decision = decisions[discrepancy.field];
+              return (
+                <div key={discrepancy.field} className="rounded border border-border p-3 space-y-2">
+                  <p className="text-sm font-medium text-foreground">{discrepancy.label}</p>
+                  <RadioGroup
+                    value={decision?.choice ?? ''}
+                    onValueChange={(choice) => updateDecision(discrepancy.field, { choice: choice as ReconciliationChoice })}
+                    className="grid gap-2 sm:grid-cols-2"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="scan" id={`${discrepancy.field}-scan`} />
+                      <Label htmlFor={`${discrepancy.field}-scan`} className="cursor-pointer font-normal">
+                        LCA scan: <span className="font-medium">{formatReconciledValue(discrepancy.scanned)}</span>
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="disclosure" id={`${discrepancy.field}-disclosure`} />
+                      <Label htmlFor={`${discrepancy.field}-disclosure`} className="cursor-pointer font-normal">
+                        Disclosure data: <span className="font-medium">{formatReconciledValue(discrepancy.disclosure)}</span>
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                  <Input
+                    value={decision?.note ?? ''}
+                    onChange={(e) => updateDecision(discrepancy.field, { note: e.target.value })}
+                    placeholder="Reason (optional)"
+                    className="h-8 text-sm"
+                  />
+                </div>
+              );
+            })}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
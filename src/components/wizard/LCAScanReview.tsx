@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, FileSearch, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { LCAScanResult } from './steps/SupportingDocsStep';
+import { rasterizePdf } from '@/lib/pdf/browserRuntime';
+import type { RasterizedPage } from '@/lib/pdf/runtime';
+import { secondaryWorksiteLabel } from '@/lib/worksites';
+import { SCAN_SOURCE_LABELS, isLowConfidence, type FieldProvenance } from '@/lib/scanProvenance';
+
+const FIELD_LABELS: Record<string, string> = {
+  caseNumber: 'Case Number',
+  caseStatus: 'Case Status',
+  visaClass: 'Visa Class',
+  lcaReceivedDate: 'Received Date',
+  employerName: 'Employer',
+  employerAddress: 'Employer Address',
+  employerCity: 'Employer City',
+  employerState: 'Employer State',
+  employerPostalCode: 'Employer Postal Code',
+  employerPhone: 'Employer Phone',
+  employerFein: 'FEIN',
+  naicsCode: 'NAICS Code',
+  jobTitle: 'Job Title',
+  socCode: 'SOC Code',
+  socTitle: 'SOC Title',
+  isFullTime: 'Full-Time',
+  totalWorkers: 'Workers',
+  beginDate: 'Begin Date',
+  endDate: 'End Date',
+  wageRateFrom: 'Wage From',
+  wageRateTo: 'Wage To',
+  wageUnit: 'Wage Unit',
+  prevailingWage: 'Prevailing Wage',
+  prevailingWageUnit: 'Prevailing Wage Unit',
+  wageLevel: 'Wage Level',
+  wageSourceYear: 'Wage Source Date',
+  worksiteName: 'Secondary Entity',
+  worksiteAddress: 'Worksite Address',
+  worksiteCity: 'Worksite City',
+  worksiteState: 'Worksite State',
+  worksitePostalCode: 'Worksite Postal Code',
+  worksiteCounty: 'Worksite County',
+  h1bDependent: 'H-1B Dependent',
+  willfulViolator: 'Willful Violator',
+  h1bExemptionChecked: 'Exempt Workers Only (H-4)',
+};
+
+const WORKSITE_FIELD_LABELS: Record<string, string> = {
+  worksiteName: 'Secondary Entity',
+  address: 'Address',
+  city: 'City',
+  county: 'County',
+  state: 'State',
+  postalCode: 'Postal Code',
+  prevailingWage: 'Prevailing Wage',
+  prevailingWageUnit: 'Prevailing Wage Unit',
+  wageLevel: 'Wage Level',
+  wageSourceYear: 'Wage Source Date',
+};
+
+interface ReviewRow {
+  key: string;
+  label: string;
+  value: string;
+  provenance: FieldProvenance;
+}
+
+function displayValue(value: unknown): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+}
+
+function reviewRows(result: LCAScanResult): ReviewRow[] {
+  const provenance = result.provenance ?? {};
+  const siteCount = result.secondaryWorksites?.length ?? 0;
+  return Object.entries(provenance).flatMap(([key, source]) => {
+    const [field, index, worksiteField] = key.split('.');
+    const value = index !== undefined
+      ? result.secondaryWorksites?.[Number(index)]?.[worksiteField as keyof NonNullable<LCAScanResult['secondaryWorksites']>[number]]
+      : result[field as keyof LCAScanResult];
+    if (value === undefined || value === null || value === '' || typeof value === 'object') return [];
+    const label = index !== undefined
+      ? `${secondaryWorksiteLabel(Number(index), siteCount)} ${WORKSITE_FIELD_LABELS[worksiteField] ?? worksiteField}`
+      : FIELD_LABELS[field] ?? field;
+    return [{ key, label, value: displayValue(value), provenance: source }];
+  });
+}
+
+interface LCAScanReviewProps {
+  file: File;
+  result: LCAScanResult;
+  // Required fields the scan couldn't read
+  missingFields?: string[];
+}
+
+// Extracted values beside the LCA page each was read from, low-confidence values first
+export function LCAScanReview({ file, result, missingFields = [] }: LCAScanReviewProps) {
+  const rows = useMemo(
+    () => reviewRows(result).sort((a, b) => Number(isLowConfidence(b.provenance)) - Number(isLowConfidence(a.provenance))),
+    [result]
+  );
+  const [selectedKey, setSelectedKey] = useState<string | undefined>(rows[0]?.key);
+  const [pages, setPages] = useState<RasterizedPage[] | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPages(null);
+    setPageError(null);
+    file.arrayBuffer()
+      .then((bytes) => rasterizePdf(bytes, 1.5))
+      .then((rendered) => !cancelled && setPages(rendered))
+      .catch((err) => !cancelled && setPageError(err instanceof Error ? err.message : 'Could not render the LCA'));
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const selected = rows.find((row) => row.key === selectedKey) ?? rows[0];
+  const page = selected?.provenance.page;
+  const pageImage = page && pages ? pages[page - 1] : undefined;
+  const lowCount = rows.filter((row) => isLowConfidence(row.provenance)).length;
+
+  if (rows.length === 0 && missingFields.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileSearch className="h-5 w-5 text-primary" />
+          Review Extracted Fields
+        </CardTitle>
+        <CardDescription>
+          Select a field to see the LCA page it was read from.
+          {lowCount > 0 && ` ${lowCount} low-confidence field${lowCount === 1 ? '' : 's'} should be checked against the LCA.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {missingFields.length > 0 && (
+          <div className="flex items-start gap-2 rounded border border-warning/50 bg-warning/10 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 text-warning mt-0.5 shrink-0" />
+            <div>
+              <p className="font-medium text-foreground">Not found in the LCA</p>
+              <p className="text-muted-foreground">
+                Enter these from the LCA before continuing: {missingFields.map((field) => FIELD_LABELS[field] ?? field).join(', ')}.
+              </p>
+            </div>
+          </div>
+        )}
+        {rows.length > 0 && <div className="grid gap-4 md:grid-cols-2">
+          <div className="max-h-[480px] overflow-y-auto rounded border border-border divide-y divide-border">
+            {rows.map((row) => {
+              const isLow = isLowConfidence(row.provenance);
+              return (
+                <button
+                  key={row.key}
+                  type="button"
+                  onClick={() => setSelectedKey(row.key)}
+                  className={`w-full px-3 py-2 text-left text-sm transition-colors ${
+                    row.key === selected?.key ? 'bg-primary/10' : 'hover:bg-muted/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-muted-foreground">{row.label}</span>
+                    <Badge
+                      variant="outline"
+                      className={isLow ? 'border-warning/50 text-warning' : 'text-muted-foreground'}
+                    >
+                      {isLow && <AlertTriangle className="h-3 w-3 mr-1" />}
+                      {Math.round(row.provenance.confidence * 100)}%
+                    </Badge>
+                  </div>
+                  <div className="font-medium text-foreground truncate">{row.value}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {SCAN_SOURCE_LABELS[row.provenance.source]}
+                    {row.provenance.page ? ` · page ${row.provenance.page}` : ''}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            {selected?.provenance.snippet && (
+              <p className="text-xs text-muted-foreground bg-muted/50 rounded px-2 py-1 font-mono">
+                “{selected.provenance.snippet}”
+              </p>
+            )}
+            <div className="rounded border border-border bg-muted/30 min-h-[240px] flex items-center justify-center overflow-hidden">
+              {pageError ? (
+                <p className="text-sm text-destructive p-4">{pageError}</p>
+              ) : !pages ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Rendering LCA pages...
+                </div>
+              ) : pageImage ? (
+                <img src={pageImage.imageData} alt={`LCA page ${page}`} className="w-full h-auto" />
+              ) : (
+                <p className="text-sm text-muted-foreground p-4">No page was reported for this field.</p>
+              )}
+            </div>
+            {pageImage && <p className="text-xs text-muted-foreground text-center">Page {page} of {pages?.length}</p>}
+          </div>
+        </div>}
+      </CardContent>
+    </Card>
+  );
+}
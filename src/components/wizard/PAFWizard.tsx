@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
 import { WizardProgress } from './WizardProgress';
 import { LCASelectionStep, type LCARecord } from './steps/LCASelectionStep';
 import { EmployerInfoStep } from './steps/EmployerInfoStep';
@@ -8,11 +9,19 @@ import { WageInfoStep } from './steps/WageInfoStep';
 import { SupportingDocsStep, type SupportingDocs, type LCAScanResult } from './steps/SupportingDocsStep';
 import { LCAScanStep } from './steps/LCAScanStep';
 import { ReviewStep } from './steps/ReviewStep';
-import type { PAFData, Employer, JobDetails, WorksiteLocation, WageInfo } from '@/types/paf';
-import { dedupeAddress2, normalizeKnownPostalCode } from '@/lib/addressFormatting';
+import type { PAFData, Employer, JobDetails, WorksiteLocation, WageInfo, SecondaryWorksite } from '@/types/paf';
+import { lcaToPAFData, mapWageUnit, mapWageLevel } from '@/lib/lcaMapping';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useQueryClient } from '@tanstack/react-query';
+import { pafAttachmentPath, pafDataToRecordInsert } from '@/lib/pafRecord';
+import { savePAFVersion } from '@/lib/pafVersions';
+import { complianceOverrideColumns, type ComplianceOverride } from '@/lib/complianceRules';
+import { scannedFieldsFrom, type ScannedFields } from '@/lib/scanProvenance';
+import { lcaReconciliationColumns, type LCAReconciliation } from '@/lib/lcaReconciliation';
+import { profileToEmployer, type EmployerProfile } from '@/lib/employers';
+import { useActiveEmployer } from '@/hooks/useEmployer';
+import { deleteWizardDraft, loadWizardDraft, saveWizardDraft, type WizardDraftState } from '@/lib/wizardDrafts';
 
 const lcaSteps = [
   { id: 0, title: 'Select LCA', description: 'Choose case' },
@@ -38,6 +47,7 @@ const manualSteps = [
 export interface ExtendedPAFData extends PAFData {
   supportingDocs?: SupportingDocs;
   lcaId?: string; // Track the selected LCA ID
+  lcaReconciliation?: LCAReconciliation | null; // Scan vs. disclosure data, resolved on the Scan LCA step
 }
 
 const initialPAFData: Partial<ExtendedPAFData> = {
@@ -52,149 +62,188 @@ const initialPAFData: Partial<ExtendedPAFData> = {
   lcaId: undefined,
 };
 
-// Pre-populated employer for manual mode (same company, just no LCA linkage)
-const DEFAULT_EMPLOYER: Employer = {
-  legalBusinessName: 'Sai Business Solutions LLC',
-  tradeName: 'SBS Corp',
-  address1: '16001 Park Ten Pl',
-  address2: 'Suite 400L',
-  city: 'Houston',
-  state: 'Texas',
-  postalCode: '77084',
-  country: 'United States Of America',
-  telephone: '+12814776467',
-  fein: '20-3420634',
-  naicsCode: '541511',
-};
-
-const manualInitialPAFData: Partial<ExtendedPAFData> = {
-  visaType: 'H-1B',
-  isH1BDependent: false,
-  isWillfulViolator: false,
-  employer: DEFAULT_EMPLOYER,
-  job: {} as JobDetails,
-  worksite: {} as WorksiteLocation,
-  wage: {} as WageInfo,
-  supportingDocs: undefined,
-  lcaId: undefined,
-};
+// Manual mode starts from the active employer's profile (no LCA linkage)
+const manualInitialPAFData = (employer: EmployerProfile): Partial<ExtendedPAFData> => ({
+  ...initialPAFData,
+  employer: profileToEmployer(employer),
+});
+
+// Merges an LCA scan into the wizard data (preserving defaults the scan doesn't cover)
+function applyScanResult(prev: Partial<ExtendedPAFData>, scanData: LCAScanResult): Partial<ExtendedPAFData> {
+  const updated = { ...prev };
+
+  if (scanData.caseNumber) updated.caseNumber = scanData.caseNumber;
+  if (scanData.h1bDependent !== undefined) updated.isH1BDependent = scanData.h1bDependent;
+  if (scanData.willfulViolator !== undefined) updated.isWillfulViolator = scanData.willfulViolator;
+
+  // Update employer info (preserve defaults like FEIN and trade name)
+  if (scanData.employerName || scanData.naicsCode) {
+    updated.employer = {
+      ...(updated.employer || ({} as Employer)),
+      ...(scanData.employerName && { legalBusinessName: scanData.employerName }),
+      ...(scanData.naicsCode && { naicsCode: scanData.naicsCode }),
+    };
+  }
 
-// Helper to map LCA wage unit to PAF wage unit
-function mapWageUnit(unit: string | null): 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year' {
-  if (!unit) return 'Year';
-  const lower = unit.toLowerCase().replace(/[-\s]/g, '');
-  if (lower.includes('hour')) return 'Hour';
-  if (lower.includes('biweekly') || lower.includes('bi-weekly')) return 'Bi-Weekly';
-  if (lower.includes('week')) return 'Week';
-  if (lower.includes('month')) return 'Month';
-  return 'Year';
-}
+  // Update job details
+  if (scanData.jobTitle || scanData.socCode) {
+    updated.job = {
+      ...(updated.job || ({} as JobDetails)),
+      ...(scanData.jobTitle && { jobTitle: scanData.jobTitle }),
+      ...(scanData.socCode && { socCode: scanData.socCode }),
+      ...(scanData.socTitle && { socTitle: scanData.socTitle }),
+      ...(scanData.isFullTime !== undefined && { isFullTime: scanData.isFullTime }),
+      ...(scanData.beginDate && { beginDate: scanData.beginDate }),
+      ...(scanData.endDate && { endDate: scanData.endDate }),
+      ...(scanData.wageRateFrom !== undefined && { wageRateFrom: scanData.wageRateFrom }),
+      ...(scanData.wageRateTo !== undefined && { wageRateTo: scanData.wageRateTo }),
+      ...(scanData.wageUnit && { wageUnit: mapWageUnit(scanData.wageUnit) }),
+      ...(scanData.totalWorkers && { workersNeeded: scanData.totalWorkers }),
+    };
+  }
 
-// Helper to map LCA wage level to PAF wage level
-function mapWageLevel(level: string | null): 'Level I' | 'Level II' | 'Level III' | 'Level IV' {
-  if (!level) return 'Level I';
-  if (level.includes('IV') || level.includes('4')) return 'Level IV';
-  if (level.includes('III') || level.includes('3')) return 'Level III';
-  if (level.includes('II') || level.includes('2')) return 'Level II';
-  return 'Level I';
-}
+  // Update worksite
+  if (scanData.worksiteCity || scanData.worksiteState || scanData.worksiteAddress) {
+    const scannedSecondaries = (scanData.secondaryWorksites ?? []).filter((site) => site.city || site.state);
+    updated.worksite = {
+      ...(updated.worksite || ({} as WorksiteLocation)),
+      ...(scanData.worksiteAddress && { address1: scanData.worksiteAddress }),
+      ...(scanData.worksiteCity && { city: scanData.worksiteCity }),
+      ...(scanData.worksiteState && { state: scanData.worksiteState }),
+      ...(scanData.worksitePostalCode && { postalCode: scanData.worksitePostalCode }),
+      ...(scanData.worksiteCounty && { county: scanData.worksiteCounty }),
+      ...(scanData.worksiteName && { worksiteName: scanData.worksiteName }),
+      ...(scannedSecondaries.length > 0 && {
+        secondaryWorksites: scannedSecondaries.map((site): SecondaryWorksite => ({
+          address1: site.address || '',
+          city: site.city || '',
+          state: site.state || '',
+          postalCode: site.postalCode || '',
+          county: site.county || undefined,
+          worksiteName: site.worksiteName || undefined,
+          // A worksite with the primary prevailing wage needs no separate wage report
+          ...(site.prevailingWage && site.prevailingWage !== scanData.prevailingWage && {
+            wage: {
+              prevailingWage: site.prevailingWage,
+              prevailingWageUnit: mapWageUnit(site.prevailingWageUnit ?? null),
+              wageLevel: mapWageLevel(site.wageLevel ?? null),
+              wageSource: updated.wage?.wageSource || '',
+              wageSourceDate: site.wageSourceYear || scanData.wageSourceYear || updated.wage?.wageSourceDate || '',
+            },
+          }),
+        })),
+      }),
+    };
+  }
 
-// Calculate wage source date based on LCA begin date
-// Rule: Always use July 1st of the PREVIOUS year
-// Example: Oct 1, 2025 → July 1, 2024
-function calculateWageSourceDate(lcaBeginDate: string | null): string {
-  if (!lcaBeginDate) {
-    // Fallback: use July 1 of previous year
-    const currentYear = new Date().getFullYear();
-    return `${currentYear - 1}-07-01`;
+  // Update wage info
+  if (scanData.prevailingWage !== undefined || scanData.wageSourceYear) {
+    updated.wage = {
+      ...(updated.wage || ({} as WageInfo)),
+      ...(scanData.prevailingWage !== undefined && { prevailingWage: scanData.prevailingWage }),
+      ...(scanData.prevailingWageUnit && { prevailingWageUnit: mapWageUnit(scanData.prevailingWageUnit) }),
+      ...(scanData.wageLevel && { wageLevel: mapWageLevel(scanData.wageLevel) }),
+      ...(scanData.wageSourceYear && { wageSourceDate: scanData.wageSourceYear }),
+    };
   }
-  
-  const beginDate = new Date(lcaBeginDate);
-  const year = beginDate.getFullYear();
-  
-  // Always use July 1 of the previous year
-  return `${year - 1}-07-01`;
-}
 
-// Default employer constants
-const DEFAULT_FEIN = '20-3420634';
-const DEFAULT_TRADE_NAME = 'SBS Corp';
+  return updated;
+}
 
 interface PAFWizardProps {
   mode?: 'lca' | 'manual';
+  // Saved draft to resume (from the dashboard's Drafts list)
+  draftId?: string;
 }
 
-export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
+export function PAFWizard({ mode = 'lca', draftId: resumeDraftId }: PAFWizardProps) {
   const isManual = mode === 'manual';
   const steps = isManual ? manualSteps : lcaSteps;
+  const activeEmployer = useActiveEmployer();
   const [currentStep, setCurrentStep] = useState(0);
-  const [pafData, setPafData] = useState<Partial<ExtendedPAFData>>(isManual ? manualInitialPAFData : initialPAFData);
+  const [pafData, setPafData] = useState<Partial<ExtendedPAFData>>(() => (isManual ? manualInitialPAFData(activeEmployer) : initialPAFData));
   const [selectedLca, setSelectedLca] = useState<LCARecord | null>(null);
+  const [scannedFields, setScannedFields] = useState<ScannedFields>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Auto-saved draft of the wizard; saves run one after another
+  const draftIdRef = useRef<string | null>(null);
+  const lastSavedStepRef = useRef(0);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const [restoring, setRestoring] = useState(!!resumeDraftId);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!resumeDraftId) return;
+    let cancelled = false;
+    loadWizardDraft<Partial<ExtendedPAFData>>(resumeDraftId)
+      .then((draft) => {
+        if (cancelled) return;
+        draftIdRef.current = resumeDraftId;
+        lastSavedStepRef.current = draft.currentStep;
+        setPafData(draft.data);
+        setSelectedLca(draft.selectedLca as LCARecord | null);
+        setScannedFields((draft.scannedFields ?? {}) as ScannedFields);
+        setCurrentStep(draft.currentStep);
+      })
+      .catch((error) => {
+        console.error('Draft resume error:', error);
+        toast({
+          title: 'Could not resume draft',
+          description: 'Starting a new PAF instead.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeDraftId, toast]);
+
+  // Latest wizard state, read by the autosave below when the step changes
+  const draftStateRef = useRef<WizardDraftState<Partial<ExtendedPAFData>> | null>(null);
+  useEffect(() => {
+    draftStateRef.current = {
+      mode,
+      currentStep,
+      title: pafData.job?.jobTitle || pafData.caseNumber || null,
+      data: pafData,
+      selectedLca,
+      scannedFields,
+    };
+  });
+
+  // Save at every step transition past the first, so a refresh or expired
+  // session doesn't lose the PAF. Failing to save doesn't block the wizard.
+  useEffect(() => {
+    const state = draftStateRef.current;
+    if (!state || restoring || currentStep === 0 || currentStep === lastSavedStepRef.current) return;
+    lastSavedStepRef.current = currentStep;
+    saveQueue.current = saveQueue.current.then(async () => {
+      try {
+        draftIdRef.current = await saveWizardDraft(draftIdRef.current, activeEmployer.id, state);
+        setLastSavedAt(new Date());
+        queryClient.invalidateQueries({ queryKey: ['wizard-drafts'] });
+      } catch (error) {
+        console.warn('Saving wizard draft failed (non-fatal):', error);
+      }
+    });
+  }, [currentStep, restoring, activeEmployer.id, queryClient]);
+
   const handleLCASelect = (lca: LCARecord) => {
     setSelectedLca(lca);
     
     // Auto-fill all available fields from LCA
-    // Use default FEIN and Trade Name for all cases
-    const employer: Employer = {
-      legalBusinessName: lca.employer_name,
-      tradeName: DEFAULT_TRADE_NAME,
-      address1: lca.employer_address1 || '',
-      address2: lca.employer_address2 || undefined,
-      city: lca.employer_city || '',
-      state: lca.employer_state || '',
-      postalCode: lca.employer_postal_code || '',
-      country: lca.employer_country || 'United States',
-      telephone: lca.employer_phone || '',
-      fein: DEFAULT_FEIN,
-      naicsCode: lca.naics_code || '',
-    };
-    const job: JobDetails = {
-      jobTitle: lca.job_title || '',
-      socCode: lca.soc_code || '',
-      socTitle: lca.soc_title || '',
-      isFullTime: lca.full_time_position ?? true,
-      beginDate: lca.begin_date || '',
-      endDate: lca.end_date || '',
-      wageRateFrom: lca.wage_rate_from || 0,
-      wageRateTo: lca.wage_rate_to || undefined,
-      wageUnit: mapWageUnit(lca.wage_unit),
-      workersNeeded: lca.total_workers || 1,
-    };
-
-    const worksite: WorksiteLocation = {
-      address1: '', // Not in LCA disclosure
-      city: lca.worksite_city || '',
-      state: lca.worksite_state || '',
-      postalCode: lca.worksite_postal_code || '',
-      county: lca.worksite_county || undefined,
-    };
-
-    // Calculate wage source date based on LCA begin date
-    const wageSourceDate = calculateWageSourceDate(lca.begin_date);
-
-    const wage: Partial<WageInfo> = {
-      prevailingWage: lca.prevailing_wage || 0,
-      prevailingWageUnit: mapWageUnit(lca.wage_unit),
-      wageLevel: mapWageLevel(lca.pw_wage_level),
-      wageSource: 'OFLC Online Wage Library',
-      wageSourceDate: wageSourceDate,
-    };
-    // Note: h1b_dependent may be null in older LCA imports — scan step will override from PDF
+    const lcaData = lcaToPAFData(lca, activeEmployer);
     setPafData((prev) => ({
       ...prev,
+      ...lcaData,
+      // The actual wage is entered on the Wages step
+      wage: lcaData.wage as WageInfo,
       lcaId: lca.id,
-      caseNumber: lca.case_number,
-      caseStatus: 'Certified',
-      visaType: 'H-1B',
-      isH1BDependent: lca.h1b_dependent === true, // only true if explicitly true; scan step overrides from PDF
-      isWillfulViolator: lca.willful_violator === true,
-      employer,
-      job,
-      worksite,
-      wage: wage as WageInfo,
     }));
 
     setCurrentStep(1); // Go to LCA Scan step
@@ -218,28 +267,33 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
     setCurrentStep(stepIndex.job);
   };
 
-  const handleLCAScanNext = (file: File | null, scanResult: LCAScanResult | null) => {
+  const handleLCAScanNext = (file: File | null, scanResult: LCAScanResult | null, reconciliation: LCAReconciliation | null) => {
+    // Differences resolved to the disclosure value replace what the scan filled in
+    const usesDisclosure = !!scanResult && !!reconciliation?.resolutions.some((resolution) => resolution.choice === 'disclosure');
+    const current = usesDisclosure ? applyScanResult(pafData, scanResult) : pafData;
+    if (usesDisclosure) setScannedFields(scannedFieldsFrom(scanResult.provenance, current));
+
     // Store the LCA file and apply scan result data to pafData
-    setPafData((prev) => {
-      const updated: Partial<ExtendedPAFData> = {
-        ...prev,
-        supportingDocs: {
-          ...(prev.supportingDocs || {}),
-          lcaFile: file,
-          lcaCaseNumber: scanResult?.caseNumber || prev.supportingDocs?.lcaCaseNumber || '',
-        } as SupportingDocs,
-      };
+    const updated: Partial<ExtendedPAFData> = {
+      ...current,
+      lcaReconciliation: reconciliation,
+      supportingDocs: {
+        ...(current.supportingDocs || {}),
+        lcaFile: file,
+        lcaCaseNumber: scanResult?.caseNumber || current.supportingDocs?.lcaCaseNumber || '',
+        lcaReceivedDate: scanResult?.lcaReceivedDate || current.supportingDocs?.lcaReceivedDate || selectedLca?.received_date || undefined,
+      } as SupportingDocs,
+    };
 
-      // Apply h1bDependent and willfulViolator from scan result if available
-      if (scanResult?.h1bDependent !== undefined && scanResult?.h1bDependent !== null) {
-        updated.isH1BDependent = scanResult.h1bDependent;
-      }
-      if (scanResult?.willfulViolator !== undefined && scanResult?.willfulViolator !== null) {
-        updated.isWillfulViolator = scanResult.willfulViolator;
-      }
+    // Apply h1bDependent and willfulViolator from scan result if available
+    if (scanResult?.h1bDependent !== undefined && scanResult?.h1bDependent !== null) {
+      updated.isH1BDependent = scanResult.h1bDependent;
+    }
+    if (scanResult?.willfulViolator !== undefined && scanResult?.willfulViolator !== null) {
+      updated.isWillfulViolator = scanResult.willfulViolator;
+    }
 
-      return updated;
-    });
+    setPafData(updated);
     // In LCA mode go to employer step; in manual mode go directly to job step
     setCurrentStep(isManual ? stepIndex.job : stepIndex.employer);
   };
@@ -254,8 +308,12 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
     setCurrentStep(stepIndex.wages);
   };
 
-  const handleWageNext = (wage: WageInfo) => {
-    setPafData((prev) => ({ ...prev, wage }));
+  const handleWageNext = (wage: WageInfo, secondaryWorksites: SecondaryWorksite[]) => {
+    setPafData((prev) => ({
+      ...prev,
+      wage,
+      worksite: prev.worksite && { ...prev.worksite, secondaryWorksites },
+    }));
     setCurrentStep(stepIndex.docs);
   };
 
@@ -272,84 +330,17 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
   };
 
   const handleLCAScanComplete = (scanData: LCAScanResult) => {
-    setPafData((prev) => {
-      const updated = { ...prev };
-
-      if (scanData.caseNumber) updated.caseNumber = scanData.caseNumber;
-      if (scanData.h1bDependent !== undefined) updated.isH1BDependent = scanData.h1bDependent;
-      if (scanData.willfulViolator !== undefined) updated.isWillfulViolator = scanData.willfulViolator;
-
-      // Update employer info (preserve defaults like FEIN and trade name)
-      if (scanData.employerName || scanData.naicsCode) {
-        updated.employer = {
-          ...(updated.employer || ({} as Employer)),
-          ...(scanData.employerName && { legalBusinessName: scanData.employerName }),
-          ...(scanData.naicsCode && { naicsCode: scanData.naicsCode }),
-        };
-      }
-
-      // Update job details
-      if (scanData.jobTitle || scanData.socCode) {
-        updated.job = {
-          ...(updated.job || ({} as JobDetails)),
-          ...(scanData.jobTitle && { jobTitle: scanData.jobTitle }),
-          ...(scanData.socCode && { socCode: scanData.socCode }),
-          ...(scanData.socTitle && { socTitle: scanData.socTitle }),
-          ...(scanData.isFullTime !== undefined && { isFullTime: scanData.isFullTime }),
-          ...(scanData.beginDate && { beginDate: scanData.beginDate }),
-          ...(scanData.endDate && { endDate: scanData.endDate }),
-          ...(scanData.wageRateFrom !== undefined && { wageRateFrom: scanData.wageRateFrom }),
-          ...(scanData.wageRateTo !== undefined && { wageRateTo: scanData.wageRateTo }),
-          ...(scanData.wageUnit && { wageUnit: mapWageUnit(scanData.wageUnit) }),
-          ...(scanData.totalWorkers && { workersNeeded: scanData.totalWorkers }),
-        };
-      }
-
-      // Update worksite
-      if (scanData.worksiteCity || scanData.worksiteState || scanData.worksiteAddress) {
-        const hasSecondary = scanData.hasSecondaryWorksite && (scanData.secondaryWorksiteCity || scanData.secondaryWorksiteState);
-        updated.worksite = {
-          ...(updated.worksite || ({} as WorksiteLocation)),
-          ...(scanData.worksiteAddress && { address1: scanData.worksiteAddress }),
-          ...(scanData.worksiteCity && { city: scanData.worksiteCity }),
-          ...(scanData.worksiteState && { state: scanData.worksiteState }),
-          ...(scanData.worksitePostalCode && { postalCode: scanData.worksitePostalCode }),
-          ...(scanData.worksiteCounty && { county: scanData.worksiteCounty }),
-          ...(scanData.worksiteName && { worksiteName: scanData.worksiteName }),
-          ...(hasSecondary && {
-            hasSecondaryWorksite: true,
-            secondaryWorksite: {
-              ...(scanData.secondaryWorksiteAddress && { address1: scanData.secondaryWorksiteAddress }),
-              ...(scanData.secondaryWorksiteCity && { city: scanData.secondaryWorksiteCity }),
-              ...(scanData.secondaryWorksiteState && { state: scanData.secondaryWorksiteState }),
-              ...(scanData.secondaryWorksitePostalCode && { postalCode: scanData.secondaryWorksitePostalCode }),
-              ...(scanData.secondaryWorksiteCounty && { county: scanData.secondaryWorksiteCounty }),
-              ...(scanData.secondaryWorksiteName && { worksiteName: scanData.secondaryWorksiteName }),
-            },
-          }),
-        };
-      }
-
-      // Update wage info
-      if (scanData.prevailingWage !== undefined || scanData.wageSourceYear) {
-        updated.wage = {
-          ...(updated.wage || ({} as WageInfo)),
-          ...(scanData.prevailingWage !== undefined && { prevailingWage: scanData.prevailingWage }),
-          ...(scanData.prevailingWageUnit && { prevailingWageUnit: mapWageUnit(scanData.prevailingWageUnit) }),
-          ...(scanData.wageLevel && { wageLevel: mapWageLevel(scanData.wageLevel) }),
-          ...(scanData.wageSourceYear && { wageSourceDate: scanData.wageSourceYear }),
-        };
-      }
-
-      return updated;
-    });
+    const updated = applyScanResult(pafData, scanData);
+    setPafData(updated);
+    // Remember what each field was filled with so the steps can flag it
+    setScannedFields(scannedFieldsFrom(scanData.provenance, updated));
   };
 
   const handleEdit = (step: number) => {
     setCurrentStep(step);
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (pdf?: Blob, override?: ComplianceOverride) => {
     // IMPORTANT: Persist the generated PAF into paf_records so it shows up on
     // /generated-pafs and can be opened via /edit/:id.
     try {
@@ -357,132 +348,74 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
         throw new Error('Missing PAF data');
       }
 
-      const employer = pafData.employer;
-      const job = pafData.job;
-      const worksite = pafData.worksite;
-      const wage = pafData.wage;
-      const employerAddress2 = dedupeAddress2(employer.address1, employer.address2) ? employer.address2 ?? null : null;
-      const worksiteAddress2 = dedupeAddress2(worksite.address1, worksite.address2) ? worksite.address2 ?? null : null;
-      const employerPostalCode = normalizeKnownPostalCode(employer.postalCode, {
-        address1: employer.address1,
-        city: employer.city,
-        state: employer.state,
-        legalBusinessName: employer.legalBusinessName,
-        tradeName: employer.tradeName,
-      });
-      const worksitePostalCode = normalizeKnownPostalCode(worksite.postalCode, {
-        address1: worksite.address1,
-        city: worksite.city,
-        state: worksite.state,
-        legalBusinessName: employer.legalBusinessName,
-        tradeName: employer.tradeName,
-      });
-
       // Determine LCA status: manual mode uses the certified toggle, LCA mode is always certified
       const lcaStatus = isManual 
         ? (pafData.supportingDocs?.isCertifiedLCA === false ? 'in_process' : 'certified')
         : 'certified';
 
-      // Upload posting proof file if provided (optional)
-      let noticePostingProofPath: string | null = null;
-      if (pafData.supportingDocs?.noticePostingProof) {
-        const proofFile = pafData.supportingDocs.noticePostingProof;
-        const ext = proofFile.name.split('.').pop() || 'pdf';
-        const filePath = `posting-proofs/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
-        const { error: uploadError } = await supabase.storage
-          .from('paf-documents')
-          .upload(filePath, proofFile, { contentType: proofFile.type });
-        if (!uploadError) {
-          noticePostingProofPath = filePath;
-        } else {
-          console.warn('Posting proof upload failed (non-fatal):', uploadError.message);
-        }
-      }
+      // Attachments are stored under the record's folder, which storage access
+      // is scoped by, so the record id is chosen before inserting it
+      const recordId = crypto.randomUUID();
+      const lcaFile = pafData.supportingDocs?.lcaFile;
+      const noticePostingProof = pafData.supportingDocs?.noticePostingProof;
+      const wageSourceDocument = pafData.wage.wageSourceDetails?.document;
+      const lcaFilePath = lcaFile ? pafAttachmentPath(recordId, lcaFile.name) : null;
+      const noticePostingProofPath = noticePostingProof ? pafAttachmentPath(recordId, noticePostingProof.name) : null;
+      const wageSourceDocumentPath = wageSourceDocument ? pafAttachmentPath(recordId, wageSourceDocument.name) : null;
 
       const { data: created, error: insertError } = await supabase
         .from('paf_records')
         .insert({
-          visa_type: pafData.visaType ?? 'H-1B',
-          lca_case_number: pafData.caseNumber ?? pafData.supportingDocs?.lcaCaseNumber ?? null,
-          lca_status: lcaStatus,
-
-          is_h1b_dependent: pafData.isH1BDependent ?? false,
-          is_willful_violator: pafData.isWillfulViolator ?? false,
-          is_full_time: job.isFullTime ?? true,
-          is_rd: job.isRD ?? false,
-
-          employer_legal_name: employer.legalBusinessName,
-          employer_trade_name: employer.tradeName ?? null,
-          employer_address1: employer.address1,
-          employer_address2: employerAddress2,
-          employer_city: employer.city,
-          employer_state: employer.state,
-          employer_postal_code: employerPostalCode,
-          employer_country: employer.country,
-          employer_telephone: employer.telephone,
-          employer_fein: employer.fein,
-          employer_naics_code: employer.naicsCode,
-
-          job_title: job.jobTitle,
-          soc_code: job.socCode,
-          soc_title: job.socTitle,
-          onet_code: job.onetCode ?? null,
-          onet_title: job.onetTitle ?? null,
-
-          begin_date: job.beginDate,
-          end_date: job.endDate,
-          wage_rate_from: job.wageRateFrom,
-          wage_rate_to: job.wageRateTo ?? null,
-          wage_unit: job.wageUnit,
-          workers_needed: job.workersNeeded ?? 1,
-
-          worksite_address1: worksite.address1,
-          worksite_address2: worksiteAddress2,
-          worksite_city: worksite.city,
-          worksite_state: worksite.state,
-          worksite_postal_code: worksitePostalCode,
-          worksite_county: worksite.county ?? null,
-          worksite_area_code: worksite.areaCode ?? null,
-          worksite_area_name: worksite.areaName ?? null,
-
-          prevailing_wage: wage.prevailingWage,
-          prevailing_wage_unit: wage.prevailingWageUnit,
-          wage_level: wage.wageLevel,
-          wage_source: wage.wageSource,
-          wage_source_date: wage.wageSourceDate,
-          actual_wage: wage.actualWage,
-          actual_wage_unit: wage.actualWageUnit,
-
-          // Posting dates and locations
-          notice_posting_start_date: pafData.supportingDocs?.noticePostingStartDate || null,
-          notice_posting_end_date: (isManual && pafData.supportingDocs?.isCertifiedLCA === false)
-            ? null  // Leave blank for in-process LCAs
-            : pafData.supportingDocs?.noticePostingEndDate || null,
-          notice_posting_location: pafData.supportingDocs?.noticePostingLocation || null,
-          notice_posting_location2: pafData.supportingDocs?.noticePostingLocation2 || null,
-          notice_posting_location3: pafData.supportingDocs?.noticePostingLocation3 || null,
-          notice_posting_location4: pafData.supportingDocs?.noticePostingLocation4 || null,
-
-          // File paths
-          lca_file_path: null,
-          actual_wage_memo_path: null,
-          notice_posting_proof_path: noticePostingProofPath,
-          benefits_comparison_path: null,
+          id: recordId,
+          ...pafDataToRecordInsert(pafData as PAFData, pafData.supportingDocs, lcaStatus, activeEmployer, {
+            lcaFilePath,
+            noticePostingProofPath,
+            wageSourceDocumentPath,
+          }),
+          ...complianceOverrideColumns(override),
+          ...lcaReconciliationColumns(pafData.lcaReconciliation),
         })
         .select('id')
         .single();
 
       if (insertError) throw insertError;
 
+      // Upload the attachments, so regenerating the PAF later includes them too;
+      // a failed upload doesn't block saving the record
+      const uploadAttachment = async (
+        file: File | null | undefined,
+        filePath: string | null,
+        column: 'lca_file_path' | 'notice_posting_proof_path' | 'wage_source_document_path',
+        description: string
+      ) => {
+        if (!file || !filePath) return;
+        const { error: uploadError } = await supabase.storage
+          .from('paf-documents')
+          .upload(filePath, file, { contentType: file.type });
+        if (!uploadError) return;
+        console.warn(`${description} upload failed (non-fatal):`, uploadError.message);
+        await supabase.from('paf_records').update({ [column]: null }).eq('id', created.id);
+      };
+      await uploadAttachment(lcaFile, lcaFilePath, 'lca_file_path', 'LCA');
+      await uploadAttachment(noticePostingProof, noticePostingProofPath, 'notice_posting_proof_path', 'Posting proof');
+      await uploadAttachment(wageSourceDocument, wageSourceDocumentPath, 'wage_source_document_path', 'Wage source document');
+
+      // Store the exact PDF that was downloaded as version 1. If this fails the
+      // record is still saved; its first download generates the version instead.
+      if (pdf) {
+        try {
+          await savePAFVersion(created.id, pdf);
+        } catch (versionError) {
+          console.warn('Storing PAF version failed (non-fatal):', versionError);
+        }
+      }
+
       // Mark LCA as PAF generated *only after* paf_records is created.
       if (pafData.lcaId) {
-        const { error: lcaError } = await supabase
-          .from('lca_disclosure')
-          .update({
-            paf_generated: true,
-            paf_generated_at: new Date().toISOString(),
-          })
-          .eq('id', pafData.lcaId);
+        const { error: lcaError } = await supabase.rpc('mark_lca_paf_generated', {
+          p_lca_id: pafData.lcaId,
+          p_paf_record_id: created.id,
+        });
 
         if (lcaError) throw lcaError;
       }
@@ -495,13 +428,28 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
       queryClient.invalidateQueries({ queryKey: ['generated-lcas'] });
 
       toast({
-        title: 'PAF Saved Successfully',
-        description: `Saved as an editable record${created?.id ? ` (ID: ${created.id})` : ''}.`,
+        title: 'PAF Saved as Draft',
+        description: `Submit it for review from the PAF's page${created?.id ? ` (ID: ${created.id})` : ''}.`,
+      });
+
+      // The draft is now a PAF record
+      saveQueue.current = saveQueue.current.then(async () => {
+        if (!draftIdRef.current) return;
+        try {
+          await deleteWizardDraft(draftIdRef.current);
+        } catch (draftError) {
+          console.warn('Deleting wizard draft failed (non-fatal):', draftError);
+        }
+        draftIdRef.current = null;
+        setLastSavedAt(null);
+        queryClient.invalidateQueries({ queryKey: ['wizard-drafts'] });
       });
+      lastSavedStepRef.current = 0;
 
       // Reset wizard for next PAF
-      setPafData(initialPAFData);
+      setPafData(isManual ? manualInitialPAFData(activeEmployer) : initialPAFData);
       setSelectedLca(null);
+      setScannedFields({});
       setCurrentStep(0);
     } catch (error: any) {
       console.error('PAF save error:', error);
@@ -517,6 +465,15 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
     setCurrentStep((prev) => Math.max(0, prev - 1));
   };
 
+  if (restoring) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Restoring draft...
+      </div>
+    );
+  }
+
   return (
     <div className="w-full max-w-4xl mx-auto">
       <div className="mb-8">
@@ -525,6 +482,11 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
           currentStep={currentStep}
           onStepClick={(step) => step < currentStep && setCurrentStep(step)}
         />
+        {lastSavedAt && (
+          <p className="mt-2 text-right text-xs text-muted-foreground">
+            Draft saved at {lastSavedAt.toLocaleTimeString()}
+          </p>
+        )}
       </div>
 
       <div className="paf-section">
@@ -537,12 +499,14 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
             onNext={handleLCAScanNext}
             onBack={goBack}
             onScanComplete={handleLCAScanComplete}
+            selectedLca={selectedLca}
           />
         )}
 
         {currentStep === stepIndex.employer && (
           <EmployerInfoStep 
             data={pafData.employer || {}} 
+            scannedFields={scannedFields}
             onNext={handleEmployerNext}
             onBack={goBack}
           />
@@ -551,6 +515,7 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
         {currentStep === stepIndex.job && (
           <JobDetailsStep 
             data={pafData.job || {}} 
+            scannedFields={scannedFields}
             onNext={handleJobNext}
             onBack={goBack}
           />
@@ -559,6 +524,7 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
         {currentStep === stepIndex.worksite && (
           <WorksiteStep 
             data={pafData.worksite || {}} 
+            scannedFields={scannedFields}
             onNext={handleWorksiteNext}
             onBack={goBack}
           />
@@ -569,6 +535,8 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
             data={pafData.wage || {}} 
             worksite={pafData.worksite}
             job={pafData.job}
+            lcaReceivedDate={pafData.supportingDocs?.lcaReceivedDate}
+            scannedFields={scannedFields}
             onNext={handleWageNext}
             onBack={goBack}
           />
@@ -580,7 +548,7 @@ export function PAFWizard({ mode = 'lca' }: PAFWizardProps) {
             onNext={handleSupportingDocsNext}
             onBack={goBack}
             isManualMode={isManual}
-            hasSecondaryWorksite={pafData.worksite?.hasSecondaryWorksite ?? false}
+            hasSecondaryWorksite={(pafData.worksite?.secondaryWorksites?.length ?? 0) > 0}
             onScanComplete={handleLCAScanComplete}
           />
         )}
@@ -0,0 +1,46 @@
+import { AlertTriangle, PencilLine, ScanLine } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { describeProvenance, scanFieldState, type ScannedField } from '@/lib/scanProvenance';
+
+interface ScanFieldHintProps {
+  field?: ScannedField;
+  // The field's current form value
+  value: unknown;
+}
+
+// Marks a wizard field the LCA scan filled: auto-filled, low confidence, or since edited
+export function ScanFieldHint({ field, value }: ScanFieldHintProps) {
+  const state = scanFieldState(field, value);
+  if (!field || !state) return null;
+
+  const { provenance } = field;
+  const badge = {
+    auto: { icon: ScanLine, text: 'From LCA', className: 'border-primary/30 text-primary' },
+    low: { icon: AlertTriangle, text: 'Check LCA', className: 'border-warning/50 text-warning' },
+    overridden: { icon: PencilLine, text: 'Edited', className: 'text-muted-foreground' },
+  }[state];
+  const Icon = badge.icon;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`ml-2 px-1.5 py-0 text-[10px] font-medium ${badge.className}`}>
+          <Icon className="h-3 w-3 mr-1" />
+          {badge.text}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs text-xs">
+        <p>
+          {state === 'overridden'
+            ? `Changed from the scanned value "${String(field.value)}".`
+            : state === 'low'
+              ? 'Low-confidence scan; check this value against the LCA.'
+              : 'Filled from the LCA scan.'}
+        </p>
+        <p className="text-muted-foreground mt-1">{describeProvenance(provenance)}</p>
+        {provenance.snippet && <p className="font-mono mt-1">“{provenance.snippet}”</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
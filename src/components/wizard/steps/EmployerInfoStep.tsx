@@ -17,28 +17,10 @@ import {
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useSignatories } from '@/hooks/useSignatories';
+import { useActiveEmployer } from '@/hooks/useEmployer';
 import type { Employer } from '@/types/paf';
-
-const PRESET_ADDRESSES = [
-  {
-    id: 'fulshear',
-    label: '5757 Flewellen Oaks Ln, Suite 704 – Fulshear, TX 77441',
-    address1: '5757 Flewellen Oaks Ln',
-    address2: 'Suite 704',
-    city: 'Fulshear',
-    state: 'Texas',
-    postalCode: '77441',
-  },
-  {
-    id: 'houston',
-    label: '16001 Park Ten PL, Suite 400L – Houston, TX 77084',
-    address1: '16001 Park Ten PL',
-    address2: 'Suite 400L',
-    city: 'Houston',
-    state: 'Texas',
-    postalCode: '77084',
-  },
-];
+import { ScanFieldHint } from '@/components/wizard/ScanFieldHint';
+import type { ScannedFields } from '@/lib/scanProvenance';
 
 const US_STATES = [
   'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut',
@@ -71,12 +53,15 @@ const employerSchema = z.object({
 
 interface EmployerInfoStepProps {
   data: Partial<Employer>;
+  // Fields filled from the LCA scan
+  scannedFields?: ScannedFields;
   onNext: (data: Employer) => void;
   onBack?: () => void;
 }
 
-export function EmployerInfoStep({ data, onNext, onBack }: EmployerInfoStepProps) {
+export function EmployerInfoStep({ data, scannedFields, onNext, onBack }: EmployerInfoStepProps) {
   const { data: signatories, isLoading: signatoriesLoading } = useSignatories();
+  const employer = useActiveEmployer();
 
   const {
     register,
@@ -93,6 +78,10 @@ export function EmployerInfoStep({ data, onNext, onBack }: EmployerInfoStepProps
     },
   });
 
+  const scanHint = (name: keyof Employer) => (
+    <ScanFieldHint field={scannedFields?.[`employer.${name}`]} value={watch(name)} />
+  );
+
   // Set default signatory once loaded
   const selectedSignatoryId = watch('signatoryId');
   const currentSignatory = signatories?.find(s => s.id === selectedSignatoryId);
@@ -141,6 +130,7 @@ export function EmployerInfoStep({ data, onNext, onBack }: EmployerInfoStepProps
         <div className="grid gap-6 md:grid-cols-2">
           <div className="md:col-span-2">
             <Label htmlFor="legalBusinessName">Legal Business Name *</Label>
+            {scanHint('legalBusinessName')}
             <Input
               id="legalBusinessName"
               {...register('legalBusinessName')}
@@ -162,36 +152,35 @@ export function EmployerInfoStep({ data, onNext, onBack }: EmployerInfoStepProps
             />
           </div>
 
-          {/* Preset Address Quick-Fill */}
+          {/* Employer Address Quick-Fill, from the active employer's profile */}
           <div className="md:col-span-2">
             <Label className="flex items-center gap-1.5 mb-2">
               <MapPin className="h-3.5 w-3.5 text-accent" />
               Quick-Fill Employer Address
             </Label>
             <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
-              {PRESET_ADDRESSES.map((preset) => (
-                <button
-                  key={preset.id}
-                  type="button"
-                  onClick={() => {
-                    setValue('address1', preset.address1);
-                    setValue('address2', preset.address2);
-                    setValue('city', preset.city);
-                    setValue('state', preset.state);
-                    setValue('postalCode', preset.postalCode);
-                  }}
-                  className={`text-left rounded-lg border px-4 py-3 text-sm transition-colors hover:border-primary hover:bg-primary/5 ${
-                    watch('address1') === preset.address1 && watch('city') === preset.city
-                      ? 'border-primary bg-primary/5'
-                      : 'border-border'
-                  }`}
-                >
-                  <p className="font-medium text-foreground">{preset.address1}, {preset.address2}</p>
-                  <p className="text-xs text-muted-foreground mt-0.5">{preset.city}, {preset.state} {preset.postalCode}</p>
-                </button>
-              ))}
+              <button
+                type="button"
+                onClick={() => {
+                  setValue('address1', employer.address1);
+                  setValue('address2', employer.address2 ?? '');
+                  setValue('city', employer.city);
+                  setValue('state', employer.state);
+                  setValue('postalCode', employer.postal_code);
+                }}
+                className={`text-left rounded-lg border px-4 py-3 text-sm transition-colors hover:border-primary hover:bg-primary/5 ${
+                  watch('address1') === employer.address1 && watch('city') === employer.city
+                    ? 'border-primary bg-primary/5'
+                    : 'border-border'
+                }`}
+              >
+                <p className="font-medium text-foreground">
+                  {[employer.address1, employer.address2].filter(Boolean).join(', ')}
+                </p>
+                <p className="text-xs text-muted-foreground mt-0.5">{employer.city}, {employer.state} {employer.postal_code}</p>
+              </button>
             </div>
-            <p className="mt-2 text-xs text-muted-foreground">Select a location above to auto-fill, or type manually below.</p>
+            <p className="mt-2 text-xs text-muted-foreground">Use the address on {employer.legal_business_name}'s profile, or type manually below.</p>
           </div>
 
           <div className="md:col-span-2">
@@ -293,6 +282,7 @@ export function EmployerInfoStep({ data, onNext, onBack }: EmployerInfoStepProps
 
           <div>
             <Label htmlFor="naicsCode">NAICS Code *</Label>
+            {scanHint('naicsCode')}
             <Input
               id="naicsCode"
               {...register('naicsCode')}
@@ -27,9 +27,12 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import { loadOccupations, searchOccupations, loadCrosswalk, getOnetCodesForSoc } from '@/lib/dataLoader';
+import { loadOccupations, searchOccupations, loadCrosswalk, getOnetCodesForSoc, loadACWIACrosswalk, hasRDClassification } from '@/lib/dataLoader';
 import type { JobDetails } from '@/types/paf';
-import type { OccupationCode, CrosswalkEntry } from '@/types/paf';
+import { ScanFieldHint } from '@/components/wizard/ScanFieldHint';
+import type { ScannedFields } from '@/lib/scanProvenance';
+import { FULL_TIME_HOURS_PER_WEEK } from '@/lib/wage';
+import type { OccupationCode, CrosswalkEntry, ACWIACrosswalk } from '@/types/paf';
 
 const jobSchema = z.object({
   jobTitle: z.string().min(1, 'Job title is required'),
@@ -38,23 +41,31 @@ const jobSchema = z.object({
   onetCode: z.string().optional(),
   onetTitle: z.string().optional(),
   isFullTime: z.boolean().default(true),
+  hoursPerWeek: z.number().positive().max(FULL_TIME_HOURS_PER_WEEK, `Part-time hours must be under ${FULL_TIME_HOURS_PER_WEEK} per week`).optional(),
   beginDate: z.string().min(1, 'Begin date is required'),
   endDate: z.string().min(1, 'End date is required'),
   wageRateFrom: z.number().min(1, 'Wage rate is required'),
   wageRateTo: z.number().optional(),
   wageUnit: z.enum(['Hour', 'Week', 'Bi-Weekly', 'Month', 'Year']),
   workersNeeded: z.number().min(1).default(1),
+  isRD: z.boolean().optional(),
+}).refine((job) => !job.wageRateTo || job.wageRateTo >= job.wageRateFrom, {
+  message: 'Wage rate to must not be below wage rate from',
+  path: ['wageRateTo'],
 });
 
 interface JobDetailsStepProps {
   data: Partial<JobDetails>;
+  // Fields filled from the LCA scan
+  scannedFields?: ScannedFields;
   onNext: (data: JobDetails) => void;
   onBack: () => void;
 }
 
-export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
+export function JobDetailsStep({ data, scannedFields, onNext, onBack }: JobDetailsStepProps) {
   const [occupations, setOccupations] = useState<OccupationCode[]>([]);
   const [crosswalk, setCrosswalk] = useState<CrosswalkEntry[]>([]);
+  const [acwia, setAcwia] = useState<ACWIACrosswalk[]>([]);
   const [onetOptions, setOnetOptions] = useState<CrosswalkEntry[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<OccupationCode[]>([]);
@@ -81,12 +92,14 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
     async function loadData() {
       setIsLoading(true);
       try {
-        const [occs, xwalk] = await Promise.all([
+        const [occs, xwalk, acwiaXwalk] = await Promise.all([
           loadOccupations(),
           loadCrosswalk(),
+          loadACWIACrosswalk(),
         ]);
         setOccupations(occs);
         setCrosswalk(xwalk);
+        setAcwia(acwiaXwalk);
       } catch (error) {
         console.error('Error loading occupation data:', error);
       } finally {
@@ -121,11 +134,16 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
   };
 
   const onSubmit = (formData: JobDetails) => {
-    onNext(formData);
+    onNext({ ...formData, hoursPerWeek: formData.isFullTime ? undefined : formData.hoursPerWeek });
   };
 
   const selectedSocCode = watch('socCode');
+  const scanHint = (name: keyof JobDetails) => (
+    <ScanFieldHint field={scannedFields?.[`job.${name}`]} value={watch(name)} />
+  );
   const selectedOnetCode = watch('onetCode');
+  const isRD = watch('isRD') ?? false;
+  const hasRDOccupation = !!selectedOnetCode && hasRDClassification(acwia, selectedOnetCode);
 
   return (
     <div className="fade-in">
@@ -149,6 +167,7 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
           <div className="grid gap-6 md:grid-cols-2">
             <div className="md:col-span-2">
               <Label htmlFor="jobTitle">Job Title *</Label>
+              {scanHint('jobTitle')}
               <Input
                 id="jobTitle"
                 {...register('jobTitle')}
@@ -162,6 +181,7 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
 
             <div className="md:col-span-2">
               <Label>SOC (OES) Occupation Code *</Label>
+              {scanHint('socCode')}
               <Popover open={socOpen} onOpenChange={setSocOpen}>
                 <PopoverTrigger asChild>
                   <Button
@@ -242,19 +262,58 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
               </div>
             )}
 
-            <div className="flex items-center gap-4">
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="isFullTime"
-                  checked={watch('isFullTime')}
-                  onCheckedChange={(checked) => setValue('isFullTime', checked)}
-                />
-                <Label htmlFor="isFullTime">Full-Time Position</Label>
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="isFullTime"
+                    checked={watch('isFullTime')}
+                    onCheckedChange={(checked) => setValue('isFullTime', checked)}
+                  />
+                  <Label htmlFor="isFullTime">Full-Time Position</Label>
+                  {scanHint('isFullTime')}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="isRD"
+                    checked={isRD}
+                    onCheckedChange={(checked) => setValue('isRD', checked)}
+                  />
+                  <Label htmlFor="isRD">ACWIA Employer (Higher Education / Research)</Label>
+                </div>
               </div>
+              {(isRD || hasRDOccupation) && (
+                <p className="text-xs text-muted-foreground">
+                  {isRD
+                    ? 'The prevailing wage will be looked up in the ACWIA wage table.'
+                    : 'This O*NET occupation has an ACWIA R&D classification. Turn on ACWIA if the employer is an institution of higher education or a nonprofit or government research organization.'}
+                </p>
+              )}
             </div>
 
+            {!watch('isFullTime') && (
+              <div>
+                <Label htmlFor="hoursPerWeek">Hours per Week</Label>
+                <Input
+                  id="hoursPerWeek"
+                  type="number"
+                  step="0.5"
+                  min={1}
+                  {...register('hoursPerWeek', { setValueAs: (v) => (v === '' || v == null ? undefined : Number(v)) })}
+                  className="mt-1.5"
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Used to compare salaried wages with the full-time prevailing wage by hourly rate
+                </p>
+                {errors.hoursPerWeek && (
+                  <p className="mt-1 text-sm text-destructive">{errors.hoursPerWeek.message}</p>
+                )}
+              </div>
+            )}
+
             <div>
               <Label htmlFor="workersNeeded">Workers Needed</Label>
+              {scanHint('workersNeeded')}
               <Input
                 id="workersNeeded"
                 type="number"
@@ -266,6 +325,7 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
 
             <div>
               <Label htmlFor="beginDate">Begin Date *</Label>
+              {scanHint('beginDate')}
               <Input
                 id="beginDate"
                 type="date"
@@ -279,6 +339,7 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
 
             <div>
               <Label htmlFor="endDate">End Date *</Label>
+              {scanHint('endDate')}
               <Input
                 id="endDate"
                 type="date"
@@ -292,6 +353,7 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
 
             <div>
               <Label htmlFor="wageRateFrom">Wage Rate From *</Label>
+              {scanHint('wageRateFrom')}
               <Input
                 id="wageRateFrom"
                 type="number"
@@ -307,6 +369,7 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
 
             <div>
               <Label htmlFor="wageRateTo">Wage Rate To (Optional)</Label>
+              {scanHint('wageRateTo')}
               <Input
                 id="wageRateTo"
                 type="number"
@@ -315,10 +378,14 @@ export function JobDetailsStep({ data, onNext, onBack }: JobDetailsStepProps) {
                 className="mt-1.5"
                 placeholder="0.00"
               />
+              {errors.wageRateTo && (
+                <p className="mt-1 text-sm text-destructive">{errors.wageRateTo.message}</p>
+              )}
             </div>
 
             <div>
               <Label>Wage Unit *</Label>
+              {scanHint('wageUnit')}
               <Select
                 value={watch('wageUnit')}
                 onValueChange={(value: JobDetails['wageUnit']) => setValue('wageUnit', value)}
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Loader2, Layers } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useSignatories } from '@/hooks/useSignatories';
+import { useActiveEmployer } from '@/hooks/useEmployer';
+import { generatePAFBatch, type BatchDefaults, type BatchItemResult } from '@/lib/pafBatch';
+import type { WageUnit } from '@/types/paf';
+import type { LCARecord } from './LCASelectionStep';
+
+interface LCABatchPanelProps {
+  lcas: LCARecord[];
+}
+
+export function LCABatchPanel({ lcas }: LCABatchPanelProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [defaults, setDefaults] = useState<BatchDefaults>({
+    noticePostingLocation: '',
+    noticePostingLocation2: '',
+    actualWageMemo: '',
+    signatoryId: undefined,
+    actualWageUnit: 'Year',
+    noticePostingStartDate: '',
+    noticePostingEndDate: '',
+    lcaValues: {},
+  });
+  const [isRunning, setIsRunning] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [results, setResults] = useState<BatchItemResult[]>([]);
+  const [zip, setZip] = useState<Blob | null>(null);
+  const employer = useActiveEmployer();
+  const { data: signatories } = useSignatories();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const allSelected = lcas.length > 0 && lcas.every((lca) => selectedIds.has(lca.id));
+
+  const toggleLca = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(lcas.map((lca) => lca.id)) : new Set());
+  };
+
+  const updateDefault = <K extends keyof BatchDefaults>(key: K, value: BatchDefaults[K]) => {
+    setDefaults((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // An LCA's own actual wage, used instead of the default one
+  const updateLcaWage = (lcaId: string, value: string) => {
+    setDefaults((prev) => ({
+      ...prev,
+      lcaValues: { ...prev.lcaValues, [lcaId]: { actualWage: value ? Number(value) : undefined } },
+    }));
+  };
+
+  const handleGenerate = async () => {
+    const selected = lcas.filter((lca) => selectedIds.has(lca.id));
+    if (selected.length === 0) return;
+
+    setIsRunning(true);
+    setTotal(selected.length);
+    setResults([]);
+    setZip(null);
+    try {
+      const batch = await generatePAFBatch(selected, employer, defaults, setResults);
+      setZip(batch.zip);
+      setSelectedIds(new Set());
+
+      const failed = batch.results.filter((r) => !r.success).length;
+      toast({
+        title: 'Batch Complete',
+        description: `${batch.results.length - failed} PAF(s) generated${failed ? `, ${failed} failed` : ''}.`,
+        variant: failed ? 'destructive' : 'default',
+      });
+    } finally {
+      setIsRunning(false);
+      queryClient.invalidateQueries({ queryKey: ['recent-pafs'] });
+      queryClient.invalidateQueries({ queryKey: ['all-pafs'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['pending-lcas'] });
+      queryClient.invalidateQueries({ queryKey: ['generated-lcas'] });
+    }
+  };
+
+  const handleDownloadZip = () => {
+    if (!zip) return;
+    const url = URL.createObjectURL(zip);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `PAF_Batch_${format(new Date(), 'yyyyMMdd_HHmm')}.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* LCA multi-select */}
+      <div className="rounded-lg border">
+        <div className="flex items-center gap-3 p-3 border-b bg-muted/50">
+          <Checkbox
+            id="select-all-lcas"
+            checked={allSelected}
+            onCheckedChange={(checked) => toggleAll(checked === true)}
+            disabled={isRunning}
+          />
+          <Label htmlFor="select-all-lcas" className="text-sm font-medium">
+            Select all ({selectedIds.size} of {lcas.length} selected)
+          </Label>
+        </div>
+        <div className="max-h-72 overflow-y-auto divide-y">
+          {lcas.map((lca) => (
+            <label key={lca.id} className="flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/30">
+              <Checkbox
+                checked={selectedIds.has(lca.id)}
+                onCheckedChange={(checked) => toggleLca(lca.id, checked === true)}
+                disabled={isRunning}
+              />
+              <span className="font-mono text-xs">{lca.case_number}</span>
+              <span className="truncate flex-1 text-sm">{lca.job_title || 'No title'}</span>
+              <span className="text-xs text-muted-foreground">
+                {lca.worksite_city}, {lca.worksite_state}
+              </span>
+              {selectedIds.has(lca.id) && (
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={defaults.lcaValues?.[lca.id]?.actualWage ?? ''}
+                  onChange={(e) => updateLcaWage(lca.id, e.target.value)}
+                  placeholder="Actual wage"
+                  aria-label={`Actual wage for ${lca.case_number}`}
+                  className="h-8 w-32"
+                  disabled={isRunning}
+                />
+              )}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Shared supporting-doc defaults */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold">Defaults for all selected LCAs</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="batch-location1">Posting Location 1 *</Label>
+            <Input
+              id="batch-location1"
+              value={defaults.noticePostingLocation}
+              onChange={(e) => updateDefault('noticePostingLocation', e.target.value)}
+              placeholder="e.g., Break room bulletin board"
+            />
+          </div>
+          <div>
+            <Label htmlFor="batch-location2">Posting Location 2</Label>
+            <Input
+              id="batch-location2"
+              value={defaults.noticePostingLocation2}
+              onChange={(e) => updateDefault('noticePostingLocation2', e.target.value)}
+              placeholder="e.g., Main entrance"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="batch-actual-wage">Actual Wage *</Label>
+            <Input
+              id="batch-actual-wage"
+              type="number"
+              min="0"
+              step="0.01"
+              value={defaults.actualWage ?? ''}
+              onChange={(e) => updateDefault('actualWage', e.target.value ? Number(e.target.value) : undefined)}
+              placeholder="Unless entered for the LCA above"
+            />
+          </div>
+          <div>
+            <Label>Wage Unit *</Label>
+            <Select value={defaults.actualWageUnit} onValueChange={(unit) => updateDefault('actualWageUnit', unit as WageUnit)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Hour">Per Hour</SelectItem>
+                <SelectItem value="Week">Per Week</SelectItem>
+                <SelectItem value="Bi-Weekly">Bi-Weekly</SelectItem>
+                <SelectItem value="Month">Per Month</SelectItem>
+                <SelectItem value="Year">Per Year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="batch-posting-start">Notice Posting Start Date *</Label>
+            <Input
+              id="batch-posting-start"
+              type="date"
+              value={defaults.noticePostingStartDate ?? ''}
+              onChange={(e) => updateDefault('noticePostingStartDate', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="batch-posting-end">Notice Posting End Date *</Label>
+            <Input
+              id="batch-posting-end"
+              type="date"
+              value={defaults.noticePostingEndDate ?? ''}
+              onChange={(e) => updateDefault('noticePostingEndDate', e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The disclosure has no actual wage or posting dates. An LCA without them is reported as failed.
+        </p>
+        <div>
+          <Label htmlFor="batch-memo">Actual Wage Memo</Label>
+          <Textarea
+            id="batch-memo"
+            value={defaults.actualWageMemo}
+            onChange={(e) => updateDefault('actualWageMemo', e.target.value)}
+            rows={3}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+          <div>
+            <Label>Authorized Signatory</Label>
+            <Select value={defaults.signatoryId ?? ''} onValueChange={(id) => updateDefault('signatoryId', id)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select signatory..." />
+              </SelectTrigger>
+              <SelectContent>
+                {signatories?.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name} — {s.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <Button
+        onClick={handleGenerate}
+        disabled={isRunning || selectedIds.size === 0 || !defaults.noticePostingLocation.trim()}
+        className="w-full"
+      >
+        {isRunning ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Generating {results.length + 1} of {total}...
+          </>
+        ) : (
+          <>
+            <Layers className="mr-2 h-4 w-4" />
+            Generate {selectedIds.size || ''} PAF{selectedIds.size === 1 ? '' : 's'}
+          </>
+        )}
+      </Button>
+
+      {isRunning && <Progress value={(results.length / Math.max(total, 1)) * 100} />}
+
+      {/* Per-LCA report */}
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold">Batch Report</h4>
+            {zip && (
+              <Button variant="outline" size="sm" onClick={handleDownloadZip}>
+                <Download className="mr-2 h-4 w-4" />
+                Download ZIP
+              </Button>
+            )}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Case Number</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((r) => (
+                <TableRow key={r.lcaId}>
+                  <TableCell className="font-mono text-xs">{r.caseNumber}</TableCell>
+                  <TableCell>
+                    {r.success ? (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Generated</Badge>
+                    ) : (
+                      <Badge variant="destructive">Failed</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {r.success ? r.fileName : r.error}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
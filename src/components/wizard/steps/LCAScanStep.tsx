@@ -3,23 +3,40 @@ import { FileText, FileUp, X, Check, AlertCircle, Loader2, Sparkles, ShieldCheck
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import type { LCAScanResult } from './SupportingDocsStep';
+import type { LCARecord } from './LCASelectionStep';
+import { secondaryWorksiteLabel } from '@/lib/worksites';
+import { scanLCAFile } from '@/lib/lcaScan';
+import type { ScanField } from '@/lib/lcaPdfParser';
+import { LCAScanReview } from '@/components/wizard/LCAScanReview';
+import { LCAReconciliationPanel } from '@/components/wizard/LCAReconciliationPanel';
+import { applyReconciliation, type LCAReconciliation } from '@/lib/lcaReconciliation';
 
 interface LCAScanStepProps {
-  onNext: (file: File | null, scanResult: LCAScanResult | null) => void;
+  // scanResult has the preparer's reconciliation choices applied
+  onNext: (file: File | null, scanResult: LCAScanResult | null, reconciliation: LCAReconciliation | null) => void;
   onBack: () => void;
   onScanComplete?: (result: LCAScanResult) => void;
+  // Disclosure row chosen on the Select LCA step, reused for the cross-check
+  selectedLca?: LCARecord | null;
 }
 
-export function LCAScanStep({ onNext, onBack, onScanComplete }: LCAScanStepProps) {
+export function LCAScanStep({ onNext, onBack, onScanComplete, selectedLca }: LCAScanStepProps) {
   const [lcaFile, setLcaFile] = useState<File | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [scanResult, setScanResult] = useState<LCAScanResult | null>(null);
   const [scanError, setScanError] = useState<string | null>(null);
+  const [missingScanFields, setMissingScanFields] = useState<ScanField[]>([]);
+  const [reconciliation, setReconciliation] = useState<LCAReconciliation | null>(null);
+  const [isReconciled, setIsReconciled] = useState(false);
   const { toast } = useToast();
 
+  const handleReconciliationChange = useCallback((value: LCAReconciliation | null, resolved: boolean) => {
+    setReconciliation(value);
+    setIsReconciled(resolved);
+  }, []);
+
   const handleFileChange = useCallback((file: File) => {
     setLcaFile(file);
     setScanResult(null);
@@ -53,33 +70,24 @@ export function LCAScanStep({ onNext, onBack, onScanComplete }: LCAScanStepProps
     setIsScanning(true);
     setScanError(null);
     setScanResult(null);
+    setMissingScanFields([]);
 
     try {
-      const arrayBuffer = await lcaFile.arrayBuffer();
-      const bytes = new Uint8Array(arrayBuffer);
-      let binary = '';
-      for (let i = 0; i < bytes.length; i++) {
-        binary += String.fromCharCode(bytes[i]);
-      }
-      const pdfBase64 = btoa(binary);
-
-      const { data: result, error } = await supabase.functions.invoke('scan-lca-pdf', {
-        body: { pdfBase64 },
-      });
-
-      if (error) throw error;
-      if (!result?.success) throw new Error(result?.error || 'Scan failed');
-
-      const scanData = result.data as LCAScanResult;
+      const { data: scanData, aiFields, missingFields } = await scanLCAFile(lcaFile);
       setScanResult(scanData);
+      setMissingScanFields(missingFields);
 
       if (onScanComplete) {
         onScanComplete(scanData);
       }
 
       toast({
-        title: 'LCA Scanned Successfully',
-        description: 'Data extracted and will be applied to all wizard fields.',
+        title: missingFields.length > 0 ? 'LCA Partially Scanned' : 'LCA Scanned Successfully',
+        description: missingFields.length > 0
+          ? `${missingFields.length} required field(s) could not be read from the LCA; enter them by hand.`
+          : aiFields.length > 0
+            ? `Data extracted and will be applied to all wizard fields. ${aiFields.length} field(s) not found in the PDF text were read by AI.`
+            : 'Data extracted from the PDF text and will be applied to all wizard fields.',
       });
     } catch (err: any) {
       console.error('LCA scan error:', err);
@@ -95,7 +103,8 @@ export function LCAScanStep({ onNext, onBack, onScanComplete }: LCAScanStepProps
   };
 
   const handleNext = () => {
-    onNext(lcaFile, scanResult);
+    const resolvedScan = scanResult && reconciliation ? applyReconciliation(scanResult, reconciliation.resolutions) : scanResult;
+    onNext(lcaFile, resolvedScan, scanResult ? reconciliation : null);
   };
 
   return (
@@ -119,7 +128,7 @@ export function LCAScanStep({ onNext, onBack, onScanComplete }: LCAScanStepProps
             Upload LCA (ETA Form 9035)
           </CardTitle>
           <CardDescription>
-            The AI scanner will extract data from all pages including primary worksite (Page 3) and secondary worksite (Page 7/Appendix A)
+            Fields are read from the PDF text, including the primary worksite (Section F) and secondary worksites (Appendix A); AI reads any the text doesn't yield
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -173,7 +182,7 @@ export function LCAScanStep({ onNext, onBack, onScanComplete }: LCAScanStepProps
               {isScanning ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Scanning LCA with AI...
+                  Scanning LCA...
                 </>
               ) : (
                 <>
@@ -265,14 +274,14 @@ export function LCAScanStep({ onNext, onBack, onScanComplete }: LCAScanStepProps
                       </span>
                     </div>
                   )}
-                  {scanResult.hasSecondaryWorksite && (scanResult.secondaryWorksiteCity || scanResult.secondaryWorksiteState) && (
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Secondary Worksite</span>
+                  {scanResult.secondaryWorksites?.filter((site) => site.city || site.state).map((site, index, all) => (
+                    <div key={index} className="flex justify-between">
+                      <span className="text-muted-foreground">{secondaryWorksiteLabel(index, all.length)}</span>
                       <span className="font-medium">
-                        {[scanResult.secondaryWorksiteName, scanResult.secondaryWorksiteAddress, scanResult.secondaryWorksiteCity, scanResult.secondaryWorksiteState].filter(Boolean).join(', ')}
+                        {[site.worksiteName, site.address, site.city, site.state].filter(Boolean).join(', ')}
                       </span>
                     </div>
-                  )}
+                  ))}
                   {scanResult.wageSourceYear && (
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Wage Source Date</span>
@@ -301,6 +310,16 @@ export function LCAScanStep({ onNext, onBack, onScanComplete }: LCAScanStepProps
               </CardContent>
             </Card>
           )}
+
+          {scanResult && lcaFile && <LCAScanReview file={lcaFile} result={scanResult} missingFields={missingScanFields} />}
+
+          {scanResult && (
+            <LCAReconciliationPanel
+              scanResult={scanResult}
+              selectedLca={selectedLca}
+              onChange={handleReconciliationChange}
+            />
+          )}
         </CardContent>
       </Card>
 
@@ -309,7 +328,7 @@ export function LCAScanStep({ onNext, onBack, onScanComplete }: LCAScanStepProps
         <Button type="button" variant="outline" onClick={onBack}>
           Back
         </Button>
-        <Button onClick={handleNext}>
+        <Button onClick={handleNext} disabled={!!scanResult && !isReconciled}>
           {scanResult ? 'Continue with Scanned Data' : 'Skip Scan & Continue'}
         </Button>
       </div>
@@ -1,15 +1,19 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { FileText, CheckCircle2, Calendar, MapPin, DollarSign, Briefcase } from 'lucide-react';
 import { format } from 'date-fns';
-
-const EMPLOYER_NAME = 'Sai Business Solutions LLC';
+import { LCABatchPanel } from './LCABatchPanel';
+import { useActiveEmployer } from '@/hooks/useEmployer';
+import { employerNames } from '@/lib/employers';
 
 export interface LCARecord {
   id: string;
@@ -32,14 +36,18 @@ export interface LCARecord {
   wage_rate_to: number | null;
   wage_unit: string | null;
   prevailing_wage: number | null;
+  pw_unit: string | null;
   pw_wage_level: string | null;
   worksite_city: string | null;
   worksite_state: string | null;
   worksite_postal_code: string | null;
   worksite_county: string | null;
+  // Worksites 2..10 of multi-worksite disclosure rows
+  additional_worksites: Json | null;
   begin_date: string | null;
   end_date: string | null;
   decision_date: string | null;
+  received_date: string | null;
   visa_class: string;
   h1b_dependent: boolean | null;
   willful_violator: boolean | null;
@@ -55,15 +63,18 @@ interface LCASelectionStepProps {
 
 export function LCASelectionStep({ onSelect }: LCASelectionStepProps) {
   const [selectedLcaId, setSelectedLcaId] = useState<string>('');
+  const [batchMode, setBatchMode] = useState(false);
+  const employer = useActiveEmployer();
+  const names = employerNames(employer);
 
   // Fetch pending LCAs (not yet used for PAF)
   const { data: pendingLcas, isLoading: loadingPending } = useQuery({
-    queryKey: ['pending-lcas', EMPLOYER_NAME],
+    queryKey: ['pending-lcas', employer.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('lca_disclosure')
         .select('*')
-        .eq('employer_name', EMPLOYER_NAME)
+        .in('employer_name', names)
         .eq('paf_generated', false)
         .ilike('case_status', '%certified%')
         .order('decision_date', { ascending: false });
@@ -75,12 +86,12 @@ export function LCASelectionStep({ onSelect }: LCASelectionStepProps) {
 
   // Fetch generated PAFs
   const { data: generatedLcas, isLoading: loadingGenerated } = useQuery({
-    queryKey: ['generated-lcas', EMPLOYER_NAME],
+    queryKey: ['generated-lcas', employer.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('lca_disclosure')
         .select('*')
-        .eq('employer_name', EMPLOYER_NAME)
+        .in('employer_name', names)
         .eq('paf_generated', true)
         .order('paf_generated_at', { ascending: false });
       
@@ -120,12 +131,20 @@ export function LCASelectionStep({ onSelect }: LCASelectionStepProps) {
       {/* LCA Selection Card */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <FileText className="h-5 w-5" />
-            Select LCA for PAF Generation
-          </CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Select LCA for PAF Generation
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Switch id="batch-mode" checked={batchMode} onCheckedChange={setBatchMode} />
+              <Label htmlFor="batch-mode" className="text-sm">Batch mode</Label>
+            </div>
+          </div>
           <CardDescription>
-            Choose a certified LCA from {EMPLOYER_NAME} to generate a Public Access File
+            {batchMode
+              ? `Select multiple certified LCAs from ${employer.legal_business_name} to generate their Public Access Files in one run`
+              : `Choose a certified LCA from ${employer.legal_business_name} to generate a Public Access File`}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -134,6 +153,8 @@ export function LCASelectionStep({ onSelect }: LCASelectionStepProps) {
               <Skeleton className="h-10 w-full" />
               <Skeleton className="h-24 w-full" />
             </div>
+          ) : batchMode && pendingLcas ? (
+            <LCABatchPanel lcas={pendingLcas} />
           ) : pendingLcas && pendingLcas.length > 0 ? (
             <>
               <Select value={selectedLcaId} onValueChange={setSelectedLcaId}>
@@ -192,7 +213,7 @@ export function LCASelectionStep({ onSelect }: LCASelectionStepProps) {
                     </div>
 
                     <div className="text-xs text-muted-foreground">
-                      <p>Prevailing Wage: {formatCurrency(selectedLca.prevailing_wage, selectedLca.wage_unit)} ({selectedLca.pw_wage_level || 'N/A'})</p>
+                      <p>Prevailing Wage: {formatCurrency(selectedLca.prevailing_wage, selectedLca.pw_unit)} ({selectedLca.pw_wage_level || 'N/A'})</p>
                       <p>Workers: {selectedLca.total_workers || 1} | Full-time: {selectedLca.full_time_position ? 'Yes' : 'No'}</p>
                     </div>
                   </CardContent>
@@ -1,20 +1,31 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { FileText, Download, Printer, Edit2, CheckCircle, Bell, Building2, Loader2, PenTool } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import type { PAFData } from '@/types/paf';
 import { format } from 'date-fns';
-import { downloadPAF, printPAF } from '@/lib/pdfGenerator';
+import { getPAFBlob, savePAFBlob, printPAF, archivalOptions } from '@/lib/pdfGenerator';
 import { dedupeAddress2 } from '@/lib/pdf/pdfHelpers';
 import { useToast } from '@/hooks/use-toast';
 import type { SupportingDocs } from './SupportingDocsStep';
-import { getSignatoryById } from '@/config/signatories';
+import { useSignatoryById } from '@/hooks/useSignatories';
+import { useActiveEmployer } from '@/hooks/useEmployer';
+import { useRoles } from '@/hooks/useRoles';
+import { registeredAddress, sectionProfile } from '@/lib/employers';
+import { evaluateCompliance, blockingFindings, type ComplianceOverride } from '@/lib/complianceRules';
+import { ComplianceReport } from '@/components/compliance/ComplianceReport';
+import { formatWage, formatWageRange } from '@/lib/wage';
+import { requiresWageSourceDocument, wageSourceLabel } from '@/lib/wageSources';
+import { secondaryWorksiteLabel, secondaryWorksites, secondaryWorksiteWages } from '@/lib/worksites';
 
 interface ReviewStepProps {
   data: PAFData;
   supportingDocs?: SupportingDocs;
   onBack: () => void;
-  onGenerate: () => void;
+  // Receives the archival (PDF/A) PAF so it can be stored with the record,
+  // plus the reviewer's override when generated despite compliance errors.
+  // The PAF is digitally signed later, when a signatory approves it.
+  onGenerate: (pdf?: Blob, override?: ComplianceOverride) => void;
   onEdit: (step: number) => void;
 }
 
@@ -68,14 +79,14 @@ function DataRow({ label, value }: { label: string; value?: string | number | bo
 export function ReviewStep({ data, supportingDocs, onBack, onGenerate, onEdit }: ReviewStepProps) {
   const { toast } = useToast();
   const [isGenerating, setIsGenerating] = useState(false);
-
-  const formatCurrency = (amount: number, unit: string) => {
-    const formatted = new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
-    return `${formatted} / ${unit}`;
-  };
+  const employer = useActiveEmployer();
+  const { data: signatory } = useSignatoryById(data.employer.signatoryId);
+  const { hasRole } = useRoles();
+  const [overrideReason, setOverrideReason] = useState('');
+  const canOverride = hasRole('reviewer');
+  const findings = useMemo(() => evaluateCompliance(data, supportingDocs), [data, supportingDocs]);
+  const errors = blockingFindings(findings);
+  const isBlocked = errors.length > 0 && !(canOverride && overrideReason.trim());
 
   const formatDate = (dateStr: string) => {
     try {
@@ -88,12 +99,16 @@ export function ReviewStep({ data, supportingDocs, onBack, onGenerate, onEdit }:
   const handleDownload = async () => {
     setIsGenerating(true);
     try {
-      await downloadPAF(data, supportingDocs);
+      const pdf = await getPAFBlob(data, supportingDocs, { ...archivalOptions, registeredAddress: registeredAddress(employer), sectionProfile: sectionProfile(employer), employerId: employer.id });
+      savePAFBlob(pdf, data);
       toast({
         title: "PAF Downloaded!",
         description: "Your complete Public Access File with all attachments has been saved.",
       });
-      onGenerate();
+      onGenerate(
+        pdf,
+        errors.length > 0 ? { reason: overrideReason.trim(), ruleIds: errors.map((e) => e.ruleId) } : undefined
+      );
     } catch (error) {
       console.error('PDF generation error:', error);
       toast({
@@ -109,7 +124,7 @@ export function ReviewStep({ data, supportingDocs, onBack, onGenerate, onEdit }:
   const handlePrint = async () => {
     setIsGenerating(true);
     try {
-      await printPAF(data, supportingDocs);
+      await printPAF(data, supportingDocs, { registeredAddress: registeredAddress(employer), sectionProfile: sectionProfile(employer), employerId: employer.id });
     } catch (error) {
       console.error('Print error:', error);
       toast({
@@ -172,25 +187,20 @@ export function ReviewStep({ data, supportingDocs, onBack, onGenerate, onEdit }:
             <DataRow label="NAICS Code" value={data.employer.naicsCode} />
             <div className="border-t border-border mt-3 pt-3">
               <DataRow label="H-1B Worker" value={data.employer.employeeName || 'Not provided'} />
-              {(() => {
-                const signatory = data.employer.signatoryId 
-                  ? getSignatoryById(data.employer.signatoryId) 
-                  : null;
-                return signatory ? (
-                  <div className="flex justify-between py-1.5 border-b border-border/50">
-                    <span className="text-muted-foreground">Digital Signature</span>
-                    <div className="flex items-center gap-1.5 text-right">
-                      <PenTool className="h-3.5 w-3.5 text-accent" />
-                      <span className="font-medium text-foreground">{signatory.name}</span>
-                    </div>
+              {signatory ? (
+                <div className="flex justify-between py-1.5 border-b border-border/50">
+                  <span className="text-muted-foreground">Digital Signature</span>
+                  <div className="flex items-center gap-1.5 text-right">
+                    <PenTool className="h-3.5 w-3.5 text-accent" />
+                    <span className="font-medium text-foreground">{signatory.name}</span>
                   </div>
-                ) : (
-                  <>
-                    <DataRow label="Signing Authority" value={data.employer.signingAuthorityName || 'Not provided'} />
-                    <DataRow label="Authority Title" value={data.employer.signingAuthorityTitle || 'Not provided'} />
-                  </>
-                );
-              })()}
+                </div>
+              ) : (
+                <>
+                  <DataRow label="Signing Authority" value={data.employer.signingAuthorityName || 'Not provided'} />
+                  <DataRow label="Authority Title" value={data.employer.signingAuthorityTitle || 'Not provided'} />
+                </>
+              )}
             </div>
             {!data.employer.signatoryId && !data.employer.signingAuthorityName && (
               <div className="mt-3 p-2 rounded text-xs bg-muted text-muted-foreground">
@@ -212,13 +222,13 @@ export function ReviewStep({ data, supportingDocs, onBack, onGenerate, onEdit }:
               <DataRow label="O*NET Code" value={`${data.job.onetCode} - ${data.job.onetTitle}`} />
             )}
             <DataRow label="Full-Time" value={data.job.isFullTime} />
+            {!data.job.isFullTime && data.job.hoursPerWeek && (
+              <DataRow label="Hours per Week" value={data.job.hoursPerWeek} />
+            )}
             <DataRow label="Workers Needed" value={data.job.workersNeeded} />
             <DataRow 
               label="Offered Wage" 
-              value={data.job.wageRateTo 
-                ? `${formatCurrency(data.job.wageRateFrom, data.job.wageUnit)} - ${formatCurrency(data.job.wageRateTo, data.job.wageUnit)}`
-                : formatCurrency(data.job.wageRateFrom, data.job.wageUnit)
-              } 
+              value={formatWageRange({ from: data.job.wageRateFrom, to: data.job.wageRateTo, unit: data.job.wageUnit }, ' - ')} 
             />
           </SectionCard>
 
@@ -229,49 +239,65 @@ export function ReviewStep({ data, supportingDocs, onBack, onGenerate, onEdit }:
             <DataRow label="County" value={data.worksite.county} />
             <DataRow label="Wage Area" value={data.worksite.areaName} />
             <DataRow label="Area Code" value={data.worksite.areaCode} />
-            {data.worksite.hasSecondaryWorksite && data.worksite.secondaryWorksite && (
-              <div className="border-t border-border mt-3 pt-3">
-                <p className="text-xs font-medium text-muted-foreground mb-2">Secondary Worksite</p>
-                <DataRow label="Worksite Name" value={data.worksite.secondaryWorksite.worksiteName} />
-                <DataRow label="Address" value={`${data.worksite.secondaryWorksite.address1}${dedupeAddress2(data.worksite.secondaryWorksite.address1, data.worksite.secondaryWorksite.address2)}`} />
-                <DataRow label="City, State ZIP" value={`${data.worksite.secondaryWorksite.city}, ${data.worksite.secondaryWorksite.state} ${data.worksite.secondaryWorksite.postalCode}`} />
-                <DataRow label="County" value={data.worksite.secondaryWorksite.county} />
+            {secondaryWorksites(data.worksite).map((site, index, all) => (
+              <div key={index} className="border-t border-border mt-3 pt-3">
+                <p className="text-xs font-medium text-muted-foreground mb-2">{secondaryWorksiteLabel(index, all.length)}</p>
+                <DataRow label="Worksite Name" value={site.worksiteName} />
+                <DataRow label="Address" value={`${site.address1}${dedupeAddress2(site.address1, site.address2)}`} />
+                <DataRow label="City, State ZIP" value={`${site.city}, ${site.state} ${site.postalCode}`} />
+                <DataRow label="County" value={site.county} />
+                <DataRow label="Wage Area" value={site.areaName} />
+                {site.postingLocations && site.postingLocations.length > 0 && (
+                  <DataRow label="Posting Locations" value={site.postingLocations.join('; ')} />
+                )}
               </div>
-            )}
+            ))}
           </SectionCard>
 
           <SectionCard title="Wage Information" icon={FileText} onEdit={() => onEdit(4)}>
             <p className="text-xs font-medium text-muted-foreground mb-2">Primary Worksite</p>
-            <DataRow label="Prevailing Wage" value={formatCurrency(data.wage.prevailingWage, data.wage.prevailingWageUnit)} />
+            <DataRow label="Prevailing Wage" value={formatWage(data.wage.prevailingWage, data.wage.prevailingWageUnit)} />
             <DataRow label="Wage Level" value={data.wage.wageLevel} />
-            <DataRow label="Wage Source" value={data.wage.wageSource} />
+            <DataRow label="Wage Source" value={wageSourceLabel(data.wage.wageSource)} />
             <DataRow label="Source Date" value={formatDate(data.wage.wageSourceDate)} />
-            {data.wage.hasSecondaryWage && data.wage.secondaryWage && (
-              <div className="border-t border-border mt-3 pt-3">
-                <p className="text-xs font-medium text-muted-foreground mb-2">Secondary Worksite</p>
-                <DataRow label="Prevailing Wage" value={formatCurrency(data.wage.secondaryWage.prevailingWage, data.wage.secondaryWage.prevailingWageUnit)} />
-                <DataRow label="Wage Level" value={data.wage.secondaryWage.wageLevel} />
-                <DataRow label="Wage Source" value={data.wage.secondaryWage.wageSource} />
-                <DataRow label="Source Date" value={formatDate(data.wage.secondaryWage.wageSourceDate)} />
-                {data.wage.secondaryWage.areaName && (
-                  <DataRow label="Wage Area" value={data.wage.secondaryWage.areaName} />
+            {data.wage.wageSourceDetails && (
+              <>
+                <DataRow label="PWD Case Number" value={data.wage.wageSourceDetails.pwdCaseNumber} />
+                {data.wage.wageSourceDetails.pwdIssueDate && data.wage.wageSourceDetails.pwdExpirationDate && (
+                  <DataRow label="PWD Valid" value={`${formatDate(data.wage.wageSourceDetails.pwdIssueDate)} to ${formatDate(data.wage.wageSourceDetails.pwdExpirationDate)}`} />
                 )}
-              </div>
+                <DataRow label="Agreement" value={data.wage.wageSourceDetails.cbaName} />
+                <DataRow label="Survey" value={data.wage.wageSourceDetails.surveyName} />
+                <DataRow label="Survey Publisher" value={data.wage.wageSourceDetails.surveyPublisher} />
+                <DataRow label="Survey Year" value={data.wage.wageSourceDetails.surveyYear} />
+              </>
+            )}
+            {requiresWageSourceDocument(data.wage.wageSource) && (
+              <DataRow label="Source Document" value={data.wage.wageSourceDetails?.document?.name || 'Not attached'} />
             )}
+            {secondaryWorksiteWages(data.worksite).map(({ label, wage }) => (
+              <div key={label} className="border-t border-border mt-3 pt-3">
+                <p className="text-xs font-medium text-muted-foreground mb-2">{label}</p>
+                <DataRow label="Prevailing Wage" value={formatWage(wage.prevailingWage, wage.prevailingWageUnit)} />
+                <DataRow label="Wage Level" value={wage.wageLevel} />
+                <DataRow label="Wage Source" value={wageSourceLabel(wage.wageSource)} />
+                <DataRow label="Source Date" value={formatDate(wage.wageSourceDate)} />
+                {wage.areaName && (
+                  <DataRow label="Wage Area" value={wage.areaName} />
+                )}
+              </div>
+            ))}
             <div className="border-t border-border mt-3 pt-3">
-              <DataRow label="Actual Wage" value={formatCurrency(data.wage.actualWage, data.wage.actualWageUnit)} />
+              <DataRow label="Actual Wage" value={formatWage(data.wage.actualWage, data.wage.actualWageUnit)} />
             </div>
             {(() => {
-              const maxPrevailing = data.wage.hasSecondaryWage && data.wage.secondaryWage 
-                ? Math.max(data.wage.prevailingWage, data.wage.secondaryWage.prevailingWage)
-                : data.wage.prevailingWage;
-              const isCompliant = data.wage.actualWage >= maxPrevailing;
+              const isCompliant = !findings.some((f) => f.ruleId.startsWith('actual-wage-below'));
               return (
                 <div className={`mt-3 p-2 rounded text-xs font-medium ${
                   isCompliant ? 'bg-success/10 text-success' : 'bg-destructive/10 text-destructive'
                 }`}>
                   {isCompliant 
-                    ? `✓ Wage is compliant (meets ${data.wage.hasSecondaryWage ? 'highest prevailing wage' : 'prevailing wage'})`
+                    ? `✓ Wage is compliant (meets ${secondaryWorksiteWages(data.worksite).length > 0 ? 'highest prevailing wage' : 'prevailing wage'})`
                     : '✗ Wage compliance issue - actual wage below prevailing wage'
                   }
                 </div>
@@ -300,6 +326,13 @@ export function ReviewStep({ data, supportingDocs, onBack, onGenerate, onEdit }:
           </div>
         )}
 
+        <ComplianceReport
+          findings={findings}
+          overrideReason={overrideReason}
+          onOverrideReasonChange={setOverrideReason}
+          canOverride={canOverride}
+        />
+
         <div className="flex flex-col sm:flex-row justify-between gap-4 pt-6">
           <Button type="button" variant="wizardOutline" size="lg" onClick={onBack}>
             Back to Edit
@@ -313,7 +346,7 @@ export function ReviewStep({ data, supportingDocs, onBack, onGenerate, onEdit }:
               )}
               Print Preview
             </Button>
-            <Button variant="wizard" size="lg" onClick={handleDownload} disabled={isGenerating}>
+            <Button variant="wizard" size="lg" onClick={handleDownload} disabled={isGenerating || isBlocked}>
               {isGenerating ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               ) : (
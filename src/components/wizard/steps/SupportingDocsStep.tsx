@@ -8,8 +8,27 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { scanLCAFile } from '@/lib/lcaScan';
+import type { ScanField } from '@/lib/lcaPdfParser';
+import type { ScanProvenance } from '@/lib/scanProvenance';
+import { LCAScanReview } from '@/components/wizard/LCAScanReview';
+import { proposePostingEndDate, postingPeriodsByLocation, REQUIRED_POSTING_BUSINESS_DAYS } from '@/lib/businessDays';
+
+// An Appendix A worksite as read from the LCA
+export interface LCAScanWorksite {
+  address?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  county?: string;
+  worksiteName?: string;
+  prevailingWage?: number;
+  prevailingWageUnit?: string;
+  wageLevel?: string;
+  wageSourceYear?: string;
+}
 
 export interface LCAScanResult {
   caseNumber?: string;
@@ -41,13 +60,7 @@ export interface LCAScanResult {
   worksiteCounty?: string;
   worksiteName?: string;
   wageSourceYear?: string;
-  hasSecondaryWorksite?: boolean;
-  secondaryWorksiteAddress?: string;
-  secondaryWorksiteCity?: string;
-  secondaryWorksiteState?: string;
-  secondaryWorksitePostalCode?: string;
-  secondaryWorksiteCounty?: string;
-  secondaryWorksiteName?: string;
+  secondaryWorksites?: LCAScanWorksite[];
   h1bDependent?: boolean;
   willfulViolator?: boolean;
   visaClass?: string;
@@ -56,6 +69,8 @@ export interface LCAScanResult {
   h1bExemptionChecked?: boolean | null;
   // LCA filing date for dependency worksheet
   lcaReceivedDate?: string | null;
+  // Page, snippet and confidence of each extracted field
+  provenance?: ScanProvenance;
 }
 
 export interface SupportingDocs {
@@ -69,10 +84,16 @@ export interface SupportingDocs {
   noticePostingLocation2: string;
   noticePostingLocation3?: string;
   noticePostingLocation4?: string;
+  // Start dates of locations posted later than noticePostingStartDate
+  noticePostingStartDate2?: string;
+  noticePostingStartDate3?: string;
+  noticePostingStartDate4?: string;
   benefitsComparisonFile: File | null;
   benefitsNotes: string;
   isCertifiedLCA?: boolean;
   isH1BDependent?: boolean;
+  // Date DOL received the LCA; the notice must be posted on or before it
+  lcaReceivedDate?: string;
 
   // H-1B Dependency Worksheet — stamped with LCA filing date
   totalFTECount?: number;
@@ -210,10 +231,14 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
     noticePostingLocation2: data.noticePostingLocation2 || '',
     noticePostingLocation3: data.noticePostingLocation3 || '',
     noticePostingLocation4: data.noticePostingLocation4 || '',
+    noticePostingStartDate2: data.noticePostingStartDate2 || '',
+    noticePostingStartDate3: data.noticePostingStartDate3 || '',
+    noticePostingStartDate4: data.noticePostingStartDate4 || '',
     benefitsComparisonFile: data.benefitsComparisonFile || null,
     benefitsNotes: data.benefitsNotes || getDefaultBenefitsNotes(),
     isCertifiedLCA: data.isCertifiedLCA ?? true,
     isH1BDependent: data.isH1BDependent, // undefined = not yet chosen; user must explicitly pick in H-1B tab
+    lcaReceivedDate: data.lcaReceivedDate || undefined,
     // H-1B Compliance fields
     totalFTECount: data.totalFTECount || undefined,
     totalH1BCount: data.totalH1BCount || undefined,
@@ -232,6 +257,7 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
   const [isScanning, setIsScanning] = useState(false);
   const [scanResult, setScanResult] = useState<LCAScanResult | null>(null);
   const [scanError, setScanError] = useState<string | null>(null);
+  const [missingScanFields, setMissingScanFields] = useState<ScanField[]>([]);
   const { toast } = useToast();
 
   const handleScanLCA = async () => {
@@ -240,25 +266,12 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
     setIsScanning(true);
     setScanError(null);
     setScanResult(null);
+    setMissingScanFields([]);
 
     try {
-      const arrayBuffer = await formData.lcaFile.arrayBuffer();
-      const bytes = new Uint8Array(arrayBuffer);
-      let binary = '';
-      for (let i = 0; i < bytes.length; i++) {
-        binary += String.fromCharCode(bytes[i]);
-      }
-      const pdfBase64 = btoa(binary);
-
-      const { data: result, error } = await supabase.functions.invoke('scan-lca-pdf', {
-        body: { pdfBase64 },
-      });
-
-      if (error) throw error;
-      if (!result?.success) throw new Error(result?.error || 'Scan failed');
-
-      const scanData = result.data as LCAScanResult;
+      const { data: scanData, aiFields, missingFields } = await scanLCAFile(formData.lcaFile);
       setScanResult(scanData);
+      setMissingScanFields(missingFields);
 
       // Auto-fill fields from scan
       if (scanData.caseNumber) {
@@ -274,6 +287,7 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
       }
       // Auto-populate dependency calculation date from LCA filing date
       if (scanData.lcaReceivedDate) {
+        updateField('lcaReceivedDate', scanData.lcaReceivedDate);
         updateField('dependencyCalculationDate', scanData.lcaReceivedDate);
       } else if (scanData.beginDate && !formData.dependencyCalculationDate) {
         // Fallback: use LCA begin date if received date not available
@@ -285,8 +299,12 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
       }
 
       toast({
-        title: 'LCA Scanned Successfully',
-        description: 'Data extracted and applied to wizard fields.',
+        title: missingFields.length > 0 ? 'LCA Partially Scanned' : 'LCA Scanned Successfully',
+        description: missingFields.length > 0
+          ? `${missingFields.length} required field(s) could not be read from the LCA; enter them by hand.`
+          : aiFields.length > 0
+            ? `Data extracted and applied to wizard fields. ${aiFields.length} field(s) not found in the PDF text were read by AI.`
+            : 'Data extracted from the PDF text and applied to wizard fields.',
       });
     } catch (err: any) {
       console.error('LCA scan error:', err);
@@ -323,6 +341,23 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  // Propose the earliest compliant remove date, unless one was entered by hand
+  const handlePostingStartChange = (startDate: string) => {
+    setFormData(prev => {
+      const previousProposal = proposePostingEndDate(prev.noticePostingStartDate);
+      const keepEndDate = prev.noticePostingEndDate && prev.noticePostingEndDate !== previousProposal;
+      const endDateEnabled = !(isManualMode && !prev.isCertifiedLCA);
+      return {
+        ...prev,
+        noticePostingStartDate: startDate,
+        ...(endDateEnabled && !keepEndDate && { noticePostingEndDate: proposePostingEndDate(startDate) ?? '' }),
+      };
+    });
+  };
+
+  const proposedEndDate = proposePostingEndDate(formData.noticePostingStartDate);
+  const postingPeriods = postingPeriodsByLocation(formData);
+
   const isComplete = (section: 'lca' | 'h1b' | 'wage' | 'notice' | 'benefits') => {
     switch (section) {
       case 'lca':
@@ -471,7 +506,7 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
                   />
                 </div>
 
-                {/* AI Scan Button */}
+                {/* Scan Button */}
                 {formData.lcaFile && (
                   <div className="space-y-3">
                     <Button
@@ -484,7 +519,7 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
                       {isScanning ? (
                         <>
                           <Loader2 className="h-4 w-4 animate-spin" />
-                          Scanning LCA with AI...
+                          Scanning LCA...
                         </>
                       ) : (
                         <>
@@ -603,6 +638,8 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
                         </CardContent>
                       </Card>
                     )}
+
+                    {scanResult && formData.lcaFile && <LCAScanReview file={formData.lcaFile} result={scanResult} missingFields={missingScanFields} />}
                   </div>
                 )}
 
@@ -1016,7 +1053,7 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
                       id="noticePostingStartDate"
                       type="date"
                       value={formData.noticePostingStartDate}
-                      onChange={(e) => updateField('noticePostingStartDate', e.target.value)}
+                      onChange={(e) => handlePostingStartChange(e.target.value)}
                     />
                     <p className="text-xs text-muted-foreground">
                       Date the LCA notice was first posted
@@ -1049,6 +1086,7 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
                         />
                         <p className="text-xs text-muted-foreground">
                           Date the LCA notice was removed (after 10 business days)
+                          {proposedEndDate && ` — earliest: ${format(parseISO(proposedEndDate), 'MMM d, yyyy')}`}
                         </p>
                       </>
                     )}
@@ -1078,9 +1116,34 @@ export function SupportingDocsStep({ data, onNext, onBack, isManualMode, hasSeco
                     <p className="text-xs text-muted-foreground">
                       Second conspicuous location at primary worksite
                     </p>
+                    <Input
+                      id="noticePostingStartDate2"
+                      type="date"
+                      value={formData.noticePostingStartDate2}
+                      onChange={(e) => updateField('noticePostingStartDate2', e.target.value)}
+                      aria-label="Location 2 posting start date"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Posting start at this location, if later than the start date above
+                    </p>
                   </div>
                 </div>
 
+                {postingPeriods.length > 0 && (
+                  <div className="space-y-1 rounded-lg border border-border p-3 text-sm">
+                    <p className="font-medium text-foreground">Business days posted</p>
+                    {postingPeriods.map((period) => (
+                      <div key={period.location} className="flex justify-between">
+                        <span className="text-muted-foreground">{period.location}</span>
+                        <span className={period.businessDays < REQUIRED_POSTING_BUSINESS_DAYS ? 'font-medium text-destructive' : 'font-medium text-success'}>
+                          {period.businessDays} of {REQUIRED_POSTING_BUSINESS_DAYS}
+                        </span>
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground">Weekends and federal holidays are not counted.</p>
+                  </div>
+                )}
+
                 {/* Note: Per DOL guidance, LCA posting is required only at the
                     employer's principal place of business (the public disclosure
                     location listed in Section 5 of the LCA), even when the H-1B
@@ -1,8 +1,8 @@
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, useWatch, Controller, type Control, type FieldErrors, type UseFormRegister, type UseFormSetValue } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useState, useEffect } from 'react';
-import { DollarSign, Info, MapPin, Building2, Search, CheckCircle2, Loader2 } from 'lucide-react';
+import { DollarSign, Info, MapPin, Building2, Search, CheckCircle2, Loader2, FileText, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -27,8 +27,23 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import type { WageInfo, WorksiteLocation, JobDetails } from '@/types/paf';
+import type { WageInfo, WorksiteLocation, JobDetails, SecondaryWageInfo, SecondaryWorksite } from '@/types/paf';
+import { compareWage, convertWage, formatWage, highestWage, jobHoursPerWeek } from '@/lib/wage';
+import { WAGE_TABLE_LABELS, WAGE_TABLE_SOURCES, wageTableForJob, type WageTableType } from '@/lib/wageTables';
 import { supabase } from '@/integrations/supabase/client';
+import { useResolvedWageYear } from '@/hooks/useWageYears';
+import { wageSourceYearMismatch, wageYearStartDate, type WageYearResolution } from '@/lib/wageYear';
+import {
+  WAGE_SOURCE_OPTIONS,
+  detailsForWageSource,
+  requiresWageSourceDocument,
+  wageSourceDetailIssues,
+  wageSourceNotInEffect,
+  wageSourceType,
+} from '@/lib/wageSources';
+import { isInDifferentWageArea, secondaryWorksiteLabel, secondaryWorksites } from '@/lib/worksites';
+import { ScanFieldHint } from '@/components/wizard/ScanFieldHint';
+import type { ScannedFields } from '@/lib/scanProvenance';
 
 const secondaryWageSchema = z.object({
   prevailingWage: z.number().min(0.01, 'Prevailing wage is required'),
@@ -47,6 +62,19 @@ const wageSchema = z.object({
   wageLevel: z.enum(['Level I', 'Level II', 'Level III', 'Level IV']),
   wageSource: z.string().min(1, 'Wage source is required'),
   wageSourceDate: z.string().min(1, 'Source date is required'),
+  wageSourceDetails: z.object({
+    pwdCaseNumber: z.string().optional(),
+    pwdIssueDate: z.string().optional(),
+    pwdExpirationDate: z.string().optional(),
+    cbaName: z.string().optional(),
+    cbaEffectiveDate: z.string().optional(),
+    cbaExpirationDate: z.string().optional(),
+    surveyName: z.string().optional(),
+    surveyPublisher: z.string().optional(),
+    surveyYear: z.number().optional(),
+    document: z.instanceof(File).nullable().optional(),
+    documentPath: z.string().optional(),
+  }).optional(),
   actualWage: z.number().min(0.01, 'Actual wage is required'),
   actualWageUnit: z.enum(['Hour', 'Week', 'Bi-Weekly', 'Month', 'Year']),
   wageLevelData: z.object({
@@ -59,8 +87,9 @@ const wageSchema = z.object({
     levelIV_hourly: z.number().nullable().optional(),
     levelIV_annual: z.number().nullable().optional(),
   }).optional(),
-  hasSecondaryWage: z.boolean().optional(),
-  secondaryWage: z.object({
+  // One entry per secondary worksite, in Appendix A order
+  secondaryWages: z.array(z.object({
+    enabled: z.boolean(),
     prevailingWage: z.number().optional(),
     prevailingWageUnit: z.enum(['Hour', 'Week', 'Bi-Weekly', 'Month', 'Year']).optional(),
     wageLevel: z.enum(['Level I', 'Level II', 'Level III', 'Level IV']).optional(),
@@ -68,33 +97,48 @@ const wageSchema = z.object({
     wageSourceDate: z.string().optional(),
     areaCode: z.string().optional(),
     areaName: z.string().optional(),
-  }).optional(),
+  })),
 }).superRefine((data, ctx) => {
-  if (data.hasSecondaryWage) {
-    if (!data.secondaryWage?.prevailingWage || data.secondaryWage.prevailingWage < 0.01) {
+  wageSourceDetailIssues(data.wageSource, data.wageSourceDetails).forEach(({ field, message }) => {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message,
+      path: ['wageSourceDetails', field],
+    });
+  });
+  data.secondaryWages.forEach((secondaryWage, index) => {
+    if (!secondaryWage.enabled) return;
+    if (!secondaryWage.prevailingWage || secondaryWage.prevailingWage < 0.01) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message: 'Secondary prevailing wage is required',
-        path: ['secondaryWage', 'prevailingWage'],
+        path: ['secondaryWages', index, 'prevailingWage'],
       });
     }
-    if (!data.secondaryWage?.wageSource) {
+    if (!secondaryWage.wageSource) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message: 'Secondary wage source is required',
-        path: ['secondaryWage', 'wageSource'],
+        path: ['secondaryWages', index, 'wageSource'],
       });
     }
-    if (!data.secondaryWage?.wageSourceDate) {
+    if (!secondaryWage.wageSourceDate) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message: 'Secondary source date is required',
-        path: ['secondaryWage', 'wageSourceDate'],
+        path: ['secondaryWages', index, 'wageSourceDate'],
       });
     }
-  }
+  });
 });
 
+type SecondaryWageEntry = Partial<SecondaryWageInfo> & { enabled: boolean };
+
+// The step edits the primary wage and each secondary worksite's wage together
+interface WageFormValues extends WageInfo {
+  secondaryWages: SecondaryWageEntry[];
+}
+
 const wageLevelDescriptions = {
   'Level I': 'Entry level - 17th percentile wage',
   'Level II': 'Qualified - 34th percentile wage',
@@ -102,16 +146,6 @@ const wageLevelDescriptions = {
   'Level IV': 'Fully competent - 67th percentile wage',
 };
 
-const WAGE_YEARS = [
-  '2025-2026',
-  '2024-2025',
-  '2023-2024',
-  '2022-2023',
-  '2021-2022',
-  '2020-2021',
-  '2019-2020',
-];
-
 interface WageRecord {
   area_code: string;
   area_name: string;
@@ -165,10 +199,23 @@ interface PrevailingWageLookupProps {
     };
   }) => void;
   label?: string;
+  // Wage year of the LCA and the years available to look up
+  resolvedWageYear: WageYearResolution;
+  wageYears: string[];
+  tableType: WageTableType;
 }
 
-function PrevailingWageLookup({ socCode, areaCode, areaName, onSelect, label = 'Primary' }: PrevailingWageLookupProps) {
-  const [wageYear, setWageYear] = useState<string>('2024-2025');
+function PrevailingWageLookup({ socCode, areaCode, areaName, onSelect, label = 'Primary', resolvedWageYear, wageYears, tableType }: PrevailingWageLookupProps) {
+  const [wageYear, setWageYear] = useState<string>(resolvedWageYear.wageYear);
+
+  // The resolution changes once the received date or loaded years arrive
+  useEffect(() => {
+    setWageYear(resolvedWageYear.wageYear);
+  }, [resolvedWageYear.wageYear]);
+
+  const yearOptions = wageYears.includes(resolvedWageYear.wageYear)
+    ? wageYears
+    : [resolvedWageYear.wageYear, ...wageYears];
   const [loading, setLoading] = useState(false);
   const [wageRecord, setWageRecord] = useState<WageRecord | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -190,6 +237,7 @@ function PrevailingWageLookup({ socCode, areaCode, areaName, onSelect, label = '
       .from('oflc_prevailing_wages')
       .select('*')
       .eq('wage_year', wageYear)
+      .eq('table_type', tableType)
       .eq('area_code', areaCode)
       .ilike('soc_code', `${normalizedSoc}%`)
       .limit(1)
@@ -203,7 +251,7 @@ function PrevailingWageLookup({ socCode, areaCode, areaName, onSelect, label = '
     }
 
     if (!data) {
-      setError(`No wage data found for SOC ${normalizedSoc} in area ${areaCode} for ${wageYear}. Please enter manually.`);
+      setError(`No ${WAGE_TABLE_LABELS[tableType]} wage data found for SOC ${normalizedSoc} in area ${areaCode} for ${wageYear}. ${tableType === 'acwia' ? 'Import the ACWIA table under Admin or enter the wage' : 'Please enter'} manually.`);
       return;
     }
 
@@ -216,7 +264,7 @@ function PrevailingWageLookup({ socCode, areaCode, areaName, onSelect, label = '
       handleLookup();
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [socCode, areaCode, wageYear]);
+  }, [socCode, areaCode, wageYear, tableType]);
 
   const handleSelectLevel = (row: WageLevelRow) => {
     if (!row.annual || !wageRecord) return;
@@ -246,6 +294,9 @@ function PrevailingWageLookup({ socCode, areaCode, areaName, onSelect, label = '
         <span className="text-sm font-semibold text-foreground">
           OFLC Prevailing Wage Lookup — {label}
         </span>
+        {tableType === 'acwia' && (
+          <Badge variant="secondary" className="text-xs">{WAGE_TABLE_LABELS.acwia}</Badge>
+        )}
         {!canLookup && (
           <Badge variant="outline" className="text-xs text-muted-foreground">
             Area code required from Worksite step
@@ -277,14 +328,24 @@ function PrevailingWageLookup({ socCode, areaCode, areaName, onSelect, label = '
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {WAGE_YEARS.map(y => (
-                    <SelectItem key={y} value={y}>{y}</SelectItem>
+                  {yearOptions.map(y => (
+                    <SelectItem key={y} value={y}>
+                      {y}{wageYears.includes(y) ? '' : ' (not loaded)'}
+                    </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          <p className="text-xs text-muted-foreground">
+            {resolvedWageYear.basis === 'received_date'
+              ? `LCA received date falls in the ${resolvedWageYear.wageYear} wage year.`
+              : `No LCA received date yet — using the current wage year (${resolvedWageYear.wageYear}).`}
+            {wageYear !== resolvedWageYear.wageYear && ' The selected year differs from the LCA wage year.'}
+            {!resolvedWageYear.isLoaded && ` ${resolvedWageYear.wageYear} wage data has not been imported; enter the wage manually or import it under Admin.`}
+          </p>
+
           {loading && (
             <div className="flex items-center gap-2 text-sm text-muted-foreground py-2">
               <Loader2 className="h-4 w-4 animate-spin" />
@@ -352,20 +413,354 @@ function PrevailingWageLookup({ socCode, areaCode, areaName, onSelect, label = '
   );
 }
 
+interface WageSourceDetailsFieldsProps {
+  wageSource: string;
+  register: UseFormRegister<WageFormValues>;
+  control: Control<WageFormValues>;
+  errors: FieldErrors<WageFormValues>;
+  lcaReceivedDate?: string;
+}
+
+// PWD, agreement or survey details and the document evidencing the wage, for sources other than the OFLC wage library
+function WageSourceDetailsFields({ wageSource, register, control, errors, lcaReceivedDate }: WageSourceDetailsFieldsProps) {
+  const type = wageSourceType(wageSource);
+  const detailErrors = errors.wageSourceDetails;
+
+  const textField = (field: 'pwdCaseNumber' | 'cbaName' | 'surveyName' | 'surveyPublisher', label: string, placeholder?: string) => (
+    <div>
+      <Label htmlFor={field}>{label} *</Label>
+      <Input id={field} placeholder={placeholder} {...register(`wageSourceDetails.${field}`)} className="mt-1.5" />
+      {detailErrors?.[field] && <p className="mt-1 text-sm text-destructive">{detailErrors[field]?.message}</p>}
+    </div>
+  );
+
+  const dateField = (
+    field: 'pwdIssueDate' | 'pwdExpirationDate' | 'cbaEffectiveDate' | 'cbaExpirationDate',
+    label: string,
+    required = false
+  ) => (
+    <div>
+      <Label htmlFor={field}>{label}{required && ' *'}</Label>
+      <Input id={field} type="date" {...register(`wageSourceDetails.${field}`)} className="mt-1.5" />
+      {detailErrors?.[field] && <p className="mt-1 text-sm text-destructive">{detailErrors[field]?.message}</p>}
+    </div>
+  );
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      {type === 'pwd' && (
+        <div className="grid gap-4 md:grid-cols-3">
+          {textField('pwdCaseNumber', 'PWD Case Number', 'P-400-24123-123456')}
+          {dateField('pwdIssueDate', 'Determination Date', true)}
+          {dateField('pwdExpirationDate', 'Expiration Date', true)}
+        </div>
+      )}
+      {type === 'cba' && (
+        <div className="grid gap-4 md:grid-cols-3">
+          {textField('cbaName', 'Agreement', 'e.g. Local 123 Master Agreement')}
+          {dateField('cbaEffectiveDate', 'Effective Date')}
+          {dateField('cbaExpirationDate', 'Expiration Date')}
+        </div>
+      )}
+      {type === 'survey' && (
+        <div className="grid gap-4 md:grid-cols-3">
+          {textField('surveyName', 'Survey Name')}
+          {textField('surveyPublisher', 'Publisher')}
+          <div>
+            <Label htmlFor="surveyYear">Publication Year *</Label>
+            <Input
+              id="surveyYear"
+              type="number"
+              {...register('wageSourceDetails.surveyYear', { setValueAs: (v) => (v === '' || v == null ? undefined : Number(v)) })}
+              className="mt-1.5"
+            />
+            {detailErrors?.surveyYear && <p className="mt-1 text-sm text-destructive">{detailErrors.surveyYear.message}</p>}
+          </div>
+        </div>
+      )}
+      <Controller
+        name="wageSourceDetails"
+        control={control}
+        render={({ field }) => {
+          const details = field.value ?? {};
+          const notInEffect = wageSourceNotInEffect({ wageSource, wageSourceDetails: details }, lcaReceivedDate);
+          const attachedName = details.document?.name ?? details.documentPath?.split('/').pop();
+          return (
+            <div className="space-y-2">
+              {notInEffect && (
+                <p className="text-xs text-warning bg-warning/10 p-2 rounded">⚠ {notInEffect}</p>
+              )}
+              <Label htmlFor="wageSourceDocument">
+                {type === 'pwd' ? 'Prevailing Wage Determination' : type === 'cba' ? 'Agreement Wage Schedule' : type === 'survey' ? 'Survey Excerpt' : 'Wage Determination'}
+              </Label>
+              {attachedName ? (
+                <div className="flex items-center gap-2 rounded-md border border-border bg-muted/50 px-3 py-2 text-sm">
+                  <FileText className="h-4 w-4 text-primary" />
+                  <span className="flex-1 truncate">{attachedName}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => field.onChange({ ...details, document: null, documentPath: undefined })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Input
+                  id="wageSourceDocument"
+                  type="file"
+                  accept=".pdf,.png,.jpg,.jpeg"
+                  onChange={(e) => field.onChange({ ...details, document: e.target.files?.[0] ?? null })}
+                />
+              )}
+              <p className="text-xs text-muted-foreground">Attached to the prevailing wage section of the PAF.</p>
+            </div>
+          );
+        }}
+      />
+    </div>
+  );
+}
+
+interface SecondaryWageCardProps {
+  index: number;
+  label: string;
+  site: SecondaryWorksite;
+  primary?: WorksiteLocation;
+  socCode?: string;
+  register: UseFormRegister<WageFormValues>;
+  control: Control<WageFormValues>;
+  setValue: UseFormSetValue<WageFormValues>;
+  errors: FieldErrors<WageFormValues>;
+  resolvedWageYear: WageYearResolution;
+  wageYears: string[];
+  tableType: WageTableType;
+}
+
+function SecondaryWageCard({ index, label, site, primary, socCode, register, control, setValue, errors, resolvedWageYear, wageYears, tableType }: SecondaryWageCardProps) {
+  const enabled = useWatch({ control, name: `secondaryWages.${index}.enabled` });
+  const isDifferentArea = isInDifferentWageArea(primary ?? {}, site);
+  const areaName = site.areaName ?? (site.county ? `${site.city}, ${site.state}` : undefined);
+  const fieldErrors = errors.secondaryWages?.[index];
+
+  const handleLookupSelect = ({ wageLevel, prevailingWage, prevailingWageUnit, wageYear }: {
+    wageLevel: 'Level I' | 'Level II' | 'Level III' | 'Level IV';
+    prevailingWage: number;
+    prevailingWageUnit: 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year';
+    wageYear: string;
+    wageLevelData: WageInfo['wageLevelData'];
+  }) => {
+    setValue(`secondaryWages.${index}.wageLevel`, wageLevel);
+    setValue(`secondaryWages.${index}.prevailingWage`, prevailingWage);
+    setValue(`secondaryWages.${index}.prevailingWageUnit`, prevailingWageUnit);
+    setValue(`secondaryWages.${index}.wageSource`, WAGE_TABLE_SOURCES[tableType]);
+    setValue(`secondaryWages.${index}.wageSourceDate`, wageYearStartDate(wageYear));
+    if (site.areaCode) {
+      setValue(`secondaryWages.${index}.areaCode`, site.areaCode);
+      setValue(`secondaryWages.${index}.areaName`, site.areaName ?? '');
+    }
+  };
+
+  return (
+    <Card className={enabled ? 'border-primary/50' : ''}>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-secondary" />
+            <CardTitle className="text-lg">{label} Prevailing Wage</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`secondaryWages.${index}.enabled`} className="text-sm">
+              Different Wage Area
+            </Label>
+            <Controller
+              name={`secondaryWages.${index}.enabled`}
+              control={control}
+              render={({ field }) => (
+                <Switch
+                  id={`secondaryWages.${index}.enabled`}
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              )}
+            />
+          </div>
+        </div>
+        <CardDescription>
+          {site.worksiteName && `${site.worksiteName}, `}
+          {site.city}, {site.state}
+          {site.county && ` (${site.county} County)`}
+        </CardDescription>
+        {isDifferentArea && (
+          <div className="mt-2 p-2 bg-warning/10 rounded text-xs text-warning-foreground">
+            <strong>Note:</strong> This worksite is in a different wage area than the primary worksite
+            {site.county && primary?.county ? ` (${site.county} vs ${primary.county})` : ''}.
+            Enable this to specify a separate prevailing wage for compliance.
+          </div>
+        )}
+      </CardHeader>
+
+      {enabled && (
+        <CardContent className="space-y-5">
+          <PrevailingWageLookup
+            socCode={socCode}
+            areaCode={site.areaCode}
+            areaName={areaName}
+            onSelect={handleLookupSelect}
+            label={label}
+            resolvedWageYear={resolvedWageYear}
+            wageYears={wageYears}
+            tableType={tableType}
+          />
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <div>
+              <Label htmlFor={`secondaryPrevailingWage${index}`}>Prevailing Wage Rate *</Label>
+              <div className="relative mt-1.5">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                <Input
+                  id={`secondaryPrevailingWage${index}`}
+                  type="number"
+                  step="0.01"
+                  {...register(`secondaryWages.${index}.prevailingWage`, { valueAsNumber: true })}
+                  className="pl-7"
+                  placeholder="0.00"
+                />
+              </div>
+              {fieldErrors?.prevailingWage && (
+                <p className="mt-1 text-sm text-destructive">{fieldErrors.prevailingWage.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label>Wage Unit *</Label>
+              <Controller
+                name={`secondaryWages.${index}.prevailingWageUnit`}
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Hour">Per Hour</SelectItem>
+                      <SelectItem value="Week">Per Week</SelectItem>
+                      <SelectItem value="Bi-Weekly">Bi-Weekly</SelectItem>
+                      <SelectItem value="Month">Per Month</SelectItem>
+                      <SelectItem value="Year">Per Year</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center gap-2">
+                <Label>Wage Level *</Label>
+                <Tooltip>
+                  <TooltipTrigger>
+                    <Info className="h-4 w-4 text-muted-foreground" />
+                  </TooltipTrigger>
+                  <TooltipContent className="max-w-xs">
+                    <div className="space-y-2">
+                      {Object.entries(wageLevelDescriptions).map(([level, desc]) => (
+                        <div key={level}>
+                          <span className="font-medium">{level}:</span> {desc}
+                        </div>
+                      ))}
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <Controller
+                name={`secondaryWages.${index}.wageLevel`}
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Level I">Level I (Entry)</SelectItem>
+                      <SelectItem value="Level II">Level II (Qualified)</SelectItem>
+                      <SelectItem value="Level III">Level III (Experienced)</SelectItem>
+                      <SelectItem value="Level IV">Level IV (Fully Competent)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+
+            <div>
+              <Label>Wage Source *</Label>
+              <Controller
+                name={`secondaryWages.${index}.wageSource`}
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WAGE_SOURCE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {fieldErrors?.wageSource && (
+                <p className="mt-1 text-sm text-destructive">{fieldErrors.wageSource.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor={`secondaryWageSourceDate${index}`}>Wage Source Date *</Label>
+              <Input
+                id={`secondaryWageSourceDate${index}`}
+                type="date"
+                {...register(`secondaryWages.${index}.wageSourceDate`)}
+                className="mt-1.5"
+              />
+              {fieldErrors?.wageSourceDate && (
+                <p className="mt-1 text-sm text-destructive">{fieldErrors.wageSourceDate.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor={`secondaryAreaName${index}`}>Wage Area Name</Label>
+              <Input
+                id={`secondaryAreaName${index}`}
+                {...register(`secondaryWages.${index}.areaName`)}
+                placeholder="e.g., New York-Newark-Jersey City, NY-NJ-PA"
+                className="mt-1.5"
+              />
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
 interface WageInfoStepProps {
   data: Partial<WageInfo>;
   worksite?: WorksiteLocation;
   job?: Partial<JobDetails>;
-  onNext: (data: WageInfo) => void;
+  // Date DOL received the LCA; determines the OFLC wage year
+  lcaReceivedDate?: string;
+  // Fields filled from the LCA scan
+  scannedFields?: ScannedFields;
+  // Secondary worksites are returned with their prevailing wages set or cleared
+  onNext: (data: WageInfo, secondaryWorksites: SecondaryWorksite[]) => void;
   onBack: () => void;
 }
 
-export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoStepProps) {
-  const hasSecondaryWorksite = worksite?.hasSecondaryWorksite && worksite?.secondaryWorksite;
-  const primaryCounty = worksite?.county || '';
-  const secondaryCounty = worksite?.secondaryWorksite?.county || '';
-  const isDifferentCounty = hasSecondaryWorksite && primaryCounty !== secondaryCounty;
-
+export function WageInfoStep({ data, worksite, job, lcaReceivedDate, scannedFields, onNext, onBack }: WageInfoStepProps) {
+  const resolvedWageYear = useResolvedWageYear(lcaReceivedDate);
+  const wageTable = wageTableForJob(job);
+  const sites = secondaryWorksites(worksite);
   const {
     register,
     handleSubmit,
@@ -373,7 +768,7 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
     setValue,
     watch,
     control,
-  } = useForm<WageInfo>({
+  } = useForm<WageFormValues>({
     resolver: zodResolver(wageSchema),
     defaultValues: {
       prevailingWage: data.prevailingWage || 0,
@@ -381,39 +776,66 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
       actualWage: data.actualWage || 0,
       actualWageUnit: data.actualWageUnit || 'Year',
       wageLevel: data.wageLevel || 'Level I',
-      wageSource: data.wageSource || 'OES',
-      wageSourceDate: data.wageSourceDate || '',
-      hasSecondaryWage: data.hasSecondaryWage ?? isDifferentCounty,
-      secondaryWage: data.secondaryWage || {
+      wageSource: data.wageSource || WAGE_TABLE_SOURCES[wageTable],
+      wageSourceDate: data.wageSourceDate || (lcaReceivedDate ? resolvedWageYear.sourceDate : ''),
+      wageSourceDetails: data.wageSourceDetails ?? {},
+      // Worksites in another wage area start with a wage of their own
+      secondaryWages: sites.map((site) => ({
+        enabled: !!site.wage || isInDifferentWageArea(worksite ?? {}, site),
         prevailingWage: 0,
         prevailingWageUnit: 'Year',
         wageLevel: 'Level I',
-        wageSource: 'OES',
+        wageSource: WAGE_TABLE_SOURCES[wageTable],
         wageSourceDate: '',
-        areaCode: '',
-        areaName: secondaryCounty ? `${worksite?.secondaryWorksite?.city}, ${worksite?.secondaryWorksite?.state}` : '',
-      },
+        areaCode: site.areaCode || '',
+        areaName: site.areaName || (site.county ? `${site.city}, ${site.state}` : ''),
+        ...site.wage,
+      })),
     },
   });
 
-  const onSubmit = (formData: WageInfo) => {
-    if (!formData.hasSecondaryWage) {
-      formData.secondaryWage = undefined;
-    }
-    onNext(formData);
+  const onSubmit = ({ secondaryWages, ...formData }: WageFormValues) => {
+    formData.wageSourceDetails = detailsForWageSource(formData.wageSource, formData.wageSourceDetails);
+    onNext(formData, sites.map((site, index) => {
+      const { enabled, ...wage } = secondaryWages[index];
+      return { ...site, wage: enabled ? wage as SecondaryWageInfo : undefined };
+    }));
   };
 
   const prevailingWage = watch('prevailingWage');
   const actualWage = watch('actualWage');
-  const hasSecondaryWage = watch('hasSecondaryWage');
-  const secondaryPrevailingWage = watch('secondaryWage.prevailingWage');
+  const secondaryWages = watch('secondaryWages');
+  // Secondary wages that have been entered, with their worksite labels
+  const enteredSecondaryWages = sites.flatMap((_, index) => {
+    const entry = secondaryWages[index];
+    return entry?.enabled && entry.prevailingWage
+      ? [{ label: secondaryWorksiteLabel(index, sites.length), amount: entry.prevailingWage, unit: entry.prevailingWageUnit ?? 'Year' }]
+      : [];
+  });
+  const hasSecondaryWage = enteredSecondaryWages.length > 0;
   const prevailingWageUnit = watch('prevailingWageUnit');
   const actualWageUnit = watch('actualWageUnit');
-  
-  const maxPrevailingWage = hasSecondaryWage && secondaryPrevailingWage 
-    ? Math.max(prevailingWage || 0, secondaryPrevailingWage) 
-    : prevailingWage;
-  const isWageCompliant = actualWage >= maxPrevailingWage;
+  const wageSource = watch('wageSource');
+  const isOFLCSource = wageSourceType(wageSource) === 'oflc';
+  // Only OFLC wage library figures follow the July 1 wage year
+  const wageSourceMismatch = isOFLCSource ? wageSourceYearMismatch(watch('wageSourceDate'), lcaReceivedDate) : null;
+
+  const hoursPerWeek = jobHoursPerWeek(job ?? {});
+  const scanHint = (name: 'prevailingWage' | 'prevailingWageUnit' | 'wageLevel' | 'wageSourceDate') => (
+    <ScanFieldHint field={scannedFields?.[`wage.${name}`]} value={watch(name)} />
+  );
+
+  // Prevailing wages may be in different units, so the highest is picked and compared by hourly rate
+  const requiredWage = highestWage([
+    { amount: prevailingWage || 0, unit: prevailingWageUnit },
+    ...enteredSecondaryWages,
+  ]);
+  const wageComparison = requiredWage && compareWage({ amount: actualWage || 0, unit: actualWageUnit }, requiredWage, hoursPerWeek);
+  const isWageCompliant = !wageComparison || wageComparison.meets;
+  // The lowest compliant actual wage, in the actual wage's unit
+  const minimumActualWage = wageComparison
+    ? convertWage(wageComparison.requiredHourly, 'Hour', actualWageUnit, hoursPerWeek)
+    : 0;
   const hasNonYearUnit = prevailingWageUnit !== 'Year' || actualWageUnit !== 'Year';
   const canProceed = isWageCompliant || actualWage === 0 || prevailingWage === 0;
 
@@ -428,28 +850,11 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
     setValue('wageLevel', wageLevel);
     setValue('prevailingWage', prevailingWage);
     setValue('prevailingWageUnit', prevailingWageUnit);
-    setValue('wageSource', 'OES');
-    // Set source date to July 1 of the first year in the range (e.g., 2024-2025 → 2024-07-01)
-    const startYear = wageYear.split('-')[0];
-    setValue('wageSourceDate', `${startYear}-07-01`);
+    setValue('wageSource', WAGE_TABLE_SOURCES[wageTable]);
+    setValue('wageSourceDate', wageYearStartDate(wageYear));
     setValue('wageLevelData', wageLevelData);
   };
 
-  const handleSecondaryLookupSelect = ({ wageLevel, prevailingWage, prevailingWageUnit, wageYear }: {
-    wageLevel: 'Level I' | 'Level II' | 'Level III' | 'Level IV';
-    prevailingWage: number;
-    prevailingWageUnit: 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year';
-    wageYear: string;
-    wageLevelData: WageInfo['wageLevelData'];
-  }) => {
-    setValue('secondaryWage.wageLevel', wageLevel);
-    setValue('secondaryWage.prevailingWage', prevailingWage);
-    setValue('secondaryWage.prevailingWageUnit', prevailingWageUnit);
-    setValue('secondaryWage.wageSource', 'OES');
-    const startYear = wageYear.split('-')[0];
-    setValue('secondaryWage.wageSourceDate', `${startYear}-07-01`);
-  };
-
   return (
     <div className="fade-in">
       <div className="paf-section-header">
@@ -493,17 +898,23 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
           </CardHeader>
           <CardContent className="space-y-5">
             {/* Lookup Panel */}
-            <PrevailingWageLookup
-              socCode={job?.socCode}
-              areaCode={worksite?.areaCode}
-              areaName={worksite?.areaName}
-              onSelect={handlePrimaryLookupSelect}
-              label="Primary Worksite"
-            />
+            {isOFLCSource && (
+              <PrevailingWageLookup
+                socCode={job?.socCode}
+                areaCode={worksite?.areaCode}
+                areaName={worksite?.areaName}
+                onSelect={handlePrimaryLookupSelect}
+                label="Primary Worksite"
+                resolvedWageYear={resolvedWageYear}
+                wageYears={resolvedWageYear.loadedYears}
+                tableType={wageTable}
+              />
+            )}
 
             <div className="grid gap-6 md:grid-cols-2">
               <div>
                 <Label htmlFor="prevailingWage">Prevailing Wage Rate *</Label>
+                {scanHint('prevailingWage')}
                 <div className="relative mt-1.5">
                   <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
                   <Input
@@ -522,6 +933,7 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
 
               <div>
                 <Label>Wage Unit *</Label>
+                {scanHint('prevailingWageUnit')}
                 <Controller
                   name="prevailingWageUnit"
                   control={control}
@@ -545,6 +957,7 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
               <div>
                 <div className="flex items-center gap-2">
                   <Label>Wage Level *</Label>
+                  {scanHint('wageLevel')}
                   <Tooltip>
                     <TooltipTrigger>
                       <Info className="h-4 w-4 text-muted-foreground" />
@@ -590,11 +1003,9 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="OES">OES (OEWS)</SelectItem>
-                        <SelectItem value="CBA">Collective Bargaining Agreement</SelectItem>
-                        <SelectItem value="DBA">Davis-Bacon Act</SelectItem>
-                        <SelectItem value="SCA">Service Contract Act</SelectItem>
-                        <SelectItem value="Other">Other Survey</SelectItem>
+                        {WAGE_SOURCE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   )}
@@ -606,6 +1017,7 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
 
               <div>
                 <Label htmlFor="wageSourceDate">Wage Source Date *</Label>
+                {scanHint('wageSourceDate')}
                 <Input
                   id="wageSourceDate"
                   type="date"
@@ -615,176 +1027,42 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
                 {errors.wageSourceDate && (
                   <p className="mt-1 text-sm text-destructive">{errors.wageSourceDate.message}</p>
                 )}
+                {wageSourceMismatch && (
+                  <p className="mt-1 text-xs text-warning bg-warning/10 p-2 rounded">⚠ {wageSourceMismatch}</p>
+                )}
               </div>
             </div>
+
+            {requiresWageSourceDocument(wageSource) && (
+              <WageSourceDetailsFields
+                wageSource={wageSource}
+                register={register}
+                control={control}
+                errors={errors}
+                lcaReceivedDate={lcaReceivedDate}
+              />
+            )}
           </CardContent>
         </Card>
 
-        {/* Secondary Worksite Prevailing Wage */}
-        {hasSecondaryWorksite && (
-          <Card className={hasSecondaryWage ? 'border-primary/50' : ''}>
-            <CardHeader className="pb-4">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <Building2 className="h-5 w-5 text-secondary" />
-                  <CardTitle className="text-lg">Secondary Worksite Prevailing Wage</CardTitle>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Label htmlFor="hasSecondaryWage" className="text-sm">
-                    Different Wage Area
-                  </Label>
-                  <Switch
-                    id="hasSecondaryWage"
-                    checked={hasSecondaryWage}
-                    onCheckedChange={(checked) => setValue('hasSecondaryWage', checked)}
-                  />
-                </div>
-              </div>
-              <CardDescription>
-                {worksite?.secondaryWorksite?.worksiteName && `${worksite.secondaryWorksite.worksiteName}, `}
-                {worksite?.secondaryWorksite?.city}, {worksite?.secondaryWorksite?.state}
-                {worksite?.secondaryWorksite?.county && ` (${worksite.secondaryWorksite.county} County)`}
-              </CardDescription>
-              {isDifferentCounty && (
-                <div className="mt-2 p-2 bg-warning/10 rounded text-xs text-warning-foreground">
-                  <strong>Note:</strong> Secondary worksite is in a different county ({secondaryCounty} vs {primaryCounty}). 
-                  Enable this to specify a separate prevailing wage for compliance.
-                </div>
-              )}
-            </CardHeader>
-            
-            {hasSecondaryWage && (
-              <CardContent className="space-y-5">
-                {/* Secondary Lookup Panel */}
-                <PrevailingWageLookup
-                  socCode={job?.socCode}
-                  areaCode={worksite?.secondaryWorksite ? (worksite as any).secondaryAreaCode : undefined}
-                  areaName={worksite?.secondaryWorksite?.county ? `${worksite.secondaryWorksite.city}, ${worksite.secondaryWorksite.state}` : undefined}
-                  onSelect={handleSecondaryLookupSelect}
-                  label="Secondary Worksite"
-                />
-
-                <div className="grid gap-6 md:grid-cols-2">
-                  <div>
-                    <Label htmlFor="secondaryPrevailingWage">Prevailing Wage Rate *</Label>
-                    <div className="relative mt-1.5">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
-                      <Input
-                        id="secondaryPrevailingWage"
-                        type="number"
-                        step="0.01"
-                        {...register('secondaryWage.prevailingWage', { valueAsNumber: true })}
-                        className="pl-7"
-                        placeholder="0.00"
-                      />
-                    </div>
-                  </div>
-
-                  <div>
-                    <Label>Wage Unit *</Label>
-                    <Controller
-                      name="secondaryWage.prevailingWageUnit"
-                      control={control}
-                      render={({ field }) => (
-                        <Select value={field.value} onValueChange={field.onChange}>
-                          <SelectTrigger className="mt-1.5">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="Hour">Per Hour</SelectItem>
-                            <SelectItem value="Week">Per Week</SelectItem>
-                            <SelectItem value="Bi-Weekly">Bi-Weekly</SelectItem>
-                            <SelectItem value="Month">Per Month</SelectItem>
-                            <SelectItem value="Year">Per Year</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      )}
-                    />
-                  </div>
-
-                  <div>
-                    <div className="flex items-center gap-2">
-                      <Label>Wage Level *</Label>
-                      <Tooltip>
-                        <TooltipTrigger>
-                          <Info className="h-4 w-4 text-muted-foreground" />
-                        </TooltipTrigger>
-                        <TooltipContent className="max-w-xs">
-                          <div className="space-y-2">
-                            {Object.entries(wageLevelDescriptions).map(([level, desc]) => (
-                              <div key={level}>
-                                <span className="font-medium">{level}:</span> {desc}
-                              </div>
-                            ))}
-                          </div>
-                        </TooltipContent>
-                      </Tooltip>
-                    </div>
-                    <Controller
-                      name="secondaryWage.wageLevel"
-                      control={control}
-                      render={({ field }) => (
-                        <Select value={field.value} onValueChange={field.onChange}>
-                          <SelectTrigger className="mt-1.5">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="Level I">Level I (Entry)</SelectItem>
-                            <SelectItem value="Level II">Level II (Qualified)</SelectItem>
-                            <SelectItem value="Level III">Level III (Experienced)</SelectItem>
-                            <SelectItem value="Level IV">Level IV (Fully Competent)</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      )}
-                    />
-                  </div>
-
-                  <div>
-                    <Label>Wage Source *</Label>
-                    <Controller
-                      name="secondaryWage.wageSource"
-                      control={control}
-                      render={({ field }) => (
-                        <Select value={field.value} onValueChange={field.onChange}>
-                          <SelectTrigger className="mt-1.5">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="OES">OES (OEWS)</SelectItem>
-                            <SelectItem value="CBA">Collective Bargaining Agreement</SelectItem>
-                            <SelectItem value="DBA">Davis-Bacon Act</SelectItem>
-                            <SelectItem value="SCA">Service Contract Act</SelectItem>
-                            <SelectItem value="Other">Other Survey</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      )}
-                    />
-                  </div>
-
-                  <div>
-                    <Label htmlFor="secondaryWageSourceDate">Wage Source Date *</Label>
-                    <Input
-                      id="secondaryWageSourceDate"
-                      type="date"
-                      {...register('secondaryWage.wageSourceDate')}
-                      className="mt-1.5"
-                    />
-                  </div>
-
-                  <div>
-                    <Label htmlFor="secondaryAreaName">Wage Area Name</Label>
-                    <Input
-                      id="secondaryAreaName"
-                      {...register('secondaryWage.areaName')}
-                      placeholder="e.g., New York-Newark-Jersey City, NY-NJ-PA"
-                      className="mt-1.5"
-                    />
-                  </div>
-                </div>
-              </CardContent>
-            )}
-          </Card>
-        )}
+        {/* Secondary Worksite Prevailing Wages */}
+        {sites.map((site, index) => (
+          <SecondaryWageCard
+            key={index}
+            index={index}
+            label={secondaryWorksiteLabel(index, sites.length)}
+            site={site}
+            primary={worksite}
+            socCode={job?.socCode}
+            register={register}
+            control={control}
+            setValue={setValue}
+            errors={errors}
+            resolvedWageYear={resolvedWageYear}
+            wageYears={resolvedWageYear.loadedYears}
+            tableType={wageTable}
+          />
+        ))}
 
         {/* Actual Wage Section */}
         <Card>
@@ -860,18 +1138,19 @@ export function WageInfoStep({ data, worksite, job, onNext, onBack }: WageInfoSt
           }`}>
             <p className="text-sm font-medium">
               {isWageCompliant 
-                ? `✓ Wage is compliant - actual wage ($${actualWage.toLocaleString()}) meets or exceeds ${hasSecondaryWage ? 'highest ' : ''}prevailing wage ($${maxPrevailingWage.toLocaleString()})`
-                : `🔴 PAF BLOCKED: Actual wage ($${actualWage.toLocaleString()}) is below the ${hasSecondaryWage ? 'highest ' : ''}prevailing wage requirement ($${maxPrevailingWage.toLocaleString()})`
+                ? `✓ Wage is compliant - actual wage (${formatWage(actualWage, actualWageUnit)}) meets or exceeds ${hasSecondaryWage ? 'highest ' : ''}prevailing wage (${requiredWage && formatWage(requiredWage.amount, requiredWage.unit)})`
+                : `🔴 PAF BLOCKED: Actual wage (${formatWage(actualWage, actualWageUnit)}) is below the ${hasSecondaryWage ? 'highest ' : ''}prevailing wage requirement (${requiredWage && formatWage(requiredWage.amount, requiredWage.unit)})`
               }
             </p>
             {!isWageCompliant && (
               <p className="text-xs mt-1">
-                You must increase the actual wage to at least ${maxPrevailingWage.toLocaleString()} to proceed with PAF generation.
+                You must increase the actual wage to at least {formatWage(Math.ceil(minimumActualWage * 100) / 100, actualWageUnit)} to proceed with PAF generation.
               </p>
             )}
-            {hasSecondaryWage && secondaryPrevailingWage > 0 && (
+            {hasSecondaryWage && (
               <p className="text-xs mt-1 opacity-80">
-                Primary: ${prevailingWage?.toLocaleString() || 0} | Secondary: ${secondaryPrevailingWage.toLocaleString()}
+                Primary: {formatWage(prevailingWage || 0, prevailingWageUnit)}
+                {enteredSecondaryWages.map(({ label, amount, unit }) => ` | ${label}: ${formatWage(amount, unit)}`)}
               </p>
             )}
           </div>
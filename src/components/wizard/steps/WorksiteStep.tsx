@@ -1,12 +1,11 @@
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useState, useEffect, useMemo } from 'react';
+import { useFieldArray, useForm, type FieldErrors, type UseFormRegister, type UseFormSetValue, type UseFormWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { MapPin, Loader2, Plus, X } from 'lucide-react';
+import { MapPin, Loader2, Plus, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -15,7 +14,11 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { loadGeography, getUniqueStates, getAreasForState } from '@/lib/dataLoader';
-import type { WorksiteLocation, GeographyArea } from '@/types/paf';
+import { areaForCounty } from '@/lib/areaResolver';
+import { ScanFieldHint } from '@/components/wizard/ScanFieldHint';
+import type { ScannedFields } from '@/lib/scanProvenance';
+import { secondaryWorksiteLabel } from '@/lib/worksites';
+import type { WorksiteLocation, GeographyArea, SecondaryWorksite } from '@/types/paf';
 
 const US_STATES = [
   'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut',
@@ -36,7 +39,11 @@ const secondaryWorksiteSchema = z.object({
   state: z.string().min(1, 'State is required'),
   postalCode: z.string().min(5, 'Valid postal code required'),
   county: z.string().optional(),
-});
+  areaCode: z.string().optional(),
+  areaName: z.string().optional(),
+  postingLocations: z.array(z.string()).optional(),
+  // Keeps the worksite's prevailing wage from the wage step
+}).passthrough();
 
 const worksiteSchema = z.object({
   worksiteName: z.string().optional(),
@@ -48,22 +55,37 @@ const worksiteSchema = z.object({
   county: z.string().optional(),
   areaCode: z.string().optional(),
   areaName: z.string().optional(),
-  hasSecondaryWorksite: z.boolean().optional(),
-  secondaryWorksite: secondaryWorksiteSchema.optional(),
+  secondaryWorksites: z.array(secondaryWorksiteSchema).optional(),
 });
 
+// Two display areas per worksite, as at the primary worksite
+const POSTING_LOCATION_COUNT = 2;
+
+const EMPTY_SECONDARY_WORKSITE: SecondaryWorksite = {
+  worksiteName: '',
+  address1: '',
+  address2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  county: '',
+  areaCode: '',
+  areaName: '',
+  postingLocations: Array(POSTING_LOCATION_COUNT).fill(''),
+};
+
 interface WorksiteStepProps {
   data: Partial<WorksiteLocation>;
+  // Fields filled from the LCA scan
+  scannedFields?: ScannedFields;
   onNext: (data: WorksiteLocation) => void;
   onBack: () => void;
 }
 
-export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
+export function WorksiteStep({ data, scannedFields, onNext, onBack }: WorksiteStepProps) {
   const [geography, setGeography] = useState<GeographyArea[]>([]);
   const [stateAreas, setStateAreas] = useState<GeographyArea[]>([]);
-  const [secondaryStateAreas, setSecondaryStateAreas] = useState<GeographyArea[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [showSecondary, setShowSecondary] = useState(data.hasSecondaryWorksite || false);
 
   const {
     register,
@@ -71,19 +93,25 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
     formState: { errors },
     setValue,
     watch,
+    control,
   } = useForm<WorksiteLocation>({
     resolver: zodResolver(worksiteSchema),
     defaultValues: {
       ...data,
-      hasSecondaryWorksite: data.hasSecondaryWorksite || false,
-      secondaryWorksite: data.secondaryWorksite || undefined,
+      secondaryWorksites: (data.secondaryWorksites ?? []).map((site) => ({
+        ...site,
+        postingLocations: Array.from({ length: POSTING_LOCATION_COUNT }, (_, i) => site.postingLocations?.[i] ?? ''),
+      })),
     },
   });
+  const { fields: secondaryFields, append, remove } = useFieldArray({ control, name: 'secondaryWorksites' });
 
   const selectedState = watch('state');
   const selectedCounty = watch('county');
-  const secondaryState = watch('secondaryWorksite.state');
-  const secondaryCounty = watch('secondaryWorksite.county');
+  const areaCode = watch('areaCode');
+  const scanHint = (name: 'worksiteName' | 'address1' | 'city' | 'state' | 'postalCode' | 'county') => (
+    <ScanFieldHint field={scannedFields?.[`worksite.${name}`]} value={watch(name)} />
+  );
 
   useEffect(() => {
     async function loadData() {
@@ -109,14 +137,15 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
     }
   }, [selectedState, geography]);
 
+  // A county filled in without its wage area (e.g. from the LCA scan) gets the area of that county
   useEffect(() => {
-    if (secondaryState && geography.length > 0) {
-      const areas = getAreasForState(geography, secondaryState);
-      setSecondaryStateAreas(areas);
-    } else {
-      setSecondaryStateAreas([]);
-    }
-  }, [secondaryState, geography]);
+    if (!selectedCounty || areaCode) return;
+    const area = areaForCounty(stateAreas, selectedState, selectedCounty);
+    if (!area) return;
+    setValue('county', area.countyName);
+    setValue('areaCode', area.areaCode);
+    setValue('areaName', area.areaName);
+  }, [selectedState, selectedCounty, areaCode, stateAreas, setValue]);
 
   const handleCountySelect = (countyName: string) => {
     setValue('county', countyName);
@@ -129,23 +158,16 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
     }
   };
 
-  const handleSecondaryCountySelect = (countyName: string) => {
-    setValue('secondaryWorksite.county', countyName);
-  };
-
   const uniqueCounties = [...new Set(stateAreas.map(a => a.countyName))].sort();
-  const secondaryUniqueCounties = [...new Set(secondaryStateAreas.map(a => a.countyName))].sort();
-
-  const handleSecondaryToggle = (enabled: boolean) => {
-    setShowSecondary(enabled);
-    setValue('hasSecondaryWorksite', enabled);
-    if (!enabled) {
-      setValue('secondaryWorksite', undefined);
-    }
-  };
 
   const onSubmit = (formData: WorksiteLocation) => {
-    onNext(formData);
+    onNext({
+      ...formData,
+      secondaryWorksites: formData.secondaryWorksites?.map((site) => ({
+        ...site,
+        postingLocations: (site.postingLocations ?? []).map((l) => l.trim()).filter(Boolean),
+      })),
+    });
   };
 
   return (
@@ -170,6 +192,7 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
           <div className="grid gap-6 md:grid-cols-2">
             <div className="md:col-span-2">
               <Label htmlFor="worksiteName">Worksite Name (Company/Client Name)</Label>
+              {scanHint('worksiteName')}
               <Input
                 id="worksiteName"
                 {...register('worksiteName')}
@@ -183,6 +206,7 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
 
             <div className="md:col-span-2">
               <Label htmlFor="address1">Address Line 1 *</Label>
+              {scanHint('address1')}
               <Input
                 id="address1"
                 {...register('address1')}
@@ -206,6 +230,7 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
 
             <div>
               <Label htmlFor="city">City *</Label>
+              {scanHint('city')}
               <Input
                 id="city"
                 {...register('city')}
@@ -219,6 +244,7 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
 
             <div>
               <Label htmlFor="state">State *</Label>
+              {scanHint('state')}
               <Select
                 value={watch('state')}
                 onValueChange={(value) => {
@@ -246,6 +272,7 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
 
             <div>
               <Label htmlFor="postalCode">Postal Code *</Label>
+              {scanHint('postalCode')}
               <Input
                 id="postalCode"
                 {...register('postalCode')}
@@ -259,6 +286,7 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
 
             <div>
               <Label htmlFor="county">County</Label>
+              {scanHint('county')}
               <Select
                 value={selectedCounty}
                 onValueChange={handleCountySelect}
@@ -287,141 +315,33 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
             </div>
           )}
 
-          {/* Secondary Worksite Toggle */}
+          {/* Secondary worksites (LCA Appendix A) */}
           <div className="flex items-center justify-between rounded-lg border border-border p-4 bg-muted/30">
             <div className="space-y-0.5">
-              <Label htmlFor="secondary-toggle" className="text-base font-medium">
-                Secondary Work Location
-              </Label>
+              <p className="text-base font-medium">Secondary Work Locations</p>
               <p className="text-sm text-muted-foreground">
-                Add an additional worksite if the employee will work at multiple locations
+                Add each additional worksite listed in Appendix A of the LCA, in the same order
               </p>
             </div>
-            <Switch
-              id="secondary-toggle"
-              checked={showSecondary}
-              onCheckedChange={handleSecondaryToggle}
-            />
+            <Button type="button" variant="outline" size="sm" onClick={() => append({ ...EMPTY_SECONDARY_WORKSITE })}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Worksite
+            </Button>
           </div>
 
-          {/* Secondary Worksite Fields */}
-          {showSecondary && (
-            <div className="space-y-6 rounded-lg border border-accent/30 p-6 bg-accent/5">
-              <div className="flex items-center gap-2">
-                <Plus className="h-5 w-5 text-accent" />
-                <h3 className="text-lg font-medium text-foreground">Secondary Worksite</h3>
-              </div>
-
-              <div className="grid gap-6 md:grid-cols-2">
-                <div className="md:col-span-2">
-                  <Label htmlFor="secondary-worksiteName">Worksite Name (Company/Client Name)</Label>
-                  <Input
-                    id="secondary-worksiteName"
-                    {...register('secondaryWorksite.worksiteName')}
-                    className="mt-1.5"
-                    placeholder="e.g., Client Site, Branch Office"
-                  />
-                  <p className="mt-1 text-xs text-muted-foreground">
-                    Name of the secondary worksite location (optional)
-                  </p>
-                </div>
-
-                <div className="md:col-span-2">
-                  <Label htmlFor="secondary-address1">Address Line 1 *</Label>
-                  <Input
-                    id="secondary-address1"
-                    {...register('secondaryWorksite.address1')}
-                    className="mt-1.5"
-                    placeholder="Street address"
-                  />
-                  {errors.secondaryWorksite?.address1 && (
-                    <p className="mt-1 text-sm text-destructive">{errors.secondaryWorksite.address1.message}</p>
-                  )}
-                </div>
-
-                <div className="md:col-span-2">
-                  <Label htmlFor="secondary-address2">Address Line 2</Label>
-                  <Input
-                    id="secondary-address2"
-                    {...register('secondaryWorksite.address2')}
-                    className="mt-1.5"
-                    placeholder="Suite, floor, building, etc."
-                  />
-                </div>
-
-                <div>
-                  <Label htmlFor="secondary-city">City *</Label>
-                  <Input
-                    id="secondary-city"
-                    {...register('secondaryWorksite.city')}
-                    className="mt-1.5"
-                    placeholder="City"
-                  />
-                  {errors.secondaryWorksite?.city && (
-                    <p className="mt-1 text-sm text-destructive">{errors.secondaryWorksite.city.message}</p>
-                  )}
-                </div>
-
-                <div>
-                  <Label htmlFor="secondary-state">State *</Label>
-                  <Select
-                    value={secondaryState || ''}
-                    onValueChange={(value) => {
-                      setValue('secondaryWorksite.state', value);
-                      setValue('secondaryWorksite.county', '');
-                    }}
-                  >
-                    <SelectTrigger className="mt-1.5">
-                      <SelectValue placeholder="Select state" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {US_STATES.map((state) => (
-                        <SelectItem key={state} value={state}>
-                          {state}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  {errors.secondaryWorksite?.state && (
-                    <p className="mt-1 text-sm text-destructive">{errors.secondaryWorksite.state.message}</p>
-                  )}
-                </div>
-
-                <div>
-                  <Label htmlFor="secondary-postalCode">Postal Code *</Label>
-                  <Input
-                    id="secondary-postalCode"
-                    {...register('secondaryWorksite.postalCode')}
-                    className="mt-1.5"
-                    placeholder="12345"
-                  />
-                  {errors.secondaryWorksite?.postalCode && (
-                    <p className="mt-1 text-sm text-destructive">{errors.secondaryWorksite.postalCode.message}</p>
-                  )}
-                </div>
-
-                <div>
-                  <Label htmlFor="secondary-county">County</Label>
-                  <Select
-                    value={secondaryCounty || ''}
-                    onValueChange={handleSecondaryCountySelect}
-                    disabled={!secondaryState}
-                  >
-                    <SelectTrigger className="mt-1.5">
-                      <SelectValue placeholder={secondaryState ? "Select county" : "Select state first"} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {secondaryUniqueCounties.map((county) => (
-                        <SelectItem key={county} value={county}>
-                          {county}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-            </div>
-          )}
+          {secondaryFields.map((field, index) => (
+            <SecondaryWorksiteFields
+              key={field.id}
+              index={index}
+              count={secondaryFields.length}
+              geography={geography}
+              register={register}
+              setValue={setValue}
+              watch={watch}
+              errors={errors}
+              onRemove={() => remove(index)}
+            />
+          ))}
 
           <div className="flex justify-between pt-4">
             <Button type="button" variant="wizardOutline" size="lg" onClick={onBack}>
@@ -436,3 +356,201 @@ export function WorksiteStep({ data, onNext, onBack }: WorksiteStepProps) {
     </div>
   );
 }
+
+interface SecondaryWorksiteFieldsProps {
+  index: number;
+  count: number;
+  geography: GeographyArea[];
+  register: UseFormRegister<WorksiteLocation>;
+  setValue: UseFormSetValue<WorksiteLocation>;
+  watch: UseFormWatch<WorksiteLocation>;
+  errors: FieldErrors<WorksiteLocation>;
+  onRemove: () => void;
+}
+
+// One Appendix A worksite: address, wage area (from its county like the primary) and display areas
+function SecondaryWorksiteFields({ index, count, geography, register, setValue, watch, errors, onRemove }: SecondaryWorksiteFieldsProps) {
+  const prefix = `secondaryWorksites.${index}` as const;
+  const siteErrors = errors.secondaryWorksites?.[index];
+  const idPrefix = `secondary-${index}`;
+
+  const state = watch(`${prefix}.state`);
+  const county = watch(`${prefix}.county`);
+  const areaCode = watch(`${prefix}.areaCode`);
+  const areaName = watch(`${prefix}.areaName`);
+
+  const stateAreas = useMemo(
+    () => (state && geography.length > 0 ? getAreasForState(geography, state) : []),
+    [state, geography]
+  );
+  const uniqueCounties = [...new Set(stateAreas.map(a => a.countyName))].sort();
+
+  useEffect(() => {
+    if (!county || areaCode) return;
+    const area = areaForCounty(stateAreas, state, county);
+    if (!area) return;
+    setValue(`${prefix}.county`, area.countyName);
+    setValue(`${prefix}.areaCode`, area.areaCode);
+    setValue(`${prefix}.areaName`, area.areaName);
+  }, [state, county, areaCode, stateAreas, setValue, prefix]);
+
+  const handleCountySelect = (countyName: string) => {
+    setValue(`${prefix}.county`, countyName);
+
+    const area = areaForCounty(stateAreas, state, countyName);
+    setValue(`${prefix}.areaCode`, area?.areaCode ?? '');
+    setValue(`${prefix}.areaName`, area?.areaName ?? '');
+  };
+
+  return (
+    <div className="space-y-6 rounded-lg border border-accent/30 p-6 bg-accent/5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <MapPin className="h-5 w-5 text-accent" />
+          <h3 className="text-lg font-medium text-foreground">{secondaryWorksiteLabel(index, count)}</h3>
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="mr-1 h-4 w-4" />
+          Remove
+        </Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="md:col-span-2">
+          <Label htmlFor={`${idPrefix}-worksiteName`}>Worksite Name (Company/Client Name)</Label>
+          <Input
+            id={`${idPrefix}-worksiteName`}
+            {...register(`${prefix}.worksiteName`)}
+            className="mt-1.5"
+            placeholder="e.g., Client Site, Branch Office"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            Name of the secondary worksite location (optional)
+          </p>
+        </div>
+
+        <div className="md:col-span-2">
+          <Label htmlFor={`${idPrefix}-address1`}>Address Line 1 *</Label>
+          <Input
+            id={`${idPrefix}-address1`}
+            {...register(`${prefix}.address1`)}
+            className="mt-1.5"
+            placeholder="Street address"
+          />
+          {siteErrors?.address1 && (
+            <p className="mt-1 text-sm text-destructive">{siteErrors.address1.message}</p>
+          )}
+        </div>
+
+        <div className="md:col-span-2">
+          <Label htmlFor={`${idPrefix}-address2`}>Address Line 2</Label>
+          <Input
+            id={`${idPrefix}-address2`}
+            {...register(`${prefix}.address2`)}
+            className="mt-1.5"
+            placeholder="Suite, floor, building, etc."
+          />
+        </div>
+
+        <div>
+          <Label htmlFor={`${idPrefix}-city`}>City *</Label>
+          <Input
+            id={`${idPrefix}-city`}
+            {...register(`${prefix}.city`)}
+            className="mt-1.5"
+            placeholder="City"
+          />
+          {siteErrors?.city && (
+            <p className="mt-1 text-sm text-destructive">{siteErrors.city.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor={`${idPrefix}-state`}>State *</Label>
+          <Select
+            value={state || ''}
+            onValueChange={(value) => {
+              setValue(`${prefix}.state`, value);
+              setValue(`${prefix}.county`, '');
+              setValue(`${prefix}.areaCode`, '');
+              setValue(`${prefix}.areaName`, '');
+            }}
+          >
+            <SelectTrigger className="mt-1.5">
+              <SelectValue placeholder="Select state" />
+            </SelectTrigger>
+            <SelectContent>
+              {US_STATES.map((s) => (
+                <SelectItem key={s} value={s}>
+                  {s}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {siteErrors?.state && (
+            <p className="mt-1 text-sm text-destructive">{siteErrors.state.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor={`${idPrefix}-postalCode`}>Postal Code *</Label>
+          <Input
+            id={`${idPrefix}-postalCode`}
+            {...register(`${prefix}.postalCode`)}
+            className="mt-1.5"
+            placeholder="12345"
+          />
+          {siteErrors?.postalCode && (
+            <p className="mt-1 text-sm text-destructive">{siteErrors.postalCode.message}</p>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor={`${idPrefix}-county`}>County</Label>
+          <Select
+            value={county || ''}
+            onValueChange={handleCountySelect}
+            disabled={!state}
+          >
+            <SelectTrigger className="mt-1.5">
+              <SelectValue placeholder={state ? "Select county" : "Select state first"} />
+            </SelectTrigger>
+            <SelectContent>
+              {uniqueCounties.map((c) => (
+                <SelectItem key={c} value={c}>
+                  {c}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {areaName && (
+        <div className="rounded-lg bg-background p-4 border border-accent/20">
+          <p className="text-sm font-medium text-foreground">Wage Area</p>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {areaName} (Code: {watch(`${prefix}.areaCode`)})
+          </p>
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {Array.from({ length: POSTING_LOCATION_COUNT }, (_, i) => (
+          <div key={i}>
+            <Label htmlFor={`${idPrefix}-posting-${i}`}>Notice Display Area {i + 1}</Label>
+            <Input
+              id={`${idPrefix}-posting-${i}`}
+              {...register(`${prefix}.postingLocations.${i}`)}
+              className="mt-1.5"
+              placeholder={i === 0 ? 'e.g., Break room bulletin board' : 'e.g., Near the main entrance'}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="-mt-4 text-xs text-muted-foreground">
+        Where the LCA notice is posted at this worksite (two conspicuous locations)
+      </p>
+    </div>
+  );
+}
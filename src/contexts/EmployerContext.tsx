@@ -0,0 +1,53 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { EmployerContext } from '@/hooks/useEmployer';
+import type { EmployerProfile } from '@/lib/employers';
+
+const ACTIVE_EMPLOYER_KEY = 'activeEmployerId';
+
+export function EmployerProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [activeEmployerId, setActiveEmployerIdState] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_EMPLOYER_KEY)
+  );
+
+  // RLS limits the rows to the user's organizations
+  const { data: employers = [], isLoading } = useQuery({
+    queryKey: ['employers', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employers')
+        .select('*')
+        .order('legal_business_name');
+
+      if (error) throw error;
+      return data as EmployerProfile[];
+    },
+    enabled: !!user,
+  });
+
+  const activeEmployer = employers.find((employer) => employer.id === activeEmployerId) ?? employers[0] ?? null;
+
+  // Remember the fallback so a stale or missing choice doesn't stick
+  useEffect(() => {
+    if (activeEmployer && activeEmployer.id !== activeEmployerId) {
+      setActiveEmployerIdState(activeEmployer.id);
+      localStorage.setItem(ACTIVE_EMPLOYER_KEY, activeEmployer.id);
+    }
+  }, [activeEmployer, activeEmployerId]);
+
+  const setActiveEmployerId = (id: string) => {
+    setActiveEmployerIdState(id);
+    localStorage.setItem(ACTIVE_EMPLOYER_KEY, id);
+  };
+
+  return (
+    <EmployerContext.Provider
+      value={{ employers, activeEmployer, setActiveEmployerId, loading: !!user && isLoading }}
+    >
+      {children}
+    </EmployerContext.Provider>
+  );
+}
@@ -0,0 +1,84 @@
+import { createContext, useContext } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import type { EmployerProfile } from '@/lib/employers';
+
+export interface EmployerContextType {
+  // Employers of the organizations the user is a member of
+  employers: EmployerProfile[];
+  activeEmployer: EmployerProfile | null;
+  setActiveEmployerId: (id: string) => void;
+  loading: boolean;
+}
+
+// Provided by EmployerProvider (contexts/EmployerContext.tsx)
+export const EmployerContext = createContext<EmployerContextType | undefined>(undefined);
+
+export function useEmployer() {
+  const context = useContext(EmployerContext);
+  if (context === undefined) {
+    throw new Error('useEmployer must be used within an EmployerProvider');
+  }
+  return context;
+}
+
+/** The active employer; only for pages behind ProtectedRoute, which waits for one. */
+export function useActiveEmployer(): EmployerProfile {
+  const { activeEmployer } = useEmployer();
+  if (!activeEmployer) {
+    throw new Error('No active employer');
+  }
+  return activeEmployer;
+}
+
+export type EmployerInput = Omit<TablesInsert<'employers'>, 'id' | 'organization_id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Updates an employer, or with no id adds one to the organization of the
+ * active employer (a related entity served by the same members).
+ */
+export function useSaveEmployer() {
+  const { activeEmployer, setActiveEmployerId } = useEmployer();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...employer }: EmployerInput & { id?: string }) => {
+      if (id) {
+        const { data, error } = await supabase
+          .from('employers')
+          .update(employer)
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      }
+
+      if (!activeEmployer) throw new Error('No active employer');
+      const { data, error } = await supabase
+        .from('employers')
+        .insert({ ...employer, organization_id: activeEmployer.organization_id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (saved, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['employers'] });
+      if (!id) setActiveEmployerId(saved.id);
+      toast({ title: id ? 'Employer updated' : 'Employer added' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving employer',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEmployer } from '@/hooks/useEmployer';
+
+export type AppRole = Enums<'app_role'>;
+
+/**
+ * The signed-in user's roles. RLS and the edge functions enforce them; the UI
+ * only uses them to hide or disable what the user couldn't do anyway.
+ */
+export function useRoles() {
+  const { user } = useAuth();
+  const { activeEmployer } = useEmployer();
+
+  const { data: roles = [], isLoading } = useQuery({
+    queryKey: ['user-roles', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('organization_id, role')
+        .eq('user_id', user!.id);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const grants = (held: AppRole[], role: AppRole) => held.includes(role) || held.includes('admin');
+  const activeRoles = roles
+    .filter((r) => r.organization_id === activeEmployer?.organization_id)
+    .map((r) => r.role);
+
+  return {
+    loading: !!user && isLoading,
+    // Roles in the organization of the active employer (admin implies all)
+    hasRole: (role: AppRole) => grants(activeRoles, role),
+    // Roles in any organization, for the DOL data every organization shares
+    hasRoleAnywhere: (role: AppRole) => grants(roles.map((r) => r.role), role),
+  };
+}
@@ -1,24 +1,37 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { registerSigningCertificate } from '@/lib/pdf/signPdf';
+import { useActiveEmployer } from '@/hooks/useEmployer';
 
 export interface Signatory {
   id: string;
+  employer_id: string;
   name: string;
   title: string;
   signature_image_path: string | null;
   is_default: boolean;
+  // PKCS#12 signing certificate (file and password are server-side only)
+  certificate_path: string | null;
+  certificate_fingerprint: string | null;
+  certificate_subject: string | null;
+  certificate_expires_at: string | null;
+  // The user who signs as this signatory; only they can use its certificate
+  user_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Signatories of the active employer
 export function useSignatories() {
+  const employer = useActiveEmployer();
   return useQuery({
-    queryKey: ['signatories'],
+    queryKey: ['signatories', employer.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('authorized_signatories')
         .select('*')
+        .eq('employer_id', employer.id)
         .order('is_default', { ascending: false })
         .order('name');
 
@@ -29,12 +42,14 @@ export function useSignatories() {
 }
 
 export function useDefaultSignatory() {
+  const employer = useActiveEmployer();
   return useQuery({
-    queryKey: ['signatories', 'default'],
+    queryKey: ['signatories', employer.id, 'default'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('authorized_signatories')
         .select('*')
+        .eq('employer_id', employer.id)
         .eq('is_default', true)
         .single();
 
@@ -62,7 +77,25 @@ export function useSignatoryById(id: string | undefined) {
   });
 }
 
+// Members of the active employer who can be linked to a signatory
+export function useSignatoryUsers() {
+  const employer = useActiveEmployer();
+  return useQuery({
+    queryKey: ['signatory-users', employer.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('employer_members_with_role', {
+        p_employer_id: employer.id,
+        p_role: 'signatory',
+      });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
 export function useCreateSignatory() {
+  const employer = useActiveEmployer();
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -70,7 +103,7 @@ export function useCreateSignatory() {
     mutationFn: async (signatory: { name: string; title: string; is_default?: boolean }) => {
       const { data, error } = await supabase
         .from('authorized_signatories')
-        .insert(signatory)
+        .insert({ ...signatory, employer_id: employer.id })
         .select()
         .single();
 
@@ -149,15 +182,17 @@ export function useDeleteSignatory() {
 }
 
 export function useSetDefaultSignatory() {
+  const employer = useActiveEmployer();
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   return useMutation({
     mutationFn: async (id: string) => {
-      // First, unset all defaults
+      // First, unset the employer's other defaults
       await supabase
         .from('authorized_signatories')
         .update({ is_default: false })
+        .eq('employer_id', employer.id)
         .neq('id', id);
 
       // Then set the new default
@@ -186,13 +221,15 @@ export function useSetDefaultSignatory() {
 }
 
 export function useUploadSignatureImage() {
+  const employer = useActiveEmployer();
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   return useMutation({
     mutationFn: async ({ id, file }: { id: string; file: File }) => {
       const fileExt = file.name.split('.').pop();
-      const fileName = `${id}.${fileExt}`;
+      // Filed under the employer, whose admins storage access is scoped to
+      const fileName = `${employer.id}/${id}.${fileExt}`;
       const filePath = `signatures/${fileName}`;
 
       // Upload the file
@@ -262,3 +299,25 @@ export function useRemoveSignatureImage() {
     },
   });
 }
+
+export function useUploadSigningCertificate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, file, password }: { id: string; file: File; password: string }) => {
+      await registerSigningCertificate(id, file, password);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['signatories'] });
+      toast({ title: 'Signing certificate saved' });
+    },
+    onError: (error) => {
+      toast({ 
+        title: 'Error saving certificate', 
+        description: error.message,
+        variant: 'destructive' 
+      });
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { resolveWageYear } from '@/lib/wageYear';
+
+// Wage years present in oflc_prevailing_wages, newest first
+export function useLoadedWageYears() {
+  return useQuery({
+    queryKey: ['loaded-wage-years'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_loaded_wage_years');
+      if (error) throw error;
+      return data ?? [];
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+}
+
+// Wage year for an LCA, resolved from its received date against the loaded years
+export function useResolvedWageYear(lcaReceivedDate?: string | null) {
+  const { data: loadedYears = [], isLoading } = useLoadedWageYears();
+  return { ...resolveWageYear(lcaReceivedDate, loadedYears), loadedYears, isLoading };
+}
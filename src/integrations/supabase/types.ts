@@ -16,36 +16,134 @@ export type Database = {
     Tables: {
       authorized_signatories: {
         Row: {
+          certificate_expires_at: string | null
+          certificate_fingerprint: string | null
+          certificate_password_secret_id: string | null
+          certificate_path: string | null
+          certificate_subject: string | null
           created_at: string
+          employer_id: string
           id: string
           is_default: boolean
           name: string
           signature_image_path: string | null
           title: string
           updated_at: string
+          user_id: string | null
         }
         Insert: {
+          certificate_expires_at?: string | null
+          certificate_fingerprint?: string | null
+          certificate_password_secret_id?: string | null
+          certificate_path?: string | null
+          certificate_subject?: string | null
           created_at?: string
+          employer_id: string
           id?: string
           is_default?: boolean
           name: string
           signature_image_path?: string | null
           title: string
           updated_at?: string
+          user_id?: string | null
         }
         Update: {
+          certificate_expires_at?: string | null
+          certificate_fingerprint?: string | null
+          certificate_password_secret_id?: string | null
+          certificate_path?: string | null
+          certificate_subject?: string | null
           created_at?: string
+          employer_id?: string
           id?: string
           is_default?: boolean
           name?: string
           signature_image_path?: string | null
           title?: string
           updated_at?: string
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "authorized_signatories_employer_id_fkey"
+            columns: ["employer_id"]
+            isOneToOne: false
+            referencedRelation: "employers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employers: {
+        Row: {
+          address1: string
+          address2: string | null
+          city: string
+          country: string
+          created_at: string
+          fein: string
+          id: string
+          legal_business_name: string
+          naics_code: string | null
+          name_variants: string[]
+          organization_id: string
+          postal_code: string
+          section_profile: Json
+          state: string
+          telephone: string | null
+          trade_name: string | null
+          updated_at: string
+        }
+        Insert: {
+          address1: string
+          address2?: string | null
+          city: string
+          country?: string
+          created_at?: string
+          fein: string
+          id?: string
+          legal_business_name: string
+          naics_code?: string | null
+          name_variants?: string[]
+          organization_id: string
+          postal_code: string
+          section_profile?: Json
+          state: string
+          telephone?: string | null
+          trade_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address1?: string
+          address2?: string | null
+          city?: string
+          country?: string
+          created_at?: string
+          fein?: string
+          id?: string
+          legal_business_name?: string
+          naics_code?: string | null
+          name_variants?: string[]
+          organization_id?: string
+          postal_code?: string
+          section_profile?: Json
+          state?: string
+          telephone?: string | null
+          trade_name?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       lca_disclosure: {
         Row: {
+          additional_worksites: Json | null
           begin_date: string | null
           case_number: string
           case_status: string
@@ -89,6 +187,7 @@ export type Database = {
           worksite_state: string | null
         }
         Insert: {
+          additional_worksites?: Json | null
           begin_date?: string | null
           case_number: string
           case_status: string
@@ -132,6 +231,7 @@ export type Database = {
           worksite_state?: string | null
         }
         Update: {
+          additional_worksites?: Json | null
           begin_date?: string | null
           case_number?: string
           case_status?: string
@@ -194,6 +294,7 @@ export type Database = {
           mean_hourly: number | null
           soc_code: string
           soc_title: string
+          table_type: string
           wage_year: string
         }
         Insert: {
@@ -213,6 +314,7 @@ export type Database = {
           mean_hourly?: number | null
           soc_code: string
           soc_title: string
+          table_type?: string
           wage_year: string
         }
         Update: {
@@ -232,23 +334,129 @@ export type Database = {
           mean_hourly?: number | null
           soc_code?: string
           soc_title?: string
+          table_type?: string
           wage_year?: string
         }
         Relationships: []
       }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      paf_record_revisions: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_by_email: string | null
+          data: Json
+          id: string
+          operation: string
+          paf_record_id: string
+          restored_from_revision: number | null
+          revision: number
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          data: Json
+          id?: string
+          operation: string
+          paf_record_id: string
+          restored_from_revision?: number | null
+          revision: number
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          data?: Json
+          id?: string
+          operation?: string
+          paf_record_id?: string
+          restored_from_revision?: number | null
+          revision?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "paf_record_revisions_paf_record_id_fkey"
+            columns: ["paf_record_id"]
+            isOneToOne: false
+            referencedRelation: "paf_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       paf_records: {
         Row: {
           actual_wage: number
           actual_wage_memo_path: string | null
           actual_wage_unit: string
+          approved_at: string | null
+          approved_by: string | null
+          approved_by_email: string | null
+          approved_by_signatory_id: string | null
+          archived_pdf_path: string | null
           begin_date: string
           benefits_comparison_path: string | null
+          cba_effective_date: string | null
+          cba_expiration_date: string | null
+          cba_name: string | null
+          compliance_override_at: string | null
+          compliance_override_by: string | null
+          compliance_override_by_email: string | null
+          compliance_override_reason: string | null
+          compliance_override_rules: string[] | null
+          content_hash: string | null
           created_at: string
+          current_version: number | null
+          current_version_id: string | null
           employer_address1: string
           employer_address2: string | null
           employer_city: string
           employer_country: string
           employer_fein: string
+          employer_id: string
           employer_legal_name: string
           employer_naics_code: string
           employer_postal_code: string
@@ -256,6 +464,7 @@ export type Database = {
           employer_telephone: string
           employer_trade_name: string | null
           end_date: string
+          hours_per_week: number | null
           id: string
           is_full_time: boolean
           is_h1b_dependent: boolean
@@ -264,6 +473,7 @@ export type Database = {
           job_title: string
           lca_case_number: string | null
           lca_file_path: string | null
+          lca_reconciliation: Json | null
           lca_status: string
           notice_posting_end_date: string | null
           notice_posting_location: string | null
@@ -272,12 +482,33 @@ export type Database = {
           notice_posting_location4: string | null
           notice_posting_proof_path: string | null
           notice_posting_start_date: string | null
+          notice_posting_start_date2: string | null
+          notice_posting_start_date3: string | null
+          notice_posting_start_date4: string | null
           onet_code: string | null
           onet_title: string | null
+          pdf_generated_at: string | null
+          pdf_sha256: string | null
           prevailing_wage: number
           prevailing_wage_unit: string
+          pwd_case_number: string | null
+          pwd_expiration_date: string | null
+          pwd_issue_date: string | null
+          review_requested_at: string | null
+          reviewer_email: string | null
+          reviewer_id: string | null
+          secondary_worksites: Json
+          signatory_id: string | null
+          signed_at: string | null
+          signed_by_signatory_id: string | null
+          signing_certificate_fingerprint: string | null
           soc_code: string
           soc_title: string
+          status: Database["public"]["Enums"]["paf_status"]
+          supersedes_id: string | null
+          survey_name: string | null
+          survey_publisher: string | null
+          survey_year: number | null
           updated_at: string
           visa_type: string
           wage_level: string
@@ -285,6 +516,7 @@ export type Database = {
           wage_rate_to: number | null
           wage_source: string
           wage_source_date: string
+          wage_source_document_path: string | null
           wage_unit: string
           worker_name: string | null
           workers_needed: number
@@ -301,14 +533,31 @@ export type Database = {
           actual_wage: number
           actual_wage_memo_path?: string | null
           actual_wage_unit: string
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_by_email?: string | null
+          approved_by_signatory_id?: string | null
+          archived_pdf_path?: string | null
           begin_date: string
           benefits_comparison_path?: string | null
+          cba_effective_date?: string | null
+          cba_expiration_date?: string | null
+          cba_name?: string | null
+          compliance_override_at?: string | null
+          compliance_override_by?: string | null
+          compliance_override_by_email?: string | null
+          compliance_override_reason?: string | null
+          compliance_override_rules?: string[] | null
+          content_hash?: string | null
           created_at?: string
+          current_version?: number | null
+          current_version_id?: string | null
           employer_address1: string
           employer_address2?: string | null
           employer_city: string
           employer_country?: string
           employer_fein: string
+          employer_id: string
           employer_legal_name: string
           employer_naics_code: string
           employer_postal_code: string
@@ -316,6 +565,7 @@ export type Database = {
           employer_telephone: string
           employer_trade_name?: string | null
           end_date: string
+          hours_per_week?: number | null
           id?: string
           is_full_time?: boolean
           is_h1b_dependent?: boolean
@@ -324,6 +574,7 @@ export type Database = {
           job_title: string
           lca_case_number?: string | null
           lca_file_path?: string | null
+          lca_reconciliation?: Json | null
           lca_status?: string
           notice_posting_end_date?: string | null
           notice_posting_location?: string | null
@@ -332,12 +583,33 @@ export type Database = {
           notice_posting_location4?: string | null
           notice_posting_proof_path?: string | null
           notice_posting_start_date?: string | null
+          notice_posting_start_date2?: string | null
+          notice_posting_start_date3?: string | null
+          notice_posting_start_date4?: string | null
           onet_code?: string | null
           onet_title?: string | null
+          pdf_generated_at?: string | null
+          pdf_sha256?: string | null
           prevailing_wage: number
           prevailing_wage_unit: string
+          pwd_case_number?: string | null
+          pwd_expiration_date?: string | null
+          pwd_issue_date?: string | null
+          review_requested_at?: string | null
+          reviewer_email?: string | null
+          reviewer_id?: string | null
+          secondary_worksites?: Json
+          signatory_id?: string | null
+          signed_at?: string | null
+          signed_by_signatory_id?: string | null
+          signing_certificate_fingerprint?: string | null
           soc_code: string
           soc_title: string
+          status?: Database["public"]["Enums"]["paf_status"]
+          supersedes_id?: string | null
+          survey_name?: string | null
+          survey_publisher?: string | null
+          survey_year?: number | null
           updated_at?: string
           visa_type?: string
           wage_level: string
@@ -345,6 +617,7 @@ export type Database = {
           wage_rate_to?: number | null
           wage_source: string
           wage_source_date: string
+          wage_source_document_path?: string | null
           wage_unit: string
           worker_name?: string | null
           workers_needed?: number
@@ -361,14 +634,31 @@ export type Database = {
           actual_wage?: number
           actual_wage_memo_path?: string | null
           actual_wage_unit?: string
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_by_email?: string | null
+          approved_by_signatory_id?: string | null
+          archived_pdf_path?: string | null
           begin_date?: string
           benefits_comparison_path?: string | null
+          cba_effective_date?: string | null
+          cba_expiration_date?: string | null
+          cba_name?: string | null
+          compliance_override_at?: string | null
+          compliance_override_by?: string | null
+          compliance_override_by_email?: string | null
+          compliance_override_reason?: string | null
+          compliance_override_rules?: string[] | null
+          content_hash?: string | null
           created_at?: string
+          current_version?: number | null
+          current_version_id?: string | null
           employer_address1?: string
           employer_address2?: string | null
           employer_city?: string
           employer_country?: string
           employer_fein?: string
+          employer_id?: string
           employer_legal_name?: string
           employer_naics_code?: string
           employer_postal_code?: string
@@ -376,6 +666,7 @@ export type Database = {
           employer_telephone?: string
           employer_trade_name?: string | null
           end_date?: string
+          hours_per_week?: number | null
           id?: string
           is_full_time?: boolean
           is_h1b_dependent?: boolean
@@ -384,6 +675,7 @@ export type Database = {
           job_title?: string
           lca_case_number?: string | null
           lca_file_path?: string | null
+          lca_reconciliation?: Json | null
           lca_status?: string
           notice_posting_end_date?: string | null
           notice_posting_location?: string | null
@@ -392,12 +684,33 @@ export type Database = {
           notice_posting_location4?: string | null
           notice_posting_proof_path?: string | null
           notice_posting_start_date?: string | null
+          notice_posting_start_date2?: string | null
+          notice_posting_start_date3?: string | null
+          notice_posting_start_date4?: string | null
           onet_code?: string | null
           onet_title?: string | null
+          pdf_generated_at?: string | null
+          pdf_sha256?: string | null
           prevailing_wage?: number
           prevailing_wage_unit?: string
+          pwd_case_number?: string | null
+          pwd_expiration_date?: string | null
+          pwd_issue_date?: string | null
+          review_requested_at?: string | null
+          reviewer_email?: string | null
+          reviewer_id?: string | null
+          secondary_worksites?: Json
+          signatory_id?: string | null
+          signed_at?: string | null
+          signed_by_signatory_id?: string | null
+          signing_certificate_fingerprint?: string | null
           soc_code?: string
           soc_title?: string
+          status?: Database["public"]["Enums"]["paf_status"]
+          supersedes_id?: string | null
+          survey_name?: string | null
+          survey_publisher?: string | null
+          survey_year?: number | null
           updated_at?: string
           visa_type?: string
           wage_level?: string
@@ -405,6 +718,7 @@ export type Database = {
           wage_rate_to?: number | null
           wage_source?: string
           wage_source_date?: string
+          wage_source_document_path?: string | null
           wage_unit?: string
           worker_name?: string | null
           workers_needed?: number
@@ -417,14 +731,349 @@ export type Database = {
           worksite_postal_code?: string
           worksite_state?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "paf_records_approved_by_signatory_id_fkey"
+            columns: ["approved_by_signatory_id"]
+            isOneToOne: false
+            referencedRelation: "authorized_signatories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "paf_records_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "paf_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "paf_records_employer_id_fkey"
+            columns: ["employer_id"]
+            isOneToOne: false
+            referencedRelation: "employers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "paf_records_signatory_id_fkey"
+            columns: ["signatory_id"]
+            isOneToOne: false
+            referencedRelation: "authorized_signatories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "paf_records_signed_by_signatory_id_fkey"
+            columns: ["signed_by_signatory_id"]
+            isOneToOne: false
+            referencedRelation: "authorized_signatories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "paf_records_supersedes_id_fkey"
+            columns: ["supersedes_id"]
+            isOneToOne: false
+            referencedRelation: "paf_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      paf_review_comments: {
+        Row: {
+          author_email: string | null
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          paf_record_id: string
+          resolved_at: string | null
+          section: string
+        }
+        Insert: {
+          author_email?: string | null
+          author_id?: string
+          body: string
+          created_at?: string
+          id?: string
+          paf_record_id: string
+          resolved_at?: string | null
+          section: string
+        }
+        Update: {
+          author_email?: string | null
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          paf_record_id?: string
+          resolved_at?: string | null
+          section?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "paf_review_comments_paf_record_id_fkey"
+            columns: ["paf_record_id"]
+            isOneToOne: false
+            referencedRelation: "paf_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      paf_versions: {
+        Row: {
+          content_hash: string | null
+          generated_at: string
+          generated_by: string | null
+          id: string
+          paf_record_id: string
+          pdf_path: string
+          pdf_sha256: string
+          signed_at: string | null
+          signed_by_signatory_id: string | null
+          signing_certificate_fingerprint: string | null
+          version: number
+        }
+        Insert: {
+          content_hash?: string | null
+          generated_at?: string
+          generated_by?: string | null
+          id?: string
+          paf_record_id: string
+          pdf_path: string
+          pdf_sha256: string
+          signed_at?: string | null
+          signed_by_signatory_id?: string | null
+          signing_certificate_fingerprint?: string | null
+          version: number
+        }
+        Update: {
+          content_hash?: string | null
+          generated_at?: string
+          generated_by?: string | null
+          id?: string
+          paf_record_id?: string
+          pdf_path?: string
+          pdf_sha256?: string
+          signed_at?: string | null
+          signed_by_signatory_id?: string | null
+          signing_certificate_fingerprint?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "paf_versions_paf_record_id_fkey"
+            columns: ["paf_record_id"]
+            isOneToOne: false
+            referencedRelation: "paf_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "paf_versions_signed_by_signatory_id_fkey"
+            columns: ["signed_by_signatory_id"]
+            isOneToOne: false
+            referencedRelation: "authorized_signatories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      paf_wizard_drafts: {
+        Row: {
+          created_at: string
+          current_step: number
+          data: Json
+          employer_id: string
+          id: string
+          mode: string
+          scanned_fields: Json
+          selected_lca: Json | null
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_step?: number
+          data?: Json
+          employer_id: string
+          id?: string
+          mode: string
+          scanned_fields?: Json
+          selected_lca?: Json | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          current_step?: number
+          data?: Json
+          employer_id?: string
+          id?: string
+          mode?: string
+          scanned_fields?: Json
+          selected_lca?: Json | null
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "paf_wizard_drafts_employer_id_fkey"
+            columns: ["employer_id"]
+            isOneToOne: false
+            referencedRelation: "employers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_organization_id_user_id_fkey"
+            columns: ["organization_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "organization_members"
+            referencedColumns: ["organization_id", "user_id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      clear_wage_year: { Args: { p_wage_year: string }; Returns: number }
+      add_paf_version: {
+        Args: {
+          p_content_hash: string | null
+          p_paf_record_id: string
+          p_pdf_path: string
+          p_pdf_sha256: string
+        }
+        Returns: Database["public"]["Tables"]["paf_versions"]["Row"]
+      }
+      add_signed_paf_version: {
+        Args: {
+          p_pdf_path: string
+          p_pdf_sha256: string
+          p_signed_at: string
+          p_signed_by_signatory_id: string
+          p_signed_by_user_id: string
+          p_signing_certificate_fingerprint: string
+          p_source_version_id: string
+        }
+        Returns: Database["public"]["Tables"]["paf_versions"]["Row"]
+      }
+      approve_paf: {
+        Args: { p_paf_record_id: string; p_signatory_id: string }
+        Returns: Database["public"]["Tables"]["paf_records"]["Row"]
+      }
+      clear_wage_year: {
+        Args: { p_table_type?: string; p_wage_year: string }
+        Returns: number
+      }
+      employer_members_with_role: {
+        Args: {
+          p_employer_id: string
+          p_role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: {
+          email: string
+          user_id: string
+        }[]
+      }
+      get_loaded_wage_years: { Args: never; Returns: string[] }
+      get_signatory_certificate_password: {
+        Args: { p_signatory_id: string }
+        Returns: string
+      }
+      has_employer_role: {
+        Args: {
+          p_employer_id: string
+          p_role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: boolean
+      }
+      has_organization_role: {
+        Args: {
+          p_organization_id: string
+          p_role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      is_employer_member: {
+        Args: { p_employer_id: string }
+        Returns: boolean
+      }
+      is_organization_member: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      mark_lca_paf_generated: {
+        Args: { p_lca_id: string; p_paf_record_id: string }
+        Returns: undefined
+      }
+      paf_document_employer: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      request_paf_changes: {
+        Args: { p_paf_record_id: string }
+        Returns: Database["public"]["Tables"]["paf_records"]["Row"]
+      }
+      restore_paf_revision: {
+        Args: { p_revision_id: string }
+        Returns: Database["public"]["Tables"]["paf_records"]["Row"]
+      }
+      revise_paf: {
+        Args: { p_paf_record_id: string }
+        Returns: Database["public"]["Tables"]["paf_records"]["Row"]
+      }
+      set_signatory_certificate_password: {
+        Args: { p_password: string; p_signatory_id: string }
+        Returns: string
+      }
+      signature_image_employer: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      submit_paf_for_review: {
+        Args: { p_paf_record_id: string; p_reviewer_id: string }
+        Returns: Database["public"]["Tables"]["paf_records"]["Row"]
+      }
+      verify_paf_document: {
+        Args: { p_content_hash: string | null; p_pdf_sha256: string }
+        Returns: {
+          content_matches: boolean
+          employer_legal_name: string
+          id: string
+          is_current_version: boolean
+          job_title: string
+          lca_case_number: string | null
+          pdf_generated_at: string
+          pdf_matches: boolean
+          version: number
+        }[]
+      }
       patch_area_names: {
         Args: {
           p_area_codes: string[]
@@ -435,7 +1084,13 @@ export type Database = {
       }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "preparer" | "reviewer" | "signatory" | "admin"
+      paf_status:
+        | "draft"
+        | "in_review"
+        | "changes_requested"
+        | "approved"
+        | "superseded"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -562,6 +1217,15 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["preparer", "reviewer", "signatory", "admin"],
+      paf_status: [
+        "draft",
+        "in_review",
+        "changes_requested",
+        "approved",
+        "superseded",
+      ],
+    },
   },
 } as const
@@ -14,28 +14,36 @@ function canonicalizeForComparison(value?: string | null): string {
     .replace(/[^a-z0-9]+/g, '');
 }
 
-function normalizeSbsZipCode(
-  postalCode: string,
-  address1?: string,
-  city?: string,
-  state?: string,
-  legalBusinessName?: string,
-  tradeName?: string,
-): string {
+// The employer's registered address (see employers.ts)
+export interface RegisteredAddress {
+  address1: string;
+  city: string;
+  state: string;
+  postalCode: string;
+}
+
+interface AddressLines {
+  address1?: string;
+  city?: string;
+  state?: string;
+}
+
+/**
+ * Disclosure data and scans sometimes carry the wrong ZIP for the employer's
+ * own office; a copy of the registered address takes its postal code.
+ */
+export function normalizeRegisteredPostalCode(postalCode: string, address: AddressLines, registered?: RegisteredAddress): string {
   const cleanPostalCode = cleanWhitespace(postalCode);
-  const normalizedAddress = canonicalizeForComparison(address1);
-  const normalizedCity = canonicalizeForComparison(city);
-  const normalizedState = canonicalizeForComparison(state);
-  const normalizedCompany = canonicalizeForComparison(`${legalBusinessName ?? ''} ${tradeName ?? ''}`);
-
-  const isSbsHoustonAddress =
-    cleanPostalCode === '77085' &&
-    normalizedCity === 'houston' &&
-    normalizedState === 'texas' &&
-    normalizedAddress.includes('16001parktenplace') &&
-    (normalizedCompany.includes('saibusinesssolutionsllc') || normalizedCompany.includes('sbscorp'));
-
-  return isSbsHoustonAddress ? '77084' : cleanPostalCode;
+  if (!registered) return cleanPostalCode;
+
+  const normalizedAddress = canonicalizeForComparison(address.address1);
+  const isRegisteredAddress =
+    !!normalizedAddress &&
+    normalizedAddress.includes(canonicalizeForComparison(registered.address1)) &&
+    canonicalizeForComparison(address.city) === canonicalizeForComparison(registered.city) &&
+    canonicalizeForComparison(address.state) === canonicalizeForComparison(registered.state);
+
+  return isRegisteredAddress ? cleanWhitespace(registered.postalCode) : cleanPostalCode;
 }
 
 export function dedupeAddress2(address1: string, address2?: string): string {
@@ -56,80 +64,47 @@ export function formatAddressLine(address1: string, address2?: string): string {
   return `${cleanAddress1}${dedupeAddress2(cleanAddress1, address2)}`;
 }
 
-function sanitizeEmployer(employer: Employer): Employer {
+function sanitizeEmployer(employer: Employer, registered?: RegisteredAddress): Employer {
   return {
     ...employer,
     address1: cleanWhitespace(employer.address1),
     address2: dedupeAddress2(employer.address1, employer.address2)
       ? cleanWhitespace(employer.address2)
       : undefined,
-    postalCode: normalizeSbsZipCode(
-      employer.postalCode,
-      employer.address1,
-      employer.city,
-      employer.state,
-      employer.legalBusinessName,
-      employer.tradeName,
-    ),
+    postalCode: normalizeRegisteredPostalCode(employer.postalCode, employer, registered),
   };
 }
 
-function sanitizeSecondaryWorksite(
-  worksite: SecondaryWorksite | undefined,
-  employer: Employer,
-): SecondaryWorksite | undefined {
-  if (!worksite) return undefined;
-
+function sanitizeSecondaryWorksite(worksite: SecondaryWorksite, registered?: RegisteredAddress): SecondaryWorksite {
   return {
     ...worksite,
     address1: cleanWhitespace(worksite.address1),
     address2: dedupeAddress2(worksite.address1, worksite.address2)
       ? cleanWhitespace(worksite.address2)
       : undefined,
-    postalCode: normalizeSbsZipCode(
-      worksite.postalCode,
-      worksite.address1,
-      worksite.city,
-      worksite.state,
-      employer.legalBusinessName,
-      employer.tradeName,
-    ),
+    postalCode: normalizeRegisteredPostalCode(worksite.postalCode, worksite, registered),
   };
 }
 
-function sanitizeWorksite(worksite: WorksiteLocation, employer: Employer): WorksiteLocation {
+function sanitizeWorksite(worksite: WorksiteLocation, registered?: RegisteredAddress): WorksiteLocation {
   return {
     ...worksite,
     address1: cleanWhitespace(worksite.address1),
     address2: dedupeAddress2(worksite.address1, worksite.address2)
       ? cleanWhitespace(worksite.address2)
       : undefined,
-    postalCode: normalizeSbsZipCode(
-      worksite.postalCode,
-      worksite.address1,
-      worksite.city,
-      worksite.state,
-      employer.legalBusinessName,
-      employer.tradeName,
-    ),
-    secondaryWorksite: sanitizeSecondaryWorksite(worksite.secondaryWorksite, employer),
+    postalCode: normalizeRegisteredPostalCode(worksite.postalCode, worksite, registered),
+    secondaryWorksites: worksite.secondaryWorksites?.map((secondary) => sanitizeSecondaryWorksite(secondary, registered)),
   };
 }
 
-export function sanitizePAFData(data: PAFData): PAFData {
-  const employer = sanitizeEmployer(data.employer);
-  const worksite = sanitizeWorksite(data.worksite, employer);
+export function sanitizePAFData(data: PAFData, registered?: RegisteredAddress): PAFData {
+  const employer = sanitizeEmployer(data.employer, registered);
+  const worksite = sanitizeWorksite(data.worksite, registered);
   const contact = data.contact
     ? {
         ...data.contact,
-        postalCode: normalizeSbsZipCode(
-          data.contact.postalCode,
-          data.contact.address1,
-          data.contact.city,
-          data.contact.state,
-          employer.legalBusinessName,
-          employer.tradeName,
-        ),
+        postalCode: normalizeRegisteredPostalCode(data.contact.postalCode, data.contact, registered),
       }
     : undefined;
 
@@ -140,23 +115,3 @@ export function sanitizePAFData(data: PAFData): PAFData {
     ...(contact ? { contact } : {}),
   } as PAFData;
 }
-
-export function normalizeKnownPostalCode(
-  postalCode: string,
-  options: {
-    address1?: string;
-    city?: string;
-    state?: string;
-    legalBusinessName?: string;
-    tradeName?: string;
-  },
-): string {
-  return normalizeSbsZipCode(
-    postalCode,
-    options.address1,
-    options.city,
-    options.state,
-    options.legalBusinessName,
-    options.tradeName,
-  );
-}
\ No newline at end of file
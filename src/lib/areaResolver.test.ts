@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import type { GeographyArea } from '@/types/paf';
+import { areaForCounty } from './areaResolver';
+
+// geography.csv rows for a few worksites
+const geography: GeographyArea[] = [
+  { areaCode: '16980', areaName: 'Chicago-Naperville-Elgin, IL-IN-WI', stateAbbr: 'IL', stateName: 'Illinois', countyName: 'Cook County' },
+  { areaCode: '16980', areaName: 'Chicago-Naperville-Elgin, IL-IN-WI', stateAbbr: 'IL', stateName: 'Illinois', countyName: 'DuPage County' },
+  { areaCode: '2700002', areaName: 'Northeast Minnesota nonmetropolitan area', stateAbbr: 'MN', stateName: 'Minnesota', countyName: 'Cook County' },
+  { areaCode: '12580', areaName: 'Baltimore-Columbia-Towson, MD', stateAbbr: 'MD', stateName: 'Maryland', countyName: 'Baltimore County' },
+  { areaCode: '12580', areaName: 'Baltimore-Columbia-Towson, MD', stateAbbr: 'MD', stateName: 'Maryland', countyName: 'Baltimore city' },
+];
+
+describe('areaForCounty', () => {
+  it('prefers an exact name over a loose match', () => {
+    expect(areaForCounty(geography, 'MD', 'Baltimore city')?.countyName).toBe('Baltimore city');
+    expect(areaForCounty(geography, 'MD', 'Baltimore')?.countyName).toBe('Baltimore County');
+  });
+
+  it('matches county names as the LCA and scans write them', () => {
+    expect(areaForCounty(geography, 'IL', 'DUPAGE')?.countyName).toBe('DuPage County');
+    expect(areaForCounty(geography, 'Illinois', 'cook county')?.countyName).toBe('Cook County');
+    expect(areaForCounty(geography, 'IL', ' ')).toBeUndefined();
+  });
+
+  it('matches the county within the given state', () => {
+    expect(areaForCounty(geography, 'Minnesota', 'Cook County')?.areaCode).toBe('2700002');
+    expect(areaForCounty(geography, 'IL', 'Cook County')?.areaCode).toBe('16980');
+  });
+});
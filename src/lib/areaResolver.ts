@@ -0,0 +1,36 @@
+import type { GeographyArea } from '@/types/paf';
+
+/**
+ * Resolves a worksite county to its OFLC wage area from geography.csv.
+ * Worksites are placed by state and county; there is no bundled ZIP-county
+ * crosswalk, so the ZIP code doesn't pick the area.
+ */
+
+// 'Santa Clara County' / 'SANTA CLARA' / 'St. Louis city' → comparable keys
+function normalizeCounty(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/\b(county|parish|borough|census area|municipality|city and borough)\b/g, '')
+    .replace(/\bsaint\b/g, 'st')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function matchesState(area: GeographyArea, state?: string): boolean {
+  if (!state) return true;
+  const s = state.trim().toLowerCase();
+  return area.stateAbbr.toLowerCase() === s || area.stateName.toLowerCase() === s;
+}
+
+/** OFLC area for a county, matching names loosely ('Cook' matches 'Cook County'). */
+export function areaForCounty(geography: GeographyArea[], state: string | undefined, county: string): GeographyArea | undefined {
+  const key = normalizeCounty(county);
+  if (!key) return undefined;
+  const inState = geography.filter((g) => matchesState(g, state));
+  // Independent cities share names with counties (e.g. Baltimore), so prefer an exact match
+  return (
+    inState.find((g) => g.countyName.toLowerCase() === county.trim().toLowerCase()) ??
+    inState.find((g) => normalizeCounty(g.countyName) === key)
+  );
+}
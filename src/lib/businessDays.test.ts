@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countBusinessDays,
+  federalHolidays,
+  isBusinessDay,
+  postingPeriodsByLocation,
+  proposePostingEndDate,
+} from './businessDays';
+
+describe('federalHolidays', () => {
+  it('lists the eleven observed holidays of a year', () => {
+    expect(federalHolidays(2024).map((holiday) => holiday.date)).toEqual([
+      '2024-01-01',
+      '2024-01-15',
+      '2024-02-19',
+      '2024-05-27',
+      '2024-06-19',
+      '2024-07-04',
+      '2024-09-02',
+      '2024-10-14',
+      '2024-11-11',
+      '2024-11-28',
+      '2024-12-25',
+    ]);
+  });
+
+  it('observes Saturday holidays on Friday and Sunday holidays on Monday', () => {
+    const dates = federalHolidays(2021).map((holiday) => holiday.date);
+
+    // Juneteenth and Christmas fell on a Saturday, Independence Day on a Sunday
+    expect(dates).toContain('2021-06-18');
+    expect(dates).toContain('2021-07-05');
+    expect(dates).toContain('2021-12-24');
+    expect(dates).not.toContain('2021-06-19');
+  });
+
+  it("observes a Saturday New Year's Day in the previous year", () => {
+    expect(federalHolidays(2021)).toContainEqual({ date: '2021-12-31', name: "New Year's Day" });
+    expect(federalHolidays(2022).map((holiday) => holiday.name)).not.toContain("New Year's Day");
+  });
+
+  it('has no Juneteenth before 2021', () => {
+    expect(federalHolidays(2020).map((holiday) => holiday.name)).not.toContain('Juneteenth National Independence Day');
+  });
+});
+
+describe('isBusinessDay', () => {
+  it('excludes weekends and observed holidays', () => {
+    expect(isBusinessDay(new Date(2024, 10, 8))).toBe(true);
+    expect(isBusinessDay(new Date(2024, 10, 9))).toBe(false);
+    expect(isBusinessDay(new Date(2024, 10, 11))).toBe(false);
+    expect(isBusinessDay(new Date(2021, 6, 5))).toBe(false);
+  });
+});
+
+describe('countBusinessDays', () => {
+  it('counts both ends and skips holidays', () => {
+    // Veterans Day falls inside the window
+    expect(countBusinessDays('2024-11-04', '2024-11-18')).toBe(10);
+    expect(countBusinessDays('2024-11-04', '2024-11-15')).toBe(9);
+  });
+
+  it('is 0 for a missing or reversed window', () => {
+    expect(countBusinessDays(null, '2024-11-18')).toBe(0);
+    expect(countBusinessDays('2024-11-18', '2024-11-04')).toBe(0);
+    expect(countBusinessDays('not a date', '2024-11-18')).toBe(0);
+  });
+});
+
+describe('proposePostingEndDate', () => {
+  it('ends on the tenth business day, skipping holidays', () => {
+    expect(proposePostingEndDate('2024-11-04')).toBe('2024-11-18');
+    // Thanksgiving
+    expect(proposePostingEndDate('2024-11-25')).toBe('2024-12-09');
+  });
+
+  it('skips a holiday on its observed date', () => {
+    // Juneteenth 2021 was a Saturday, observed Friday June 18
+    expect(proposePostingEndDate('2021-06-14')).toBe('2021-06-28');
+  });
+
+  it('counts from the next business day when posted on a weekend', () => {
+    expect(proposePostingEndDate('2024-11-02')).toBe('2024-11-18');
+  });
+
+  it('takes another required length', () => {
+    expect(proposePostingEndDate('2024-11-04', 1)).toBe('2024-11-04');
+  });
+
+  it('is null without a start date', () => {
+    expect(proposePostingEndDate('')).toBeNull();
+  });
+});
+
+describe('postingPeriodsByLocation', () => {
+  it('uses the shared start date for locations without their own', () => {
+    expect(
+      postingPeriodsByLocation({
+        noticePostingLocation: 'Break room',
+        noticePostingStartDate: '2024-11-04',
+        noticePostingLocation2: 'Client lobby',
+        noticePostingStartDate2: '2024-11-05',
+        noticePostingLocation3: 'Intranet',
+        noticePostingEndDate: '2024-11-18',
+      })
+    ).toEqual([
+      { location: 'Break room', startDate: '2024-11-04', endDate: '2024-11-18', businessDays: 10 },
+      { location: 'Client lobby', startDate: '2024-11-05', endDate: '2024-11-18', businessDays: 9 },
+      { location: 'Intranet', startDate: '2024-11-04', endDate: '2024-11-18', businessDays: 10 },
+    ]);
+  });
+
+  it('is empty until the end date is entered', () => {
+    expect(postingPeriodsByLocation({ noticePostingLocation: 'Break room', noticePostingStartDate: '2024-11-04' })).toEqual([]);
+  });
+});
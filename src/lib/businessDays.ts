@@ -0,0 +1,159 @@
+import { addDays, format, getDay, isWeekend, lastDayOfMonth, parseISO, isValid } from 'date-fns';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+
+/**
+ * Federal business-day calendar for LCA notice posting periods.
+ *
+ * A business day is a weekday that isn't a federal holiday (5 U.S.C. 6103).
+ * Holidays falling on a Saturday are observed the Friday before, on a Sunday
+ * the Monday after. Dates are 'yyyy-MM-dd' strings like everywhere else in
+ * the PAF data.
+ */
+
+export const REQUIRED_POSTING_BUSINESS_DAYS = 10;
+
+export interface FederalHoliday {
+  date: string;
+  name: string;
+}
+
+export interface LocationPostingPeriod {
+  location: string;
+  startDate: string;
+  endDate: string;
+  businessDays: number;
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+function toDateString(date: Date): string {
+  return format(date, DATE_FORMAT);
+}
+
+function parseDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+// nth given weekday of a month (weekday: 0 = Sunday); month is 0-based
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = new Date(year, month, 1);
+  const offset = (weekday - getDay(first) + 7) % 7;
+  return new Date(year, month, 1 + offset + (n - 1) * 7);
+}
+
+function lastWeekday(year: number, month: number, weekday: number): Date {
+  const last = lastDayOfMonth(new Date(year, month, 1));
+  const offset = (getDay(last) - weekday + 7) % 7;
+  return addDays(last, -offset);
+}
+
+function observed(date: Date): Date {
+  const day = getDay(date);
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+// Holidays by their legal (not observed) date
+function legalHolidays(year: number): { date: Date; name: string }[] {
+  const holidays = [
+    { date: new Date(year, 0, 1), name: "New Year's Day" },
+    { date: nthWeekday(year, 0, 1, 3), name: 'Birthday of Martin Luther King, Jr.' },
+    { date: nthWeekday(year, 1, 1, 3), name: "Washington's Birthday" },
+    { date: lastWeekday(year, 4, 1), name: 'Memorial Day' },
+    { date: new Date(year, 6, 4), name: 'Independence Day' },
+    { date: nthWeekday(year, 8, 1, 1), name: 'Labor Day' },
+    { date: nthWeekday(year, 9, 1, 2), name: 'Columbus Day' },
+    { date: new Date(year, 10, 11), name: 'Veterans Day' },
+    { date: nthWeekday(year, 10, 4, 4), name: 'Thanksgiving Day' },
+    { date: new Date(year, 11, 25), name: 'Christmas Day' },
+  ];
+  if (year >= 2021) {
+    holidays.push({ date: new Date(year, 5, 19), name: 'Juneteenth National Independence Day' });
+  }
+  return holidays;
+}
+
+const holidayCache = new Map<number, FederalHoliday[]>();
+
+/**
+ * Observed federal holidays in a calendar year. New Year's Day of the next
+ * year is included when it is observed on December 31.
+ */
+export function federalHolidays(year: number): FederalHoliday[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays = [...legalHolidays(year), ...legalHolidays(year + 1)]
+    .map(({ date, name }) => ({ date: observed(date), name }))
+    .filter(({ date }) => date.getFullYear() === year)
+    .map(({ date, name }) => ({ date: toDateString(date), name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+export function federalHolidayOn(date: Date): FederalHoliday | undefined {
+  const dateString = toDateString(date);
+  return federalHolidays(date.getFullYear()).find((holiday) => holiday.date === dateString);
+}
+
+export function isBusinessDay(date: Date): boolean {
+  return !isWeekend(date) && !federalHolidayOn(date);
+}
+
+/** Business days from start to end, both inclusive. 0 when either is missing or end is before start. */
+export function countBusinessDays(startDate?: string | null, endDate?: string | null): number {
+  const start = parseDate(startDate);
+  const end = parseDate(endDate);
+  if (!start || !end || end < start) return 0;
+
+  let count = 0;
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    if (isBusinessDay(day)) count++;
+  }
+  return count;
+}
+
+/**
+ * Earliest date a notice posted on startDate can come down: the day on which
+ * it has been up for the required number of business days. A start date on a
+ * weekend or holiday counts from the next business day.
+ */
+export function proposePostingEndDate(startDate?: string | null, businessDays = REQUIRED_POSTING_BUSINESS_DAYS): string | null {
+  let day = parseDate(startDate);
+  if (!day) return null;
+
+  let count = 0;
+  for (;;) {
+    if (isBusinessDay(day)) count++;
+    if (count >= businessDays) return toDateString(day);
+    day = addDays(day, 1);
+  }
+}
+
+/**
+ * Posting period of each entered location. Locations without their own start
+ * date were posted on the shared start date; all come down on the end date.
+ */
+export function postingPeriodsByLocation(docs?: Partial<SupportingDocs>): LocationPostingPeriod[] {
+  if (!docs?.noticePostingEndDate) return [];
+  const locations = [
+    { location: docs.noticePostingLocation, startDate: docs.noticePostingStartDate },
+    { location: docs.noticePostingLocation2, startDate: docs.noticePostingStartDate2 || docs.noticePostingStartDate },
+    { location: docs.noticePostingLocation3, startDate: docs.noticePostingStartDate3 || docs.noticePostingStartDate },
+    { location: docs.noticePostingLocation4, startDate: docs.noticePostingStartDate4 || docs.noticePostingStartDate },
+  ];
+
+  return locations
+    .filter((l): l is { location: string; startDate: string } => !!l.location?.trim() && !!l.startDate)
+    .map(({ location, startDate }) => ({
+      location,
+      startDate,
+      endDate: docs.noticePostingEndDate as string,
+      businessDays: countBusinessDays(startDate, docs.noticePostingEndDate),
+    }));
+}
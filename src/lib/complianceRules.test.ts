@@ -0,0 +1,276 @@
+import { describe, it, expect } from 'vitest';
+import type { PAFData, SecondaryWorksite } from '@/types/paf';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+import {
+  blockingFindings,
+  complianceOverrideColumns,
+  evaluateCompliance,
+  unoverriddenFindings,
+} from './complianceRules';
+
+// A PAF that passes every rule; each spec changes what it checks
+function pafData(changes: { job?: Partial<PAFData['job']>; worksite?: Partial<PAFData['worksite']>; wage?: Partial<PAFData['wage']> } = {}): PAFData {
+  return {
+    visaType: 'H-1B',
+    caseNumber: 'I-200-24325-123456',
+    caseStatus: 'Certified',
+    employer: {
+      legalBusinessName: 'Acme Analytics LLC',
+      address1: '100 Main Street',
+      city: 'Austin',
+      state: 'TX',
+      postalCode: '78701',
+      country: 'United States Of America',
+      telephone: '512-555-0100',
+      fein: '12-3456789',
+      naicsCode: '541511',
+    },
+    contact: {
+      lastName: 'Rivera',
+      firstName: 'Sam',
+      jobTitle: 'HR Manager',
+      address1: '100 Main Street',
+      city: 'Austin',
+      state: 'TX',
+      postalCode: '78701',
+      country: 'United States Of America',
+      telephone: '512-555-0100',
+      email: 'hr@acme.example',
+    },
+    job: {
+      jobTitle: 'Software Engineer',
+      socCode: '15-1252',
+      socTitle: 'Software Developers',
+      isFullTime: true,
+      beginDate: '2024-12-01',
+      endDate: '2027-11-30',
+      wageRateFrom: 120000,
+      wageRateTo: 140000,
+      wageUnit: 'Year',
+      workersNeeded: 1,
+      ...changes.job,
+    },
+    worksite: {
+      address1: '500 Congress Avenue',
+      city: 'Austin',
+      state: 'TX',
+      postalCode: '78701',
+      county: 'Travis County',
+      areaCode: '12420',
+      ...changes.worksite,
+    },
+    wage: {
+      prevailingWage: 110000,
+      prevailingWageUnit: 'Year',
+      wageLevel: 'Level II',
+      wageSource: 'OES',
+      wageSourceDate: '2024-07-01',
+      actualWage: 120000,
+      actualWageUnit: 'Year',
+      ...changes.wage,
+    },
+    isH1BDependent: false,
+    isWillfulViolator: false,
+  };
+}
+
+function supportingDocs(changes: Partial<SupportingDocs> = {}): SupportingDocs {
+  return {
+    lcaCaseNumber: 'I-200-24325-123456',
+    lcaFile: null,
+    lcaReceivedDate: '2024-11-20',
+    actualWageMemo: 'Set from the engineering salary band.',
+    noticePostingProof: null,
+    noticePostingStartDate: '2024-11-04',
+    noticePostingEndDate: '2024-11-18',
+    noticePostingLocation: 'Break room',
+    noticePostingLocation2: 'Lobby',
+    benefitsComparisonFile: null,
+    benefitsNotes: '',
+    ...changes,
+  };
+}
+
+const dallas: SecondaryWorksite = {
+  address1: '1 Client Plaza',
+  city: 'Dallas',
+  state: 'TX',
+  postalCode: '75201',
+  county: 'Dallas County',
+  areaCode: '19124',
+  postingLocations: ['Client lobby', 'Client break room'],
+};
+
+const ruleIds = (data: PAFData, docs?: SupportingDocs) => evaluateCompliance(data, docs).map((finding) => finding.ruleId);
+
+describe('evaluateCompliance', () => {
+  it('finds nothing in a compliant PAF', () => {
+    expect(evaluateCompliance(pafData(), supportingDocs())).toEqual([]);
+  });
+
+  it('compares the actual wage to the prevailing wage across units', () => {
+    const [finding] = evaluateCompliance(pafData({ wage: { actualWage: 50, actualWageUnit: 'Hour' } }), supportingDocs());
+
+    expect(finding).toMatchObject({
+      ruleId: 'actual-wage-below-prevailing',
+      severity: 'error',
+      citation: '20 CFR 655.731(a)',
+      message: 'Actual wage $50.00/hour is below $52.88/hour prevailing wage.',
+    });
+  });
+
+  it('compares a part-time wage at the hours worked', () => {
+    const partTime = { job: { isFullTime: false, hoursPerWeek: 20, wageRateFrom: 60000, wageRateTo: undefined }, wage: { actualWage: 60000 } };
+
+    expect(ruleIds(pafData(partTime), supportingDocs())).toEqual([]);
+    expect(ruleIds(pafData({ ...partTime, job: { ...partTime.job, isFullTime: true } }), supportingDocs())).toEqual([
+      'actual-wage-below-prevailing',
+      'offered-wage-below-prevailing',
+    ]);
+  });
+
+  it('requires the bottom of the offered range to meet the prevailing wage', () => {
+    expect(ruleIds(pafData({ job: { wageRateFrom: 100000 } }), supportingDocs())).toEqual(['offered-wage-below-prevailing']);
+  });
+
+  it('checks the actual wage against each secondary worksite wage', () => {
+    const worksite = {
+      secondaryWorksites: [{ ...dallas, wage: { prevailingWage: 130000, prevailingWageUnit: 'Year' as const, wageLevel: 'Level II' as const, wageSource: 'OES', wageSourceDate: '2024-07-01' } }],
+    };
+    const [finding] = evaluateCompliance(pafData({ worksite }), supportingDocs());
+
+    expect(finding).toMatchObject({
+      ruleId: 'actual-wage-below-secondary-prevailing',
+      message: 'Secondary Worksite: actual wage $57.69/hour is below $62.50/hour prevailing wage.',
+    });
+  });
+
+  it('warns about a secondary worksite in another area without its own wage', () => {
+    expect(ruleIds(pafData({ worksite: { secondaryWorksites: [dallas] } }), supportingDocs())).toEqual(['secondary-worksite-wage-missing']);
+    expect(ruleIds(pafData({ worksite: { secondaryWorksites: [{ ...dallas, areaCode: '12420' }] } }), supportingDocs())).toEqual([]);
+  });
+
+  it('warns when the wage comes from the other OFLC table', () => {
+    expect(ruleIds(pafData({ job: { isRD: true } }), supportingDocs())).toEqual(['wage-table-mismatch']);
+    expect(ruleIds(pafData({ job: { isRD: true }, wage: { wageSource: 'OES-ACWIA' } }), supportingDocs())).toEqual([]);
+  });
+
+  it('blocks a PWD that was not in effect when the LCA was filed', () => {
+    const wageSourceDetails = { pwdCaseNumber: 'P-100-24001-123456', pwdIssueDate: '2024-06-01', pwdExpirationDate: '2024-10-31', documentPath: 'wage-sources/pwd.pdf' };
+    const [finding] = evaluateCompliance(pafData({ wage: { wageSource: 'PWD', wageSourceDetails } }), supportingDocs());
+
+    expect(finding).toMatchObject({
+      ruleId: 'wage-source-not-in-effect',
+      severity: 'error',
+      message: 'The prevailing wage determination expired on 2024-10-31, before the LCA was filed on 2024-11-20.',
+    });
+  });
+
+  it('warns about missing wage source details and documentation', () => {
+    const findings = evaluateCompliance(pafData({ wage: { wageSource: 'Other', wageSourceDetails: { surveyName: 'Tech Pay' } } }), supportingDocs());
+
+    expect(findings.map((finding) => [finding.ruleId, finding.message])).toEqual([
+      ['wage-source-details-missing', 'Other Survey: Publisher is required; Publication year is required.'],
+      ['wage-source-evidence-missing', 'No copy of the Other Survey wage source is attached.'],
+    ]);
+  });
+
+  it('warns when the wage source date is from another wage year than the filing', () => {
+    expect(ruleIds(pafData({ wage: { wageSourceDate: '2023-07-01' } }), supportingDocs())).toEqual(['wage-source-year-mismatch']);
+    // Only OFLC wage library figures follow the wage year
+    const wageSourceDetails = { cbaName: 'Local 123 Agreement', documentPath: 'wage-sources/cba.pdf' };
+    expect(ruleIds(pafData({ wage: { wageSource: 'CBA', wageSourceDetails, wageSourceDate: '2023-07-01' } }), supportingDocs())).toEqual([]);
+  });
+
+  it('blocks an employment period that is reversed or longer than three years', () => {
+    expect(ruleIds(pafData({ job: { endDate: '2024-11-30' } }), supportingDocs())).toEqual(['end-before-begin']);
+    expect(ruleIds(pafData({ job: { endDate: '2027-12-02' } }), supportingDocs())).toEqual(['validity-over-three-years']);
+  });
+
+  it('counts the posting period in business days at each location', () => {
+    // Veterans Day leaves nine business days
+    const [finding] = evaluateCompliance(pafData(), supportingDocs({ noticePostingEndDate: '2024-11-15' }));
+
+    expect(finding).toMatchObject({
+      ruleId: 'posting-period-too-short',
+      message: 'Break room: 9 business days; Lobby: 9 business days (weekends and federal holidays excluded).',
+    });
+  });
+
+  it('counts each location from its own start date', () => {
+    const [finding] = evaluateCompliance(pafData(), supportingDocs({ noticePostingStartDate2: '2024-11-06' }));
+
+    expect(finding).toMatchObject({
+      ruleId: 'posting-period-too-short',
+      message: 'Lobby: 8 business days (weekends and federal holidays excluded).',
+    });
+  });
+
+  it('requires the notice to be posted within 30 days before filing', () => {
+    expect(ruleIds(pafData(), supportingDocs({ lcaReceivedDate: '2024-11-01' }))).toEqual(['posting-after-filing']);
+    expect(ruleIds(pafData(), supportingDocs({ lcaReceivedDate: '2024-12-05' }))).toEqual(['posting-too-early']);
+    // The last location to be posted counts
+    expect(ruleIds(pafData(), supportingDocs({ noticePostingStartDate2: '2024-11-21', noticePostingEndDate: '' }))).toEqual([
+      'posting-after-filing',
+      'posting-end-missing',
+    ]);
+  });
+
+  it('asks for the removal date once the LCA is certified', () => {
+    expect(ruleIds(pafData(), supportingDocs({ noticePostingEndDate: '' }))).toEqual(['posting-end-missing']);
+    expect(ruleIds({ ...pafData(), caseStatus: 'In Process' }, supportingDocs({ noticePostingEndDate: '' }))).toEqual([]);
+  });
+
+  it('warns about missing posting locations and memo', () => {
+    expect(ruleIds(pafData(), supportingDocs({ noticePostingLocation2: '', actualWageMemo: ' ' }))).toEqual([
+      'posting-locations',
+      'actual-wage-memo-missing',
+    ]);
+  });
+
+  it('requires two posting locations at each Appendix A worksite', () => {
+    const plano = { ...dallas, city: 'Plano', postingLocations: ['Client lobby'], areaCode: '12420' };
+    const [finding] = evaluateCompliance(pafData({ worksite: { secondaryWorksites: [{ ...dallas, areaCode: '12420' }, plano] } }), supportingDocs());
+
+    expect(finding).toMatchObject({ ruleId: 'posting-locations', message: 'Only 1 posting location is recorded at secondary worksite 2.' });
+  });
+
+  it('skips the checks that need supporting documents when there are none', () => {
+    expect(ruleIds(pafData())).toEqual([]);
+  });
+});
+
+describe('blockingFindings', () => {
+  it('keeps the errors only', () => {
+    const findings = evaluateCompliance(pafData({ job: { endDate: '2024-11-30' } }), supportingDocs({ actualWageMemo: '' }));
+
+    expect(findings.map((finding) => finding.ruleId)).toEqual(['end-before-begin', 'actual-wage-memo-missing']);
+    expect(blockingFindings(findings).map((finding) => finding.ruleId)).toEqual(['end-before-begin']);
+  });
+});
+
+describe('unoverriddenFindings', () => {
+  it('leaves the errors a recorded override does not cover', () => {
+    const errors = blockingFindings(evaluateCompliance(pafData({ job: { endDate: '2024-11-30' }, wage: { actualWage: 100000 } }), supportingDocs()));
+
+    expect(unoverriddenFindings(errors, ['end-before-begin']).map((finding) => finding.ruleId)).toEqual(['actual-wage-below-prevailing']);
+    expect(unoverriddenFindings(errors, null)).toEqual(errors);
+  });
+});
+
+describe('complianceOverrideColumns', () => {
+  it('records the reason and overridden rules', () => {
+    expect(complianceOverrideColumns({ reason: ' Approved by counsel ', ruleIds: ['end-before-begin'] })).toEqual({
+      compliance_override_reason: 'Approved by counsel',
+      compliance_override_rules: ['end-before-begin'],
+    });
+  });
+
+  it('clears the columns without a reason', () => {
+    expect(complianceOverrideColumns({ reason: '  ', ruleIds: ['end-before-begin'] })).toEqual({
+      compliance_override_reason: null,
+      compliance_override_rules: null,
+    });
+    expect(complianceOverrideColumns()).toEqual({ compliance_override_reason: null, compliance_override_rules: null });
+  });
+});
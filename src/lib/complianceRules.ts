@@ -0,0 +1,350 @@
+import { addDays, addYears, parseISO, isValid } from 'date-fns';
+import type { PAFData } from '@/types/paf';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { wageSourceYearMismatch } from '@/lib/wageYear';
+import { requiresWageSourceDocument, wageSourceDetailIssues, wageSourceLabel, wageSourceNotInEffect, wageSourceType } from '@/lib/wageSources';
+import { WAGE_TABLE_LABELS, WAGE_TABLE_SOURCES, isACWIAWageSource, wageTableForJob } from '@/lib/wageTables';
+import { compareWage, isWageRange, jobHoursPerWeek, type WageAmount, type WageRange } from '@/lib/wage';
+import { countBusinessDays, postingPeriodsByLocation, REQUIRED_POSTING_BUSINESS_DAYS } from '@/lib/businessDays';
+import { isInDifferentWageArea, secondaryWorksiteLabel, secondaryWorksites, secondaryWorksiteWages } from '@/lib/worksites';
+
+/**
+ * Pre-generation compliance checks.
+ *
+ * Rules are declarative: each one names the regulation it enforces, how to
+ * fix a violation, and a check that returns a message when the PAF data
+ * violates it. Errors block generation unless a reviewer records an
+ * override reason; warnings are informational.
+ */
+
+export type ComplianceSeverity = 'error' | 'warning';
+
+export interface ComplianceRule {
+  id: string;
+  severity: ComplianceSeverity;
+  title: string;
+  citation: string;
+  fixHint: string;
+  // Returns a description of the violation, or null when the rule passes
+  // (or doesn't apply because the data it needs isn't entered yet)
+  check: (data: PAFData, docs?: SupportingDocs) => string | null;
+}
+
+export interface ComplianceFinding {
+  ruleId: string;
+  severity: ComplianceSeverity;
+  title: string;
+  citation: string;
+  fixHint: string;
+  message: string;
+}
+
+export interface ComplianceOverride {
+  reason: string;
+  ruleIds: string[];
+}
+
+const MAX_POSTING_LEAD_DAYS = 30;
+const MAX_VALIDITY_YEARS = 3;
+
+function formatHourly(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+function parseDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+function wageShortfall(offered: WageAmount | WageRange, required: WageAmount, hoursPerWeek?: number): string | null {
+  const offeredAmount = isWageRange(offered) ? offered.from : offered.amount;
+  if (!required.amount || !offeredAmount) return null;
+  const comparison = compareWage(offered, required, hoursPerWeek);
+  if (comparison.meets) return null;
+  return `${formatHourly(comparison.offeredHourly)}/hour is below ${formatHourly(comparison.requiredHourly)}/hour`;
+}
+
+export const COMPLIANCE_RULES: ComplianceRule[] = [
+  {
+    id: 'actual-wage-below-prevailing',
+    severity: 'error',
+    title: 'Actual wage below prevailing wage',
+    citation: '20 CFR 655.731(a)',
+    fixHint: 'Raise the actual wage, or check the wage units and the prevailing wage level and area.',
+    check: (data) => {
+      const shortfall = wageShortfall(
+        { amount: data.wage.actualWage, unit: data.wage.actualWageUnit },
+        { amount: data.wage.prevailingWage, unit: data.wage.prevailingWageUnit },
+        jobHoursPerWeek(data.job)
+      );
+      return shortfall && `Actual wage ${shortfall} prevailing wage.`;
+    },
+  },
+  {
+    id: 'actual-wage-below-secondary-prevailing',
+    severity: 'error',
+    title: 'Actual wage below secondary worksite prevailing wage',
+    citation: '20 CFR 655.731(a)',
+    fixHint: 'The wage must meet the prevailing wage of every worksite. Raise the actual wage or correct the secondary worksite wage.',
+    check: (data) => {
+      const shortfalls = secondaryWorksiteWages(data.worksite).flatMap(({ label, wage }) => {
+        const shortfall = wageShortfall(
+          { amount: data.wage.actualWage, unit: data.wage.actualWageUnit },
+          { amount: wage.prevailingWage, unit: wage.prevailingWageUnit },
+          jobHoursPerWeek(data.job)
+        );
+        return shortfall ? [`${label}: actual wage ${shortfall} prevailing wage.`] : [];
+      });
+      return shortfalls.length > 0 ? shortfalls.join(' ') : null;
+    },
+  },
+  {
+    id: 'secondary-worksite-wage-missing',
+    severity: 'warning',
+    title: 'Secondary worksite in another wage area without its own prevailing wage',
+    citation: '20 CFR 655.731(a)(2)',
+    fixHint: 'Look up the prevailing wage for the worksite\'s area on the wage step, as listed in Appendix A of the LCA.',
+    check: (data) => {
+      const all = secondaryWorksites(data.worksite);
+      const missing = all.flatMap((site, index) =>
+        !site.wage && isInDifferentWageArea(data.worksite, site) ? [secondaryWorksiteLabel(index, all.length)] : []
+      );
+      return missing.length > 0 ? `${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} outside the primary wage area but use the primary prevailing wage.` : null;
+    },
+  },
+  {
+    id: 'offered-wage-below-prevailing',
+    severity: 'error',
+    title: 'Offered wage below prevailing wage',
+    citation: '20 CFR 655.731(a)(2)',
+    fixHint: 'The bottom of the LCA wage range must be at least the prevailing wage. Correct the offered wage or its unit.',
+    check: (data) => {
+      const shortfall = wageShortfall(
+        { from: data.job.wageRateFrom, to: data.job.wageRateTo, unit: data.job.wageUnit },
+        { amount: data.wage.prevailingWage, unit: data.wage.prevailingWageUnit },
+        jobHoursPerWeek(data.job)
+      );
+      return shortfall && `Offered wage ${shortfall} prevailing wage.`;
+    },
+  },
+  {
+    id: 'wage-table-mismatch',
+    severity: 'warning',
+    title: 'Prevailing wage from the wrong OFLC table',
+    citation: '20 CFR 655.731(a)(2)(vii)',
+    fixHint: 'ACWIA employers use the ACWIA wage table; all others use the All Industries table. Check the ACWIA setting and look the wage up again.',
+    check: (data) => {
+      const expected = wageTableForJob(data.job);
+      const used = isACWIAWageSource(data.wage.wageSource) ? 'acwia' : data.wage.wageSource === WAGE_TABLE_SOURCES.general ? 'general' : null;
+      if (!used || used === expected) return null;
+      return `The position is ${expected === 'acwia' ? '' : 'not '}marked as ACWIA, but the prevailing wage comes from the ${WAGE_TABLE_LABELS[used]} table.`;
+    },
+  },
+  {
+    id: 'wage-source-not-in-effect',
+    severity: 'error',
+    title: 'Prevailing wage source not in effect at filing',
+    citation: '20 CFR 655.731(a)(2)',
+    fixHint: 'The prevailing wage determination or collective bargaining agreement must cover the LCA filing date. Check its dates or use a current source.',
+    check: (data, docs) => wageSourceNotInEffect(data.wage, docs?.lcaReceivedDate),
+  },
+  {
+    id: 'wage-source-details-missing',
+    severity: 'warning',
+    title: 'Prevailing wage source details incomplete',
+    citation: '20 CFR 655.731(a)(2)',
+    fixHint: 'Enter the PWD case number and dates, the agreement name, or the survey name, publisher and year.',
+    check: (data) => {
+      const issues = wageSourceDetailIssues(data.wage.wageSource, data.wage.wageSourceDetails);
+      if (issues.length === 0) return null;
+      return `${wageSourceLabel(data.wage.wageSource)}: ${issues.map((i) => i.message).join('; ')}.`;
+    },
+  },
+  {
+    id: 'wage-source-evidence-missing',
+    severity: 'warning',
+    title: 'Prevailing wage documentation not attached',
+    citation: '20 CFR 655.760(a)(4)',
+    fixHint: 'Attach the prevailing wage determination, the agreement wage schedule or the survey excerpt to the wage source.',
+    check: (data) => {
+      const details = data.wage.wageSourceDetails;
+      if (!requiresWageSourceDocument(data.wage.wageSource) || details?.document || details?.documentPath) return null;
+      return `No copy of the ${wageSourceLabel(data.wage.wageSource)} wage source is attached.`;
+    },
+  },
+  {
+    id: 'wage-source-year-mismatch',
+    severity: 'warning',
+    title: 'Wage source date from a different wage year',
+    citation: '20 CFR 655.731(a)(2)',
+    fixHint: 'Use the OFLC wage year in effect when the LCA was filed (wage years start July 1), or confirm the LCA shows this date.',
+    check: (data, docs) => {
+      // Only OFLC wage library figures follow the July 1 wage year
+      const primary = wageSourceType(data.wage.wageSource) === 'oflc'
+        ? wageSourceYearMismatch(data.wage.wageSourceDate, docs?.lcaReceivedDate)
+        : null;
+      if (primary) return primary;
+      for (const { label, wage } of secondaryWorksiteWages(data.worksite)) {
+        const secondary = wageSourceType(wage.wageSource) === 'oflc'
+          ? wageSourceYearMismatch(wage.wageSourceDate, docs?.lcaReceivedDate)
+          : null;
+        if (secondary) return `${label}: ${secondary}`;
+      }
+      return null;
+    },
+  },
+  {
+    id: 'end-before-begin',
+    severity: 'error',
+    title: 'End date before begin date',
+    citation: '20 CFR 655.750(a)',
+    fixHint: 'Correct the employment period to match the certified LCA.',
+    check: (data) => {
+      const begin = parseDate(data.job.beginDate);
+      const end = parseDate(data.job.endDate);
+      if (!begin || !end || end >= begin) return null;
+      return `The end date ${data.job.endDate} is before the begin date ${data.job.beginDate}.`;
+    },
+  },
+  {
+    id: 'validity-over-three-years',
+    severity: 'error',
+    title: 'Employment period longer than three years',
+    citation: '20 CFR 655.750(a)',
+    fixHint: 'An LCA is valid for at most three years. Shorten the period to match the certified LCA.',
+    check: (data) => {
+      const begin = parseDate(data.job.beginDate);
+      const end = parseDate(data.job.endDate);
+      if (!begin || !end || end <= addYears(begin, MAX_VALIDITY_YEARS)) return null;
+      return `The end date ${data.job.endDate} is more than ${MAX_VALIDITY_YEARS} years after the begin date ${data.job.beginDate}.`;
+    },
+  },
+  {
+    id: 'posting-period-too-short',
+    severity: 'error',
+    title: 'Notice posted for fewer than 10 business days',
+    citation: '20 CFR 655.734(a)(1)(ii)(A)',
+    fixHint: 'Keep the notice posted for 10 business days and record the actual removal date.',
+    check: (_data, docs) => {
+      if (!docs?.noticePostingStartDate || !docs.noticePostingEndDate) return null;
+      const periods = postingPeriodsByLocation(docs);
+      if (periods.length === 0) {
+        const days = countBusinessDays(docs.noticePostingStartDate, docs.noticePostingEndDate);
+        if (days >= REQUIRED_POSTING_BUSINESS_DAYS) return null;
+        return `The posting period covers ${days} business day${days === 1 ? '' : 's'}.`;
+      }
+      const short = periods.filter((p) => p.businessDays < REQUIRED_POSTING_BUSINESS_DAYS);
+      if (short.length === 0) return null;
+      return short
+        .map((p) => `${p.location}: ${p.businessDays} business day${p.businessDays === 1 ? '' : 's'}`)
+        .join('; ') + ' (weekends and federal holidays excluded).';
+    },
+  },
+  {
+    id: 'posting-after-filing',
+    severity: 'error',
+    title: 'Notice posted after the LCA was filed',
+    citation: '20 CFR 655.734(a)(1)(ii)(A)',
+    fixHint: 'The notice must be posted on or within 30 days before the LCA filing date. Check the posting start date.',
+    check: (_data, docs) => {
+      const received = parseDate(docs?.lcaReceivedDate);
+      const starts = [
+        docs?.noticePostingStartDate,
+        docs?.noticePostingStartDate2,
+        docs?.noticePostingStartDate3,
+        docs?.noticePostingStartDate4,
+      ].filter((d): d is string => !!parseDate(d));
+      const latest = starts.sort().pop();
+      if (!latest || !received || (parseDate(latest) as Date) <= received) return null;
+      return `Posting started ${latest}, after the LCA was received on ${docs?.lcaReceivedDate}.`;
+    },
+  },
+  {
+    id: 'posting-too-early',
+    severity: 'warning',
+    title: 'Notice posted more than 30 days before filing',
+    citation: '20 CFR 655.734(a)(1)(ii)(A)',
+    fixHint: 'A notice posted more than 30 days before filing does not cover this LCA; repost it if needed.',
+    check: (_data, docs) => {
+      const start = parseDate(docs?.noticePostingStartDate);
+      const received = parseDate(docs?.lcaReceivedDate);
+      if (!start || !received || start >= addDays(received, -MAX_POSTING_LEAD_DAYS)) return null;
+      return `Posting started ${docs?.noticePostingStartDate}, more than ${MAX_POSTING_LEAD_DAYS} days before the LCA was received on ${docs?.lcaReceivedDate}.`;
+    },
+  },
+  {
+    id: 'posting-end-missing',
+    severity: 'warning',
+    title: 'Posting end date not recorded',
+    citation: '20 CFR 655.734(b)',
+    fixHint: 'Record the date the notice was removed once the posting period is over.',
+    check: (data, docs) => {
+      if (!docs?.noticePostingStartDate || docs.noticePostingEndDate) return null;
+      if (data.caseStatus === 'In Process') return null;
+      return 'The notice has a start date but no removal date.';
+    },
+  },
+  {
+    id: 'posting-locations',
+    severity: 'warning',
+    title: 'Fewer than two posting locations',
+    citation: '20 CFR 655.734(a)(1)(ii)(A)',
+    fixHint: 'Hard-copy notices must be posted in at least two conspicuous locations at each worksite.',
+    check: (data, docs) => {
+      if (!docs) return null;
+      const describe = (count: number) => `Only ${count} posting location${count === 1 ? ' is' : 's are'} recorded`;
+      const locations = [docs.noticePostingLocation, docs.noticePostingLocation2].filter((l) => l?.trim());
+      const all = secondaryWorksites(data.worksite);
+      // Each Appendix A worksite has its own display areas
+      const shortfalls = [
+        ...(locations.length < 2 ? [`${describe(locations.length)}${all.length > 0 ? ' at the primary worksite' : ''}.`] : []),
+        ...all.flatMap((site, index) => {
+          const count = (site.postingLocations ?? []).filter((l) => l.trim()).length;
+          return count < 2 ? [`${describe(count)} at ${secondaryWorksiteLabel(index, all.length).toLowerCase()}.`] : [];
+        }),
+      ];
+      return shortfalls.length > 0 ? shortfalls.join(' ') : null;
+    },
+  },
+  {
+    id: 'actual-wage-memo-missing',
+    severity: 'warning',
+    title: 'Actual wage memo missing',
+    citation: '20 CFR 655.760(a)(3)',
+    fixHint: 'Explain how the actual wage was determined in the wage memo.',
+    check: (_data, docs) => (docs && !docs.actualWageMemo?.trim() ? 'No actual wage memo is provided.' : null),
+  },
+];
+
+export function evaluateCompliance(data: PAFData, docs?: SupportingDocs): ComplianceFinding[] {
+  return COMPLIANCE_RULES.flatMap((rule) => {
+    const message = rule.check(data, docs);
+    if (!message) return [];
+    const { id, severity, title, citation, fixHint } = rule;
+    return [{ ruleId: id, severity, title, citation, fixHint, message }];
+  });
+}
+
+export function blockingFindings(findings: ComplianceFinding[]): ComplianceFinding[] {
+  return findings.filter((finding) => finding.severity === 'error');
+}
+
+// Blocking errors a recorded override doesn't cover, e.g. ones introduced by later edits
+export function unoverriddenFindings(errors: ComplianceFinding[], overriddenRuleIds: string[] | null | undefined): ComplianceFinding[] {
+  return errors.filter((finding) => !overriddenRuleIds?.includes(finding.ruleId));
+}
+
+/**
+ * Columns recording a reviewer's override on paf_records. The database stamps
+ * who overrode and when; without an override the columns are cleared.
+ */
+export function complianceOverrideColumns(
+  override?: ComplianceOverride
+): Pick<TablesUpdate<'paf_records'>, 'compliance_override_reason' | 'compliance_override_rules'> {
+  return {
+    compliance_override_reason: override?.reason.trim() || null,
+    compliance_override_rules: override?.reason.trim() ? override.ruleIds : null,
+  };
+}
@@ -0,0 +1,54 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { Employer } from '@/types/paf';
+import type { RegisteredAddress } from '@/lib/addressFormatting';
+import type { PAFSectionProfile } from '@/lib/pdf/sectionRegistry';
+
+/**
+ * Employers served by this deployment.
+ *
+ * Each employer is keyed by FEIN and belongs to an organization; users see
+ * the employers of the organizations they are members of. The active
+ * employer (chosen in the header) scopes LCA lists, PAF records and
+ * signatories, and supplies the employer defaults of a new PAF and the
+ * section profile of every PAF generated for it.
+ */
+
+export type EmployerProfile = Tables<'employers'>;
+
+/** Legal name plus the spellings used for the employer in the DOL disclosure files. */
+export function employerNames(profile: EmployerProfile): string[] {
+  return [...new Set([profile.legal_business_name, ...profile.name_variants].map((name) => name.trim()).filter(Boolean))];
+}
+
+/** The employer section of a new PAF, before any LCA data is applied. */
+export function profileToEmployer(profile: EmployerProfile): Employer {
+  return {
+    legalBusinessName: profile.legal_business_name,
+    tradeName: profile.trade_name ?? undefined,
+    address1: profile.address1,
+    address2: profile.address2 ?? undefined,
+    city: profile.city,
+    state: profile.state,
+    postalCode: profile.postal_code,
+    country: profile.country,
+    telephone: profile.telephone ?? '',
+    fein: profile.fein,
+    naicsCode: profile.naics_code ?? '',
+  };
+}
+
+export function registeredAddress(profile: EmployerProfile): RegisteredAddress {
+  return {
+    address1: profile.address1,
+    city: profile.city,
+    state: profile.state,
+    postalCode: profile.postal_code,
+  };
+}
+
+/** The employer's section ordering and disabled sections (employers.section_profile). */
+export function sectionProfile(profile: EmployerProfile): PAFSectionProfile {
+  const stored = (profile.section_profile ?? {}) as { order?: unknown; disabled?: unknown };
+  const ids = (value: unknown) => (Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : undefined);
+  return { order: ids(stored.order), disabled: ids(stored.disabled) };
+}
@@ -0,0 +1,149 @@
+import type { PAFData, Employer, JobDetails, WorksiteLocation, WageInfo, SecondaryWorksite } from '@/types/paf';
+import type { LCARecord } from '@/components/wizard/steps/LCASelectionStep';
+import type { Json } from '@/integrations/supabase/types';
+import { wageYearForDate, wageYearStartDate } from '@/lib/wageYear';
+import { isInDifferentWageArea } from '@/lib/worksites';
+import type { EmployerProfile } from '@/lib/employers';
+
+/**
+ * Mapping from lca_disclosure rows to PAF data.
+ * Shared by the wizard (single LCA) and batch generation.
+ */
+
+// Helper to map LCA wage unit to PAF wage unit
+export function mapWageUnit(unit: string | null): 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year' {
+  if (!unit) return 'Year';
+  const lower = unit.toLowerCase().replace(/[-\s]/g, '');
+  if (lower.includes('hour')) return 'Hour';
+  if (lower.includes('biweekly') || lower.includes('bi-weekly')) return 'Bi-Weekly';
+  if (lower.includes('week')) return 'Week';
+  if (lower.includes('month')) return 'Month';
+  return 'Year';
+}
+
+// Helper to map LCA wage level to PAF wage level
+export function mapWageLevel(level: string | null): 'Level I' | 'Level II' | 'Level III' | 'Level IV' {
+  if (!level) return 'Level I';
+  if (level.includes('IV') || level.includes('4')) return 'Level IV';
+  if (level.includes('III') || level.includes('3')) return 'Level III';
+  if (level.includes('II') || level.includes('2')) return 'Level II';
+  return 'Level I';
+}
+
+// Wage source date: July 1 of the OFLC wage year in effect when the LCA was
+// received. Older imports have no received date; for those fall back to the
+// wage year before the begin date (LCAs are filed up to six months ahead).
+export function calculateWageSourceDate(lcaReceivedDate: string | null, lcaBeginDate: string | null): string {
+  const wageYear = lcaReceivedDate ? wageYearForDate(lcaReceivedDate) : null;
+  if (wageYear) return wageYearStartDate(wageYear);
+
+  const year = lcaBeginDate ? new Date(lcaBeginDate).getFullYear() : new Date().getFullYear();
+  return `${year - 1}-07-01`;
+}
+
+// The disclosure has no actual wage and no employer contact; those are entered separately
+export type LCAWageInfo = Omit<WageInfo, 'actualWage' | 'actualWageUnit'>;
+export type LCAPAFData = Omit<PAFData, 'contact' | 'wage'> & { wage: LCAWageInfo };
+
+// An entry of lca_disclosure.additional_worksites
+interface DisclosureWorksite {
+  city: string | null;
+  county: string | null;
+  state: string | null;
+  postal_code: string | null;
+  prevailing_wage: number | null;
+  pw_unit: string | null;
+  pw_wage_level: string | null;
+  pw_source: string | null;
+}
+
+// Worksites 2..10 of the disclosure row; those in another county carry their own prevailing wage
+function disclosureSecondaryWorksites(
+  additional: Json | null,
+  primary: WorksiteLocation,
+  wage: LCAWageInfo
+): SecondaryWorksite[] {
+  if (!Array.isArray(additional)) return [];
+  return (additional as unknown as DisclosureWorksite[]).map((site) => {
+    const worksite: SecondaryWorksite = {
+      address1: '', // Not in LCA disclosure
+      city: site.city || '',
+      state: site.state || '',
+      postalCode: site.postal_code || '',
+      county: site.county || undefined,
+    };
+    if (site.prevailing_wage && isInDifferentWageArea(primary, worksite)) {
+      worksite.wage = {
+        prevailingWage: site.prevailing_wage,
+        prevailingWageUnit: mapWageUnit(site.pw_unit),
+        wageLevel: mapWageLevel(site.pw_wage_level),
+        wageSource: wage.wageSource,
+        wageSourceDate: wage.wageSourceDate,
+      };
+    }
+    return worksite;
+  });
+}
+
+/**
+ * Auto-fills all available PAF fields from an LCA disclosure row.
+ * FEIN and trade name come from the employer's profile. The worksite street
+ * address and actual wage are not in the disclosure data.
+ */
+export function lcaToPAFData(lca: LCARecord, profile: EmployerProfile): LCAPAFData {
+  const employer: Employer = {
+    legalBusinessName: lca.employer_name,
+    tradeName: profile.trade_name ?? undefined,
+    address1: lca.employer_address1 || '',
+    address2: lca.employer_address2 || undefined,
+    city: lca.employer_city || '',
+    state: lca.employer_state || '',
+    postalCode: lca.employer_postal_code || '',
+    country: lca.employer_country || 'United States',
+    telephone: lca.employer_phone || '',
+    fein: profile.fein,
+    naicsCode: lca.naics_code || '',
+  };
+  const job: JobDetails = {
+    jobTitle: lca.job_title || '',
+    socCode: lca.soc_code || '',
+    socTitle: lca.soc_title || '',
+    isFullTime: lca.full_time_position ?? true,
+    beginDate: lca.begin_date || '',
+    endDate: lca.end_date || '',
+    wageRateFrom: lca.wage_rate_from || 0,
+    wageRateTo: lca.wage_rate_to || undefined,
+    wageUnit: mapWageUnit(lca.wage_unit),
+    workersNeeded: lca.total_workers || 1,
+  };
+
+  const worksite: WorksiteLocation = {
+    address1: '', // Not in LCA disclosure
+    city: lca.worksite_city || '',
+    state: lca.worksite_state || '',
+    postalCode: lca.worksite_postal_code || '',
+    county: lca.worksite_county || undefined,
+  };
+
+  const wage: LCAWageInfo = {
+    prevailingWage: lca.prevailing_wage || 0,
+    prevailingWageUnit: mapWageUnit(lca.pw_unit),
+    wageLevel: mapWageLevel(lca.pw_wage_level),
+    wageSource: 'OFLC Online Wage Library',
+    wageSourceDate: calculateWageSourceDate(lca.received_date, lca.begin_date),
+  };
+  worksite.secondaryWorksites = disclosureSecondaryWorksites(lca.additional_worksites, worksite, wage);
+
+  // Note: h1b_dependent may be null in older LCA imports — scan step will override from PDF
+  return {
+    caseNumber: lca.case_number,
+    caseStatus: 'Certified',
+    visaType: 'H-1B',
+    isH1BDependent: lca.h1b_dependent === true, // only true if explicitly true; scan step overrides from PDF
+    isWillfulViolator: lca.willful_violator === true,
+    employer,
+    job,
+    worksite,
+    wage,
+  };
+}
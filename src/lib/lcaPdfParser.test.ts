@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only extractPdfLines touches pdfjs, and its build needs a newer Node than the test runner's
+vi.mock('pdfjs-dist', () => ({ GlobalWorkerOptions: { workerSrc: 'pdf.worker.min.mjs' }, version: 'test', getDocument: vi.fn() }));
+
+import { fillMissingLCAFields, missingLCAFields, parseLCAText, type PdfLine } from './lcaPdfParser';
+import { PARSED_CONFIDENCE } from './scanProvenance';
+
+// Text lines of a certified ETA-9035 as extractPdfLines rebuilds them from FLAG's layout
+const page = (number: number, texts: string[]): PdfLine[] => texts.map((text) => ({ page: number, text }));
+
+const certifiedLCA: PdfLine[] = [
+  ...page(1, [
+    'Labor Condition Application for Nonimmigrant Workers',
+    'Case Number: I-200-24075-123456 Case Status: Certified',
+    'Received Date: 03/15/2024',
+    'A. Employment-Based Nonimmigrant Visa Information',
+    '1. Indicate the type of visa classification supported by this application * H-1B',
+    'B. Temporary Need Information',
+    '1. Job Title * Software Engineer',
+    '2. SOC (O*NET/OES) code * 15-1252.00',
+    '3. SOC (O*NET/OES) occupation title * Software Developers',
+    '4. Is this a full-time position? * ☒ Yes ☐ No',
+    '5. Begin Date * 10/01/2024',
+    '6. End Date * 09/30/2027',
+    '7. Total Worker Positions Being Requested for Certification * 1',
+    'C. Employer Information',
+    '1. Legal business name * Acme Analytics LLC',
+    '3. Address 1 * 100 Main Street',
+    '5. City * Austin',
+    '6. State * TX',
+    '7. Postal code * 78701',
+    '10. Telephone number * 512-555-0100',
+    '12. Federal Employer Identification Number (FEIN from IRS) *',
+    '12-3456789',
+    '13. NAICS code * 541511',
+    'D. Employer Point of Contact Information',
+  ]),
+  ...page(3, [
+    'F. Employment and Wage Information',
+    'Place of Employment Information 1',
+    '2. Address 1 * 500 Congress Avenue',
+    '4. City * Austin',
+    '5. County * Travis',
+    '6. State/District/Territory * Texas',
+    '7. Postal code * 78701',
+    '8. Wage Rate Paid to Nonimmigrant Workers *',
+    'From: $120,000.00 To: $140,000.00',
+    'Per: ☒ Year',
+    '9. Prevailing Wage Rate * $110,000.00 Per: ☒ Year',
+    '10. Wage Level * II',
+    '11. Prevailing Wage Source * OEWS',
+    '12. Source Year * 2024',
+    'G. Employer Labor Condition Statements',
+  ]),
+  ...page(5, [
+    'H. Additional Employer Labor Condition Statements',
+    '1. Is the employer H-1B dependent? * ☐ Yes ☒ No',
+    '2. Is the employer a willful violator? * ☐ Yes ☒ No',
+    'I. Public Disclosure',
+  ]),
+  ...page(7, [
+    'Appendix A',
+    'Place of Employment Information 2',
+    'a. Enter the legal business name of the secondary entity. * Client Corp',
+    '2. Address 1 * 1 Client Plaza',
+    '4. City * Dallas',
+    '5. County * Dallas',
+    '6. State/District/Territory * Texas',
+    '7. Postal code * 75201',
+    '9. Prevailing Wage Rate * $48.50 Per: ☒ Hour',
+    '10. Wage Level * Level I',
+  ]),
+];
+
+describe('parseLCAText', () => {
+  it('reads the labelled fields of a certified LCA', () => {
+    const result = parseLCAText(certifiedLCA);
+
+    expect(result).toMatchObject({
+      caseNumber: 'I-200-24075-123456',
+      caseStatus: 'Certified',
+      visaClass: 'H-1B',
+      lcaReceivedDate: '2024-03-15',
+      employerName: 'Acme Analytics LLC',
+      employerAddress: '100 Main Street',
+      employerCity: 'Austin',
+      employerState: 'TX',
+      employerPostalCode: '78701',
+      employerPhone: '512-555-0100',
+      employerFein: '12-3456789',
+      naicsCode: '541511',
+      jobTitle: 'Software Engineer',
+      socCode: '15-1252.00',
+      socTitle: 'Software Developers',
+      isFullTime: true,
+      beginDate: '2024-10-01',
+      endDate: '2027-09-30',
+      totalWorkers: 1,
+      h1bDependent: false,
+      willfulViolator: false,
+    });
+    expect(missingLCAFields(result)).toEqual([]);
+  });
+
+  it('reads the primary worksite and wages from Section F', () => {
+    const result = parseLCAText(certifiedLCA);
+
+    expect(result).toMatchObject({
+      worksiteAddress: '500 Congress Avenue',
+      worksiteCity: 'Austin',
+      worksiteCounty: 'Travis',
+      worksiteState: 'Texas',
+      worksitePostalCode: '78701',
+      wageRateFrom: 120000,
+      wageRateTo: 140000,
+      wageUnit: 'Year',
+      prevailingWage: 110000,
+      prevailingWageUnit: 'Year',
+      wageLevel: 'Level II',
+      wageSourceYear: '2024-07-01',
+    });
+  });
+
+  it('reads each Appendix A place of employment as a secondary worksite', () => {
+    const { secondaryWorksites, provenance } = parseLCAText(certifiedLCA);
+
+    expect(secondaryWorksites).toEqual([
+      {
+        worksiteName: 'Client Corp',
+        address: '1 Client Plaza',
+        city: 'Dallas',
+        county: 'Dallas',
+        state: 'Texas',
+        postalCode: '75201',
+        prevailingWage: 48.5,
+        prevailingWageUnit: 'Hour',
+        wageLevel: 'Level I',
+        wageSourceYear: undefined,
+      },
+    ]);
+    expect(provenance?.['secondaryWorksites.0.city']).toMatchObject({ source: 'pdf_text', page: 7 });
+  });
+
+  it('records where each value was read and how confidently', () => {
+    const { provenance } = parseLCAText(certifiedLCA);
+
+    expect(provenance?.jobTitle).toEqual({
+      source: 'pdf_text',
+      page: 1,
+      snippet: '1. Job Title * Software Engineer',
+      confidence: PARSED_CONFIDENCE.sameLine,
+    });
+    // The FEIN is printed on the line after its label
+    expect(provenance?.employerFein).toMatchObject({ page: 1, snippet: '12-3456789', confidence: PARSED_CONFIDENCE.followingLine });
+    expect(provenance?.worksiteCounty).toMatchObject({ page: 3 });
+  });
+
+  it('leaves fields it cannot find undefined and reports the required ones missing', () => {
+    const result = parseLCAText(certifiedLCA.filter((line) => !/County|NAICS/.test(line.text)));
+
+    expect(result.worksiteCounty).toBeUndefined();
+    expect(result.naicsCode).toBeUndefined();
+    expect(result.provenance?.worksiteCounty).toBeUndefined();
+    expect(missingLCAFields(result)).toEqual(['naicsCode', 'worksiteCounty']);
+  });
+
+  it('returns no secondary worksites when the LCA has no Appendix A', () => {
+    const result = parseLCAText(certifiedLCA.filter((line) => line.page !== 7));
+
+    expect(result.secondaryWorksites).toEqual([]);
+  });
+
+  it('reads nothing from a PDF without a text layer', () => {
+    const result = parseLCAText([]);
+
+    expect(result.caseNumber).toBeUndefined();
+    expect(result.lcaReceivedDate).toBeNull();
+    expect(missingLCAFields(result)).toContain('caseNumber');
+  });
+});
+
+describe('missingLCAFields', () => {
+  it('requires the H-4 exemption box only for dependent or willful violator employers', () => {
+    const result = parseLCAText(certifiedLCA);
+
+    expect(missingLCAFields({ ...result, h1bDependent: true })).toEqual(['h1bExemptionChecked']);
+    expect(missingLCAFields({ ...result, h1bDependent: true, h1bExemptionChecked: false })).toEqual([]);
+  });
+});
+
+describe('fillMissingLCAFields', () => {
+  it('fills only the requested fields the parser left empty', () => {
+    const parsed = { caseNumber: 'I-200-24075-123456', jobTitle: 'Software Engineer' };
+    const ai = { caseNumber: 'I-200-00000-000000', jobTitle: 'Engineer', naicsCode: '541511', socCode: '' };
+
+    expect(fillMissingLCAFields(parsed, ai, ['naicsCode', 'socCode'])).toEqual({
+      caseNumber: 'I-200-24075-123456',
+      jobTitle: 'Software Engineer',
+      naicsCode: '541511',
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { LCAScanResult, LCAScanWorksite } from '@/components/wizard/steps/SupportingDocsStep';
+import { wageYearStartDate } from '@/lib/wageYear';
+import { PARSED_CONFIDENCE, type ScanProvenance } from '@/lib/scanProvenance';
+
+/**
+ * Deterministic reader for certified ETA-9035 PDFs downloaded from FLAG.
+ *
+ * FLAG prints every answer next to its numbered label, so the text layer
+ * alone is enough: the lines are rebuilt from pdfjs text items and each
+ * field is read after its label within its lettered section. Section F holds
+ * the primary place of employment; Appendix A repeats the same block for
+ * each additional worksite. Fields the layout doesn't yield stay undefined.
+ * Every field read records the page and line it came from.
+ */
+
+// Same worker as the PDF runtime; either module may load first
+if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+}
+
+export type ScanField = Exclude<keyof LCAScanResult, 'secondaryWorksites' | 'provenance'>;
+
+// Fields a usable scan needs; the H-4 box only matters for dependent or willful violator employers
+const REQUIRED_FIELDS: ScanField[] = [
+  'caseNumber', 'caseStatus', 'visaClass',
+  'employerName', 'employerAddress', 'employerCity', 'employerState', 'employerPostalCode', 'employerFein', 'naicsCode',
+  'jobTitle', 'socCode', 'socTitle', 'isFullTime', 'totalWorkers', 'beginDate', 'endDate',
+  'wageRateFrom', 'wageUnit', 'prevailingWage', 'prevailingWageUnit', 'wageLevel', 'wageSourceYear',
+  'worksiteAddress', 'worksiteCity', 'worksiteState', 'worksitePostalCode', 'worksiteCounty',
+  'h1bDependent', 'willfulViolator',
+];
+
+const WAGE_UNITS = ['Hour', 'Week', 'Bi-Weekly', 'Month', 'Year'];
+const CHECK_MARK = '[☒☑■✓✔✗✘]';
+// A numbered question label such as "7. County *"
+const QUESTION_LABEL = /^(?:[a-z]\.\s*)?\d+[a-z]?\.\s/i;
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+export interface PdfLine {
+  page: number;
+  text: string;
+}
+
+// An answer with the line it was read from
+interface Found {
+  text: string;
+  line: PdfLine;
+  // Whether the answer shares its label's line, the layout FLAG normally prints
+  sameLine: boolean;
+}
+
+/** Text of each page, as lines in reading order. */
+export async function extractPdfLines(bytes: ArrayBuffer): Promise<PdfLine[]> {
+  const pdf = await pdfjsLib.getDocument({ data: bytes }).promise;
+  const lines: PdfLine[] = [];
+
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const content = await page.getTextContent();
+    // Items on the same baseline (within 2pt) form one line
+    const rows = new Map<number, { x: number; text: string }[]>();
+    for (const item of content.items) {
+      if (!('str' in item) || !item.str.trim()) continue;
+      const y = Math.round(item.transform[5] / 2);
+      const row = rows.get(y) ?? [];
+      row.push({ x: item.transform[4], text: item.str });
+      rows.set(y, row);
+    }
+    [...rows.entries()]
+      .sort(([a], [b]) => b - a)
+      .forEach(([, row]) => {
+        const text = row.sort((a, b) => a.x - b.x).map((cell) => cell.text).join(' ').replace(/\s+/g, ' ').trim();
+        lines.push({ page: pageNum, text });
+      });
+  }
+
+  return lines;
+}
+
+/** Lines from the first match of start up to (not including) the first later match of any end. */
+function section(lines: PdfLine[], start: RegExp, ends: RegExp[] = []): PdfLine[] {
+  const from = lines.findIndex((line) => start.test(line.text));
+  if (from < 0) return [];
+  const rest = lines.slice(from + 1);
+  const to = rest.findIndex((line) => ends.some((end) => end.test(line.text)));
+  return to < 0 ? rest : rest.slice(0, to);
+}
+
+/**
+ * The answer to a labelled question: the text after the label on its line,
+ * else the following lines up to the next numbered question.
+ */
+function answer(lines: PdfLine[], label: RegExp, span = 1): Found | undefined {
+  const index = lines.findIndex((line) => label.test(line.text));
+  if (index < 0) return undefined;
+  const line = lines[index];
+  const match = line.text.match(label)!;
+  const sameLine = line.text.slice((match.index ?? 0) + match[0].length).replace(/^[\s*:]+/, '').trim();
+  if (sameLine) return { text: sameLine, line, sameLine: true };
+  const following: PdfLine[] = [];
+  for (const next of lines.slice(index + 1, index + 1 + span)) {
+    if (QUESTION_LABEL.test(next.text)) break;
+    following.push(next);
+  }
+  const text = following.map((next) => next.text).join(' ').trim();
+  return text ? { text, line: following[0], sameLine: false } : undefined;
+}
+
+/** The first line matching the pattern, as a same-line answer. */
+function lineMatching(lines: PdfLine[], pattern: RegExp): Found | undefined {
+  const line = lines.find((candidate) => pattern.test(candidate.text));
+  return line && { text: line.text, line, sameLine: true };
+}
+
+/** An answer that continues over the given lines, e.g. a wage and its unit row. */
+function withLines(found: Found | undefined, lines: PdfLine[]): Found | undefined {
+  return found && { ...found, text: [found.text, ...lines.map((line) => line.text)].join(' ') };
+}
+
+// Reads a field from an answer and records where it came from
+type FieldReader = <T>(key: string, found: Found | undefined, parse: (text: string) => T | undefined) => T | undefined;
+
+function fieldReader(provenance: ScanProvenance): FieldReader {
+  return (key, found, parse) => {
+    const value = found ? parse(found.text) : undefined;
+    if (found && value !== undefined) {
+      provenance[key] = {
+        source: 'pdf_text',
+        page: found.line.page,
+        snippet: found.line.text,
+        confidence: found.sameLine ? PARSED_CONFIDENCE.sameLine : PARSED_CONFIDENCE.followingLine,
+      };
+    }
+    return value;
+  };
+}
+
+function parseMoney(text?: string): number | undefined {
+  const match = text?.match(/\$?\s*([\d,]+(?:\.\d{1,2})?)/);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1].replace(/,/g, ''));
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+/** First date in the text as YYYY-MM-DD; MM/DD/YYYY and "July 1, 2025" forms. */
+function parseDate(text?: string): string | undefined {
+  if (!text) return undefined;
+  const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+  if (numeric) return `${numeric[3]}-${numeric[1].padStart(2, '0')}-${numeric[2].padStart(2, '0')}`;
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return iso[0];
+  const written = text.match(/\b([A-Za-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+  const month = written ? MONTHS.findIndex((m) => m.startsWith(written[1].toLowerCase().slice(0, 3))) : -1;
+  if (written && month >= 0) return `${written[3]}-${String(month + 1).padStart(2, '0')}-${written[2].padStart(2, '0')}`;
+  return undefined;
+}
+
+/** The option marked with a check glyph, else the only option printed. */
+function chosenOption(text: string | undefined, options: string[]): string | undefined {
+  if (!text) return undefined;
+  for (const option of options) {
+    if (new RegExp(`${CHECK_MARK}\\s*${option}\\b`, 'i').test(text)) return option;
+  }
+  const printed = options.filter((option) => new RegExp(`\\b${option}\\b`, 'i').test(text));
+  return printed.length === 1 ? printed[0] : undefined;
+}
+
+function parseYesNo(text?: string): boolean | undefined {
+  const option = chosenOption(text, ['Yes', 'No']);
+  return option === undefined ? undefined : option === 'Yes';
+}
+
+function parseWageLevel(text?: string): string | undefined {
+  const match = text?.match(/\b(?:Level\s+)?(IV|III|II|I)\b/);
+  return match ? `Level ${match[1]}` : undefined;
+}
+
+/** Start of the wage source period; a bare year is an OFLC wage year starting July 1. */
+function parseSourceYear(text?: string): string | undefined {
+  const date = parseDate(text);
+  if (date) return date;
+  const year = text?.match(/\b(20\d{2})\b/);
+  return year ? wageYearStartDate(year[1]) : undefined;
+}
+
+function clean(text?: string): string | undefined {
+  const value = text?.replace(/\s+/g, ' ').trim();
+  return value && !/^(N\/A|None)$/i.test(value) ? value : undefined;
+}
+
+const parsePostalCode = (text: string) => text.match(/\b\d{5}(?:-\d{4})?\b/)?.[0];
+const parseUnit = (text: string) => chosenOption(text.match(/Per:?.*/i)?.[0], WAGE_UNITS);
+
+/**
+ * Fields of one place of employment block (Section F or an Appendix A entry).
+ * Provenance keys are the scan result's own field names for the primary
+ * worksite and `secondaryWorksites.N.field` for Appendix A entries.
+ */
+function parseWorksite(lines: PdfLine[], read: FieldReader, secondaryIndex?: number) {
+  const isPrimary = secondaryIndex === undefined;
+  const key = (primaryField: string, worksiteField: string) =>
+    isPrimary ? primaryField : `secondaryWorksites.${secondaryIndex}.${worksiteField}`;
+  const paid = withLines(
+    answer(lines, /Wage Rate Paid to Nonimmigrant Workers?\s*\*?/i, 2),
+    section(lines, /Wage Rate Paid to Nonimmigrant/i, [/Prevailing Wage Rate/i])
+  );
+  const prevailing = withLines(
+    answer(lines, /Prevailing Wage Rate\s*\*?/i, 2),
+    section(lines, /Prevailing Wage Rate/i, [/Prevailing Wage Tracking|Wage Level|Source/i])
+  );
+
+  const site: LCAScanWorksite = {
+    worksiteName: read(key('worksiteName', 'worksiteName'), answer(lines, /legal business name of the secondary entity\.?\s*\*?/i), clean),
+    address: read(key('worksiteAddress', 'address'), answer(lines, /^\d+\.\s*Address 1\s*\*?/i), clean),
+    city: read(key('worksiteCity', 'city'), answer(lines, /^\d+\.\s*City\s*\*?/i), clean),
+    county: read(key('worksiteCounty', 'county'), answer(lines, /^\d+\.\s*County\s*\*?/i), clean),
+    state: read(key('worksiteState', 'state'), answer(lines, /^\d+\.\s*State(?:\/District\/Territory)?\s*\*?/i), clean),
+    postalCode: read(key('worksitePostalCode', 'postalCode'), answer(lines, /^\d+\.\s*Postal code\s*\*?/i), parsePostalCode),
+    prevailingWage: read(key('prevailingWage', 'prevailingWage'), prevailing, parseMoney),
+    prevailingWageUnit: read(key('prevailingWageUnit', 'prevailingWageUnit'), prevailing, parseUnit),
+    wageLevel: read(key('wageLevel', 'wageLevel'), answer(lines, /^\d+\.\s*Wage Level\s*\*?/i), parseWageLevel),
+    wageSourceYear: read(key('wageSourceYear', 'wageSourceYear'), answer(lines, /Source Year\s*\*?/i), parseSourceYear),
+  };
+  // The wage paid is the same at every worksite; it is read from Section F only
+  if (!isPrimary) return { site };
+  return {
+    site,
+    wageRateFrom: read('wageRateFrom', paid, (text) => parseMoney(text.match(/From:?\s*\$?\s*[\d,.]+/i)?.[0] ?? text)),
+    wageRateTo: read('wageRateTo', paid, (text) => parseMoney(text.match(/To:?\s*\$?\s*[\d,.]+/i)?.[0])),
+    wageUnit: read('wageUnit', paid, parseUnit),
+  };
+}
+
+/** Reads the labelled fields of a certified ETA-9035 from its text lines. */
+export function parseLCAText(lines: PdfLine[]): LCAScanResult {
+  const provenance: ScanProvenance = {};
+  const read = fieldReader(provenance);
+  const job = section(lines, /^B\.\s*Temporary Need Information/i, [/^C\.\s*Employer Information/i]);
+  const employer = section(lines, /^C\.\s*Employer Information/i, [/^D\.\s*Employer Point of Contact/i]);
+  const dependency = section(lines, /^H\.\s*/i, [/^I\.\s*/i]);
+  const employment = section(lines, /^F\.\s*Employment and Wage Information/i, [/^G\.\s*/i]);
+  const appendix = section(lines, /^Appendix A/i);
+
+  // Each place of employment block starts with its own heading
+  const placeBlocks = (block: PdfLine[]) => {
+    const starts = block.flatMap((line, i) => (/Place of Employment Information/i.test(line.text) ? [i] : []));
+    return starts.length === 0 ? [block] : starts.map((start, i) => block.slice(start, starts[i + 1]));
+  };
+  const [primaryBlock = [], ...extraPrimaryBlocks] = placeBlocks(employment);
+  const primary = parseWorksite(primaryBlock, read);
+  const secondaryWorksites = [...extraPrimaryBlocks, ...(appendix.length > 0 ? placeBlocks(appendix) : [])]
+    .map((block, index) => parseWorksite(block, read, index).site)
+    .filter((site) => site.city || site.address);
+
+  const receivedLabel = /(?:Date Received|Received Date|Submitted Date):?\s*/i;
+
+  return {
+    caseNumber: read('caseNumber', lineMatching(lines, /\bI-\d{3}-\d{5}-\d{6}\b/), (text) => text.match(/\bI-\d{3}-\d{5}-\d{6}\b/)?.[0]),
+    caseStatus: read('caseStatus', answer(lines, /Case Status:?\s*/i), (text) => text.match(/^(Certified|Withdrawn|Denied|Pending|In Process)/i)?.[1]),
+    visaClass: read('visaClass', lineMatching(lines, /\b(H-1B1 Chile|H-1B1 Singapore|E-3 Australian|H-1B)\b/), (text) => text.match(/\b(H-1B1 Chile|H-1B1 Singapore|E-3 Australian|H-1B)\b/)?.[1]),
+    lcaReceivedDate: read('lcaReceivedDate', answer(lines, receivedLabel), parseDate) ?? null,
+
+    employerName: read('employerName', answer(employer, /^\d+\.\s*Legal business name\s*\*?/i), clean),
+    employerAddress: read('employerAddress', answer(employer, /^\d+\.\s*Address 1\s*\*?/i), clean),
+    employerCity: read('employerCity', answer(employer, /^\d+\.\s*City\s*\*?/i), clean),
+    employerState: read('employerState', answer(employer, /^\d+\.\s*State\s*\*?/i), clean),
+    employerPostalCode: read('employerPostalCode', answer(employer, /^\d+\.\s*Postal code\s*\*?/i), parsePostalCode),
+    employerPhone: read('employerPhone', answer(employer, /^\d+\.\s*Telephone number\s*\*?/i), clean),
+    employerFein: read('employerFein', answer(employer, /Federal Employer Identification Number[^*]*\*?/i, 2), (text) => text.match(/\b\d{2}-?\d{7}\b/)?.[0]),
+    naicsCode: read('naicsCode', answer(employer, /NAICS code\s*\*?/i), (text) => text.match(/\b\d{2,6}\b/)?.[0]),
+
+    jobTitle: read('jobTitle', answer(job, /^\d+\.\s*Job Title\s*\*?/i), clean),
+    socCode: read('socCode', answer(job, /SOC \(O\*NET\/OES\) code\s*\*?/i), (text) => text.match(/\b\d{2}-\d{4}(?:\.\d{2})?\b/)?.[0]),
+    socTitle: read('socTitle', answer(job, /SOC \(O\*NET\/OES\) occupation title\s*\*?/i), clean),
+    isFullTime: read('isFullTime', answer(job, /full-time position\?\s*\*?/i), parseYesNo),
+    beginDate: read('beginDate', answer(job, /^\d+\.\s*Begin Date\s*\*?/i), parseDate),
+    endDate: read('endDate', answer(job, /^\d+\.\s*End Date\s*\*?/i), parseDate),
+    totalWorkers: read('totalWorkers', answer(job, /Total Worker Positions[^*]*\*?/i), (text) => {
+      const count = parseInt(text, 10);
+      return Number.isFinite(count) && count > 0 ? count : undefined;
+    }),
+
+    wageRateFrom: primary.wageRateFrom,
+    wageRateTo: primary.wageRateTo,
+    wageUnit: primary.wageUnit,
+    prevailingWage: primary.site.prevailingWage,
+    prevailingWageUnit: primary.site.prevailingWageUnit,
+    wageLevel: primary.site.wageLevel,
+    wageSourceYear: primary.site.wageSourceYear,
+
+    worksiteAddress: primary.site.address,
+    worksiteCity: primary.site.city,
+    worksiteState: primary.site.state,
+    worksitePostalCode: primary.site.postalCode,
+    worksiteCounty: primary.site.county,
+    worksiteName: primary.site.worksiteName,
+    secondaryWorksites,
+
+    h1bDependent: read('h1bDependent', answer(dependency, /H-1B dependent\?\s*\*?/i), parseYesNo),
+    willfulViolator: read('willfulViolator', answer(dependency, /willful violator\?\s*\*?/i), parseYesNo),
+    h1bExemptionChecked: read('h1bExemptionChecked', answer(dependency, /ONLY to support H-1B petitions.*exempt.*?\?\s*\*?/i, 2), parseYesNo) ?? null,
+    provenance,
+  };
+}
+
+/** Required fields the parser could not read, for the AI scan to fill. */
+export function missingLCAFields(result: LCAScanResult): ScanField[] {
+  const required: ScanField[] = result.h1bDependent || result.willfulViolator
+    ? [...REQUIRED_FIELDS, 'h1bExemptionChecked']
+    : REQUIRED_FIELDS;
+  return required.filter((field) => {
+    const value = result[field];
+    return value === undefined || value === null || value === '';
+  });
+}
+
+/** The parsed result with the AI's values for the given missing fields only. */
+export function fillMissingLCAFields(parsed: LCAScanResult, ai: LCAScanResult, fields: ScanField[]): LCAScanResult {
+  const filled: LCAScanResult = { ...parsed };
+  for (const field of fields) {
+    const value = ai[field];
+    if (value !== undefined && value !== null && value !== '') {
+      (filled as Record<string, unknown>)[field] = value;
+    }
+  }
+  return filled;
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import type { LCARecord } from '@/components/wizard/steps/LCASelectionStep';
+import type { LCAScanResult } from '@/components/wizard/steps/SupportingDocsStep';
+import {
+  applyReconciliation,
+  formatReconciledValue,
+  lcaReconciliationColumns,
+  reconcileScanWithDisclosure,
+  recordedLCAReconciliation,
+  type LCAReconciliation,
+} from './lcaReconciliation';
+
+// Disclosure row as the DOL import stores it
+const disclosure: LCARecord = {
+  id: 'lca-1',
+  case_number: 'I-200-24325-123456',
+  case_status: 'Certified',
+  employer_name: 'ACME ANALYTICS LLC',
+  employer_city: 'AUSTIN',
+  employer_state: 'TX',
+  employer_address1: '100 MAIN STREET',
+  employer_address2: null,
+  employer_postal_code: '78701',
+  employer_country: 'UNITED STATES OF AMERICA',
+  employer_phone: '+15125550100',
+  employer_fein: '12-3456789',
+  naics_code: '541511',
+  job_title: 'SOFTWARE ENGINEER',
+  soc_code: '15-1252.00',
+  soc_title: 'Software Developers',
+  wage_rate_from: 120000,
+  wage_rate_to: 140000,
+  wage_unit: 'Year',
+  prevailing_wage: 110000,
+  pw_unit: 'Year',
+  pw_wage_level: 'II',
+  worksite_city: 'AUSTIN',
+  worksite_state: 'TX',
+  worksite_postal_code: '78701-1234',
+  worksite_county: 'TRAVIS',
+  additional_worksites: null,
+  begin_date: '2024-12-01',
+  end_date: '2027-11-30',
+  decision_date: '2024-11-27',
+  received_date: '2024-11-20',
+  visa_class: 'H-1B',
+  h1b_dependent: null,
+  willful_violator: false,
+  full_time_position: true,
+  total_workers: 1,
+  paf_generated: false,
+  paf_generated_at: null,
+};
+
+// The same LCA as the PDF scan reads it
+const scan: LCAScanResult = {
+  caseNumber: 'I-200-24325-123456',
+  wageRateFrom: 120000,
+  wageRateTo: 140000,
+  wageUnit: 'Year',
+  prevailingWage: 110000,
+  wageLevel: 'Level II',
+  worksiteCounty: 'Travis County',
+  worksitePostalCode: '78701',
+  socCode: '15-1252',
+  beginDate: '12/01/2024',
+  endDate: '2027-11-30',
+  h1bDependent: false,
+  willfulViolator: false,
+  provenance: {
+    prevailingWage: { source: 'pdf_text', page: 3, confidence: 0.95 },
+    worksiteCounty: { source: 'pdf_text', page: 3, confidence: 0.95 },
+  },
+};
+
+describe('reconcileScanWithDisclosure', () => {
+  it('matches values that differ only in format', () => {
+    expect(reconcileScanWithDisclosure(scan, disclosure)).toEqual([]);
+  });
+
+  it('reports the fields that disagree', () => {
+    expect(reconcileScanWithDisclosure({ ...scan, prevailingWage: 112000.5, worksiteCounty: 'Williamson County' }, disclosure)).toEqual([
+      { field: 'prevailingWage', label: 'Prevailing Wage', scanned: 112000.5, disclosure: 110000 },
+      { field: 'worksiteCounty', label: 'Worksite County', scanned: 'Williamson County', disclosure: 'TRAVIS' },
+    ]);
+  });
+
+  it('skips fields missing on either side', () => {
+    // The import left h1b_dependent null; the scan didn't read the wage level
+    expect(reconcileScanWithDisclosure({ ...scan, h1bDependent: true, wageLevel: undefined }, { ...disclosure, pw_wage_level: 'IV' })).toEqual([]);
+  });
+
+  it('compares the wage unit and level as the PAF maps them', () => {
+    expect(reconcileScanWithDisclosure({ ...scan, wageUnit: 'Hour', wageLevel: 'Level III' }, disclosure).map((d) => d.field)).toEqual([
+      'wageUnit',
+      'wageLevel',
+    ]);
+  });
+});
+
+describe('applyReconciliation', () => {
+  it('swaps in the disclosure values chosen and drops their scan provenance', () => {
+    const [county] = reconcileScanWithDisclosure({ ...scan, worksiteCounty: 'Williamson County' }, disclosure);
+    const resolved = applyReconciliation({ ...scan, worksiteCounty: 'Williamson County' }, [
+      { ...county, choice: 'disclosure' },
+      { field: 'prevailingWage', label: 'Prevailing Wage', scanned: 110000, disclosure: 105000, choice: 'scan' },
+    ]);
+
+    expect(resolved.worksiteCounty).toBe('TRAVIS');
+    expect(resolved.prevailingWage).toBe(110000);
+    expect(resolved.provenance).toEqual({ prevailingWage: scan.provenance?.prevailingWage });
+    // The scan itself is left as read
+    expect(scan.provenance?.worksiteCounty).toBeDefined();
+  });
+});
+
+describe('formatReconciledValue', () => {
+  it('formats booleans and numbers for display', () => {
+    expect(formatReconciledValue(true)).toBe('Yes');
+    expect(formatReconciledValue(112000.5)).toBe('112,000.5');
+    expect(formatReconciledValue('TRAVIS')).toBe('TRAVIS');
+  });
+});
+
+describe('recorded reconciliations', () => {
+  const reconciliation: LCAReconciliation = {
+    caseNumber: 'I-200-24325-123456',
+    disclosureId: 'lca-1',
+    checkedAt: '2024-12-02T15:00:00.000Z',
+    resolutions: [
+      { field: 'worksiteCounty', label: 'Worksite County', scanned: 'Williamson County', disclosure: 'TRAVIS', choice: 'disclosure', note: 'Scan misread' },
+    ],
+  };
+
+  it('round-trips through the paf_records column', () => {
+    const { lca_reconciliation } = lcaReconciliationColumns(reconciliation);
+
+    expect(recordedLCAReconciliation(lca_reconciliation)).toEqual(reconciliation);
+    expect(lcaReconciliationColumns(null)).toEqual({ lca_reconciliation: null });
+  });
+
+  it('ignores column values that are not a reconciliation', () => {
+    expect(recordedLCAReconciliation(null)).toBeNull();
+    expect(recordedLCAReconciliation([])).toBeNull();
+    expect(recordedLCAReconciliation({ caseNumber: 'I-200-24325-123456' })).toBeNull();
+  });
+});
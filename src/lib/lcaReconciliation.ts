@@ -0,0 +1,127 @@
+import type { LCARecord } from '@/components/wizard/steps/LCASelectionStep';
+import type { LCAScanResult } from '@/components/wizard/steps/SupportingDocsStep';
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import { mapWageLevel, mapWageUnit } from '@/lib/lcaMapping';
+
+/**
+ * Cross-check of a scanned LCA against the imported DOL disclosure row with
+ * the same case number.
+ *
+ * The certified PDF and the disclosure data should agree; when they don't,
+ * either the scan misread a value or the disclosure import is stale. The
+ * preparer picks which value the PAF uses for each difference, and the
+ * choices are kept on paf_records.lca_reconciliation.
+ */
+
+export type ReconciledValue = string | number | boolean;
+
+export type ReconciliationChoice = 'scan' | 'disclosure';
+
+export interface LCADiscrepancy {
+  field: keyof LCAScanResult;
+  label: string;
+  scanned: ReconciledValue;
+  disclosure: ReconciledValue;
+}
+
+export interface LCAResolution extends LCADiscrepancy {
+  choice: ReconciliationChoice;
+  note?: string;
+}
+
+export interface LCAReconciliation {
+  caseNumber: string;
+  disclosureId: string;
+  checkedAt: string;
+  // Empty when the scan matched the disclosure row
+  resolutions: LCAResolution[];
+}
+
+interface ReconciliationCheck {
+  field: keyof LCAScanResult;
+  label: string;
+  disclosure: (lca: LCARecord) => ReconciledValue | null;
+  // Comparable form of either side; values that normalize equal match
+  normalize: (value: ReconciledValue) => ReconciledValue;
+}
+
+const asNumber = (value: ReconciledValue) => Math.round(Number(value) * 100) / 100;
+const asText = (value: ReconciledValue) => String(value).trim().toLowerCase().replace(/\s+/g, ' ');
+const asCounty = (value: ReconciledValue) => asText(value).replace(/\s+(county|parish|borough)$/, '');
+const asPostalCode = (value: ReconciledValue) => String(value).trim().slice(0, 5);
+// Disclosure files carry the O*NET suffix (15-1252.00); the form prints the SOC code alone
+const asSocCode = (value: ReconciledValue) => String(value).trim().replace(/\.00$/, '');
+
+function asDate(value: ReconciledValue): ReconciledValue {
+  const text = String(value).trim();
+  const numeric = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (numeric) return `${numeric[3]}-${numeric[1].padStart(2, '0')}-${numeric[2].padStart(2, '0')}`;
+  return text.slice(0, 10);
+}
+
+const CHECKS: ReconciliationCheck[] = [
+  { field: 'wageRateFrom', label: 'Wage Rate (From)', disclosure: (lca) => lca.wage_rate_from, normalize: asNumber },
+  { field: 'wageRateTo', label: 'Wage Rate (To)', disclosure: (lca) => lca.wage_rate_to || null, normalize: asNumber },
+  { field: 'wageUnit', label: 'Wage Unit', disclosure: (lca) => lca.wage_unit, normalize: (value) => mapWageUnit(String(value)) },
+  { field: 'prevailingWage', label: 'Prevailing Wage', disclosure: (lca) => lca.prevailing_wage, normalize: asNumber },
+  { field: 'wageLevel', label: 'Wage Level', disclosure: (lca) => lca.pw_wage_level, normalize: (value) => mapWageLevel(String(value)) },
+  { field: 'worksiteCounty', label: 'Worksite County', disclosure: (lca) => lca.worksite_county, normalize: asCounty },
+  { field: 'worksitePostalCode', label: 'Worksite Postal Code', disclosure: (lca) => lca.worksite_postal_code, normalize: asPostalCode },
+  { field: 'socCode', label: 'SOC Code', disclosure: (lca) => lca.soc_code, normalize: asSocCode },
+  { field: 'beginDate', label: 'Begin Date', disclosure: (lca) => lca.begin_date, normalize: asDate },
+  { field: 'endDate', label: 'End Date', disclosure: (lca) => lca.end_date, normalize: asDate },
+  { field: 'h1bDependent', label: 'H-1B Dependent', disclosure: (lca) => lca.h1b_dependent, normalize: Boolean },
+  { field: 'willfulViolator', label: 'Willful Violator', disclosure: (lca) => lca.willful_violator, normalize: Boolean },
+];
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Fields where the scan and the disclosure row disagree. A field missing on
+ * either side isn't a discrepancy: older imports leave dependency flags null
+ * and the scan may not have read every field.
+ */
+export function reconcileScanWithDisclosure(scan: LCAScanResult, lca: LCARecord): LCADiscrepancy[] {
+  return CHECKS.flatMap(({ field, label, disclosure, normalize }) => {
+    const scanned = scan[field];
+    const recorded = disclosure(lca);
+    if (isBlank(scanned) || isBlank(recorded) || typeof scanned === 'object') return [];
+    if (normalize(scanned as ReconciledValue) === normalize(recorded as ReconciledValue)) return [];
+    return [{ field, label, scanned: scanned as ReconciledValue, disclosure: recorded as ReconciledValue }];
+  });
+}
+
+/**
+ * The scan with each difference resolved to the disclosure value swapped in.
+ * Those fields lose their scan provenance since the PDF didn't supply them.
+ */
+export function applyReconciliation(scan: LCAScanResult, resolutions: LCAResolution[]): LCAScanResult {
+  const resolved: LCAScanResult = { ...scan, provenance: scan.provenance && { ...scan.provenance } };
+  resolutions
+    .filter((resolution) => resolution.choice === 'disclosure')
+    .forEach(({ field, disclosure }) => {
+      (resolved as Record<string, unknown>)[field] = disclosure;
+      delete resolved.provenance?.[field];
+    });
+  return resolved;
+}
+
+export function formatReconciledValue(value: ReconciledValue): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return value;
+}
+
+/** Column recording the reconciliation on paf_records; null when none was run. */
+export function lcaReconciliationColumns(
+  reconciliation?: LCAReconciliation | null
+): Pick<TablesInsert<'paf_records'>, 'lca_reconciliation'> {
+  return { lca_reconciliation: reconciliation ? (reconciliation as unknown as Json) : null };
+}
+
+export function recordedLCAReconciliation(value: Json | null | undefined): LCAReconciliation | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || !Array.isArray(value.resolutions)) return null;
+  return value as unknown as LCAReconciliation;
+}
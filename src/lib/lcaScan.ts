@@ -0,0 +1,112 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { LCAScanResult, LCAScanWorksite } from '@/components/wizard/steps/SupportingDocsStep';
+import { bytesToBase64 } from '@/lib/pdf/pdfHelpers';
+import { extractPdfLines, fillMissingLCAFields, missingLCAFields, parseLCAText, type ScanField } from '@/lib/lcaPdfParser';
+import { AI_DEFAULT_CONFIDENCE, type FieldProvenance, type ScanProvenance } from '@/lib/scanProvenance';
+
+/**
+ * Reads an uploaded LCA PDF.
+ *
+ * The text-layer parser runs first and needs no network. Only when it can't
+ * read every required field is the PDF sent to the scan-lca-pdf AI function,
+ * and then only for those fields and Appendix A; values the parser read are
+ * never replaced. Each value keeps the provenance reported by whichever side
+ * read it. When the AI scan fails the parsed values are still returned, with
+ * the required fields nobody read listed for the preparer to fill in.
+ */
+
+export interface LCAScanOutcome {
+  data: LCAScanResult;
+  // Fields filled by the AI scan; empty when the parser read everything
+  aiFields: string[];
+  // Required fields neither the parser nor the AI scan read
+  missingFields: ScanField[];
+}
+
+interface AIFieldSource {
+  page?: number | null;
+  snippet?: string | null;
+  confidence?: number | null;
+}
+
+function aiProvenance(source?: AIFieldSource): FieldProvenance {
+  const confidence = source?.confidence;
+  return {
+    source: 'ai',
+    page: source?.page ?? undefined,
+    snippet: source?.snippet ?? undefined,
+    confidence: typeof confidence === 'number' && confidence >= 0 && confidence <= 1 ? confidence : AI_DEFAULT_CONFIDENCE,
+  };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Fills the gaps of each parsed Appendix A worksite from the AI worksite at
+ * the same position and adds the worksites only the AI found. Returns the
+ * provenance keys of the values the AI supplied.
+ */
+function mergeWorksites(parsed: LCAScanWorksite[], ai: LCAScanWorksite[]): { sites: LCAScanWorksite[]; aiKeys: string[] } {
+  const aiKeys: string[] = [];
+  const sites = Array.from({ length: Math.max(parsed.length, ai.length) }, (_, index) => {
+    const site: LCAScanWorksite = { ...parsed[index] };
+    Object.entries(ai[index] ?? {}).forEach(([field, value]) => {
+      const key = field as keyof LCAScanWorksite;
+      if (isEmpty(site[key]) && !isEmpty(value)) {
+        (site as Record<string, unknown>)[key] = value;
+        aiKeys.push(`secondaryWorksites.${index}.${field}`);
+      }
+    });
+    return site;
+  });
+  return { sites, aiKeys };
+}
+
+export async function scanLCAFile(file: File): Promise<LCAScanOutcome> {
+  const bytes = await file.arrayBuffer();
+
+  let parsed: LCAScanResult = {};
+  try {
+    // pdfjs takes ownership of the buffer it is given
+    parsed = parseLCAText(await extractPdfLines(bytes.slice(0)));
+  } catch (err) {
+    // Scanned images and damaged files have no usable text layer
+    console.warn('LCA text parsing failed, using AI scan:', err);
+  }
+
+  const missing = missingLCAFields(parsed);
+  if (missing.length === 0) return { data: parsed, aiFields: [], missingFields: [] };
+
+  let ai: LCAScanResult;
+  let fieldSources: Record<string, AIFieldSource>;
+  try {
+    const { data: result, error } = await supabase.functions.invoke('scan-lca-pdf', {
+      body: { pdfBase64: bytesToBase64(new Uint8Array(bytes)), fields: [...missing, 'secondaryWorksites'] },
+    });
+    if (error) throw error;
+    if (!result?.success) throw new Error(result?.error || 'Scan failed');
+    ({ fieldSources = {}, ...ai } = result.data as LCAScanResult & { fieldSources?: Record<string, AIFieldSource> });
+  } catch (err) {
+    console.warn('LCA AI scan failed, using parsed fields only:', err);
+    return { data: parsed, aiFields: [], missingFields: missing };
+  }
+
+  const data = fillMissingLCAFields(parsed, ai, missing);
+  const aiFields: string[] = missing.filter((field) => data[field] !== parsed[field]);
+  const provenance: ScanProvenance = { ...parsed.provenance };
+  aiFields.forEach((field) => {
+    provenance[field] = aiProvenance(fieldSources[field]);
+  });
+  const { sites, aiKeys } = mergeWorksites(parsed.secondaryWorksites ?? [], ai.secondaryWorksites ?? []);
+  data.secondaryWorksites = sites;
+  aiKeys.forEach((key) => {
+    provenance[key] = aiProvenance(fieldSources[key]);
+  });
+  return {
+    data: { ...data, provenance },
+    aiFields: [...aiFields, ...aiKeys],
+    missingFields: missingLCAFields(data),
+  };
+}
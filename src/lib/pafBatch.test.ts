@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { LCARecord } from '@/components/wizard/steps/LCASelectionStep';
+import type { EmployerProfile } from '@/lib/employers';
+import { generatePAFBatch, type BatchDefaults } from './pafBatch';
+
+const { insert } = vi.hoisted(() => ({ insert: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(() => ({ insert })),
+    rpc: vi.fn(async () => ({ error: null })),
+  },
+}));
+vi.mock('@/lib/pdfGenerator', () => ({
+  archivalOptions: {},
+  getPAFBlob: vi.fn(async () => ({ arrayBuffer: async () => new ArrayBuffer(3) })),
+}));
+vi.mock('@/lib/pafVersions', () => ({ savePAFVersion: vi.fn(async () => undefined) }));
+vi.mock('@/lib/complianceRules', () => ({ evaluateCompliance: vi.fn(() => []), blockingFindings: vi.fn(() => []) }));
+
+const employer = { id: 'employer-1', fein: '12-3456789', trade_name: null } as unknown as EmployerProfile;
+
+const lca = {
+  id: 'lca-1',
+  case_number: 'I-200-24325-123456',
+  case_status: 'Certified',
+  employer_name: 'ACME ANALYTICS LLC',
+  employer_city: 'AUSTIN',
+  employer_state: 'TX',
+  employer_address1: '100 MAIN STREET',
+  employer_postal_code: '78701',
+  job_title: 'SOFTWARE ENGINEER',
+  soc_code: '15-1252',
+  wage_rate_from: 120000,
+  wage_unit: 'Year',
+  prevailing_wage: 110000,
+  pw_unit: 'Year',
+  worksite_city: 'AUSTIN',
+  worksite_state: 'TX',
+  begin_date: '2024-12-01',
+  end_date: '2027-11-30',
+  received_date: '2024-11-20',
+  h1b_dependent: false,
+} as unknown as LCARecord;
+
+const defaults: BatchDefaults = {
+  noticePostingLocation: 'Break room',
+  noticePostingLocation2: 'Lobby',
+  actualWageMemo: 'Pay is set by the salary bands.',
+};
+
+beforeEach(() => {
+  insert.mockReset();
+  insert.mockReturnValue({ select: () => ({ single: async () => ({ data: { id: 'paf-1' }, error: null }) }) });
+});
+
+describe('generatePAFBatch', () => {
+  it('fails an LCA without an actual wage or posting dates instead of assuming them', async () => {
+    const { results } = await generatePAFBatch([lca], employer, { ...defaults, actualWageUnit: 'Year' });
+
+    expect(results[0]).toMatchObject({
+      success: false,
+      error: 'Missing actual wage, notice posting start date, notice posting end date',
+    });
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('stores the actual wage and posting dates of the defaults, overridden per LCA', async () => {
+    const { results } = await generatePAFBatch([lca], employer, {
+      ...defaults,
+      actualWageUnit: 'Year',
+      noticePostingStartDate: '2024-11-04',
+      noticePostingEndDate: '2024-11-18',
+      lcaValues: { 'lca-1': { actualWage: 125000 } },
+    });
+
+    expect(results[0].success).toBe(true);
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      actual_wage: 125000,
+      actual_wage_unit: 'Year',
+      notice_posting_start_date: '2024-11-04',
+      notice_posting_end_date: '2024-11-18',
+    }));
+  });
+});
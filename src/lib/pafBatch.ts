@@ -0,0 +1,212 @@
+import { zipSync, strToU8 } from 'fflate';
+import { supabase } from '@/integrations/supabase/client';
+import type { PAFData, WageUnit } from '@/types/paf';
+import type { LCARecord } from '@/components/wizard/steps/LCASelectionStep';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+import { lcaToPAFData } from '@/lib/lcaMapping';
+import { pafDataToRecordInsert } from '@/lib/pafRecord';
+import { registeredAddress, sectionProfile, type EmployerProfile } from '@/lib/employers';
+import { evaluateCompliance, blockingFindings } from '@/lib/complianceRules';
+import { savePAFVersion } from '@/lib/pafVersions';
+import { getPAFBlob, archivalOptions } from '@/lib/pdfGenerator';
+
+/**
+ * Batch PAF generation for certified LCAs from the disclosure list.
+ *
+ * Each LCA goes through the same mapping as the wizard, gets the shared
+ * supporting-doc defaults, and is saved as its own paf_records row. The
+ * disclosure has neither the actual wage nor the notice posting dates, so
+ * they come from the defaults or the LCA's own values; an LCA without them
+ * fails. One failing LCA doesn't stop the batch; it is reported instead.
+ */
+
+// Values the disclosure doesn't have, given for all LCAs or per LCA
+export interface BatchLCAValues {
+  actualWage?: number;
+  actualWageUnit?: WageUnit;
+  noticePostingStartDate?: string;
+  noticePostingEndDate?: string;
+}
+
+export interface BatchDefaults extends BatchLCAValues {
+  noticePostingLocation: string;
+  noticePostingLocation2: string;
+  noticePostingLocation3?: string;
+  noticePostingLocation4?: string;
+  actualWageMemo: string;
+  signatoryId?: string;
+  // Per-LCA values by LCA id, taking precedence over the defaults
+  lcaValues?: Record<string, BatchLCAValues>;
+}
+
+export interface BatchItemResult {
+  lcaId: string;
+  caseNumber: string;
+  success: boolean;
+  pafId?: string;
+  fileName?: string;
+  error?: string;
+}
+
+export interface BatchResult {
+  results: BatchItemResult[];
+  // PDFs of the successful LCAs plus batch-report.csv
+  zip: Blob;
+}
+
+function batchLCAValues(lca: LCARecord, defaults: BatchDefaults): Required<BatchLCAValues> {
+  const own = defaults.lcaValues?.[lca.id] ?? {};
+  const values = {
+    actualWage: own.actualWage ?? defaults.actualWage,
+    actualWageUnit: own.actualWageUnit ?? defaults.actualWageUnit,
+    noticePostingStartDate: own.noticePostingStartDate || defaults.noticePostingStartDate,
+    noticePostingEndDate: own.noticePostingEndDate || defaults.noticePostingEndDate,
+  };
+  const { actualWage, actualWageUnit, noticePostingStartDate, noticePostingEndDate } = values;
+  if (actualWage && actualWage > 0 && actualWageUnit && noticePostingStartDate && noticePostingEndDate) {
+    return { actualWage, actualWageUnit, noticePostingStartDate, noticePostingEndDate };
+  }
+
+  const missing = [
+    !(actualWage && actualWage > 0) && 'actual wage',
+    !actualWageUnit && 'actual wage unit',
+    !noticePostingStartDate && 'notice posting start date',
+    !noticePostingEndDate && 'notice posting end date',
+  ].filter(Boolean);
+  throw new Error(`Missing ${missing.join(', ')}`);
+}
+
+function batchPAFData(
+  lca: LCARecord,
+  employer: EmployerProfile,
+  defaults: BatchDefaults,
+  values: Required<BatchLCAValues>
+): PAFData {
+  const data = lcaToPAFData(lca, employer);
+  return {
+    ...data,
+    employer: { ...data.employer, signatoryId: defaults.signatoryId },
+    // Like stored PAFs, the contact is the employer at its LCA address
+    contact: {
+      lastName: '',
+      firstName: '',
+      jobTitle: '',
+      address1: data.employer.address1,
+      city: data.employer.city,
+      state: data.employer.state,
+      postalCode: data.employer.postalCode,
+      country: data.employer.country,
+      telephone: data.employer.telephone,
+      email: '',
+    },
+    wage: { ...data.wage, actualWage: values.actualWage, actualWageUnit: values.actualWageUnit },
+  };
+}
+
+function batchSupportingDocs(lca: LCARecord, defaults: BatchDefaults, values: Required<BatchLCAValues>): SupportingDocs {
+  return {
+    lcaCaseNumber: lca.case_number,
+    // Disclosure rows come without the LCA PDF, so the record has none to store
+    lcaFile: null,
+    actualWageMemo: defaults.actualWageMemo,
+    noticePostingProof: null,
+    noticePostingStartDate: values.noticePostingStartDate,
+    noticePostingEndDate: values.noticePostingEndDate,
+    noticePostingLocation: defaults.noticePostingLocation,
+    noticePostingLocation2: defaults.noticePostingLocation2,
+    noticePostingLocation3: defaults.noticePostingLocation3,
+    noticePostingLocation4: defaults.noticePostingLocation4,
+    benefitsComparisonFile: null,
+    benefitsNotes: '',
+    isCertifiedLCA: true,
+    isH1BDependent: lca.h1b_dependent === true,
+    lcaReceivedDate: lca.received_date || undefined,
+  };
+}
+
+function csvField(value: string | undefined): string {
+  const text = value ?? '';
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function buildReport(results: BatchItemResult[]): string {
+  const rows = results.map((r) =>
+    [r.caseNumber, r.success ? 'success' : 'failed', r.pafId, r.fileName, r.error].map(csvField).join(',')
+  );
+  return ['case_number,status,paf_id,file_name,error', ...rows].join('\n') + '\n';
+}
+
+async function generateOne(
+  lca: LCARecord,
+  employer: EmployerProfile,
+  defaults: BatchDefaults
+): Promise<{ result: BatchItemResult; pdf?: Uint8Array }> {
+  const values = batchLCAValues(lca, defaults);
+  const data = batchPAFData(lca, employer, defaults, values);
+  const supportingDocs = batchSupportingDocs(lca, defaults, values);
+  // Batches have no reviewer to override errors, so any error fails the LCA
+  const errors = blockingFindings(evaluateCompliance(data, supportingDocs));
+  if (errors.length > 0) {
+    throw new Error(errors.map((e) => `${e.title} (${e.citation})`).join('; '));
+  }
+
+  const pdf = await getPAFBlob(data, supportingDocs, { ...archivalOptions, registeredAddress: registeredAddress(employer), sectionProfile: sectionProfile(employer), employerId: employer.id });
+
+  const { data: created, error: insertError } = await supabase
+    .from('paf_records')
+    .insert(pafDataToRecordInsert(data, supportingDocs, 'certified', employer))
+    .select('id')
+    .single();
+  if (insertError) throw insertError;
+  await savePAFVersion(created.id, pdf);
+
+  // Mark LCA as PAF generated *only after* paf_records is created.
+  const { error: lcaError } = await supabase.rpc('mark_lca_paf_generated', {
+    p_lca_id: lca.id,
+    p_paf_record_id: created.id,
+  });
+  if (lcaError) throw lcaError;
+
+  const fileName = `PAF_${lca.case_number.replace(/[^A-Za-z0-9-]/g, '_')}.pdf`;
+  return {
+    result: { lcaId: lca.id, caseNumber: lca.case_number, success: true, pafId: created.id, fileName },
+    pdf: new Uint8Array(await pdf.arrayBuffer()),
+  };
+}
+
+/**
+ * Generates one PAF per LCA of the employer, sequentially so signing and
+ * uploads don't pile up. onProgress is called after each LCA with the
+ * results so far.
+ */
+export async function generatePAFBatch(
+  lcas: LCARecord[],
+  employer: EmployerProfile,
+  defaults: BatchDefaults,
+  onProgress?: (results: BatchItemResult[]) => void
+): Promise<BatchResult> {
+  const results: BatchItemResult[] = [];
+  const files: Record<string, Uint8Array> = {};
+
+  for (const lca of lcas) {
+    try {
+      const { result, pdf } = await generateOne(lca, employer, defaults);
+      if (pdf && result.fileName) files[result.fileName] = pdf;
+      results.push(result);
+    } catch (error) {
+      console.error(`Batch PAF failed for ${lca.case_number}:`, error);
+      results.push({
+        lcaId: lca.id,
+        caseNumber: lca.case_number,
+        success: false,
+        error: (error as { message?: string })?.message || 'Unknown error',
+      });
+    }
+    onProgress?.([...results]);
+  }
+
+  files['batch-report.csv'] = strToU8(buildReport(results));
+  // PDFs are already compressed, so store them as-is
+  const zipped = zipSync(files, { level: 0 });
+  return { results, zip: new Blob([zipped], { type: 'application/zip' }) };
+}
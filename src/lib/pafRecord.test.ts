@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PAFData } from '@/types/paf';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+import type { EmployerProfile } from '@/lib/employers';
+import {
+  loadPAFRecordFiles,
+  pafDataToRecordInsert,
+  pafRecordToGeneratorInput,
+  type PAFRecordRow,
+} from './pafRecord';
+
+const employer = {
+  id: 'employer-1',
+  address1: '100 Main Street',
+  city: 'Austin',
+  state: 'TX',
+  postal_code: '78701',
+  section_profile: { order: ['wageMemo'], disabled: ['benefits'] },
+} as unknown as EmployerProfile;
+
+const data: PAFData = {
+  visaType: 'H-1B',
+  caseNumber: 'I-200-24325-123456',
+  caseStatus: 'Certified',
+  employer: {
+    legalBusinessName: 'Acme Analytics LLC',
+    address1: '100 Main Street',
+    city: 'Austin',
+    state: 'TX',
+    postalCode: '78701',
+    country: 'United States Of America',
+    telephone: '512-555-0100',
+    fein: '12-3456789',
+    naicsCode: '541511',
+    signatoryId: 'sig-1',
+  },
+  contact: {
+    lastName: '',
+    firstName: '',
+    jobTitle: '',
+    address1: '100 Main Street',
+    city: 'Austin',
+    state: 'TX',
+    postalCode: '78701',
+    country: 'United States Of America',
+    telephone: '512-555-0100',
+    email: '',
+  },
+  job: {
+    jobTitle: 'Software Engineer',
+    socCode: '15-1252',
+    socTitle: 'Software Developers',
+    isFullTime: true,
+    beginDate: '2024-12-01',
+    endDate: '2027-11-30',
+    wageRateFrom: 120000,
+    wageRateTo: 140000,
+    wageUnit: 'Year',
+    workersNeeded: 1,
+  },
+  worksite: {
+    address1: '500 Congress Avenue',
+    city: 'Austin',
+    state: 'TX',
+    postalCode: '78701',
+    county: 'Travis County',
+  },
+  wage: {
+    prevailingWage: 110000,
+    prevailingWageUnit: 'Year',
+    wageLevel: 'Level II',
+    wageSource: 'OES',
+    wageSourceDate: '2024-07-01',
+    actualWage: 120000,
+    actualWageUnit: 'Year',
+  },
+  isH1BDependent: false,
+  isWillfulViolator: false,
+};
+
+const supportingDocs: SupportingDocs = {
+  lcaCaseNumber: 'I-200-24325-123456',
+  lcaFile: null,
+  actualWageMemo: '',
+  noticePostingProof: null,
+  noticePostingStartDate: '2024-11-04',
+  noticePostingEndDate: '2024-11-18',
+  noticePostingLocation: 'Break room',
+  noticePostingLocation2: 'Lobby',
+  benefitsComparisonFile: null,
+  benefitsNotes: '',
+};
+
+function savedRecord(): PAFRecordRow {
+  const insert = pafDataToRecordInsert(data, supportingDocs, 'certified', employer, {
+    lcaFilePath: 'paf-attachments/paf-1/lca.pdf',
+    noticePostingProofPath: 'paf-attachments/paf-1/proof.pdf',
+  });
+  return { ...insert, id: 'paf-1' } as PAFRecordRow;
+}
+
+describe('pafDataToRecordInsert', () => {
+  it('stores the chosen signatory and the uploaded files', () => {
+    const record = savedRecord();
+
+    expect(record.signatory_id).toBe('sig-1');
+    expect(record.lca_file_path).toBe('paf-attachments/paf-1/lca.pdf');
+    expect(record.notice_posting_proof_path).toBe('paf-attachments/paf-1/proof.pdf');
+    expect(record.wage_source_document_path).toBeNull();
+  });
+});
+
+describe('pafRecordToGeneratorInput', () => {
+  it('rebuilds the PAF with the stored signatory and the employer options', () => {
+    const { data: rebuilt, supportingDocs: docs, options } = pafRecordToGeneratorInput(savedRecord(), employer);
+
+    expect(rebuilt.employer.signatoryId).toBe('sig-1');
+    expect(rebuilt.job).toMatchObject(data.job);
+    expect(docs.noticePostingLocation2).toBe('Lobby');
+    expect(options).toEqual({
+      registeredAddress: { address1: '100 Main Street', city: 'Austin', state: 'TX', postalCode: '78701' },
+      sectionProfile: { order: ['wageMemo'], disabled: ['benefits'] },
+      employerId: 'employer-1',
+    });
+  });
+
+  it('includes the downloaded attachments', () => {
+    const lcaFile = new File(['certified LCA'], 'lca.pdf');
+    const { supportingDocs: docs } = pafRecordToGeneratorInput(savedRecord(), employer, { lcaFile });
+
+    expect(docs.lcaFile).toBe(lcaFile);
+  });
+});
+
+describe('loadPAFRecordFiles', () => {
+  it('downloads only the files the record has', async () => {
+    const download = vi.fn(async (path: string) => new File(['file'], path.split('/').pop()!));
+
+    const files = await loadPAFRecordFiles(savedRecord(), download);
+
+    expect(download.mock.calls.map(([path]) => path)).toEqual([
+      'paf-attachments/paf-1/lca.pdf',
+      'paf-attachments/paf-1/proof.pdf',
+    ]);
+    expect(files.lcaFile?.name).toBe('lca.pdf');
+    expect(files.benefitsComparisonFile).toBeNull();
+  });
+});
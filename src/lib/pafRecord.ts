@@ -0,0 +1,375 @@
+import type { PAFData, SecondaryWorksite } from '@/types/paf';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { dedupeAddress2, normalizeRegisteredPostalCode } from '@/lib/addressFormatting';
+import { registeredAddress, sectionProfile, type EmployerProfile } from '@/lib/employers';
+import { requiresWageSourceDocument } from '@/lib/wageSources';
+import type { PAFDocumentOptions } from '@/lib/pdfGenerator';
+
+/**
+ * Mapping between paf_records rows and the generator's input.
+ * Shared by the wizard, batch generation, EditPAF and the generate-paf edge
+ * function, so keep it free of browser-only APIs.
+ */
+
+export type PAFRecordRow = Tables<'paf_records'>;
+
+export interface PAFRecordFiles {
+  lcaFile?: File | null;
+  noticePostingProof?: File | null;
+  benefitsComparisonFile?: File | null;
+  wageSourceDocument?: File | null;
+}
+
+// Storage paths of the files uploaded with a new record
+export interface PAFAttachmentPaths {
+  lcaFilePath?: string | null;
+  noticePostingProofPath?: string | null;
+  wageSourceDocumentPath?: string | null;
+}
+
+// A secondary worksite as stored in paf_records.secondary_worksites
+interface StoredSecondaryWorksite {
+  worksite_name?: string | null;
+  address1: string;
+  address2?: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  county?: string | null;
+  area_code?: string | null;
+  area_name?: string | null;
+  posting_locations?: string[];
+  wage?: {
+    prevailing_wage: number;
+    prevailing_wage_unit: string;
+    wage_level: string;
+    wage_source: string;
+    wage_source_date: string;
+    area_code?: string | null;
+    area_name?: string | null;
+  } | null;
+}
+
+function secondaryWorksitesToJson(worksites: SecondaryWorksite[] = []): Json {
+  const stored: StoredSecondaryWorksite[] = worksites.map((site) => ({
+    worksite_name: site.worksiteName || null,
+    address1: site.address1,
+    address2: dedupeAddress2(site.address1, site.address2) ? site.address2 ?? null : null,
+    city: site.city,
+    state: site.state,
+    postal_code: site.postalCode,
+    county: site.county || null,
+    area_code: site.areaCode || null,
+    area_name: site.areaName || null,
+    posting_locations: (site.postingLocations ?? []).filter((l) => l.trim()),
+    wage: site.wage
+      ? {
+          prevailing_wage: site.wage.prevailingWage,
+          prevailing_wage_unit: site.wage.prevailingWageUnit,
+          wage_level: site.wage.wageLevel,
+          wage_source: site.wage.wageSource,
+          wage_source_date: site.wage.wageSourceDate,
+          area_code: site.wage.areaCode || null,
+          area_name: site.wage.areaName || null,
+        }
+      : null,
+  }));
+  return stored as unknown as Json;
+}
+
+function secondaryWorksitesFromJson(json: Json | null | undefined): SecondaryWorksite[] {
+  if (!Array.isArray(json)) return [];
+  return (json as unknown as StoredSecondaryWorksite[]).map((site) => ({
+    worksiteName: site.worksite_name || undefined,
+    address1: site.address1,
+    address2: site.address2 || undefined,
+    city: site.city,
+    state: site.state,
+    postalCode: site.postal_code,
+    county: site.county || undefined,
+    areaCode: site.area_code || undefined,
+    areaName: site.area_name || undefined,
+    postingLocations: site.posting_locations ?? [],
+    wage: site.wage
+      ? {
+          prevailingWage: site.wage.prevailing_wage,
+          prevailingWageUnit: site.wage.prevailing_wage_unit as PAFData['wage']['prevailingWageUnit'],
+          wageLevel: site.wage.wage_level as PAFData['wage']['wageLevel'],
+          wageSource: site.wage.wage_source,
+          wageSourceDate: site.wage.wage_source_date,
+          areaCode: site.wage.area_code || undefined,
+          areaName: site.wage.area_name || undefined,
+        }
+      : undefined,
+  }));
+}
+
+// Storage path for a new immutable PAF version (paf-documents bucket)
+export function pafVersionPath(pafRecordId: string): string {
+  return `paf-versions/${pafRecordId}/${Date.now()}.pdf`;
+}
+
+// Storage path for a file attached to a PAF record (paf-documents bucket)
+export function pafAttachmentPath(pafRecordId: string, fileName: string): string {
+  const ext = fileName.split('.').pop() || 'pdf';
+  return `paf-attachments/${pafRecordId}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+}
+
+/**
+ * Maps wizard data to a new paf_records row of the given employer. The
+ * generated PDF, its hashes and signature are attached afterwards as a
+ * version (add_paf_version).
+ */
+export function pafDataToRecordInsert(
+  data: PAFData,
+  supportingDocs: SupportingDocs | undefined,
+  lcaStatus: 'certified' | 'in_process',
+  employerProfile: EmployerProfile,
+  attachmentPaths: PAFAttachmentPaths = {}
+): TablesInsert<'paf_records'> {
+  const { employer, job, worksite, wage } = data;
+  const sourceDetails = wage.wageSourceDetails;
+  const employerAddress2 = dedupeAddress2(employer.address1, employer.address2) ? employer.address2 ?? null : null;
+  const worksiteAddress2 = dedupeAddress2(worksite.address1, worksite.address2) ? worksite.address2 ?? null : null;
+  const registered = registeredAddress(employerProfile);
+  const employerPostalCode = normalizeRegisteredPostalCode(employer.postalCode, employer, registered);
+  const worksitePostalCode = normalizeRegisteredPostalCode(worksite.postalCode, worksite, registered);
+
+  return {
+    employer_id: employerProfile.id,
+    visa_type: data.visaType ?? 'H-1B',
+    lca_case_number: data.caseNumber ?? supportingDocs?.lcaCaseNumber ?? null,
+    lca_status: lcaStatus,
+
+    is_h1b_dependent: data.isH1BDependent ?? false,
+    is_willful_violator: data.isWillfulViolator ?? false,
+    is_full_time: job.isFullTime ?? true,
+    hours_per_week: job.isFullTime === false ? job.hoursPerWeek ?? null : null,
+    is_rd: job.isRD ?? false,
+
+    employer_legal_name: employer.legalBusinessName,
+    employer_trade_name: employer.tradeName ?? null,
+    employer_address1: employer.address1,
+    employer_address2: employerAddress2,
+    employer_city: employer.city,
+    employer_state: employer.state,
+    employer_postal_code: employerPostalCode,
+    employer_country: employer.country,
+    employer_telephone: employer.telephone,
+    employer_fein: employer.fein,
+    employer_naics_code: employer.naicsCode,
+    signatory_id: employer.signatoryId || null,
+
+    job_title: job.jobTitle,
+    soc_code: job.socCode,
+    soc_title: job.socTitle,
+    onet_code: job.onetCode ?? null,
+    onet_title: job.onetTitle ?? null,
+
+    begin_date: job.beginDate,
+    end_date: job.endDate,
+    wage_rate_from: job.wageRateFrom,
+    wage_rate_to: job.wageRateTo ?? null,
+    wage_unit: job.wageUnit,
+    workers_needed: job.workersNeeded ?? 1,
+
+    worksite_address1: worksite.address1,
+    worksite_address2: worksiteAddress2,
+    worksite_city: worksite.city,
+    worksite_state: worksite.state,
+    worksite_postal_code: worksitePostalCode,
+    worksite_county: worksite.county ?? null,
+    worksite_area_code: worksite.areaCode ?? null,
+    worksite_area_name: worksite.areaName ?? null,
+    secondary_worksites: secondaryWorksitesToJson(worksite.secondaryWorksites),
+
+    prevailing_wage: wage.prevailingWage,
+    prevailing_wage_unit: wage.prevailingWageUnit,
+    wage_level: wage.wageLevel,
+    wage_source: wage.wageSource,
+    wage_source_date: wage.wageSourceDate,
+    pwd_case_number: sourceDetails?.pwdCaseNumber || null,
+    pwd_issue_date: sourceDetails?.pwdIssueDate || null,
+    pwd_expiration_date: sourceDetails?.pwdExpirationDate || null,
+    cba_name: sourceDetails?.cbaName || null,
+    cba_effective_date: sourceDetails?.cbaEffectiveDate || null,
+    cba_expiration_date: sourceDetails?.cbaExpirationDate || null,
+    survey_name: sourceDetails?.surveyName || null,
+    survey_publisher: sourceDetails?.surveyPublisher || null,
+    survey_year: sourceDetails?.surveyYear ?? null,
+    actual_wage: wage.actualWage,
+    actual_wage_unit: wage.actualWageUnit,
+
+    // Posting dates and locations
+    notice_posting_start_date: supportingDocs?.noticePostingStartDate || null,
+    notice_posting_end_date: lcaStatus === 'in_process'
+      ? null  // Leave blank for in-process LCAs
+      : supportingDocs?.noticePostingEndDate || null,
+    notice_posting_location: supportingDocs?.noticePostingLocation || null,
+    notice_posting_location2: supportingDocs?.noticePostingLocation2 || null,
+    notice_posting_location3: supportingDocs?.noticePostingLocation3 || null,
+    notice_posting_location4: supportingDocs?.noticePostingLocation4 || null,
+    notice_posting_start_date2: supportingDocs?.noticePostingStartDate2 || null,
+    notice_posting_start_date3: supportingDocs?.noticePostingStartDate3 || null,
+    notice_posting_start_date4: supportingDocs?.noticePostingStartDate4 || null,
+
+    // File paths
+    lca_file_path: attachmentPaths.lcaFilePath ?? null,
+    actual_wage_memo_path: null,
+    notice_posting_proof_path: attachmentPaths.noticePostingProofPath ?? null,
+    benefits_comparison_path: null,
+    wage_source_document_path: attachmentPaths.wageSourceDocumentPath ?? null,
+  };
+}
+
+/**
+ * Builds generator input from a stored record. The wage source document is
+ * only included when the caller has downloaded it from storage.
+ */
+export function pafRecordToPAFData(record: PAFRecordRow, files: PAFRecordFiles = {}): PAFData {
+  return {
+    visaType: record.visa_type as PAFData['visaType'],
+    caseNumber: record.lca_case_number || undefined,
+    caseStatus: record.lca_status === 'in_process' ? 'In Process' : 'Certified',
+    isH1BDependent: record.is_h1b_dependent,
+    isWillfulViolator: record.is_willful_violator,
+    employer: {
+      legalBusinessName: record.employer_legal_name,
+      tradeName: record.employer_trade_name || undefined,
+      address1: record.employer_address1,
+      address2: record.employer_address2 || undefined,
+      city: record.employer_city,
+      state: record.employer_state,
+      postalCode: record.employer_postal_code,
+      country: record.employer_country,
+      telephone: record.employer_telephone,
+      fein: record.employer_fein,
+      naicsCode: record.employer_naics_code,
+      employeeName: record.worker_name || undefined,
+      signatoryId: record.signatory_id || undefined,
+    },
+    contact: {
+      lastName: '',
+      firstName: '',
+      jobTitle: '',
+      address1: record.employer_address1,
+      city: record.employer_city,
+      state: record.employer_state,
+      postalCode: record.employer_postal_code,
+      country: record.employer_country,
+      telephone: record.employer_telephone,
+      email: '',
+    },
+    job: {
+      jobTitle: record.job_title,
+      socCode: record.soc_code,
+      socTitle: record.soc_title,
+      onetCode: record.onet_code || undefined,
+      onetTitle: record.onet_title || undefined,
+      isFullTime: record.is_full_time,
+      hoursPerWeek: record.hours_per_week ?? undefined,
+      beginDate: record.begin_date,
+      endDate: record.end_date,
+      wageRateFrom: record.wage_rate_from,
+      wageRateTo: record.wage_rate_to || undefined,
+      wageUnit: record.wage_unit as PAFData['job']['wageUnit'],
+      workersNeeded: record.workers_needed,
+      isRD: record.is_rd || undefined,
+    },
+    worksite: {
+      address1: record.worksite_address1,
+      address2: record.worksite_address2 || undefined,
+      city: record.worksite_city,
+      state: record.worksite_state,
+      postalCode: record.worksite_postal_code,
+      county: record.worksite_county || undefined,
+      areaCode: record.worksite_area_code || undefined,
+      areaName: record.worksite_area_name || undefined,
+      secondaryWorksites: secondaryWorksitesFromJson(record.secondary_worksites),
+    },
+    wage: {
+      prevailingWage: record.prevailing_wage,
+      prevailingWageUnit: record.prevailing_wage_unit as PAFData['wage']['prevailingWageUnit'],
+      wageLevel: record.wage_level as PAFData['wage']['wageLevel'],
+      wageSource: record.wage_source,
+      wageSourceDate: record.wage_source_date,
+      wageSourceDetails: requiresWageSourceDocument(record.wage_source)
+        ? {
+            pwdCaseNumber: record.pwd_case_number || undefined,
+            pwdIssueDate: record.pwd_issue_date || undefined,
+            pwdExpirationDate: record.pwd_expiration_date || undefined,
+            cbaName: record.cba_name || undefined,
+            cbaEffectiveDate: record.cba_effective_date || undefined,
+            cbaExpirationDate: record.cba_expiration_date || undefined,
+            surveyName: record.survey_name || undefined,
+            surveyPublisher: record.survey_publisher || undefined,
+            surveyYear: record.survey_year ?? undefined,
+            document: files.wageSourceDocument ?? null,
+            documentPath: record.wage_source_document_path || undefined,
+          }
+        : undefined,
+      actualWage: record.actual_wage,
+      actualWageUnit: record.actual_wage_unit as PAFData['wage']['actualWageUnit'],
+    },
+  };
+}
+
+/**
+ * Builds supporting docs from the stored posting data. Attachments are only
+ * included when the caller has downloaded them from storage.
+ */
+export function pafRecordToSupportingDocs(record: PAFRecordRow, files: PAFRecordFiles = {}): SupportingDocs {
+  return {
+    lcaCaseNumber: record.lca_case_number || '',
+    lcaFile: files.lcaFile ?? null,
+    actualWageMemo: '',
+    noticePostingProof: files.noticePostingProof ?? null,
+    noticePostingStartDate: record.notice_posting_start_date || '',
+    noticePostingEndDate: record.notice_posting_end_date || '',
+    noticePostingLocation: record.notice_posting_location || '',
+    noticePostingLocation2: record.notice_posting_location2 || '',
+    noticePostingLocation3: record.notice_posting_location3 || undefined,
+    noticePostingLocation4: record.notice_posting_location4 || undefined,
+    noticePostingStartDate2: record.notice_posting_start_date2 || undefined,
+    noticePostingStartDate3: record.notice_posting_start_date3 || undefined,
+    noticePostingStartDate4: record.notice_posting_start_date4 || undefined,
+    benefitsComparisonFile: files.benefitsComparisonFile ?? null,
+    benefitsNotes: '',
+  };
+}
+
+/** Loads the record's attachments with the caller's storage download. */
+export async function loadPAFRecordFiles(
+  record: PAFRecordRow,
+  download: (path: string) => Promise<File | null>
+): Promise<PAFRecordFiles> {
+  const load = (path: string | null) => (path ? download(path) : Promise.resolve(null));
+  return {
+    lcaFile: await load(record.lca_file_path),
+    noticePostingProof: await load(record.notice_posting_proof_path),
+    benefitsComparisonFile: await load(record.benefits_comparison_path),
+    wageSourceDocument: await load(record.wage_source_document_path),
+  };
+}
+
+/**
+ * Generator input for rebuilding a stored record's PAF. Regenerating in the
+ * browser and in the generate-paf function both go through this, so the
+ * same record always gives the same document.
+ */
+export function pafRecordToGeneratorInput(
+  record: PAFRecordRow,
+  employerProfile: EmployerProfile,
+  files: PAFRecordFiles = {}
+): { data: PAFData; supportingDocs: SupportingDocs; options: PAFDocumentOptions } {
+  return {
+    data: pafRecordToPAFData(record, files),
+    supportingDocs: pafRecordToSupportingDocs(record, files),
+    options: {
+      registeredAddress: registeredAddress(employerProfile),
+      sectionProfile: sectionProfile(employerProfile),
+      employerId: record.employer_id,
+    },
+  };
+}
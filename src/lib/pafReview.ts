@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+import type { PAFRecordRow } from '@/lib/pafRecord';
+import { signPAFVersion } from '@/lib/pdf/signPdf';
+
+/**
+ * Review workflow of paf_records.
+ *
+ * draft → in_review → (changes_requested → in_review …) → approved, and an
+ * approved PAF becomes superseded once a revision of it is approved. Every
+ * transition is a database function that checks the caller's role, so the
+ * status can't be set from the client directly; PAFs in review and approved
+ * PAFs are locked by a trigger. Approving digitally signs the PAF as the approving signatory.
+ */
+
+export type PAFStatus = Enums<'paf_status'>;
+export type PAFReviewComment = Tables<'paf_review_comments'>;
+
+export interface Reviewer {
+  user_id: string;
+  email: string;
+}
+
+export const PAF_STATUS_LABELS: Record<PAFStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+  superseded: 'Superseded',
+};
+
+export const PAF_STATUS_BADGE_CLASSES: Record<PAFStatus, string> = {
+  draft: 'bg-muted text-muted-foreground border-border',
+  in_review: 'bg-primary/10 text-primary border-primary/30',
+  changes_requested: 'bg-warning/20 text-warning border-warning/30',
+  approved: 'bg-success/15 text-success border-success/30',
+  superseded: 'bg-muted text-muted-foreground border-border line-through',
+};
+
+// Sections a review comment can be attached to (checked by the database)
+export const REVIEW_SECTIONS = {
+  general: 'General',
+  employer: 'Employer',
+  job: 'Job Details',
+  worksite: 'Worksite',
+  wage: 'Wages',
+  documents: 'Supporting Documents',
+} as const;
+
+export type ReviewSection = keyof typeof REVIEW_SECTIONS;
+
+export function isLockedStatus(status: PAFStatus): boolean {
+  return status === 'in_review' || status === 'approved' || status === 'superseded';
+}
+
+export async function fetchReviewers(employerId: string): Promise<Reviewer[]> {
+  const { data, error } = await supabase.rpc('employer_members_with_role', {
+    p_employer_id: employerId,
+    p_role: 'reviewer',
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function submitForReview(pafRecordId: string, reviewerId: string): Promise<PAFRecordRow> {
+  const { data, error } = await supabase.rpc('submit_paf_for_review', {
+    p_paf_record_id: pafRecordId,
+    p_reviewer_id: reviewerId,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function requestChanges(pafRecordId: string): Promise<PAFRecordRow> {
+  const { data, error } = await supabase.rpc('request_paf_changes', { p_paf_record_id: pafRecordId });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Approves a PAF as the signatory linked to the current user. A signatory
+ * with a certificate first signs the current version, which the approval
+ * requires.
+ */
+export async function approvePAF(
+  pafRecord: PAFRecordRow,
+  signatory: { id: string; certificate_path: string | null },
+): Promise<PAFRecordRow> {
+  const signedCurrentVersion = pafRecord.signed_by_signatory_id === signatory.id && !!pafRecord.signed_at;
+  if (signatory.certificate_path && !signedCurrentVersion) {
+    if (!pafRecord.current_version_id) throw new Error('Generate the PAF before approving it');
+    await signPAFVersion(pafRecord.current_version_id, signatory.id);
+  }
+
+  const { data, error } = await supabase.rpc('approve_paf', {
+    p_paf_record_id: pafRecord.id,
+    p_signatory_id: signatory.id,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Copies an approved PAF into a new draft; returns the draft. */
+export async function revisePAF(pafRecordId: string): Promise<PAFRecordRow> {
+  const { data, error } = await supabase.rpc('revise_paf', { p_paf_record_id: pafRecordId });
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchReviewComments(pafRecordId: string): Promise<PAFReviewComment[]> {
+  const { data, error } = await supabase
+    .from('paf_review_comments')
+    .select('*')
+    .eq('paf_record_id', pafRecordId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data;
+}
+
+export async function addReviewComment(pafRecordId: string, section: ReviewSection, body: string): Promise<void> {
+  const { error } = await supabase
+    .from('paf_review_comments')
+    .insert({ paf_record_id: pafRecordId, section, body: body.trim() });
+  if (error) throw error;
+}
+
+export async function resolveReviewComment(commentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('paf_review_comments')
+    .update({ resolved_at: new Date().toISOString() })
+    .eq('id', commentId);
+  if (error) throw error;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { diffRevisionData, formatRevisionValue, restorePAFRevision } from './pafRevisions';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { rpc: vi.fn() } }));
+
+const saved = {
+  id: 'paf-1',
+  worker_name: 'Jordan Lee',
+  job_title: 'Software Engineer',
+  actual_wage: 120000,
+  is_full_time: true,
+  worksite_address2: null,
+  updated_at: '2024-12-01T15:00:00.000Z',
+};
+
+describe('diffRevisionData', () => {
+  it('lists the labeled fields that changed', () => {
+    const edited = { ...saved, job_title: 'Senior Software Engineer', actual_wage: 125000, updated_at: '2024-12-02T09:00:00.000Z' };
+
+    expect(diffRevisionData(saved, edited)).toEqual([
+      { field: 'job_title', label: 'Job title', from: 'Software Engineer', to: 'Senior Software Engineer' },
+      { field: 'actual_wage', label: 'Actual wage', from: 120000, to: 125000 },
+    ]);
+  });
+
+  it('treats missing and null values as equal', () => {
+    expect(diffRevisionData(saved, { ...saved, worksite_address2: undefined })).toEqual([]);
+  });
+
+  it('lists every field with a value in the first revision', () => {
+    expect(diffRevisionData(null, saved).map((change) => change.field)).toEqual(['worker_name', 'job_title', 'is_full_time', 'actual_wage']);
+  });
+
+  it('compares secondary worksites by content', () => {
+    const dallas = { address1: '1 Client Plaza', city: 'Dallas', state: 'TX', postalCode: '75201' };
+    const before = { ...saved, secondary_worksites: [dallas] };
+
+    expect(diffRevisionData(before, { ...saved, secondary_worksites: [{ ...dallas }] })).toEqual([]);
+    expect(diffRevisionData(before, { ...saved, secondary_worksites: [] })).toEqual([
+      { field: 'secondary_worksites', label: 'Secondary worksites', from: [dallas], to: [] },
+    ]);
+    expect(diffRevisionData(null, { ...saved, secondary_worksites: [] }).map((change) => change.field)).not.toContain('secondary_worksites');
+  });
+});
+
+describe('formatRevisionValue', () => {
+  it('formats empty values, booleans and numbers for display', () => {
+    expect(formatRevisionValue(null)).toBe('(empty)');
+    expect(formatRevisionValue('')).toBe('(empty)');
+    expect(formatRevisionValue(false)).toBe('No');
+    expect(formatRevisionValue(125000)).toBe('125,000');
+    expect(formatRevisionValue('Jordan Lee')).toBe('Jordan Lee');
+  });
+
+  it('lists secondary worksites by city and state', () => {
+    expect(formatRevisionValue([{ city: 'Dallas', state: 'TX' }, { city: 'Plano', state: 'TX' }])).toBe('Dallas, TX; Plano, TX');
+    expect(formatRevisionValue([])).toBe('(empty)');
+  });
+});
+
+describe('restorePAFRevision', () => {
+  it('restores through restore_paf_revision and surfaces its error', async () => {
+    const rpc = vi.mocked(supabase.rpc);
+    rpc.mockResolvedValueOnce({ error: null } as never);
+    await restorePAFRevision('rev-1');
+    expect(rpc).toHaveBeenCalledWith('restore_paf_revision', { p_revision_id: 'rev-1' });
+
+    const denied = new Error('permission denied');
+    rpc.mockResolvedValueOnce({ error: denied } as never);
+    await expect(restorePAFRevision('rev-1')).rejects.toBe(denied);
+  });
+});
@@ -0,0 +1,157 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+/**
+ * Revision history of paf_records.
+ *
+ * A database trigger appends the full row to paf_record_revisions on every
+ * insert and update (with the acting user), so history can't be skipped or
+ * edited from the client. This module reads it back as field-level diffs and
+ * restores prior revisions through restore_paf_revision.
+ */
+
+export type PAFRevision = Tables<'paf_record_revisions'>;
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Fields shown in diffs, in display order. Anything else (ids, timestamps,
+// hashes and paths of generated PDFs) is bookkeeping and not diffed.
+const FIELD_LABELS: Record<string, string> = {
+  worker_name: 'Worker name',
+  visa_type: 'Visa type',
+  lca_case_number: 'LCA case number',
+  lca_status: 'LCA status',
+  is_h1b_dependent: 'H-1B dependent',
+  is_willful_violator: 'Willful violator',
+  employer_legal_name: 'Employer legal name',
+  employer_trade_name: 'Employer trade name',
+  employer_address1: 'Employer address',
+  employer_address2: 'Employer address line 2',
+  employer_city: 'Employer city',
+  employer_state: 'Employer state',
+  employer_postal_code: 'Employer postal code',
+  employer_country: 'Employer country',
+  employer_telephone: 'Employer telephone',
+  employer_fein: 'FEIN',
+  employer_naics_code: 'NAICS code',
+  job_title: 'Job title',
+  soc_code: 'SOC code',
+  soc_title: 'SOC title',
+  onet_code: 'O*NET code',
+  onet_title: 'O*NET title',
+  is_full_time: 'Full-time',
+  hours_per_week: 'Hours per week',
+  is_rd: 'R&D position',
+  begin_date: 'Begin date',
+  end_date: 'End date',
+  wage_rate_from: 'Offered wage (from)',
+  wage_rate_to: 'Offered wage (to)',
+  wage_unit: 'Offered wage unit',
+  workers_needed: 'Workers needed',
+  worksite_address1: 'Worksite address',
+  worksite_address2: 'Worksite address line 2',
+  worksite_city: 'Worksite city',
+  worksite_state: 'Worksite state',
+  worksite_postal_code: 'Worksite postal code',
+  worksite_county: 'Worksite county',
+  worksite_area_code: 'Wage area code',
+  worksite_area_name: 'Wage area',
+  secondary_worksites: 'Secondary worksites',
+  prevailing_wage: 'Prevailing wage',
+  prevailing_wage_unit: 'Prevailing wage unit',
+  wage_level: 'Wage level',
+  wage_source: 'Wage source',
+  wage_source_date: 'Wage source date',
+  pwd_case_number: 'PWD case number',
+  pwd_issue_date: 'PWD determination date',
+  pwd_expiration_date: 'PWD expiration date',
+  cba_name: 'Collective bargaining agreement',
+  cba_effective_date: 'Agreement effective date',
+  cba_expiration_date: 'Agreement expiration date',
+  survey_name: 'Wage survey',
+  survey_publisher: 'Survey publisher',
+  survey_year: 'Survey year',
+  actual_wage: 'Actual wage',
+  actual_wage_unit: 'Actual wage unit',
+  notice_posting_start_date: 'Posting start date',
+  notice_posting_end_date: 'Posting end date',
+  notice_posting_location: 'Posting location 1',
+  notice_posting_location2: 'Posting location 2',
+  notice_posting_location3: 'Posting location 3',
+  notice_posting_location4: 'Posting location 4',
+  notice_posting_start_date2: 'Posting start date (location 2)',
+  notice_posting_start_date3: 'Posting start date (location 3)',
+  notice_posting_start_date4: 'Posting start date (location 4)',
+  lca_file_path: 'LCA file',
+  actual_wage_memo_path: 'Actual wage memo file',
+  notice_posting_proof_path: 'Posting proof file',
+  benefits_comparison_path: 'Benefits comparison file',
+  wage_source_document_path: 'Wage source document',
+  compliance_override_reason: 'Compliance override reason',
+  current_version: 'PDF version',
+};
+
+// JSON columns (secondary worksites) compare by content
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+function asRecord(data: Json | null): Record<string, unknown> {
+  return data && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : {};
+}
+
+/**
+ * Field-level changes between two revision snapshots. With no previous
+ * snapshot (the first revision) every field that has a value is listed.
+ */
+export function diffRevisionData(before: Json | null, after: Json): FieldChange[] {
+  const prev = asRecord(before);
+  const next = asRecord(after);
+
+  return Object.entries(FIELD_LABELS)
+    .filter(([field]) => !sameValue(prev[field] ?? null, next[field] ?? null))
+    .filter(([field]) => before !== null || (!sameValue(next[field] ?? null, null) && !sameValue(next[field], [])))
+    .map(([field, label]) => ({ field, label, from: prev[field] ?? null, to: next[field] ?? null }));
+}
+
+export function formatRevisionValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '(empty)';
+    // Secondary worksites: one 'city, state' per worksite
+    return value
+      .map((item) => (item && typeof item === 'object' ? [item.city, item.state].filter(Boolean).join(', ') : String(item)))
+      .join('; ');
+  }
+  return String(value);
+}
+
+export async function fetchPAFRevisions(pafRecordId: string): Promise<PAFRevision[]> {
+  const { data, error } = await supabase
+    .from('paf_record_revisions')
+    .select('*')
+    .eq('paf_record_id', pafRecordId)
+    .order('revision', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Restores the editable fields of a prior revision. Generated PDF versions
+ * are not touched; the restore itself becomes a new revision.
+ */
+export async function restorePAFRevision(revisionId: string): Promise<void> {
+  const { error } = await supabase.rpc('restore_paf_revision', { p_revision_id: revisionId });
+  if (error) throw error;
+}
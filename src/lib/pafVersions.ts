@@ -0,0 +1,111 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { sha256Hex, readPAFFingerprint } from '@/lib/pdf/fingerprint';
+import { getPAFBlob, savePAFBlob, archivalOptions } from '@/lib/pdfGenerator';
+import {
+  loadPAFRecordFiles,
+  pafRecordToGeneratorInput,
+  pafRecordToPAFData,
+  pafVersionPath,
+  type PAFRecordRow,
+} from '@/lib/pafRecord';
+
+/**
+ * Immutable PAF versions.
+ *
+ * Every generation stores the exact PDF under paf-versions/ and registers it
+ * with add_paf_version, which numbers it and makes it the record's current
+ * version. Downloads serve the stored file, so later changes to section text
+ * or signatories never alter a historical PAF. Regenerating is explicit and
+ * always adds a new version; a record without a stored PDF is downloaded as
+ * a fresh PDF that isn't stored. Signing a version stores the signed copy as
+ * the next version too (see signPAFVersion).
+ */
+
+export type PAFVersion = Tables<'paf_versions'>;
+
+export async function savePAFVersion(pafRecordId: string, pdf: Blob): Promise<PAFVersion> {
+  const pdfBytes = await pdf.arrayBuffer();
+  const pdfSha256 = await sha256Hex(pdfBytes);
+  const contentHash = await readPAFFingerprint(pdfBytes);
+
+  const path = pafVersionPath(pafRecordId);
+  const { error: uploadError } = await supabase.storage
+    .from('paf-documents')
+    .upload(path, pdf, { contentType: 'application/pdf' });
+  if (uploadError) throw uploadError;
+
+  const { data: version, error } = await supabase.rpc('add_paf_version', {
+    p_paf_record_id: pafRecordId,
+    p_pdf_path: path,
+    p_pdf_sha256: pdfSha256,
+    p_content_hash: contentHash,
+  });
+  if (error) throw error;
+  return version;
+}
+
+async function downloadAttachment(path: string): Promise<File | null> {
+  const { data, error } = await supabase.storage.from('paf-documents').download(path);
+  if (error || !data) {
+    console.warn(`Could not load attachment ${path}:`, error?.message);
+    return null;
+  }
+  return new File([data], path.split('/').pop() || 'attachment', { type: data.type });
+}
+
+/** Builds a PDF from the record's current data. */
+async function buildPAFPdf(record: PAFRecordRow): Promise<Blob> {
+  const files = await loadPAFRecordFiles(record, downloadAttachment);
+  const { data: employer, error: employerError } = await supabase
+    .from('employers')
+    .select('*')
+    .eq('id', record.employer_id)
+    .single();
+  if (employerError) throw employerError;
+
+  const { data, supportingDocs, options } = pafRecordToGeneratorInput(record, employer, files);
+  return getPAFBlob(data, supportingDocs, { ...archivalOptions, ...options });
+}
+
+/**
+ * Builds a new PDF from the record's current data and stores it as the next
+ * version. The new version is unsigned; PAFs are signed when approved.
+ */
+export async function regeneratePAF(record: PAFRecordRow): Promise<{ version: PAFVersion; pdf: Blob }> {
+  const pdf = await buildPAFPdf(record);
+  const version = await savePAFVersion(record.id, pdf);
+  return { version, pdf };
+}
+
+function versionFilename(record: PAFRecordRow, version: number | null): string {
+  const name = (record.lca_case_number || record.job_title).replace(/[^A-Za-z0-9-]/g, '_');
+  return `PAF_${name}${version ? `_v${version}` : ''}.pdf`;
+}
+
+/**
+ * Downloads the stored PDF of the record's current version. Records from
+ * before versioning have none yet; for those a PDF is generated from the
+ * record without storing it, so anyone who can read the PAF can download it
+ * and only preparers add versions.
+ */
+export async function downloadStoredPAF(pafRecordId: string): Promise<void> {
+  const { data: record, error } = await supabase
+    .from('paf_records')
+    .select('*')
+    .eq('id', pafRecordId)
+    .single();
+  if (error) throw error;
+
+  if (record.archived_pdf_path) {
+    const { data: pdf, error: downloadError } = await supabase.storage
+      .from('paf-documents')
+      .download(record.archived_pdf_path);
+    if (downloadError) throw downloadError;
+    savePAFBlob(pdf, pafRecordToPAFData(record), versionFilename(record, record.current_version));
+    return;
+  }
+
+  const pdf = await buildPAFPdf(record);
+  savePAFBlob(pdf, pafRecordToPAFData(record), versionFilename(record, null));
+}
@@ -0,0 +1,60 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import liberationSansRegularUrl from 'pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf?url';
+import liberationSansBoldUrl from 'pdfjs-dist/standard_fonts/LiberationSans-Bold.ttf?url';
+import liberationSansItalicUrl from 'pdfjs-dist/standard_fonts/LiberationSans-Italic.ttf?url';
+import liberationSansBoldItalicUrl from 'pdfjs-dist/standard_fonts/LiberationSans-BoldItalic.ttf?url';
+import { supabase } from '@/integrations/supabase/client';
+import type { PDFRuntime, RasterizedPage } from './runtime';
+
+// Configure PDF.js worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+
+const FONT_URLS: Record<string, string> = {
+  'LiberationSans-Regular.ttf': liberationSansRegularUrl,
+  'LiberationSans-Bold.ttf': liberationSansBoldUrl,
+  'LiberationSans-Italic.ttf': liberationSansItalicUrl,
+  'LiberationSans-BoldItalic.ttf': liberationSansBoldItalicUrl,
+};
+
+async function loadFont(fileName: string): Promise<ArrayBuffer> {
+  const url = FONT_URLS[fileName];
+  if (!url) throw new Error(`Unknown archival font ${fileName}`);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load archival font ${fileName}`);
+  return response.arrayBuffer();
+}
+
+/**
+ * Renders each PDF page to a canvas and returns JPEG image data
+ */
+export async function rasterizePdf(bytes: ArrayBuffer, scale: number = 2): Promise<RasterizedPage[]> {
+  const pdf = await pdfjsLib.getDocument({ data: bytes }).promise;
+  const pages: RasterizedPage[] = [];
+
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale });
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not create canvas context');
+
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+
+    await page.render({
+      canvasContext: context,
+      viewport,
+    }).promise;
+
+    pages.push({ imageData: canvas.toDataURL('image/jpeg', 0.9), width: canvas.width, height: canvas.height });
+  }
+
+  return pages;
+}
+
+export const browserPDFRuntime: PDFRuntime = {
+  supabase,
+  loadFont,
+  rasterizePdf,
+};
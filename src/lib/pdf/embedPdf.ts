@@ -1,62 +1,55 @@
-import * as pdfjsLib from 'pdfjs-dist';
 import type { PDFContext } from './pdfHelpers';
-import { PDF_CONFIG, checkPageBreak, addPageHeader } from './pdfHelpers';
-
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
-
-/**
- * Converts a File to an ArrayBuffer
- */
-async function fileToArrayBuffer(file: File): Promise<ArrayBuffer> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as ArrayBuffer);
-    reader.onerror = reject;
-    reader.readAsArrayBuffer(file);
-  });
-}
+import { PDF_CONFIG, checkPageBreak, addPageHeader, addChildBookmark, bytesToBase64 } from './pdfHelpers';
+import { loadVectorPdfSource, type VectorPdfSource } from './mergePdf';
+import { getPDFRuntime } from './runtime';
 
 /**
  * Converts a File to a data URL
  */
 async function fileToDataUrl(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return `data:${file.type};base64,${bytesToBase64(bytes)}`;
 }
 
 /**
- * Renders a PDF page to a canvas and returns image data
+ * Adds a placeholder page per source page and records where the original
+ * page should be drawn once the document is merged.
  */
-async function renderPdfPageToImage(
-  pdf: pdfjsLib.PDFDocumentProxy,
-  pageNum: number,
-  scale: number = 2
-): Promise<string> {
-  const page = await pdf.getPage(pageNum);
-  const viewport = page.getViewport({ scale });
-  
-  const canvas = document.createElement('canvas');
-  const context = canvas.getContext('2d');
-  if (!context) throw new Error('Could not create canvas context');
-  
-  canvas.width = viewport.width;
-  canvas.height = viewport.height;
-  
-  await page.render({
-    canvasContext: context,
-    viewport,
-  }).promise;
+function placeVectorPdfPages(
+  ctx: PDFContext,
+  source: VectorPdfSource,
+  sectionTitle: string
+): void {
+  const numPages = source.pageSizes.length;
   
-  return canvas.toDataURL('image/jpeg', 0.9);
+  source.pageSizes.forEach((size, index) => {
+    ctx.doc.addPage();
+    addPageHeader(ctx, `${sectionTitle} - Page ${index + 1} of ${numPages}`);
+    
+    // Same fit-to-page rules as the rasterized fallback
+    const maxWidth = ctx.pageWidth - ctx.margin * 2;
+    const maxHeight = ctx.doc.internal.pageSize.getHeight() - 40;
+    const aspectRatio = size.width / size.height;
+    let width = maxWidth;
+    let height = width / aspectRatio;
+    
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * aspectRatio;
+    }
+    
+    ctx.attachmentPlacements.push({
+      source: source.bytes,
+      sourcePageIndex: index,
+      targetPageNumber: ctx.doc.getNumberOfPages(),
+      box: { x: (ctx.pageWidth - width) / 2, y: ctx.yPos, width, height },
+    });
+  });
 }
 
 /**
- * Embeds all pages of a PDF file into the PAF document
+ * Embeds all pages of a PDF file into the PAF document.
+ * Pages are merged as vector PDF pages; rasterizing is only a fallback.
  */
 export async function embedPdfDocument(
   ctx: PDFContext,
@@ -64,29 +57,28 @@ export async function embedPdfDocument(
   sectionTitle: string
 ): Promise<void> {
   try {
-    const arrayBuffer = await fileToArrayBuffer(file);
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    const numPages = pdf.numPages;
+    const arrayBuffer = await file.arrayBuffer();
+    const vectorSource = await loadVectorPdfSource(arrayBuffer, ctx.archival);
+    if (vectorSource) {
+      placeVectorPdfPages(ctx, vectorSource, sectionTitle);
+      return;
+    }
+    
+    // Fallback for PDFs pdf-lib cannot read (encrypted, damaged): rasterize each page
+    const { rasterizePdf } = getPDFRuntime();
+    if (!rasterizePdf) throw new Error('PDF cannot be merged and this runtime cannot rasterize it');
+    const pages = await rasterizePdf(arrayBuffer);
+    const numPages = pages.length;
     
-    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+    pages.forEach((image, index) => {
       ctx.doc.addPage();
-      addPageHeader(ctx, `${sectionTitle} - Page ${pageNum} of ${numPages}`);
-      
-      const imageData = await renderPdfPageToImage(pdf, pageNum, 2);
+      addPageHeader(ctx, `${sectionTitle} - Page ${index + 1} of ${numPages}`);
       
       // Calculate dimensions to fit the page
       const pageWidth = ctx.pageWidth - ctx.margin * 2;
       const pageHeight = ctx.doc.internal.pageSize.getHeight() - 40;
       
-      // Get image dimensions
-      const img = new Image();
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve();
-        img.onerror = reject;
-        img.src = imageData;
-      });
-      
-      const aspectRatio = img.width / img.height;
+      const aspectRatio = image.width / image.height;
       let imgWidth = pageWidth;
       let imgHeight = imgWidth / aspectRatio;
       
@@ -96,8 +88,8 @@ export async function embedPdfDocument(
       }
       
       const xOffset = (ctx.pageWidth - imgWidth) / 2;
-      ctx.doc.addImage(imageData, 'JPEG', xOffset, ctx.yPos, imgWidth, imgHeight);
-    }
+      ctx.doc.addImage(image.imageData, 'JPEG', xOffset, ctx.yPos, imgWidth, imgHeight);
+    });
   } catch (error) {
     console.error('Error embedding PDF:', error);
     // Add error notice if PDF couldn't be embedded
@@ -128,12 +120,7 @@ export async function embedImageDocument(
     ctx.yPos += 5;
     
     // Get image dimensions
-    const img = new Image();
-    await new Promise<void>((resolve, reject) => {
-      img.onload = () => resolve();
-      img.onerror = reject;
-      img.src = dataUrl;
-    });
+    const img = ctx.doc.getImageProperties(dataUrl);
     
     const pageWidth = ctx.pageWidth - ctx.margin * 2;
     const pageHeight = ctx.doc.internal.pageSize.getHeight() - 50;
@@ -164,13 +151,15 @@ export async function embedImageDocument(
 }
 
 /**
- * Embeds a file (PDF or image) based on its type
+ * Embeds a file (PDF or image) based on its type and bookmarks its first page
+ * under the current section
  */
 export async function embedFile(
   ctx: PDFContext,
   file: File,
   sectionTitle: string
 ): Promise<void> {
+  const firstPage = ctx.doc.getNumberOfPages() + 1;
   if (file.type === 'application/pdf') {
     await embedPdfDocument(ctx, file, sectionTitle);
   } else if (file.type.startsWith('image/')) {
@@ -187,4 +176,8 @@ export async function embedFile(
     ctx.doc.setFont('helvetica', 'italic');
     ctx.doc.text('(Document type cannot be embedded - please attach separately)', ctx.margin, ctx.yPos);
   }
+
+  if (ctx.doc.getNumberOfPages() >= firstPage) {
+    addChildBookmark(ctx, sectionTitle, firstPage);
+  }
 }
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import type { PAFData } from '@/types/paf';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+import { computePAFFingerprint, formatDocumentId, readPAFFingerprint, sha256Hex, toFingerprintKeyword } from './fingerprint';
+
+const data = {
+  visaType: 'H-1B',
+  caseNumber: 'I-200-24325-123456',
+  job: { jobTitle: 'Software Engineer', wageRateFrom: 120000, wageUnit: 'Year' },
+} as unknown as PAFData;
+
+function supportingDocs(memo: File | null): SupportingDocs {
+  return {
+    lcaCaseNumber: 'I-200-24325-123456',
+    lcaFile: memo,
+    actualWageMemo: 'Set from the engineering salary band.',
+    noticePostingProof: null,
+    noticePostingStartDate: '2024-11-04',
+    noticePostingEndDate: '2024-11-18',
+    noticePostingLocation: 'Break room',
+    noticePostingLocation2: 'Lobby',
+    benefitsComparisonFile: null,
+    benefitsNotes: '',
+  };
+}
+
+async function pdfWithKeywords(keywords?: string[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.addPage();
+  if (keywords) pdf.setKeywords(keywords);
+  return pdf.save();
+}
+
+describe('sha256Hex', () => {
+  it('hashes strings and bytes alike', async () => {
+    const abc = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+    expect(await sha256Hex('abc')).toBe(abc);
+    expect(await sha256Hex(new TextEncoder().encode('abc'))).toBe(abc);
+  });
+});
+
+describe('computePAFFingerprint', () => {
+  it('does not depend on property order or undefined values', async () => {
+    const reordered = {
+      job: { wageUnit: 'Year', wageRateTo: undefined, wageRateFrom: 120000, jobTitle: 'Software Engineer' },
+      caseNumber: 'I-200-24325-123456',
+      visaType: 'H-1B',
+    } as unknown as PAFData;
+
+    expect(await computePAFFingerprint(reordered)).toBe(await computePAFFingerprint(data));
+  });
+
+  it('changes with any value', async () => {
+    const raised = { ...data, job: { ...data.job, wageRateFrom: 120001 } };
+
+    expect(await computePAFFingerprint(raised)).not.toBe(await computePAFFingerprint(data));
+  });
+
+  it('covers the contents of attached files, not their names', async () => {
+    const original = await computePAFFingerprint(data, supportingDocs(new File(['certified LCA'], 'lca.pdf')));
+
+    expect(await computePAFFingerprint(data, supportingDocs(new File(['certified LCA'], 'renamed.pdf')))).toBe(original);
+    expect(await computePAFFingerprint(data, supportingDocs(new File(['altered LCA'], 'lca.pdf')))).not.toBe(original);
+    expect(await computePAFFingerprint(data, supportingDocs(null))).not.toBe(original);
+  });
+});
+
+describe('formatDocumentId', () => {
+  it('prints the first 64 bits in groups of four', () => {
+    expect(formatDocumentId('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')).toBe('BA78-16BF-8F01-CFEA');
+  });
+});
+
+describe('readPAFFingerprint', () => {
+  it('reads back the fingerprint written to the PDF keywords', async () => {
+    const fingerprint = await computePAFFingerprint(data);
+    const bytes = await pdfWithKeywords(['PAF', toFingerprintKeyword(fingerprint)]);
+
+    expect(await readPAFFingerprint(bytes)).toBe(fingerprint);
+  });
+
+  it('is null for PDFs without a fingerprint', async () => {
+    expect(await readPAFFingerprint(await pdfWithKeywords())).toBeNull();
+    expect(await readPAFFingerprint(await pdfWithKeywords(['PAF-SHA256:not-a-hash']))).toBeNull();
+  });
+
+  it('is null for files that are not PDFs', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await readPAFFingerprint(new TextEncoder().encode('not a pdf'))).toBeNull();
+    warn.mockRestore();
+  });
+});
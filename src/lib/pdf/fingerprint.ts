@@ -0,0 +1,78 @@
+import { PDFDocument } from 'pdf-lib';
+import type { PAFData } from '@/types/paf';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+
+/**
+ * Tamper-evident PAF fingerprint.
+ *
+ * Every generated PDF carries a SHA-256 fingerprint of the canonical PAF data
+ * plus the bytes of every attached file. The full fingerprint is written to
+ * the PDF keywords (read back by the /verify page) and a short form is printed
+ * in every page footer as the document ID.
+ */
+
+const KEYWORD_PREFIX = 'PAF-SHA256:';
+
+export async function sha256Hex(data: ArrayBuffer | Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON with sorted object keys and undefined values dropped, so the same data
+ * always serializes to the same string regardless of property order.
+ */
+function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined && typeof v !== 'function')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+}
+
+/**
+ * Computes the fingerprint of a PAF. Attached files are replaced by the
+ * SHA-256 of their contents before the supporting docs are canonicalized.
+ */
+export async function computePAFFingerprint(data: PAFData, supportingDocs?: SupportingDocs): Promise<string> {
+  let docs: Record<string, unknown> | null = null;
+  if (supportingDocs) {
+    docs = {};
+    for (const [key, value] of Object.entries(supportingDocs)) {
+      docs[key] = value instanceof Blob ? { sha256: await sha256Hex(await value.arrayBuffer()) } : value;
+    }
+  }
+  return sha256Hex(canonicalize({ data, supportingDocs: docs }));
+}
+
+/**
+ * Short, human-readable document ID for the page footer (first 64 bits)
+ */
+export function formatDocumentId(fingerprint: string): string {
+  return fingerprint.slice(0, 16).toUpperCase().match(/.{4}/g)!.join('-');
+}
+
+export function toFingerprintKeyword(fingerprint: string): string {
+  return `${KEYWORD_PREFIX}${fingerprint}`;
+}
+
+/**
+ * Reads the fingerprint embedded in a generated PAF. Returns null for PDFs
+ * that were not produced by the generator or cannot be parsed.
+ */
+export async function readPAFFingerprint(bytes: ArrayBuffer | Uint8Array): Promise<string | null> {
+  try {
+    const pdf = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true });
+    const match = pdf.getKeywords()?.match(/PAF-SHA256:([0-9a-f]{64})/);
+    return match ? match[1] : null;
+  } catch (error) {
+    console.warn('Could not read PAF fingerprint:', error);
+    return null;
+  }
+}
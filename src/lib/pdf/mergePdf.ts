@@ -0,0 +1,125 @@
+import { PDFDocument, degrees } from 'pdf-lib';
+import { hasUnembeddedFonts } from './pdfa';
+
+/**
+ * Vector-preserving merge of uploaded PDFs.
+ *
+ * While the PAF is laid out with jsPDF, each page of an uploaded PDF gets a
+ * placeholder page (section header only) and a placement is recorded. After
+ * jsPDF has finished, the original pages are drawn onto those placeholders
+ * as embedded PDF pages, so text stays selectable and nothing is rasterized.
+ * Drawing onto the placeholders keeps page numbers and bookmarks valid.
+ */
+
+const MM_TO_PT = 72 / 25.4;
+
+export interface PDFAttachmentPlacement {
+  source: ArrayBuffer;
+  sourcePageIndex: number;
+  // 1-based page in the jsPDF document that receives the source page
+  targetPageNumber: number;
+  // Target box in jsPDF units (mm, measured from the top-left corner)
+  box: { x: number; y: number; width: number; height: number };
+}
+
+export interface VectorPdfSource {
+  bytes: ArrayBuffer;
+  // Displayed size of each page in points (rotation applied)
+  pageSizes: { width: number; height: number }[];
+}
+
+function normalizeRotation(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Loads an uploaded PDF for vector merging. Returns null for encrypted,
+ * corrupt or empty files so the caller can fall back to rasterizing.
+ * In archival mode, PDFs that reference unembedded fonts also return null,
+ * since merging them would break PDF/A conformance.
+ */
+export async function loadVectorPdfSource(bytes: ArrayBuffer, archival = false): Promise<VectorPdfSource | null> {
+  try {
+    const pdf = await PDFDocument.load(bytes);
+    const pages = pdf.getPages();
+    if (pages.length === 0) return null;
+    if (archival && hasUnembeddedFonts(pdf)) {
+      console.warn('PDF has unembedded fonts, rasterizing for archival output');
+      return null;
+    }
+    return {
+      bytes,
+      pageSizes: pages.map((page) => {
+        const { width, height } = page.getSize();
+        const rotation = normalizeRotation(page.getRotation().angle);
+        return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+      }),
+    };
+  } catch (error) {
+    console.warn('PDF cannot be merged as vector pages, rasterizing instead:', error);
+    return null;
+  }
+}
+
+/**
+ * Draws every recorded attachment page onto its placeholder page and
+ * returns the final PDF bytes.
+ */
+export async function mergeAttachmentPages(
+  baseBytes: ArrayBuffer,
+  placements: PDFAttachmentPlacement[]
+): Promise<Uint8Array> {
+  const target = await PDFDocument.load(baseBytes);
+  if (placements.length === 0) return target.save();
+
+  // Load each distinct source once
+  const sources = new Map<ArrayBuffer, PDFDocument>();
+  for (const placement of placements) {
+    if (!sources.has(placement.source)) {
+      sources.set(placement.source, await PDFDocument.load(placement.source));
+    }
+  }
+
+  for (const placement of placements) {
+    const sourceDoc = sources.get(placement.source)!;
+    const sourcePage = sourceDoc.getPage(placement.sourcePageIndex);
+    // Blank pages have no content stream and cannot be embedded; the
+    // placeholder page already shows them as blank
+    if (!sourcePage.node.Contents()) continue;
+    const embedded = await target.embedPage(sourcePage);
+    const page = target.getPage(placement.targetPageNumber - 1);
+
+    const { x, y, width, height } = placement.box;
+    const boxX = x * MM_TO_PT;
+    const boxWidth = width * MM_TO_PT;
+    const boxHeight = height * MM_TO_PT;
+    const boxY = page.getHeight() - y * MM_TO_PT - boxHeight;
+
+    // The embedded page ignores /Rotate, so apply it when drawing
+    const rotation = normalizeRotation(sourcePage.getRotation().angle);
+    const sideways = rotation === 90 || rotation === 270;
+    const drawWidth = sideways ? boxHeight : boxWidth;
+    const drawHeight = sideways ? boxWidth : boxHeight;
+
+    let drawX = boxX;
+    let drawY = boxY;
+    if (rotation === 90) {
+      drawY = boxY + boxHeight;
+    } else if (rotation === 180) {
+      drawX = boxX + boxWidth;
+      drawY = boxY + boxHeight;
+    } else if (rotation === 270) {
+      drawX = boxX + boxWidth;
+    }
+
+    page.drawPage(embedded, {
+      x: drawX,
+      y: drawY,
+      width: drawWidth,
+      height: drawHeight,
+      rotate: degrees(-rotation),
+    });
+  }
+
+  return target.save();
+}
@@ -1,6 +1,8 @@
 import jsPDF from 'jspdf';
 import { format } from 'date-fns';
 import { dedupeAddress2, formatAddressLine } from '../addressFormatting';
+import { formatWage } from '../wage';
+import type { PDFAttachmentPlacement } from './mergePdf';
 
 /**
  * Parse a date string as local date to avoid timezone shifts.
@@ -31,21 +33,82 @@ export const PDF_CONFIG = {
   },
 };
 
+export interface PDFBookmark {
+  title: string;
+  pageNumber: number;
+  children: PDFBookmark[];
+}
+
 export interface PDFContext {
   doc: jsPDF;
   yPos: number;
   pageWidth: number;
   margin: number;
+  // Outline entries collected while rendering; written to the PDF by applyBookmarks
+  bookmarks: PDFBookmark[];
+  // Uploaded PDF pages to draw onto placeholder pages after layout (see mergePdf.ts)
+  attachmentPlacements: PDFAttachmentPlacement[];
+  // PDF/A-2b output: attachments with unembedded fonts are rasterized (see pdfa.ts)
+  archival: boolean;
+  // Employer the PAF belongs to; signatures come from its signatories only
+  employerId?: string;
 }
 
-export function createPDFContext(): PDFContext {
+export function createPDFContext(archival = false, employerId?: string): PDFContext {
   const doc = new jsPDF();
   return {
     doc,
     yPos: 20,
     pageWidth: doc.internal.pageSize.getWidth(),
     margin: PDF_CONFIG.margin,
+    bookmarks: [],
+    attachmentPlacements: [],
+    archival,
+    employerId,
+  };
+}
+
+/**
+ * Records a top-level bookmark. Defaults to the page currently being drawn.
+ */
+export function addBookmark(ctx: PDFContext, title: string, pageNumber?: number): PDFBookmark {
+  const bookmark: PDFBookmark = {
+    title,
+    pageNumber: pageNumber ?? ctx.doc.getCurrentPageInfo().pageNumber,
+    children: [],
   };
+  ctx.bookmarks.push(bookmark);
+  return bookmark;
+}
+
+/**
+ * Records a bookmark nested under the most recent top-level bookmark
+ * (e.g. an embedded attachment inside its section).
+ */
+export function addChildBookmark(ctx: PDFContext, title: string, pageNumber?: number): void {
+  const page = pageNumber ?? ctx.doc.getCurrentPageInfo().pageNumber;
+  const parent = ctx.bookmarks[ctx.bookmarks.length - 1];
+  if (!parent) {
+    addBookmark(ctx, title, page);
+    return;
+  }
+  parent.children.push({ title, pageNumber: page, children: [] });
+}
+
+/**
+ * Writes the collected bookmarks into the PDF outline and opens the
+ * document with the bookmarks panel visible.
+ */
+export function applyBookmarks(ctx: PDFContext): void {
+  if (ctx.bookmarks.length === 0) return;
+  const addItems = (parent: unknown, items: PDFBookmark[]) => {
+    items.forEach((item) => {
+      const node = ctx.doc.outline.add(parent, item.title, { pageNumber: item.pageNumber });
+      addItems(node, item.children);
+    });
+  };
+  addItems(null, ctx.bookmarks);
+  ctx.doc.setDisplayMode('fullwidth', 'continuous', 'UseOutlines');
 }
 
 export function checkPageBreak(ctx: PDFContext, neededSpace: number): void {
@@ -162,14 +225,19 @@ export function addDateLine(ctx: PDFContext): void {
   ctx.yPos += 8;
 }
 
+/**
+ * Base64-encodes binary data (chunked to stay under argument limits)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 export function formatCurrency(amount: number, unit: string): string {
-  // Round to 2 decimal places to avoid floating-point precision issues (e.g. 84099.98 instead of 84100)
-  const rounded = Math.round(amount * 100) / 100;
-  const formatted = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(rounded);
-  return `${formatted} / ${unit}`;
+  return formatWage(amount, unit);
 }
 
 export function formatDate(dateStr: string): string {
@@ -199,7 +267,7 @@ export function formatShortDate(dateStr: string): string {
   }
 }
 
-export function addPageNumber(ctx: PDFContext, pageNum: number, totalPages: number): void {
+export function addPageNumber(ctx: PDFContext, pageNum: number, totalPages: number, documentId?: string): void {
   const pageHeight = ctx.doc.internal.pageSize.getHeight();
   ctx.doc.setFontSize(8);
   ctx.doc.setFont('helvetica', 'normal');
@@ -210,6 +278,10 @@ export function addPageNumber(ctx: PDFContext, pageNum: number, totalPages: numb
     pageHeight - 10,
     { align: 'center' }
   );
+  // Tamper-evidence ID (see fingerprint.ts), verifiable on the /verify page
+  if (documentId) {
+    ctx.doc.text(`Document ID: ${documentId}`, ctx.pageWidth - ctx.margin, pageHeight - 10, { align: 'right' });
+  }
   ctx.doc.setTextColor(...PDF_CONFIG.colors.black);
 }
 
@@ -0,0 +1,323 @@
+import type jsPDF from 'jspdf';
+import { PDFDocument, PDFDict, PDFName, PDFString, PDFHexString, PDFRef } from 'pdf-lib';
+import { toFingerprintKeyword } from './fingerprint';
+import { bytesToBase64 } from './pdfHelpers';
+import { getPDFRuntime } from './runtime';
+
+/**
+ * PDF/A-2b archival output.
+ *
+ * PAFs must be retained for at least a year after the last H-1B worker
+ * leaves and are archived for much longer. In archival mode the document:
+ * - embeds every font it uses (Liberation Sans, metric-compatible with Helvetica)
+ * - carries an sRGB output intent built in code (no external ICC file)
+ * - carries XMP metadata with the PDF/A identification and PAF details
+ * - drops the unembedded standard 14 font resources jsPDF always declares
+ */
+
+export interface ArchivalMetadata {
+  employerName: string;
+  jobTitle: string;
+  socCode: string;
+  lcaCaseNumber?: string;
+  // SHA-256 content fingerprint (see fingerprint.ts)
+  fingerprint?: string;
+  generatedAt: Date;
+}
+
+const ARCHIVAL_FONTS: { file: string; style: string }[] = [
+  { file: 'LiberationSans-Regular.ttf', style: 'normal' },
+  { file: 'LiberationSans-Bold.ttf', style: 'bold' },
+  { file: 'LiberationSans-Italic.ttf', style: 'italic' },
+  { file: 'LiberationSans-BoldItalic.ttf', style: 'bolditalic' },
+];
+
+const CREATOR_TOOL = 'H-1B PAF Forge';
+const PAF_NAMESPACE = 'http://ns.pafforge.app/paf/1.0/';
+
+/**
+ * Replaces jsPDF's built-in Helvetica and Times with embedded TrueType fonts,
+ * so section code can keep calling setFont('helvetica' | 'times', style).
+ * Times is only used (bold italic) for cursive signature names.
+ */
+export async function registerArchivalFonts(doc: jsPDF): Promise<void> {
+  const { loadFont } = getPDFRuntime();
+  for (const font of ARCHIVAL_FONTS) {
+    const base64 = bytesToBase64(new Uint8Array(await loadFont(font.file)));
+    doc.addFileToVFS(font.file, base64);
+    doc.addFont(font.file, 'helvetica', font.style);
+  }
+  doc.addFont('LiberationSans-BoldItalic.ttf', 'times', 'bolditalic');
+  doc.setFont('helvetica', 'normal');
+}
+
+/**
+ * Builds a minimal ICC v2 display profile for sRGB (D50-adapted primaries,
+ * 256-entry sRGB tone curve), used as the PDF/A output intent.
+ */
+export function buildSRGBProfile(): Uint8Array {
+  const s15Fixed16 = (value: number) => Math.round(value * 65536);
+  const description = 'sRGB IEC61966-2.1';
+  const copyright = 'No copyright, use freely';
+
+  const xyzTag = (x: number, y: number, z: number) => {
+    const view = new DataView(new ArrayBuffer(20));
+    view.setUint32(0, 0x58595a20); // 'XYZ '
+    view.setInt32(8, s15Fixed16(x));
+    view.setInt32(12, s15Fixed16(y));
+    view.setInt32(16, s15Fixed16(z));
+    return new Uint8Array(view.buffer);
+  };
+
+  const curveTag = () => {
+    const entries = 256;
+    const view = new DataView(new ArrayBuffer(12 + entries * 2));
+    view.setUint32(0, 0x63757276); // 'curv'
+    view.setUint32(8, entries);
+    for (let i = 0; i < entries; i++) {
+      const v = i / (entries - 1);
+      const linear = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+      view.setUint16(12 + i * 2, Math.round(linear * 65535));
+    }
+    return new Uint8Array(view.buffer);
+  };
+
+  const textTag = (text: string) => {
+    const bytes = new Uint8Array(8 + text.length + 1);
+    new DataView(bytes.buffer).setUint32(0, 0x74657874); // 'text'
+    for (let i = 0; i < text.length; i++) bytes[8 + i] = text.charCodeAt(i);
+    return bytes;
+  };
+
+  const descTag = (text: string) => {
+    // textDescriptionType: ASCII part, empty Unicode part, empty ScriptCode part
+    const bytes = new Uint8Array(12 + text.length + 1 + 8 + 3 + 67);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, 0x64657363); // 'desc'
+    view.setUint32(8, text.length + 1);
+    for (let i = 0; i < text.length; i++) bytes[12 + i] = text.charCodeAt(i);
+    return bytes;
+  };
+
+  const trc = curveTag();
+  const tags: [number, Uint8Array][] = [
+    [0x64657363, descTag(description)], // desc
+    [0x63707274, textTag(copyright)], // cprt
+    [0x77747074, xyzTag(0.9642, 1.0, 0.8249)], // wtpt
+    [0x7258595a, xyzTag(0.4361, 0.2225, 0.0139)], // rXYZ
+    [0x6758595a, xyzTag(0.3851, 0.7169, 0.0971)], // gXYZ
+    [0x6258595a, xyzTag(0.1431, 0.0606, 0.7141)], // bXYZ
+    [0x72545243, trc], // rTRC
+    [0x67545243, trc], // gTRC
+    [0x62545243, trc], // bTRC
+  ];
+
+  const align = (n: number) => (n + 3) & ~3;
+  const tableSize = 4 + tags.length * 12;
+  let offset = align(128 + tableSize);
+  const placed = new Map<Uint8Array, number>();
+  const entries = tags.map(([signature, data]) => {
+    if (!placed.has(data)) {
+      placed.set(data, offset);
+      offset = align(offset + data.length);
+    }
+    return { signature, data, offset: placed.get(data)! };
+  });
+
+  const profile = new Uint8Array(offset);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, offset); // profile size
+  view.setUint32(8, 0x02100000); // version 2.1
+  view.setUint32(12, 0x6d6e7472); // 'mntr'
+  view.setUint32(16, 0x52474220); // 'RGB '
+  view.setUint32(20, 0x58595a20); // 'XYZ '
+  view.setUint16(24, 2000);
+  view.setUint16(26, 1);
+  view.setUint16(28, 1);
+  view.setUint32(36, 0x61637370); // 'acsp'
+  view.setInt32(68, s15Fixed16(0.9642)); // D50 illuminant
+  view.setInt32(72, s15Fixed16(1.0));
+  view.setInt32(76, s15Fixed16(0.8249));
+  view.setUint32(128, tags.length);
+  entries.forEach((entry, i) => {
+    view.setUint32(132 + i * 12, entry.signature);
+    view.setUint32(136 + i * 12, entry.offset);
+    view.setUint32(140 + i * 12, entry.data.length);
+    profile.set(entry.data, entry.offset);
+  });
+  return profile;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toXmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function buildXmp(meta: ArchivalMetadata, title: string, subject: string, keywords: string, producer: string): string {
+  const date = toXmpDate(meta.generatedAt);
+  const pafProperty = (name: string, description: string) => `
+              <rdf:li rdf:parseType="Resource">
+                <pdfaProperty:name>${name}</pdfaProperty:name>
+                <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                <pdfaProperty:category>external</pdfaProperty:category>
+                <pdfaProperty:description>${description}</pdfaProperty:description>
+              </rdf:li>`;
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+        xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#"
+        xmlns:paf="${PAF_NAMESPACE}">
+      <pdfaid:part>2</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(meta.employerName)}</rdf:li></rdf:Seq></dc:creator>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(subject)}</rdf:li></rdf:Alt></dc:description>
+      <xmp:CreateDate>${date}</xmp:CreateDate>
+      <xmp:ModifyDate>${date}</xmp:ModifyDate>
+      <xmp:MetadataDate>${date}</xmp:MetadataDate>
+      <xmp:CreatorTool>${CREATOR_TOOL}</xmp:CreatorTool>
+      <pdf:Producer>${escapeXml(producer)}</pdf:Producer>
+      <pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>
+      <paf:EmployerName>${escapeXml(meta.employerName)}</paf:EmployerName>
+      <paf:LCACaseNumber>${escapeXml(meta.lcaCaseNumber || '')}</paf:LCACaseNumber>
+      <paf:SOCCode>${escapeXml(meta.socCode)}</paf:SOCCode>
+      <paf:GeneratedAt>${date}</paf:GeneratedAt>
+      <paf:Fingerprint>${meta.fingerprint || ''}</paf:Fingerprint>
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Public Access File</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>${PAF_NAMESPACE}</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>paf</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>${pafProperty('EmployerName', 'Employer legal business name')}${pafProperty('LCACaseNumber', 'ETA case number of the LCA')}${pafProperty('SOCCode', 'SOC code of the position')}${pafProperty('GeneratedAt', 'Date and time the PAF was generated')}${pafProperty('Fingerprint', 'SHA-256 fingerprint of the PAF data and attachments')}
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * Removes font resources that are declared but not embedded (the standard 14
+ * fonts jsPDF adds to every document). Only safe once all text uses the
+ * embedded archival fonts.
+ */
+function stripUnembeddedFontResources(pdf: PDFDocument): void {
+  const seen = new Set<PDFDict>();
+  for (const page of pdf.getPages()) {
+    const resources = page.node.Resources();
+    const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+    if (!fonts || seen.has(fonts)) continue;
+    seen.add(fonts);
+    for (const [key, value] of fonts.entries()) {
+      const font = fonts.lookupMaybe(key, PDFDict);
+      if (font && !font.has(PDFName.of('FontDescriptor')) && !font.has(PDFName.of('DescendantFonts'))) {
+        fonts.delete(key);
+        if (value instanceof PDFRef) pdf.context.delete(value);
+      }
+    }
+  }
+}
+
+/**
+ * Returns true when any font in the PDF lacks an embedded font program.
+ * Such attachments are rasterized in archival mode instead of merged.
+ */
+export function hasUnembeddedFonts(pdf: PDFDocument): boolean {
+  for (const [, object] of pdf.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFDict)) continue;
+    const type = object.lookupMaybe(PDFName.of('Type'), PDFName);
+    if (type === PDFName.of('FontDescriptor')) {
+      const embedded = ['FontFile', 'FontFile2', 'FontFile3'].some((key) => object.has(PDFName.of(key)));
+      if (!embedded) return true;
+    } else if (type === PDFName.of('Font')) {
+      const subtype = object.lookupMaybe(PDFName.of('Subtype'), PDFName);
+      const simple = subtype === PDFName.of('Type1') || subtype === PDFName.of('TrueType') || subtype === PDFName.of('MMType1');
+      if (simple && !object.has(PDFName.of('FontDescriptor'))) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Adds PDF/A-2b identification, XMP metadata, the sRGB output intent and a
+ * matching document information dictionary.
+ */
+export async function convertToPDFA(bytes: Uint8Array, meta: ArchivalMetadata): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(bytes, { updateMetadata: false });
+  const { context, catalog } = pdf;
+
+  stripUnembeddedFontResources(pdf);
+
+  const title = `Public Access File - ${meta.jobTitle}`;
+  const subject = meta.lcaCaseNumber
+    ? `H-1B Public Access File for LCA ${meta.lcaCaseNumber}`
+    : 'H-1B Public Access File';
+  const keywords = [
+    'Public Access File',
+    'LCA',
+    meta.lcaCaseNumber,
+    `SOC ${meta.socCode}`,
+    meta.fingerprint && toFingerprintKeyword(meta.fingerprint),
+  ]
+    .filter(Boolean)
+    .join(', ');
+  const producer = 'pdf-lib (https://github.com/Hopding/pdf-lib)';
+
+  // Document information dictionary must match the XMP values exactly
+  pdf.setTitle(title);
+  pdf.setAuthor(meta.employerName);
+  pdf.setSubject(subject);
+  pdf.setKeywords([keywords]);
+  pdf.setCreator(CREATOR_TOOL);
+  pdf.setProducer(producer);
+  pdf.setCreationDate(meta.generatedAt);
+  pdf.setModificationDate(meta.generatedAt);
+
+  const xmp = buildXmp(meta, title, subject, keywords, producer);
+  const metadataStream = context.stream(new TextEncoder().encode(xmp), {
+    Type: 'Metadata',
+    Subtype: 'XML',
+  });
+  catalog.set(PDFName.of('Metadata'), context.register(metadataStream));
+
+  const iccStream = context.flateStream(buildSRGBProfile(), { N: 3 });
+  const iccRef: PDFRef = context.register(iccStream);
+  const outputIntent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of('sRGB IEC61966-2.1'),
+    Info: PDFString.of('sRGB IEC61966-2.1'),
+    DestOutputProfile: iccRef,
+  });
+  catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(outputIntent)]));
+
+  // PDF/A requires a file identifier in the trailer
+  if (!context.trailerInfo.ID) {
+    const id = PDFHexString.of(Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, '0')).join(''));
+    context.trailerInfo.ID = context.obj([id, id]);
+  }
+
+  return pdf.save({ useObjectStreams: false });
+}
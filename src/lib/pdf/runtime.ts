@@ -0,0 +1,41 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+/**
+ * Runtime hooks for the PDF engine.
+ *
+ * The engine itself only uses APIs available in both the browser and Deno
+ * (fetch, Blob, TextEncoder, crypto.subtle). Everything runtime-specific is
+ * provided through this interface: the browser registers one in main.tsx
+ * (see browserRuntime.ts) and the generate-paf edge function registers its own.
+ */
+
+export interface RasterizedPage {
+  // JPEG data URL
+  imageData: string;
+  width: number;
+  height: number;
+}
+
+export interface PDFRuntime {
+  // Used by sections to look up authorized signatories
+  supabase: SupabaseClient<Database>;
+  // Loads one of the archival TrueType fonts (LiberationSans-*.ttf)
+  loadFont: (fileName: string) => Promise<ArrayBuffer>;
+  // Renders every page of a PDF to an image. Only needed for attachments that
+  // cannot be merged as vector pages; without it those get a notice page.
+  rasterizePdf?: (bytes: ArrayBuffer) => Promise<RasterizedPage[]>;
+}
+
+let currentRuntime: PDFRuntime | null = null;
+
+export function setPDFRuntime(runtime: PDFRuntime): void {
+  currentRuntime = runtime;
+}
+
+export function getPDFRuntime(): PDFRuntime {
+  if (!currentRuntime) {
+    throw new Error('PDF runtime not configured - call setPDFRuntime() before generating documents');
+  }
+  return currentRuntime;
+}
@@ -0,0 +1,175 @@
+import type { PAFData } from '@/types/paf';
+import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
+import type { PDFContext } from './pdfHelpers';
+import { addLCASection } from './sections/lcaSection';
+import { addActualWageStandardsSection } from './sections/actualWageStandardsSection';
+import { addWageMemoSection } from './sections/wageMemoSection';
+import { addPayrollStatementSection } from './sections/payrollStatementSection';
+import { addPrevailingWageSection } from './sections/prevailingWageSection';
+import { addPostingNoticeSection } from './sections/postingNoticeSection';
+import { addBenefitsSection } from './sections/benefitsSection';
+import { addWorkerReceiptSection } from './sections/workerReceiptSection';
+import { addH1BDependencySection } from './sections/h1bDependencySection';
+import { addRecruitmentSummarySection } from './sections/recruitmentSummarySection';
+
+/**
+ * PAF Section Registry
+ *
+ * Every part of the generated PAF is described by a section definition.
+ * The generator renders the resolved sections in order and the cover page
+ * TOC is built from the same list, so adding, removing or reordering a
+ * section only requires a registry or profile change.
+ */
+
+export interface PAFSectionDefinition {
+  id: string;
+  // Bookmark title for the section's first page
+  title: string;
+  // Text shown in the cover page TOC; sections without it are bookmarked only
+  tocLabel?: string | ((data: PAFData) => string);
+  // Section is skipped (and marked N/A in the TOC) when this returns false
+  isApplicable?: (data: PAFData, supportingDocs?: SupportingDocs) => boolean;
+  // Reference-only entries have no render function and never produce pages
+  render?: (ctx: PDFContext, data: PAFData, supportingDocs?: SupportingDocs) => void | Promise<void>;
+}
+
+/**
+ * Per-employer customization of the section list.
+ * - order: section ids to place first, in this order; the rest keep registry order
+ * - disabled: section ids to leave out entirely (including the TOC)
+ * - sections: extra sections (e.g. client letter, itinerary) or overrides by id
+ */
+export interface PAFSectionProfile {
+  order?: string[];
+  disabled?: string[];
+  sections?: PAFSectionDefinition[];
+}
+
+function isNonExemptDependent(data: PAFData, supportingDocs?: SupportingDocs): boolean {
+  return data.isH1BDependent && (supportingDocs?.exemptionType || 'wage') === 'none';
+}
+
+const DEFAULT_SECTIONS: PAFSectionDefinition[] = [
+  {
+    id: 'lca',
+    title: 'Labor Condition Application',
+    tocLabel: (data) => `Copy of the ${data.caseStatus === 'In Process' ? 'In Process' : 'Certified'} Labor Condition Application`,
+    render: addLCASection,
+  },
+  {
+    // Company-wide policy - same for all LCAs
+    id: 'actualWageStandards',
+    title: 'Actual Wage Standards',
+    tocLabel: 'Actual Wage Standards (Company-Wide Policy)',
+    render: addActualWageStandardsSection,
+  },
+  {
+    // Position-specific - unique per LCA
+    id: 'wageMemo',
+    title: 'Actual Wage Determination',
+    tocLabel: 'Actual Wage Determination (Position-Specific)',
+    render: addWageMemoSection,
+  },
+  {
+    // After Wage Determination, before Posting
+    id: 'payrollStatement',
+    title: 'Payroll Compliance Statement',
+    render: (ctx, data) => addPayrollStatementSection(ctx, data),
+  },
+  {
+    id: 'prevailingWage',
+    title: 'Prevailing Wage Rate and Source',
+    tocLabel: 'Prevailing Wage Rate and its Source',
+    render: (ctx, data) => addPrevailingWageSection(ctx, data),
+  },
+  {
+    id: 'postingNotice',
+    title: 'LCA Posting Notice',
+    tocLabel: 'Memorandum to Confirm Compliance with Posting Requirement',
+    render: addPostingNoticeSection,
+  },
+  {
+    id: 'benefits',
+    title: 'Benefits Summary',
+    tocLabel: 'Benefits Summary and Benefits Materials',
+    render: addBenefitsSection,
+  },
+  {
+    id: 'h1bDependency',
+    title: 'H-1B Dependency and Willful Violator Status',
+    tocLabel: 'If H-1B dependent company, list of "exempt" H-1B non-immigrants',
+    render: addH1BDependencySection,
+  },
+  {
+    id: 'recruitmentSummary',
+    title: 'Recruitment Summary',
+    tocLabel: 'If H-1B dependent company and LCA is filed for a non-exempt H-1B employee, summary of the recruitment methods used and the time frames of recruitment of U.S. workers',
+    isApplicable: isNonExemptDependent,
+    render: addRecruitmentSummarySection,
+  },
+  {
+    id: 'nameChangeStatement',
+    title: 'Name Change Sworn Statement',
+    tocLabel: 'Sworn statement if there is a name change & List of employees affected with the name change and new EIN number if any',
+  },
+  {
+    id: 'secondaryDisplacementInquiry',
+    title: 'Secondary Displacement Inquiry',
+    tocLabel: 'If dependent company and LCA is filed for a non-exempt H-1B employee, Secondary Displacement Inquiry',
+    isApplicable: isNonExemptDependent,
+  },
+  {
+    id: 'workerReceipt',
+    title: 'Worker Receipt Acknowledgment',
+    render: addWorkerReceiptSection,
+  },
+];
+
+const registry = new Map<string, PAFSectionDefinition>(
+  DEFAULT_SECTIONS.map((section) => [section.id, section])
+);
+
+/**
+ * Adds a section to the global registry, or replaces the one with the same id.
+ * New sections are appended after the built-in ones unless a profile orders them.
+ */
+export function registerPAFSection(section: PAFSectionDefinition): void {
+  registry.set(section.id, section);
+}
+
+/**
+ * Get a registered section by ID
+ */
+export function getPAFSection(id: string): PAFSectionDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Returns the sections to include in a PAF, in render order, after applying
+ * the profile's overrides, ordering and disabled list.
+ */
+export function resolvePAFSections(profile?: PAFSectionProfile): PAFSectionDefinition[] {
+  const sections = new Map(registry);
+  profile?.sections?.forEach((section) => sections.set(section.id, section));
+
+  const disabled = new Set(profile?.disabled ?? []);
+  const ordered: PAFSectionDefinition[] = [];
+  const seen = new Set<string>();
+
+  for (const id of profile?.order ?? []) {
+    const section = sections.get(id);
+    if (section && !seen.has(id)) {
+      ordered.push(section);
+      seen.add(id);
+    }
+  }
+  sections.forEach((section, id) => {
+    if (!seen.has(id)) ordered.push(section);
+  });
+
+  return ordered.filter((section) => !disabled.has(section.id));
+}
+
+export function getSectionTOCLabel(section: PAFSectionDefinition, data: PAFData): string | undefined {
+  return typeof section.tocLabel === 'function' ? section.tocLabel(data) : section.tocLabel;
+}
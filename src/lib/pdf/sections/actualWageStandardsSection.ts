@@ -9,66 +9,8 @@ import {
   addBoldParagraph,
   checkPageBreak,
 } from '../pdfHelpers';
-import { addCompactDigitalSignature, SignatoryWithImage } from '../signatureRenderer';
-import { supabase } from '@/integrations/supabase/client';
-
-async function getSignatoryFromDB(signatoryId?: string): Promise<SignatoryWithImage | null> {
-  try {
-    // First try to get by signatoryId if provided
-    if (signatoryId) {
-      const { data, error } = await supabase
-        .from('authorized_signatories')
-        .select('*')
-        .eq('id', signatoryId)
-        .single();
-      
-      if (!error && data) {
-        return {
-          id: data.id,
-          name: data.name,
-          title: data.title,
-          signatureImagePath: data.signature_image_path,
-        };
-      }
-    }
-    
-    // Fall back to default signatory
-    const { data: defaultData, error: defaultError } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .eq('is_default', true)
-      .single();
-    
-    if (!defaultError && defaultData) {
-      return {
-        id: defaultData.id,
-        name: defaultData.name,
-        title: defaultData.title,
-        signatureImagePath: defaultData.signature_image_path,
-      };
-    }
-    
-    // If no default, get the first signatory
-    const { data: firstData } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .limit(1)
-      .single();
-    
-    if (firstData) {
-      return {
-        id: firstData.id,
-        name: firstData.name,
-        title: firstData.title,
-        signatureImagePath: firstData.signature_image_path,
-      };
-    }
-    
-    return null;
-  } catch {
-    return null;
-  }
-}
+import { addCompactDigitalSignature } from '../signatureRenderer';
+import { getPAFSignatory } from '../signatories';
 
 /**
  * Adds the company-wide Actual Wage Standards policy section.
@@ -246,7 +188,7 @@ export async function addActualWageStandardsSection(
   ctx.yPos += 10;
   
   // Get the signatory from database with image path
-  const signatory = await getSignatoryFromDB(data.employer.signatoryId);
+  const signatory = await getPAFSignatory(ctx.employerId, data.employer.signatoryId);
   
   if (signatory) {
     await addCompactDigitalSignature(ctx, signatory, data.employer.legalBusinessName, false);
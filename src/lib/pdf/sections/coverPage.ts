@@ -8,12 +8,34 @@ import {
   checkPageBreak,
   formatFullAddress,
 } from '../pdfHelpers';
+import { secondaryWorksiteLabel, secondaryWorksites } from '@/lib/worksites';
+
+/**
+ * Position of a TOC line on the cover, so its page number can be filled in
+ * once the referenced section has been rendered.
+ */
+export interface TOCEntry {
+  sectionId: string;
+  pageNumber: number;
+  yPos: number;
+}
+
+const TOC_PAGE_COLUMN_WIDTH = 15;
+
+// Beyond this many, the cover refers to Appendix A instead of listing them
+const MAX_COVER_SECONDARY_WORKSITES = 3;
+
+export interface TOCItem {
+  sectionId: string;
+  text: string;
+}
 
 export function addCoverPage(
   ctx: PDFContext, 
   data: PAFData, 
-  supportingDocs?: SupportingDocs
-): void {
+  supportingDocs: SupportingDocs | undefined,
+  tocItems: TOCItem[]
+): TOCEntry[] {
   const { doc, pageWidth, margin } = ctx;
   
   // Company name header
@@ -40,13 +62,19 @@ export function addCoverPage(
   const worksiteAddress = `Primary Worksite: ${formatFullAddress(data.worksite.address1, data.worksite.address2, data.worksite.city, data.worksite.state, data.worksite.postalCode)}`;
   doc.text(worksiteAddress, pageWidth / 2, ctx.yPos, { align: 'center' });
   
-  // Secondary worksite if present
-  if (data.worksite.hasSecondaryWorksite && data.worksite.secondaryWorksite) {
+  // Secondary worksites if present; a long Appendix A is summarized
+  const secondaries = secondaryWorksites(data.worksite);
+  if (secondaries.length > MAX_COVER_SECONDARY_WORKSITES) {
     ctx.yPos += 8;
     doc.setFontSize(10);
-    const sw = data.worksite.secondaryWorksite;
-    const secondaryAddress = `Secondary Worksite: ${formatFullAddress(sw.address1, sw.address2, sw.city, sw.state, sw.postalCode)}`;
-    doc.text(secondaryAddress, pageWidth / 2, ctx.yPos, { align: 'center' });
+    doc.text(`Secondary Worksites: ${secondaries.length} additional worksites (see LCA Appendix A)`, pageWidth / 2, ctx.yPos, { align: 'center' });
+  } else {
+    secondaries.forEach((sw, index) => {
+      ctx.yPos += 8;
+      doc.setFontSize(10);
+      const secondaryAddress = `${secondaryWorksiteLabel(index, secondaries.length)}: ${formatFullAddress(sw.address1, sw.address2, sw.city, sw.state, sw.postalCode)}`;
+      doc.text(secondaryAddress, pageWidth / 2, ctx.yPos, { align: 'center' });
+    });
   }
   
   ctx.yPos += 10;
@@ -66,36 +94,30 @@ export function addCoverPage(
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(...PDF_CONFIG.colors.white);
   doc.text('TABLE OF CONTENTS', margin + 5, ctx.yPos + 2);
+  doc.text('PAGE', pageWidth - margin - 3, ctx.yPos + 2, { align: 'right' });
   doc.setTextColor(...PDF_CONFIG.colors.black);
   
   ctx.yPos += 15;
   
-  const lcaLabel = data.caseStatus === 'In Process' ? 'In Process' : 'Certified';
-  const tocItems = [
-    { num: '1.', text: `Copy of the ${lcaLabel} Labor Condition Application` },
-    { num: '2.', text: 'Actual Wage Standards (Company-Wide Policy)' },
-    { num: '3.', text: 'Actual Wage Determination (Position-Specific)' },
-    { num: '4.', text: 'Prevailing Wage Rate and its Source' },
-    { num: '5.', text: 'Memorandum to Confirm Compliance with Posting Requirement' },
-    { num: '6.', text: 'Benefits Summary and Benefits Materials' },
-    { num: '7.', text: 'If H-1B dependent company, list of "exempt" H-1B non-immigrants' },
-    { num: '8.', text: 'If H-1B dependent company and LCA is filed for a non-exempt H-1B employee, summary of the recruitment methods used and the time frames of recruitment of U.S. workers' },
-    { num: '9.', text: 'Sworn statement if there is a name change & List of employees affected with the name change and new EIN number if any' },
-    { num: '10.', text: 'If dependent company and LCA is filed for a non-exempt H-1B employee, Secondary Displacement Inquiry' },
-  ];
-  
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
   
-  tocItems.forEach((item) => {
+  const tocEntries: TOCEntry[] = [];
+  tocItems.forEach((item, index) => {
     checkPageBreak(ctx, 12);
     doc.setFont('helvetica', 'bold');
-    doc.text(item.num, margin, ctx.yPos);
+    doc.text(`${index + 1}.`, margin, ctx.yPos);
     doc.setFont('helvetica', 'normal');
     
-    const maxWidth = pageWidth - margin * 2 - 15;
+    // Leave a right-hand column free for the page number
+    const maxWidth = pageWidth - margin * 2 - 15 - TOC_PAGE_COLUMN_WIDTH;
     const lines = doc.splitTextToSize(item.text, maxWidth);
     doc.text(lines, margin + 12, ctx.yPos);
+    tocEntries.push({
+      sectionId: item.sectionId,
+      pageNumber: doc.getCurrentPageInfo().pageNumber,
+      yPos: ctx.yPos,
+    });
     ctx.yPos += lines.length * 5 + 3;
   });
   
@@ -105,4 +127,31 @@ export function addCoverPage(
     doc.setFont('helvetica', 'bold');
     doc.text(`LCA Case Number: ${supportingDocs.lcaCaseNumber}`, margin, ctx.yPos);
   }
+
+  
+  return tocEntries;
+}
+
+/**
+ * Writes the starting page of each rendered section next to its TOC line.
+ * Items whose section was not rendered are marked N/A.
+ */
+export function addTableOfContentsPageNumbers(
+  ctx: PDFContext,
+  entries: TOCEntry[],
+  sectionPages: Record<string, number>
+): void {
+  const { doc, pageWidth, margin } = ctx;
+  const currentPage = doc.getCurrentPageInfo().pageNumber;
+  
+  doc.setFontSize(10);
+  entries.forEach((entry) => {
+    const startPage = sectionPages[entry.sectionId];
+    doc.setPage(entry.pageNumber);
+    doc.setFont('helvetica', startPage ? 'bold' : 'italic');
+    doc.setTextColor(...(startPage ? PDF_CONFIG.colors.black : PDF_CONFIG.colors.gray));
+    doc.text(startPage ? String(startPage) : 'N/A', pageWidth - margin, entry.yPos, { align: 'right' });
+  });
+  doc.setTextColor(...PDF_CONFIG.colors.black);
+  doc.setPage(currentPage);
 }
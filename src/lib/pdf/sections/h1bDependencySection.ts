@@ -13,81 +13,13 @@ import {
   addDateLine,
   checkPageBreak,
 } from '../pdfHelpers';
-import { addDigitalSignature, SignatoryWithImage } from '../signatureRenderer';
-import { supabase } from '@/integrations/supabase/client';
-
-function annualizeWage(wage: number, unit: string): number {
-  switch (unit) {
-    case 'Hour': return wage * 2080;
-    case 'Week': return wage * 52;
-    case 'Bi-Weekly': return wage * 26;
-    case 'Month': return wage * 12;
-    case 'Year': return wage;
-    default: return wage;
-  }
-}
+import { addDigitalSignature } from '../signatureRenderer';
+import { getPAFSignatory } from '../signatories';
+import { annualize, jobHoursPerWeek } from '@/lib/wage';
 
 function formatWageCurrency(amount: number): string {
   return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
 }
-async function getSignatoryFromDB(signatoryId?: string): Promise<SignatoryWithImage | null> {
-  try {
-    // First try to get by signatoryId if provided
-    if (signatoryId) {
-      const { data, error } = await supabase
-        .from('authorized_signatories')
-        .select('*')
-        .eq('id', signatoryId)
-        .single();
-      
-      if (!error && data) {
-        return {
-          id: data.id,
-          name: data.name,
-          title: data.title,
-          signatureImagePath: data.signature_image_path,
-        };
-      }
-    }
-    
-    // Fall back to default signatory
-    const { data: defaultData, error: defaultError } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .eq('is_default', true)
-      .single();
-    
-    if (!defaultError && defaultData) {
-      return {
-        id: defaultData.id,
-        name: defaultData.name,
-        title: defaultData.title,
-        signatureImagePath: defaultData.signature_image_path,
-      };
-    }
-    
-    // If no default, get the first signatory
-    const { data: firstData } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .limit(1)
-      .single();
-    
-    if (firstData) {
-      return {
-        id: firstData.id,
-        name: firstData.name,
-        title: firstData.title,
-        signatureImagePath: firstData.signature_image_path,
-      };
-    }
-    
-    return null;
-  } catch {
-    return null;
-  }
-}
-
 export async function addH1BDependencySection(
   ctx: PDFContext, 
   data: PAFData,
@@ -182,7 +114,8 @@ export async function addH1BDependencySection(
   if (data.isH1BDependent) {
     // Determine exemption type from supportingDocs
     const exemptionType = supportingDocs?.exemptionType || 'wage';
-    const annualizedWage = annualizeWage(data.job.wageRateFrom, data.job.wageUnit);
+    // The exemption looks at wages actually paid, so part-time hours are not grossed up
+    const annualizedWage = annualize(data.job.wageRateFrom, data.job.wageUnit, jobHoursPerWeek(data.job));
     const isWageExempt = exemptionType === 'wage' && annualizedWage >= 60000;
     const isDegreeExempt = exemptionType === 'degree';
     const isExempt = isWageExempt || isDegreeExempt;
@@ -283,7 +216,7 @@ export async function addH1BDependencySection(
   addParagraph(ctx, certStatement);
   
   // Digital Signature - fetch from database
-  const signatory = await getSignatoryFromDB(data.employer.signatoryId);
+  const signatory = await getPAFSignatory(ctx.employerId, data.employer.signatoryId);
   
   if (signatory) {
     await addDigitalSignature(ctx, signatory, data.employer.legalBusinessName, false);
@@ -15,6 +15,7 @@ import {
   dedupeAddress2,
 } from '../pdfHelpers';
 import { embedFile } from '../embedPdf';
+import { secondaryWorksiteLabel, secondaryWorksites } from '@/lib/worksites';
 
 export async function addLCASection(
   ctx: PDFContext, 
@@ -104,13 +105,12 @@ export async function addLCASection(
   addLabelValue(ctx, 'Wage Source', data.wage.wageSource);
   addLabelValue(ctx, 'Source Year/Date', formatDate(data.wage.wageSourceDate));
   
-  // Secondary Worksite (if present)
-  if (data.worksite.hasSecondaryWorksite && data.worksite.secondaryWorksite) {
-    const secondary = data.worksite.secondaryWorksite;
-    
+  // Secondary worksites (Appendix A), each with its own wage if in a different area
+  const secondaries = secondaryWorksites(data.worksite);
+  secondaries.forEach((secondary, index) => {
     ctx.yPos += 10;
     checkPageBreak(ctx, 60);
-    addSubsectionHeader(ctx, 'Place of Employment Information - Secondary Worksite');
+    addSubsectionHeader(ctx, `Place of Employment Information - ${secondaryWorksiteLabel(index, secondaries.length)}`);
     
     if (secondary.worksiteName) {
       addLabelValue(ctx, 'Worksite Name', secondary.worksiteName);
@@ -123,25 +123,15 @@ export async function addLCASection(
     addLabelValue(ctx, 'State', secondary.state);
     addLabelValue(ctx, 'Postal Code', secondary.postalCode);
     
-    // Secondary worksite wage info (if different county with separate wage)
-    if (data.wage.hasSecondaryWage && data.wage.secondaryWage) {
-      const secondaryWage = data.wage.secondaryWage;
-      ctx.yPos += 5;
-      addLabelValue(ctx, 'Wage Rate Paid', wageDisplay); // Same actual wage for both
-      addLabelValue(ctx, 'Prevailing Wage', formatCurrency(secondaryWage.prevailingWage, secondaryWage.prevailingWageUnit));
-      addLabelValue(ctx, 'Wage Level', secondaryWage.wageLevel);
-      addLabelValue(ctx, 'Wage Source', secondaryWage.wageSource);
-      addLabelValue(ctx, 'Source Year/Date', formatDate(secondaryWage.wageSourceDate));
-    } else {
-      // Same wage info as primary
-      ctx.yPos += 5;
-      addLabelValue(ctx, 'Wage Rate Paid', wageDisplay);
-      addLabelValue(ctx, 'Prevailing Wage', formatCurrency(data.wage.prevailingWage, data.wage.prevailingWageUnit));
-      addLabelValue(ctx, 'Wage Level', data.wage.wageLevel);
-      addLabelValue(ctx, 'Wage Source', data.wage.wageSource);
-      addLabelValue(ctx, 'Source Year/Date', formatDate(data.wage.wageSourceDate));
-    }
-  }
+    // Same actual wage everywhere; the primary prevailing wage applies without a wage of its own
+    const wage = secondary.wage ?? data.wage;
+    ctx.yPos += 5;
+    addLabelValue(ctx, 'Wage Rate Paid', wageDisplay);
+    addLabelValue(ctx, 'Prevailing Wage', formatCurrency(wage.prevailingWage, wage.prevailingWageUnit));
+    addLabelValue(ctx, 'Wage Level', wage.wageLevel);
+    addLabelValue(ctx, 'Wage Source', wage.wageSource);
+    addLabelValue(ctx, 'Source Year/Date', formatDate(wage.wageSourceDate));
+  });
   
   // Section H: H-1B Dependency
   checkPageBreak(ctx, 40);
@@ -6,42 +6,8 @@ import {
   addParagraph,
   formatCurrency,
 } from '../pdfHelpers';
-import { addCompactDigitalSignature, SignatoryWithImage } from '../signatureRenderer';
-import { supabase } from '@/integrations/supabase/client';
-
-async function getSignatoryFromDB(signatoryId?: string): Promise<SignatoryWithImage | null> {
-  try {
-    if (signatoryId) {
-      const { data, error } = await supabase
-        .from('authorized_signatories')
-        .select('*')
-        .eq('id', signatoryId)
-        .single();
-      if (!error && data) {
-        return { id: data.id, name: data.name, title: data.title, signatureImagePath: data.signature_image_path };
-      }
-    }
-    const { data: defaultData, error: defaultError } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .eq('is_default', true)
-      .single();
-    if (!defaultError && defaultData) {
-      return { id: defaultData.id, name: defaultData.name, title: defaultData.title, signatureImagePath: defaultData.signature_image_path };
-    }
-    const { data: firstData } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .limit(1)
-      .single();
-    if (firstData) {
-      return { id: firstData.id, name: firstData.name, title: firstData.title, signatureImagePath: firstData.signature_image_path };
-    }
-    return null;
-  } catch {
-    return null;
-  }
-}
+import { addCompactDigitalSignature } from '../signatureRenderer';
+import { getPAFSignatory } from '../signatories';
 
 export async function addPayrollStatementSection(ctx: PDFContext, data: PAFData): Promise<void> {
   const { doc, margin } = ctx;
@@ -68,7 +34,7 @@ export async function addPayrollStatementSection(ctx: PDFContext, data: PAFData)
 
   // Employer signature
   ctx.yPos += 15;
-  const signatory = await getSignatoryFromDB(data.employer.signatoryId);
+  const signatory = await getPAFSignatory(ctx.employerId, data.employer.signatoryId);
   if (signatory) {
     await addCompactDigitalSignature(ctx, signatory, data.employer.legalBusinessName, false);
   } else {
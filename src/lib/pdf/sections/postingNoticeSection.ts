@@ -1,6 +1,6 @@
 import type { PAFData } from '@/types/paf';
 import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
-import { format, addDays } from 'date-fns';
+import { format } from 'date-fns';
 import { 
   PDFContext, 
   PDF_CONFIG,
@@ -16,66 +16,10 @@ import {
   parseLocalDate,
   formatFullAddress,
 } from '../pdfHelpers';
-import { addCompactDigitalSignature, SignatoryWithImage } from '../signatureRenderer';
-import { supabase } from '@/integrations/supabase/client';
-
-async function getSignatoryFromDB(signatoryId?: string): Promise<SignatoryWithImage | null> {
-  try {
-    // First try to get by signatoryId if provided
-    if (signatoryId) {
-      const { data, error } = await supabase
-        .from('authorized_signatories')
-        .select('*')
-        .eq('id', signatoryId)
-        .single();
-      
-      if (!error && data) {
-        return {
-          id: data.id,
-          name: data.name,
-          title: data.title,
-          signatureImagePath: data.signature_image_path,
-        };
-      }
-    }
-    
-    // Fall back to default signatory
-    const { data: defaultData, error: defaultError } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .eq('is_default', true)
-      .single();
-    
-    if (!defaultError && defaultData) {
-      return {
-        id: defaultData.id,
-        name: defaultData.name,
-        title: defaultData.title,
-        signatureImagePath: defaultData.signature_image_path,
-      };
-    }
-    
-    // If no default, get the first signatory
-    const { data: firstData } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .limit(1)
-      .single();
-    
-    if (firstData) {
-      return {
-        id: firstData.id,
-        name: firstData.name,
-        title: firstData.title,
-        signatureImagePath: firstData.signature_image_path,
-      };
-    }
-    
-    return null;
-  } catch {
-    return null;
-  }
-}
+import { addCompactDigitalSignature } from '../signatureRenderer';
+import { getPAFSignatory } from '../signatories';
+import { countBusinessDays, postingPeriodsByLocation, proposePostingEndDate } from '@/lib/businessDays';
+import { secondaryWorksiteLabel, secondaryWorksites } from '@/lib/worksites';
 
 export async function addPostingNoticeSection(
   ctx: PDFContext, 
@@ -101,15 +45,15 @@ export async function addPostingNoticeSection(
     ctx.yPos += 10;
   }
   
-  // Posting dates - use manual dates if provided, otherwise fall back to defaults
-  const postingStartDate = supportingDocs?.noticePostingStartDate 
-    ? parseLocalDate(supportingDocs.noticePostingStartDate)
-    : new Date();
-  const postingEndDate = supportingDocs?.noticePostingEndDate
-    ? parseLocalDate(supportingDocs.noticePostingEndDate)
-    : addDays(postingStartDate, 14); // Default: 10 business days ≈ 14 calendar days
+  // Posting dates - use manual dates if provided, otherwise start today and
+  // end on the 10th federal business day
+  const startDateString = supportingDocs?.noticePostingStartDate || format(new Date(), 'yyyy-MM-dd');
+  const endDateString = supportingDocs?.noticePostingEndDate || proposePostingEndDate(startDateString) || startDateString;
+  const postingStartDate = parseLocalDate(startDateString);
+  const postingEndDate = parseLocalDate(endDateString);
+  const postedDays = countBusinessDays(startDateString, endDateString);
   
-  const certText = `This is to certify that Labor Condition Application for the position of ${data.job.jobTitle} was posted for 10 business days from ${format(postingStartDate, 'MM/dd/yyyy')} to ${format(postingEndDate, 'MM/dd/yyyy')} in the below mentioned place of employment.`;
+  const certText = `This is to certify that Labor Condition Application for the position of ${data.job.jobTitle} was posted for ${postedDays} business days from ${format(postingStartDate, 'MM/dd/yyyy')} to ${format(postingEndDate, 'MM/dd/yyyy')} in the below mentioned place of employment.`;
   addParagraph(ctx, certText);
   
   ctx.yPos += 5;
@@ -119,18 +63,39 @@ export async function addPostingNoticeSection(
   const worksiteNameText = data.worksite.worksiteName ? `${data.worksite.worksiteName}: ` : '';
   const clientLocation = `${worksiteNameText}${formatFullAddress(data.worksite.address1, data.worksite.address2, data.worksite.city, data.worksite.state, data.worksite.postalCode)}`;
   addLabelValue(ctx, 'Primary Worksite', clientLocation, 50);
+  const secondaries = secondaryWorksites(data.worksite);
+  secondaries.forEach((site, index) => {
+    const siteName = site.worksiteName ? `${site.worksiteName}: ` : '';
+    addLabelValue(ctx, secondaryWorksiteLabel(index, secondaries.length), `${siteName}${formatFullAddress(site.address1, site.address2, site.city, site.state, site.postalCode)}`, 50);
+  });
   
   ctx.yPos += 5;
   
   // Display Areas - Per DOL guidance (Section 5 of LCA), the LCA is publicly
-  // disclosed at the employer's principal place of business. Therefore, posting
-  // is only required at TWO conspicuous locations at the HQ, regardless of
-  // whether the worker is placed at secondary/client worksites.
+  // disclosed at the employer's principal place of business, where it is
+  // posted at TWO conspicuous locations. Display areas recorded for Appendix A
+  // worksites are listed after them.
   addSubsectionHeader(ctx, 'Display Areas (Two Conspicuous Locations at Principal Place of Business)');
   const location1 = supportingDocs?.noticePostingLocation || `${data.employer.legalBusinessName} - Location 1`;
   const location2 = supportingDocs?.noticePostingLocation2 || `${data.employer.legalBusinessName} - Location 2`;
-  addLabelValue(ctx, 'Display Area 1', location1, 45);
-  addLabelValue(ctx, 'Display Area 2', location2, 45);
+  // Display areas posted on a later date get their own period
+  const periods = postingPeriodsByLocation(supportingDocs);
+  const periodText = (location: string) => {
+    const period = periods.find((p) => p.location === location);
+    if (!period || period.startDate === startDateString) return '';
+    return ` (posted ${format(parseLocalDate(period.startDate), 'MM/dd/yyyy')} to ${format(postingEndDate, 'MM/dd/yyyy')}, ${period.businessDays} business days)`;
+  };
+  addLabelValue(ctx, 'Display Area 1', location1 + periodText(location1), 45);
+  addLabelValue(ctx, 'Display Area 2', location2 + periodText(location2), 45);
+  
+  secondaries.forEach((site, index) => {
+    const locations = (site.postingLocations ?? []).filter((l) => l.trim());
+    if (locations.length === 0) return;
+    ctx.yPos += 5;
+    checkPageBreak(ctx, 20 + locations.length * 6);
+    addSubsectionHeader(ctx, `Display Areas - ${secondaryWorksiteLabel(index, secondaries.length)}`);
+    locations.forEach((location, i) => addLabelValue(ctx, `Display Area ${i + 1}`, location, 45));
+  });
   
   ctx.yPos += 10;
   
@@ -146,7 +111,7 @@ export async function addPostingNoticeSection(
   ctx.yPos += 10;
   
   // Get the signatory from database with image path
-  const signatory = await getSignatoryFromDB(data.employer.signatoryId);
+  const signatory = await getPAFSignatory(ctx.employerId, data.employer.signatoryId);
   
   if (signatory) {
     await addCompactDigitalSignature(ctx, signatory, data.employer.legalBusinessName, false);
@@ -1,4 +1,4 @@
-import type { PAFData } from '@/types/paf';
+import type { PAFData, WageSourceDetails, WageUnit } from '@/types/paf';
 import { 
   PDFContext, 
   PDF_CONFIG,
@@ -6,10 +6,17 @@ import {
   addCenteredTitle,
   addSectionHeader,
   addParagraph,
+  addLabelValue,
   checkPageBreak,
+  formatCurrency,
   formatDate,
   formatFullAddress,
 } from '../pdfHelpers';
+import { embedFile } from '../embedPdf';
+import { annualize, toHourlyRate } from '@/lib/wage';
+import { isACWIAWageSource } from '@/lib/wageTables';
+import { wageSourceLabel, wageSourceType } from '@/lib/wageSources';
+import { secondaryWorksiteWages } from '@/lib/worksites';
 
 interface WageReportData {
   locationLabel: string;
@@ -22,10 +29,11 @@ interface WageReportData {
   onetCode?: string;
   onetTitle?: string;
   prevailingWage: number;
-  prevailingWageUnit: string;
+  prevailingWageUnit: WageUnit;
   wageLevel: string;
   wageSource: string;
   wageSourceDate: string;
+  wageSourceDetails?: WageSourceDetails;
   // Real level values from DB lookup (all 4 levels)
   wageLevelData?: {
     levelI_hourly: number | null;
@@ -57,17 +65,17 @@ function buildLevelEntries(wageData: WageReportData): LevelEntry[] {
     ld.levelIV_annual != null
   ) {
     return [
-      { label: 'Level I', hourly: ld.levelI_hourly ?? (ld.levelI_annual / 2080), annual: ld.levelI_annual },
-      { label: 'Level II', hourly: ld.levelII_hourly ?? (ld.levelII_annual / 2080), annual: ld.levelII_annual },
-      { label: 'Level III', hourly: ld.levelIII_hourly ?? (ld.levelIII_annual / 2080), annual: ld.levelIII_annual },
-      { label: 'Level IV', hourly: ld.levelIV_hourly ?? (ld.levelIV_annual / 2080), annual: ld.levelIV_annual },
+      { label: 'Level I', hourly: ld.levelI_hourly ?? toHourlyRate(ld.levelI_annual, 'Year'), annual: ld.levelI_annual },
+      { label: 'Level II', hourly: ld.levelII_hourly ?? toHourlyRate(ld.levelII_annual, 'Year'), annual: ld.levelII_annual },
+      { label: 'Level III', hourly: ld.levelIII_hourly ?? toHourlyRate(ld.levelIII_annual, 'Year'), annual: ld.levelIII_annual },
+      { label: 'Level IV', hourly: ld.levelIV_hourly ?? toHourlyRate(ld.levelIV_annual, 'Year'), annual: ld.levelIV_annual },
     ];
   }
 
   // Fallback: derive from prevailing wage using multipliers relative to the selected level
   const baseWage = wageData.prevailingWage;
-  const yearlyBase = wageData.prevailingWageUnit === 'Year' ? baseWage : baseWage * 2080;
-  const hourlyBase = wageData.prevailingWageUnit === 'Year' ? baseWage / 2080 : baseWage;
+  const yearlyBase = annualize(baseWage, wageData.prevailingWageUnit);
+  const hourlyBase = toHourlyRate(baseWage, wageData.prevailingWageUnit);
 
   // Multipliers relative to selected level
   const levelMultipliers: Record<string, number> = {
@@ -89,6 +97,100 @@ function buildLevelEntries(wageData: WageReportData): LevelEntry[] {
   });
 }
 
+function renderLocationBox(ctx: PDFContext, wageData: WageReportData): void {
+  const { doc, pageWidth, margin } = ctx;
+  doc.setFillColor(...PDF_CONFIG.colors.lightGray);
+  doc.rect(margin, ctx.yPos - 3, pageWidth - margin * 2, 18, 'F');
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`WORKSITE: ${wageData.locationLabel}`, margin + 5, ctx.yPos + 2);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(wageData.locationName, margin + 5, ctx.yPos + 10);
+  ctx.yPos += 22;
+}
+
+// What the source is and the regulation allowing it, per source type
+function sourceStatement(wageData: WageReportData): string {
+  const details = wageData.wageSourceDetails ?? {};
+  switch (wageSourceType(wageData.wageSource)) {
+    case 'pwd':
+      return `The prevailing wage was determined by the U.S. Department of Labor, National Prevailing Wage Center, on Form ETA-9141 under 20 CFR § 655.731(a)(2)(ii)(A). The determination${details.pwdCaseNumber ? ` (case number ${details.pwdCaseNumber})` : ''} was issued ${details.pwdIssueDate ? formatDate(details.pwdIssueDate) : 'on the date shown'} and is valid through ${details.pwdExpirationDate ? formatDate(details.pwdExpirationDate) : 'the date shown on the determination'}.`;
+    case 'cba':
+      return `The position is covered by a collective bargaining agreement negotiated at arm's length between a union and the employer. Under 20 CFR § 655.731(a)(2)(i), the prevailing wage is the wage rate set forth in ${details.cbaName ? `the ${details.cbaName}` : 'the agreement'}.`;
+    case 'survey':
+      return `The prevailing wage was determined from an independent authoritative source or another legitimate source of wage data under 20 CFR § 655.731(a)(2)(ii)(B)-(C)${details.surveyName ? `: ${details.surveyName}${details.surveyPublisher ? `, published by ${details.surveyPublisher}` : ''}${details.surveyYear ? ` in ${details.surveyYear}` : ''}` : ''}. The survey is used in accordance with 20 CFR § 655.731(b)(3)(iii).`;
+    default:
+      return `The prevailing wage is the wage rate determined under the ${wageSourceLabel(wageData.wageSource)} for the occupation in the area of intended employment.`;
+  }
+}
+
+// Name of the document evidencing the wage, per source type
+function sourceDocumentName(wageData: WageReportData): string {
+  switch (wageSourceType(wageData.wageSource)) {
+    case 'pwd':
+      return 'Prevailing Wage Determination';
+    case 'cba':
+      return 'Collective Bargaining Agreement Wage Schedule';
+    case 'survey':
+      return 'Prevailing Wage Survey';
+    default:
+      return 'Wage Determination';
+  }
+}
+
+/**
+ * Report for a wage from a PWD, collective bargaining agreement, survey or
+ * statutory wage determination, followed by the document evidencing it.
+ */
+async function renderSourceReport(ctx: PDFContext, wageData: WageReportData, isFirst: boolean): Promise<void> {
+  const details = wageData.wageSourceDetails ?? {};
+
+  if (!isFirst) {
+    ctx.doc.addPage();
+  }
+
+  addPageHeader(ctx, `Prevailing Wage Rate and Source - ${wageData.locationLabel}`);
+  ctx.yPos += 10;
+  addCenteredTitle(ctx, 'PREVAILING WAGE RATE AND SOURCE', 14);
+  ctx.yPos += 8;
+
+  renderLocationBox(ctx, wageData);
+
+  addSectionHeader(ctx, 'Source of the prevailing wage:');
+  addParagraph(ctx, sourceStatement(wageData));
+  ctx.yPos += 4;
+
+  addSectionHeader(ctx, 'Prevailing wage:');
+  addLabelValue(ctx, 'Wage Source', wageSourceLabel(wageData.wageSource));
+  addLabelValue(ctx, 'PWD Case Number', details.pwdCaseNumber);
+  addLabelValue(ctx, 'Determination Date', details.pwdIssueDate && formatDate(details.pwdIssueDate));
+  addLabelValue(ctx, 'Expiration Date', details.pwdExpirationDate && formatDate(details.pwdExpirationDate));
+  addLabelValue(ctx, 'Agreement', details.cbaName);
+  addLabelValue(ctx, 'Effective Date', details.cbaEffectiveDate && formatDate(details.cbaEffectiveDate));
+  addLabelValue(ctx, 'Expiration Date', details.cbaExpirationDate && formatDate(details.cbaExpirationDate));
+  addLabelValue(ctx, 'Survey', details.surveyName);
+  addLabelValue(ctx, 'Publisher', details.surveyPublisher);
+  addLabelValue(ctx, 'Publication Year', details.surveyYear);
+  addLabelValue(ctx, 'Source Date', wageData.wageSourceDate && formatDate(wageData.wageSourceDate));
+  addLabelValue(ctx, 'Area', wageData.areaName);
+  addLabelValue(ctx, 'Occupation', `${wageData.socCode} ${wageData.socTitle}`);
+  addLabelValue(ctx, 'Wage Level', wageData.wageLevel);
+  addLabelValue(ctx, 'Prevailing Wage', formatCurrency(wageData.prevailingWage, wageData.prevailingWageUnit));
+  ctx.yPos += 6;
+
+  const documentName = sourceDocumentName(wageData);
+  if (details.document) {
+    addParagraph(ctx, `A copy of the ${documentName.toLowerCase()} is attached on the following pages.`);
+    await embedFile(ctx, details.document, documentName);
+  } else {
+    ctx.doc.setFont('helvetica', 'italic');
+    ctx.doc.setTextColor(...PDF_CONFIG.colors.gray);
+    addParagraph(ctx, `A copy of the ${documentName.toLowerCase()} is kept with this public access file.`, 9);
+    ctx.doc.setTextColor(...PDF_CONFIG.colors.black);
+  }
+}
+
 function renderWageReport(ctx: PDFContext, wageData: WageReportData, isFirst: boolean): void {
   const { doc, pageWidth, margin } = ctx;
   
@@ -132,22 +234,19 @@ function renderWageReport(ctx: PDFContext, wageData: WageReportData, isFirst: bo
   
   ctx.yPos += 8;
   
-  // Location identification box
-  doc.setFillColor(...PDF_CONFIG.colors.lightGray);
-  doc.rect(margin, ctx.yPos - 3, pageWidth - margin * 2, 18, 'F');
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  doc.text(`WORKSITE: ${wageData.locationLabel}`, margin + 5, ctx.yPos + 2);
-  doc.setFont('helvetica', 'normal');
-  doc.setFontSize(10);
-  doc.text(wageData.locationName, margin + 5, ctx.yPos + 10);
-  ctx.yPos += 22;
+  renderLocationBox(ctx, wageData);
   
   // Database info
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(`You selected the All Industries database for ${formatDate(wageData.wageSourceDate)}.`, margin, ctx.yPos);
+  const isACWIA = isACWIAWageSource(wageData.wageSource);
+  const database = isACWIA ? 'ACWIA - Higher Education' : 'All Industries';
+  doc.text(`You selected the ${database} database for ${formatDate(wageData.wageSourceDate)}.`, margin, ctx.yPos);
   ctx.yPos += 10;
+  if (isACWIA) {
+    addParagraph(ctx, 'The prevailing wage was taken from the OFLC ACWIA wage table, which applies to institutions of higher education, their affiliated or related nonprofit entities, and nonprofit or governmental research organizations under 20 CFR § 655.731(a)(2)(vii).', 9);
+    ctx.yPos += 4;
+  }
   
   addSectionHeader(ctx, 'Your search returned the following:');
   
@@ -232,7 +331,16 @@ function renderWageReport(ctx: PDFContext, wageData: WageReportData, isFirst: bo
   doc.setTextColor(...PDF_CONFIG.colors.black);
 }
 
-export function addPrevailingWageSection(ctx: PDFContext, data: PAFData): void {
+// OFLC wage library figures get the FLAG wage report; other sources document themselves
+async function renderReport(ctx: PDFContext, wageData: WageReportData, isFirst: boolean): Promise<void> {
+  if (wageSourceType(wageData.wageSource) === 'oflc') {
+    renderWageReport(ctx, wageData, isFirst);
+  } else {
+    await renderSourceReport(ctx, wageData, isFirst);
+  }
+}
+
+export async function addPrevailingWageSection(ctx: PDFContext, data: PAFData): Promise<void> {
   // Primary worksite wage report
   const primaryWorksite = data.worksite;
   const primaryWage: WageReportData = {
@@ -250,25 +358,18 @@ export function addPrevailingWageSection(ctx: PDFContext, data: PAFData): void {
     wageLevel: data.wage.wageLevel,
     wageSource: data.wage.wageSource,
     wageSourceDate: data.wage.wageSourceDate,
+    wageSourceDetails: data.wage.wageSourceDetails,
     wageLevelData: data.wage.wageLevelData,
   };
   
   // Start new page for primary
   ctx.doc.addPage();
-  renderWageReport(ctx, primaryWage, true);
+  await renderReport(ctx, primaryWage, true);
   
-  // Secondary worksite wage report (if different county)
-  if (
-    data.worksite.hasSecondaryWorksite && 
-    data.worksite.secondaryWorksite &&
-    data.wage.hasSecondaryWage &&
-    data.wage.secondaryWage
-  ) {
-    const secondaryWorksite = data.worksite.secondaryWorksite;
-    const secondaryWage = data.wage.secondaryWage;
-    
+  // A wage report for each secondary worksite in another wage area
+  for (const { label, worksite: secondaryWorksite, wage: secondaryWage } of secondaryWorksiteWages(data.worksite)) {
     const secondaryWageData: WageReportData = {
-      locationLabel: 'Secondary Worksite',
+      locationLabel: label,
       locationName: formatFullAddress(secondaryWorksite.address1, secondaryWorksite.address2, secondaryWorksite.city, secondaryWorksite.state, secondaryWorksite.postalCode, secondaryWorksite.worksiteName),
       areaCode: secondaryWage.areaCode || '',
       areaName: secondaryWage.areaName || `${secondaryWorksite.city}, ${secondaryWorksite.state}`,
@@ -284,6 +385,6 @@ export function addPrevailingWageSection(ctx: PDFContext, data: PAFData): void {
       wageSourceDate: secondaryWage.wageSourceDate ?? '',
     };
     
-    renderWageReport(ctx, secondaryWageData, false);
+    await renderReport(ctx, secondaryWageData, false);
   }
 }
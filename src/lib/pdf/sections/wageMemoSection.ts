@@ -12,66 +12,11 @@ import {
   formatDate,
   formatFullAddress,
 } from '../pdfHelpers';
-import { addCompactDigitalSignature, SignatoryWithImage } from '../signatureRenderer';
-import { supabase } from '@/integrations/supabase/client';
-
-async function getSignatoryFromDB(signatoryId?: string): Promise<SignatoryWithImage | null> {
-  try {
-    // First try to get by signatoryId if provided
-    if (signatoryId) {
-      const { data, error } = await supabase
-        .from('authorized_signatories')
-        .select('*')
-        .eq('id', signatoryId)
-        .single();
-      
-      if (!error && data) {
-        return {
-          id: data.id,
-          name: data.name,
-          title: data.title,
-          signatureImagePath: data.signature_image_path,
-        };
-      }
-    }
-    
-    // Fall back to default signatory
-    const { data: defaultData, error: defaultError } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .eq('is_default', true)
-      .single();
-    
-    if (!defaultError && defaultData) {
-      return {
-        id: defaultData.id,
-        name: defaultData.name,
-        title: defaultData.title,
-        signatureImagePath: defaultData.signature_image_path,
-      };
-    }
-    
-    // If no default, get the first signatory
-    const { data: firstData } = await supabase
-      .from('authorized_signatories')
-      .select('*')
-      .limit(1)
-      .single();
-    
-    if (firstData) {
-      return {
-        id: firstData.id,
-        name: firstData.name,
-        title: firstData.title,
-        signatureImagePath: firstData.signature_image_path,
-      };
-    }
-    
-    return null;
-  } catch {
-    return null;
-  }
-}
+import { addCompactDigitalSignature } from '../signatureRenderer';
+import { getPAFSignatory } from '../signatories';
+import { wageYearForDate } from '@/lib/wageYear';
+import { compareWage, convertWage, jobHoursPerWeek, toHourlyRate } from '@/lib/wage';
+import { secondaryWorksites, secondaryWorksiteWages } from '@/lib/worksites';
 
 /**
  * Adds the position-specific Actual Wage Determination section.
@@ -133,7 +78,9 @@ export async function addWageMemoSection(
   doc.setFont('helvetica', 'normal');
   doc.setFontSize(10);
   
-  const worksiteAddr = formatFullAddress(data.worksite.address1, data.worksite.address2, data.worksite.city, data.worksite.state, data.worksite.postalCode, data.worksite.worksiteName);
+  const secondaryCount = secondaryWorksites(data.worksite).length;
+  const worksiteAddr = formatFullAddress(data.worksite.address1, data.worksite.address2, data.worksite.city, data.worksite.state, data.worksite.postalCode, data.worksite.worksiteName)
+    + (secondaryCount > 0 ? ` and the ${secondaryCount === 1 ? 'secondary worksite' : `${secondaryCount} secondary worksites`} listed on the LCA` : '');
   const introPara = isMultiWorker
     ? `This Actual Wage Determination is prepared for the position of ${data.job.jobTitle} (SOC ${data.job.socCode}) in accordance with 20 CFR § 655.731 and the Company's Actual Wage Standards policy. This determination applies to all H-1B workers (${data.job.workersNeeded} positions) covered under this LCA, employed at ${worksiteAddr}.`
     : `This Actual Wage Determination is prepared for the position of ${data.job.jobTitle} (SOC ${data.job.socCode}) in accordance with 20 CFR § 655.731 and the Company's Actual Wage Standards policy. This determination applies specifically to ${employeeName} for employment at ${worksiteAddr}.`;
@@ -144,9 +91,28 @@ export async function addWageMemoSection(
   // Wage Confirmation Box - CRITICAL COMPLIANCE ELEMENT
   const actualWage = data.wage.actualWage;
   const prevailingWage = data.wage.prevailingWage;
-  // The wizard already enforces actualWage >= prevailingWage, so actualWage IS the final wage
-  const higherWage = actualWage;
-  const wageSource = actualWage >= prevailingWage ? 'actual wage' : 'prevailing wage';
+  const hoursPerWeek = jobHoursPerWeek(data.job);
+  // The wage must meet the prevailing wage of every worksite, so the highest one governs
+  const worksiteWages = [
+    { wage: data.wage, areaName: data.worksite.areaName || `${data.worksite.city}, ${data.worksite.state}` },
+    ...secondaryWorksiteWages(data.worksite).map(({ worksite, wage }) => ({
+      wage,
+      areaName: wage.areaName || worksite.areaName || `${worksite.city}, ${worksite.state}`,
+    })),
+  ];
+  const hourly = ({ wage }: (typeof worksiteWages)[number]) => toHourlyRate(wage.prevailingWage, wage.prevailingWageUnit, hoursPerWeek);
+  const governing = worksiteWages.reduce((max, w) => (hourly(w) > hourly(max) ? w : max));
+  // Compared by hourly rate so an hourly prevailing wage is never weighed against an annual salary;
+  // the higher of the two is expressed in the actual wage's unit
+  const comparison = compareWage(
+    { amount: actualWage, unit: data.wage.actualWageUnit },
+    { amount: governing.wage.prevailingWage, unit: governing.wage.prevailingWageUnit },
+    hoursPerWeek
+  );
+  const higherWage = comparison.meets
+    ? actualWage
+    : convertWage(comparison.requiredHourly, 'Hour', data.wage.actualWageUnit, hoursPerWeek);
+  const wageSource = comparison.meets ? 'actual wage' : 'prevailing wage';
   
   doc.setFillColor(220, 245, 220); // Light green
   const confirmBoxHeight = 30;
@@ -177,12 +143,15 @@ export async function addWageMemoSection(
   doc.setFont('helvetica', 'normal');
   doc.setFontSize(10);
   
+  const wageYear = data.wage.wageSourceDate ? wageYearForDate(data.wage.wageSourceDate) : null;
   const employmentDetails = [
     `Employment Period: ${formatDate(data.job.beginDate)} to ${formatDate(data.job.endDate)}`,
-    `Employment Type: ${data.job.isFullTime ? 'Full-Time' : 'Part-Time'}`,
+    `Employment Type: ${data.job.isFullTime ? 'Full-Time' : `Part-Time${hoursPerWeek ? ` (${hoursPerWeek} hours/week)` : ''}`}`,
     `Workers Needed: ${data.job.workersNeeded}`,
     `Worksite: ${data.worksite.city}, ${data.worksite.state}`,
     data.worksite.areaName ? `Wage Area: ${data.worksite.areaName}` : '',
+    ...secondaryWorksites(data.worksite).map((site) => `Secondary Worksite: ${site.city}, ${site.state}${site.wage?.areaName ? ` (Wage Area: ${site.wage.areaName})` : ''}`),
+    wageYear ? `Prevailing Wage Year: ${wageYear}${supportingDocs?.lcaReceivedDate ? ` (LCA received ${formatDate(supportingDocs.lcaReceivedDate)})` : ''}` : '',
   ].filter(Boolean);
   
   employmentDetails.forEach(detail => {
@@ -204,7 +173,12 @@ export async function addWageMemoSection(
   const wageData = [
     ['Wage Type', 'Amount', 'Source'],
     ['Prevailing Wage', formatCurrency(prevailingWage, data.wage.prevailingWageUnit), data.wage.wageSource],
-    ['Wage Level', data.wage.wageLevel, `As of ${formatDate(data.wage.wageSourceDate)}`],
+    ['Wage Level', data.wage.wageLevel, wageYear ? `OFLC ${wageYear}` : `As of ${formatDate(data.wage.wageSourceDate)}`],
+    ...secondaryWorksiteWages(data.worksite).map(({ label, wage }) => [
+      `${label} PW`,
+      formatCurrency(wage.prevailingWage, wage.prevailingWageUnit),
+      `${wage.wageSource} (${wage.wageLevel})`,
+    ]),
     ['Actual Wage Offered', formatCurrency(actualWage, data.wage.actualWageUnit), 'Employer Determination'],
     ['Final Wage (Higher Of)', formatCurrency(higherWage, data.wage.actualWageUnit), wageSource === 'actual wage' ? 'Actual Wage Applied' : 'Prevailing Wage Applied'],
   ];
@@ -293,8 +267,8 @@ export async function addWageMemoSection(
   doc.setFontSize(10);
   
   const conclusion = isMultiWorker
-    ? `Based on the application of the Company's Actual Wage Standards to this specific position, it is determined that all H-1B workers covered under this LCA shall be compensated at a rate of ${formatCurrency(higherWage, data.wage.actualWageUnit)} for the position of ${data.job.jobTitle}. This rate equals or exceeds both the actual wage paid to similarly employed workers and the ${data.wage.wageLevel} prevailing wage of ${formatCurrency(prevailingWage, data.wage.prevailingWageUnit)} for SOC ${data.job.socCode} in the ${data.worksite.areaName || data.worksite.city + ', ' + data.worksite.state} area.`
-    : `Based on the application of the Company's Actual Wage Standards to this specific position, it is determined that ${employeeName} shall be compensated at a rate of ${formatCurrency(higherWage, data.wage.actualWageUnit)} for the position of ${data.job.jobTitle}. This rate equals or exceeds both the actual wage paid to similarly employed workers and the ${data.wage.wageLevel} prevailing wage of ${formatCurrency(prevailingWage, data.wage.prevailingWageUnit)} for SOC ${data.job.socCode} in the ${data.worksite.areaName || data.worksite.city + ', ' + data.worksite.state} area.`;
+    ? `Based on the application of the Company's Actual Wage Standards to this specific position, it is determined that all H-1B workers covered under this LCA shall be compensated at a rate of ${formatCurrency(higherWage, data.wage.actualWageUnit)} for the position of ${data.job.jobTitle}. This rate equals or exceeds both the actual wage paid to similarly employed workers and the ${governing.wage.wageLevel} prevailing wage of ${formatCurrency(governing.wage.prevailingWage, governing.wage.prevailingWageUnit)} for SOC ${data.job.socCode} in the ${governing.areaName} area${worksiteWages.length > 1 ? ', the highest of the LCA worksites' : ''}.`
+    : `Based on the application of the Company's Actual Wage Standards to this specific position, it is determined that ${employeeName} shall be compensated at a rate of ${formatCurrency(higherWage, data.wage.actualWageUnit)} for the position of ${data.job.jobTitle}. This rate equals or exceeds both the actual wage paid to similarly employed workers and the ${governing.wage.wageLevel} prevailing wage of ${formatCurrency(governing.wage.prevailingWage, governing.wage.prevailingWageUnit)} for SOC ${data.job.socCode} in the ${governing.areaName} area${worksiteWages.length > 1 ? ', the highest of the LCA worksites' : ''}.`;
   addParagraph(ctx, conclusion);
   
   // If user provided additional notes, include them
@@ -327,7 +301,7 @@ export async function addWageMemoSection(
   checkPageBreak(ctx, 70);
   
   // Get the signatory from database with image path
-  const signatory = await getSignatoryFromDB(data.employer.signatoryId);
+  const signatory = await getPAFSignatory(ctx.employerId, data.employer.signatoryId);
   
   if (signatory) {
     await addCompactDigitalSignature(ctx, signatory, data.employer.legalBusinessName, false);
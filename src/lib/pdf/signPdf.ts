@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import { bytesToBase64 } from './pdfHelpers';
+
+/**
+ * Cryptographic (PKCS#7 detached) signing of a stored PAF version.
+ *
+ * The signatory's certificate and key never leave the server: the sign-paf
+ * edge function signs the version's stored PDF with the PKCS#12 file
+ * registered for the signatory in Settings, for the user linked to that
+ * signatory only, and stores the signed copy as the PAF's next version.
+ * Signing is part of approving a PAF in review (see approvePAF).
+ */
+
+export interface PAFSignature {
+  signatoryId: string;
+  // The signed copy, now the PAF's current version
+  versionId: string;
+  version: number;
+  // SHA-256 of the signing certificate (DER)
+  certificateFingerprint: string;
+  signedAt: string;
+}
+
+export async function signPAFVersion(versionId: string, signatoryId: string): Promise<PAFSignature> {
+  const { data: result, error } = await supabase.functions.invoke('sign-paf', {
+    body: { versionId, signatoryId },
+  });
+
+  if (error) throw error;
+  if (!result?.success) throw new Error(result?.error || 'Signing failed');
+
+  return {
+    signatoryId,
+    versionId: result.versionId,
+    version: result.version,
+    certificateFingerprint: result.certificateFingerprint,
+    signedAt: result.signedAt,
+  };
+}
+
+/**
+ * Registers (or replaces) a signatory's PKCS#12 signing certificate
+ */
+export async function registerSigningCertificate(signatoryId: string, file: File, password: string): Promise<void> {
+  const p12Base64 = bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+  const { data: result, error } = await supabase.functions.invoke('register-signing-certificate', {
+    body: { signatoryId, p12Base64, password },
+  });
+
+  if (error) throw error;
+  if (!result?.success) throw new Error(result?.error || 'Certificate upload failed');
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { setPDFRuntime, type PDFRuntime } from './runtime';
+import { getPAFSignatory } from './signatories';
+
+const signatories = [
+  { id: 'sig-1', name: 'Avery Chen', title: 'CFO', signature_image_path: null, is_default: false },
+  { id: 'sig-2', name: 'Sam Rivera', title: 'HR Director', signature_image_path: 'https://example.test/sam.png', is_default: true },
+];
+
+const eq = vi.fn();
+
+beforeEach(() => {
+  eq.mockReset();
+  eq.mockReturnValue({ order: vi.fn().mockResolvedValue({ data: signatories, error: null }) });
+  const from = vi.fn(() => ({ select: vi.fn(() => ({ eq })) }));
+  setPDFRuntime({ supabase: { from }, loadFont: vi.fn() } as unknown as PDFRuntime);
+});
+
+describe('getPAFSignatory', () => {
+  it('looks up the signatories of the PAF employer only', async () => {
+    await getPAFSignatory('employer-1', 'sig-1');
+
+    expect(eq).toHaveBeenCalledWith('employer_id', 'employer-1');
+  });
+
+  it('takes the chosen signatory, else the default', async () => {
+    expect(await getPAFSignatory('employer-1', 'sig-1')).toEqual({ id: 'sig-1', name: 'Avery Chen', title: 'CFO', signatureImagePath: null });
+    expect((await getPAFSignatory('employer-1'))?.id).toBe('sig-2');
+    // A signatory of another employer isn't among the results
+    expect((await getPAFSignatory('employer-1', 'sig-of-employer-2'))?.id).toBe('sig-2');
+  });
+
+  it('has no signatory without an employer', async () => {
+    expect(await getPAFSignatory(undefined, 'sig-1')).toBeNull();
+    expect(eq).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,28 @@
+import type { SignatoryWithImage } from './signatureRenderer';
+import { getPDFRuntime } from './runtime';
+
+/**
+ * The signatory whose signature the PAF's sections carry: the one chosen for
+ * the PAF, else the employer's default, else its first. Only the signatories
+ * of the PAF's own employer are considered; without a known employer there is
+ * none and the sections print a generic signature block.
+ */
+export async function getPAFSignatory(employerId?: string, signatoryId?: string): Promise<SignatoryWithImage | null> {
+  if (!employerId) return null;
+
+  const { supabase } = getPDFRuntime();
+  const { data, error } = await supabase
+    .from('authorized_signatories')
+    .select('id, name, title, signature_image_path, is_default')
+    .eq('employer_id', employerId)
+    .order('created_at');
+  if (error || !data?.length) return null;
+
+  const signatory = data.find((s) => s.id === signatoryId) ?? data.find((s) => s.is_default) ?? data[0];
+  return {
+    id: signatory.id,
+    name: signatory.name,
+    title: signatory.title,
+    signatureImagePath: signatory.signature_image_path,
+  };
+}
@@ -1,6 +1,5 @@
-import { PDFContext, PDF_CONFIG, checkPageBreak } from './pdfHelpers';
+import { PDFContext, PDF_CONFIG, checkPageBreak, bytesToBase64 } from './pdfHelpers';
 import { format } from 'date-fns';
-import type { AuthorizedSignatory } from '@/config/signatories';
 
 /**
  * Digital signature renderer for PDF documents.
@@ -22,13 +21,9 @@ async function fetchImageAsBase64(url: string): Promise<string | null> {
     const response = await fetch(url);
     if (!response.ok) return null;
     
-    const blob = await response.blob();
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.onerror = () => resolve(null);
-      reader.readAsDataURL(blob);
-    });
+    const contentType = response.headers.get('content-type') || 'image/png';
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return `data:${contentType};base64,${bytesToBase64(bytes)}`;
   } catch {
     return null;
   }
@@ -41,7 +36,7 @@ async function fetchImageAsBase64(url: string): Promise<string | null> {
  */
 export async function addDigitalSignature(
   ctx: PDFContext,
-  signatory: AuthorizedSignatory | SignatoryWithImage,
+  signatory: SignatoryWithImage,
   companyName?: string,
   includeDate: boolean = false
 ): Promise<void> {
@@ -51,7 +46,7 @@ export async function addDigitalSignature(
   ctx.yPos += 10;
   
   // Check if we have a signature image
-  const imagePath = 'signatureImagePath' in signatory ? signatory.signatureImagePath : null;
+  const imagePath = signatory.signatureImagePath ?? null;
   let imageData: string | null = null;
   
   if (imagePath) {
@@ -145,7 +140,7 @@ export async function addDigitalSignature(
  */
 export async function addCompactDigitalSignature(
   ctx: PDFContext,
-  signatory: AuthorizedSignatory | SignatoryWithImage,
+  signatory: SignatoryWithImage,
   companyName?: string,
   includeDate: boolean = false
 ): Promise<void> {
@@ -155,7 +150,7 @@ export async function addCompactDigitalSignature(
   ctx.yPos += 10;
   
   // Check if we have a signature image
-  const imagePath = 'signatureImagePath' in signatory ? signatory.signatureImagePath : null;
+  const imagePath = signatory.signatureImagePath ?? null;
   let imageData: string | null = null;
   
   if (imagePath) {
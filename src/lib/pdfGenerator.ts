@@ -1,20 +1,13 @@
-import jsPDF from 'jspdf';
 import type { PAFData } from '@/types/paf';
 import type { SupportingDocs } from '@/components/wizard/steps/SupportingDocsStep';
 import { format } from 'date-fns';
-import { createPDFContext, addPageNumber } from './pdf/pdfHelpers';
-import { sanitizePAFData } from './addressFormatting';
-import { addCoverPage } from './pdf/sections/coverPage';
-import { addLCASection } from './pdf/sections/lcaSection';
-import { addActualWageStandardsSection } from './pdf/sections/actualWageStandardsSection';
-import { addWageMemoSection } from './pdf/sections/wageMemoSection';
-import { addPayrollStatementSection } from './pdf/sections/payrollStatementSection';
-import { addPrevailingWageSection } from './pdf/sections/prevailingWageSection';
-import { addPostingNoticeSection } from './pdf/sections/postingNoticeSection';
-import { addBenefitsSection } from './pdf/sections/benefitsSection';
-import { addWorkerReceiptSection } from './pdf/sections/workerReceiptSection';
-import { addH1BDependencySection } from './pdf/sections/h1bDependencySection';
-import { addRecruitmentSummarySection } from './pdf/sections/recruitmentSummarySection';
+import { createPDFContext, addPageNumber, addBookmark, applyBookmarks, type PDFContext } from './pdf/pdfHelpers';
+import { sanitizePAFData, type RegisteredAddress } from './addressFormatting';
+import { addCoverPage, addTableOfContentsPageNumbers, type TOCItem } from './pdf/sections/coverPage';
+import { mergeAttachmentPages } from './pdf/mergePdf';
+import { registerArchivalFonts, convertToPDFA } from './pdf/pdfa';
+import { computePAFFingerprint, formatDocumentId, toFingerprintKeyword } from './pdf/fingerprint';
+import { resolvePAFSections, getSectionTOCLabel, type PAFSectionProfile } from './pdf/sectionRegistry';
 
 export interface PAFDocumentOptions {
   includeLCA?: boolean;
@@ -27,6 +20,14 @@ export interface PAFDocumentOptions {
   includeWorkerReceipt?: boolean;
   includeH1BDependency?: boolean;
   includeRecruitmentSummary?: boolean;
+  // Per-employer section ordering, disabled sections and custom sections
+  sectionProfile?: PAFSectionProfile;
+  // PDF/A-2b output with embedded fonts and XMP metadata, for long-term retention
+  archival?: boolean;
+  // The employer's registered address; copies of it in the PAF take its postal code
+  registeredAddress?: RegisteredAddress;
+  // The employer the PAF belongs to, whose signatories sign its sections
+  employerId?: string;
 }
 
 const defaultOptions: PAFDocumentOptions = {
@@ -42,81 +43,125 @@ const defaultOptions: PAFDocumentOptions = {
   includeRecruitmentSummary: true,
 };
 
+// Options used for PAFs that are stored or handed out as the public access file
+export const archivalOptions: PAFDocumentOptions = { ...defaultOptions, archival: true };
+
+// Registry section ids controlled by the include* flags
+const OPTION_SECTION_IDS: Record<string, string> = {
+  includeLCA: 'lca',
+  includeActualWageStandards: 'actualWageStandards',
+  includeWageMemo: 'wageMemo',
+  includePayrollStatement: 'payrollStatement',
+  includePrevailingWage: 'prevailingWage',
+  includePostingNotice: 'postingNotice',
+  includeBenefits: 'benefits',
+  includeWorkerReceipt: 'workerReceipt',
+  includeH1BDependency: 'h1bDependency',
+  includeRecruitmentSummary: 'recruitmentSummary',
+};
+
+/**
+ * Renders one section and records where it starts. Sections that add no
+ * pages (e.g. recruitment summary for non-dependent employers) are dropped
+ * from the bookmarks and left without a page number in the TOC.
+ */
+async function renderSection(
+  ctx: PDFContext,
+  sectionPages: Record<string, number>,
+  sectionId: string,
+  title: string,
+  render: () => void | Promise<void>
+): Promise<void> {
+  const startPage = ctx.doc.getNumberOfPages() + 1;
+  const bookmark = addBookmark(ctx, title, startPage);
+  await render();
+  if (ctx.doc.getNumberOfPages() < startPage) {
+    ctx.bookmarks.splice(ctx.bookmarks.indexOf(bookmark), 1);
+    return;
+  }
+  sectionPages[sectionId] = startPage;
+}
+
 /**
  * Generates a comprehensive PAF document matching the professional format
  * with cover page, table of contents, and all required sections.
  * Now async to support embedding uploaded PDF files.
+ * Sections come from the section registry (see sectionRegistry.ts). Their start
+ * pages are recorded while rendering and written back into the cover page TOC;
+ * the same pages drive the PDF bookmark tree.
+ * Uploaded PDFs are merged in as vector pages after layout, so the result is
+ * returned as finished PDF bytes rather than a jsPDF instance.
+ * With `archival` set, fonts are embedded and the output is converted to PDF/A-2b.
+ * Every PDF carries the SHA-256 fingerprint of its data and attachments
+ * (see fingerprint.ts) in its keywords and, as a short ID, in the footer.
  */
 export async function generatePAFDocument(
   data: PAFData, 
   supportingDocs?: SupportingDocs,
   options: PAFDocumentOptions = defaultOptions
-): Promise<jsPDF> {
-  const ctx = createPDFContext();
+): Promise<Uint8Array> {
   const mergedOptions = { ...defaultOptions, ...options };
-  const sanitizedData = sanitizePAFData(data);
-  
-  // 1. Cover Page with Table of Contents
-  addCoverPage(ctx, sanitizedData, supportingDocs);
-  
-  // 2. LCA Section (simulated ETA-9035 form) + embedded LCA PDF
-  if (mergedOptions.includeLCA) {
-    await addLCASection(ctx, sanitizedData, supportingDocs);
+  const ctx = createPDFContext(!!mergedOptions.archival, mergedOptions.employerId);
+  if (ctx.archival) {
+    await registerArchivalFonts(ctx.doc);
   }
+  const sanitizedData = sanitizePAFData(data, mergedOptions.registeredAddress);
+  const sectionPages: Record<string, number> = {};
+  const fingerprint = await computePAFFingerprint(sanitizedData, supportingDocs);
+  ctx.doc.setDocumentProperties({ keywords: toFingerprintKeyword(fingerprint) });
   
-  // 3. Actual Wage Standards (Company-wide policy - same for all LCAs)
-  if (mergedOptions.includeActualWageStandards) {
-    await addActualWageStandardsSection(ctx, sanitizedData, supportingDocs);
-  }
+  const disabledByOptions = Object.entries(OPTION_SECTION_IDS)
+    .filter(([flag]) => mergedOptions[flag as keyof PAFDocumentOptions] === false)
+    .map(([, sectionId]) => sectionId);
+  const sections = resolvePAFSections({
+    ...mergedOptions.sectionProfile,
+    disabled: [...(mergedOptions.sectionProfile?.disabled ?? []), ...disabledByOptions],
+  });
   
-  // 4. Actual Wage Determination (Position-specific - unique per LCA)
-  if (mergedOptions.includeWageMemo) {
-    await addWageMemoSection(ctx, sanitizedData, supportingDocs);
-  }
+  // Cover Page with Table of Contents (TOC lists every section that has a label)
+  const tocItems: TOCItem[] = sections.flatMap((section) => {
+    const text = getSectionTOCLabel(section, sanitizedData);
+    return text ? [{ sectionId: section.id, text }] : [];
+  });
+  const tocEntries = addCoverPage(ctx, sanitizedData, supportingDocs, tocItems);
+  addBookmark(ctx, 'Cover Page and Table of Contents', 1);
   
-  // 4b. Payroll Compliance Statement (after Wage Determination, before Posting)
-  if (mergedOptions.includePayrollStatement) {
-    await addPayrollStatementSection(ctx, sanitizedData);
-  }
-
-  // 5. Prevailing Wage Rate and Source
-  if (mergedOptions.includePrevailingWage) {
-    addPrevailingWageSection(ctx, sanitizedData);
+  for (const section of sections) {
+    const render = section.render;
+    if (!render) continue;
+    if (section.isApplicable && !section.isApplicable(sanitizedData, supportingDocs)) continue;
+    await renderSection(ctx, sectionPages, section.id, section.title, () =>
+      render(ctx, sanitizedData, supportingDocs));
   }
   
-  // 5. LCA Posting Notice and Display Details
-  if (mergedOptions.includePostingNotice) {
-    await addPostingNoticeSection(ctx, sanitizedData, supportingDocs);
-  }
+  // Fill in TOC page numbers now that section start pages are known
+  addTableOfContentsPageNumbers(ctx, tocEntries, sectionPages);
   
-  // 6. Benefits Summary (with embedded benefits docs if uploaded)
-  if (mergedOptions.includeBenefits) {
-    await addBenefitsSection(ctx, sanitizedData, supportingDocs);
-  }
-  
-  // 7. H-1B Dependency and Willful Violator Status
-  if (mergedOptions.includeH1BDependency) {
-    await addH1BDependencySection(ctx, sanitizedData, supportingDocs);
-  }
-  
-  // 8. Recruitment Summary (only for H-1B dependent employers)
-  if (mergedOptions.includeRecruitmentSummary) {
-    await addRecruitmentSummarySection(ctx, sanitizedData, supportingDocs);
-  }
-  
-  // 9. Worker Receipt Statement
-  if (mergedOptions.includeWorkerReceipt) {
-    addWorkerReceiptSection(ctx, sanitizedData, supportingDocs);
-  }
-  
-  // Add page numbers
+  // Add page numbers and the document ID
   const totalPages = ctx.doc.getNumberOfPages();
+  const documentId = formatDocumentId(fingerprint);
   for (let i = 1; i <= totalPages; i++) {
     ctx.doc.setPage(i);
-    addPageNumber(ctx, i, totalPages);
+    addPageNumber(ctx, i, totalPages, documentId);
   }
   
-  return ctx.doc;
+  applyBookmarks(ctx);
+  
+  const merged = await mergeAttachmentPages(ctx.doc.output('arraybuffer'), ctx.attachmentPlacements);
+  if (!ctx.archival) return merged;
+  
+  return convertToPDFA(merged, {
+    employerName: sanitizedData.employer.legalBusinessName,
+    jobTitle: sanitizedData.job.jobTitle,
+    socCode: sanitizedData.job.socCode,
+    lcaCaseNumber: sanitizedData.caseNumber,
+    fingerprint,
+    generatedAt: new Date(),
+  });
+}
+
+function toPDFBlob(bytes: Uint8Array): Blob {
+  return new Blob([bytes], { type: 'application/pdf' });
 }
 
 /**
@@ -125,20 +170,32 @@ export async function generatePAFDocument(
 export async function downloadPAF(
   data: PAFData, 
   supportingDocs?: SupportingDocs,
-  filename?: string
+  filename?: string,
+  options?: PAFDocumentOptions
 ): Promise<void> {
-  const doc = await generatePAFDocument(data, supportingDocs);
+  const bytes = await generatePAFDocument(data, supportingDocs, options);
+  savePAFBlob(toPDFBlob(bytes), data, filename);
+}
+
+/**
+ * Saves an already generated PAF (e.g. the archived copy) as a download
+ */
+export function savePAFBlob(blob: Blob, data: PAFData, filename?: string): void {
   const defaultFilename = `PAF_${data.employer.legalBusinessName.replace(/[^a-zA-Z0-9]/g, '_')}_${format(new Date(), 'yyyyMMdd')}.pdf`;
-  doc.save(filename || defaultFilename);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename || defaultFilename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 /**
  * Opens the PAF document in a new window for printing
  */
-export async function printPAF(data: PAFData, supportingDocs?: SupportingDocs): Promise<void> {
-  const doc = await generatePAFDocument(data, supportingDocs);
-  const pdfBlob = doc.output('blob');
-  const pdfUrl = URL.createObjectURL(pdfBlob);
+export async function printPAF(data: PAFData, supportingDocs?: SupportingDocs, options?: PAFDocumentOptions): Promise<void> {
+  const bytes = await generatePAFDocument(data, supportingDocs, options);
+  const pdfUrl = URL.createObjectURL(toPDFBlob(bytes));
   const printWindow = window.open(pdfUrl, '_blank');
   if (printWindow) {
     printWindow.onload = () => {
@@ -150,7 +207,10 @@ export async function printPAF(data: PAFData, supportingDocs?: SupportingDocs):
 /**
  * Returns the PAF document as a Blob for upload/storage
  */
-export async function getPAFBlob(data: PAFData, supportingDocs?: SupportingDocs): Promise<Blob> {
-  const doc = await generatePAFDocument(data, supportingDocs);
-  return doc.output('blob');
+export async function getPAFBlob(
+  data: PAFData,
+  supportingDocs?: SupportingDocs,
+  options?: PAFDocumentOptions
+): Promise<Blob> {
+  return toPDFBlob(await generatePAFDocument(data, supportingDocs, options));
 }
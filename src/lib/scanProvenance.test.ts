@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { PAFData } from '@/types/paf';
+import { describeProvenance, scanFieldState, scannedFieldsFrom, type FieldProvenance, type ScanProvenance } from './scanProvenance';
+
+const parsed: FieldProvenance = { source: 'pdf_text', page: 3, snippet: 'Job Title: SOFTWARE ENGINEER', confidence: 0.95 };
+const guessed: FieldProvenance = { source: 'ai', confidence: 0.5 };
+
+describe('scannedFieldsFrom', () => {
+  it('keys the applied values by wizard path', () => {
+    const provenance: ScanProvenance = { jobTitle: parsed, wageRateFrom: guessed, employerName: parsed };
+    const applied = { job: { jobTitle: 'Software Engineer', wageRateFrom: 120000 } } as Partial<PAFData>;
+
+    expect(scannedFieldsFrom(provenance, applied)).toEqual({
+      'job.jobTitle': { provenance: parsed, value: 'Software Engineer' },
+      'job.wageRateFrom': { provenance: guessed, value: 120000 },
+    });
+  });
+
+  it('is empty without provenance', () => {
+    expect(scannedFieldsFrom(undefined, { caseNumber: 'I-200-24325-123456' })).toEqual({});
+  });
+});
+
+describe('scanFieldState', () => {
+  it('tells auto-filled and low-confidence values apart', () => {
+    expect(scanFieldState({ provenance: parsed, value: 'Software Engineer' }, 'Software Engineer')).toBe('auto');
+    expect(scanFieldState({ provenance: guessed, value: 120000 }, 120000)).toBe('low');
+  });
+
+  it('ignores case, surrounding spaces and number formatting', () => {
+    expect(scanFieldState({ provenance: parsed, value: 'SOFTWARE ENGINEER' }, ' Software Engineer ')).toBe('auto');
+    expect(scanFieldState({ provenance: parsed, value: 120000 }, '120000')).toBe('auto');
+  });
+
+  it('flags values the user changed', () => {
+    expect(scanFieldState({ provenance: guessed, value: 120000 }, 125000)).toBe('overridden');
+    expect(scanFieldState({ provenance: parsed, value: 'Software Engineer' }, '')).toBe('overridden');
+  });
+
+  it('is null for fields the scan did not fill', () => {
+    expect(scanFieldState(undefined, 'Software Engineer')).toBeNull();
+  });
+});
+
+describe('describeProvenance', () => {
+  it('names the source, page and confidence', () => {
+    expect(describeProvenance(parsed)).toBe('PDF text, page 3, 95%');
+    expect(describeProvenance(guessed)).toBe('AI scan, 50%');
+  });
+});
@@ -0,0 +1,123 @@
+import type { PAFData } from '@/types/paf';
+
+/**
+ * Where each value of an LCA scan came from.
+ *
+ * The text parser and the AI scan both report, per field, the page the value
+ * was read from, the text around it and a confidence between 0 and 1. Once a
+ * scan is applied, the wizard keeps the value each field was filled with so
+ * the steps can tell auto-filled, low-confidence and user-edited fields apart.
+ */
+
+export type ScanSource = 'pdf_text' | 'ai';
+
+export interface FieldProvenance {
+  source: ScanSource;
+  // 1-based page of the LCA PDF
+  page?: number;
+  snippet?: string;
+  confidence: number;
+}
+
+// Keyed by scan result field; Appendix A fields as secondaryWorksites.N.field
+export type ScanProvenance = Record<string, FieldProvenance>;
+
+// Below this a value should be checked against the LCA before relying on it
+export const LOW_CONFIDENCE = 0.7;
+
+export const PARSED_CONFIDENCE = {
+  // Answer printed on its label's line, as FLAG lays the form out
+  sameLine: 0.95,
+  // Answer taken from the line after its label
+  followingLine: 0.8,
+};
+
+// Used when the AI scan doesn't rate a value it returned
+export const AI_DEFAULT_CONFIDENCE = 0.5;
+
+export const SCAN_SOURCE_LABELS: Record<ScanSource, string> = {
+  pdf_text: 'PDF text',
+  ai: 'AI scan',
+};
+
+// Wizard field each scanned value fills, as a path into PAFData
+export const SCAN_FIELD_TARGETS: Record<string, string> = {
+  employerName: 'employer.legalBusinessName',
+  naicsCode: 'employer.naicsCode',
+  jobTitle: 'job.jobTitle',
+  socCode: 'job.socCode',
+  socTitle: 'job.socTitle',
+  isFullTime: 'job.isFullTime',
+  beginDate: 'job.beginDate',
+  endDate: 'job.endDate',
+  wageRateFrom: 'job.wageRateFrom',
+  wageRateTo: 'job.wageRateTo',
+  wageUnit: 'job.wageUnit',
+  totalWorkers: 'job.workersNeeded',
+  worksiteAddress: 'worksite.address1',
+  worksiteCity: 'worksite.city',
+  worksiteState: 'worksite.state',
+  worksitePostalCode: 'worksite.postalCode',
+  worksiteCounty: 'worksite.county',
+  worksiteName: 'worksite.worksiteName',
+  prevailingWage: 'wage.prevailingWage',
+  prevailingWageUnit: 'wage.prevailingWageUnit',
+  wageLevel: 'wage.wageLevel',
+  wageSourceYear: 'wage.wageSourceDate',
+};
+
+export interface ScannedField {
+  provenance: FieldProvenance;
+  // The value the wizard field was filled with
+  value: unknown;
+}
+
+// Keyed by wizard path, e.g. job.jobTitle
+export type ScannedFields = Record<string, ScannedField>;
+
+export type ScanFieldState = 'auto' | 'low' | 'overridden';
+
+export function isLowConfidence(provenance: FieldProvenance): boolean {
+  return provenance.confidence < LOW_CONFIDENCE;
+}
+
+function valueAtPath(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const empty = (value: unknown) => value === undefined || value === null || value === '';
+  if (empty(a) || empty(b)) return empty(a) && empty(b);
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+}
+
+/** The wizard fields a scan filled, with the values they were filled with. */
+export function scannedFieldsFrom(provenance: ScanProvenance | undefined, applied: Partial<PAFData>): ScannedFields {
+  const fields: ScannedFields = {};
+  for (const [field, path] of Object.entries(SCAN_FIELD_TARGETS)) {
+    const source = provenance?.[field];
+    const value = valueAtPath(applied, path);
+    if (source && value !== undefined) fields[path] = { provenance: source, value };
+  }
+  return fields;
+}
+
+/** How a wizard field relates to the scan, or null if the scan didn't fill it. */
+export function scanFieldState(field: ScannedField | undefined, current: unknown): ScanFieldState | null {
+  if (!field) return null;
+  if (!sameValue(field.value, current)) return 'overridden';
+  return isLowConfidence(field.provenance) ? 'low' : 'auto';
+}
+
+/** e.g. "PDF text, page 3, 95%" */
+export function describeProvenance(provenance: FieldProvenance): string {
+  return [
+    SCAN_SOURCE_LABELS[provenance.source],
+    provenance.page ? `page ${provenance.page}` : null,
+    `${Math.round(provenance.confidence * 100)}%`,
+  ].filter(Boolean).join(', ');
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annualize,
+  compareWage,
+  convertWage,
+  formatWage,
+  formatWageRange,
+  highestWage,
+  jobHoursPerWeek,
+  toHourlyRate,
+} from './wage';
+
+describe('toHourlyRate', () => {
+  it('spreads salaried amounts over 2080 full-time hours', () => {
+    expect(toHourlyRate(50, 'Hour')).toBe(50);
+    expect(toHourlyRate(2000, 'Week')).toBe(50);
+    expect(toHourlyRate(4000, 'Bi-Weekly')).toBe(50);
+    expect(toHourlyRate(104000, 'Year')).toBe(50);
+    expect(toHourlyRate(8000, 'Month')).toBeCloseTo(46.15, 2);
+  });
+
+  it('spreads a part-time salary over the hours worked', () => {
+    expect(toHourlyRate(52000, 'Year', 20)).toBe(50);
+  });
+});
+
+describe('annualize', () => {
+  it('multiplies by the periods per year', () => {
+    expect(annualize(50, 'Hour')).toBe(104000);
+    expect(annualize(8000, 'Month')).toBe(96000);
+    expect(annualize(4000, 'Bi-Weekly')).toBe(104000);
+  });
+
+  it('pays an hourly rate for the hours worked', () => {
+    expect(annualize(50, 'Hour', 20)).toBe(52000);
+  });
+});
+
+describe('convertWage', () => {
+  it('keeps the hourly rate across units', () => {
+    expect(convertWage(50, 'Hour', 'Year')).toBe(104000);
+    expect(convertWage(104000, 'Year', 'Hour')).toBe(50);
+    expect(convertWage(104000, 'Year', 'Month')).toBeCloseTo(8666.67, 2);
+    expect(convertWage(2000, 'Week', 'Bi-Weekly')).toBe(4000);
+  });
+
+  it('converts at part-time hours', () => {
+    expect(convertWage(50, 'Hour', 'Year', 20)).toBe(52000);
+  });
+});
+
+describe('compareWage', () => {
+  it('compares wages in different units', () => {
+    expect(compareWage({ amount: 50, unit: 'Hour' }, { amount: 104000, unit: 'Year' })).toEqual({
+      meets: true,
+      offeredAnnual: 104000,
+      requiredAnnual: 104000,
+      offeredHourly: 50,
+      requiredHourly: 50,
+    });
+    expect(compareWage({ amount: 49.99, unit: 'Hour' }, { amount: 104000, unit: 'Year' }).meets).toBe(false);
+    expect(compareWage({ amount: 8000, unit: 'Month' }, { amount: 50, unit: 'Hour' }).meets).toBe(false);
+  });
+
+  it('treats a round trip through another unit as equal', () => {
+    const monthly = convertWage(104000, 'Year', 'Month');
+
+    expect(compareWage({ amount: monthly, unit: 'Month' }, { amount: 104000, unit: 'Year' }).meets).toBe(true);
+  });
+
+  it('requires the lower bound of a range to meet the wage', () => {
+    const required = { amount: 110000, unit: 'Year' as const };
+
+    expect(compareWage({ from: 100000, to: 130000, unit: 'Year' }, required).meets).toBe(false);
+    expect(compareWage({ from: 110000, to: 130000, unit: 'Year' }, required).meets).toBe(true);
+  });
+
+  it('compares a part-time salary by its hourly rate against the full-time wage', () => {
+    const required = { amount: 104000, unit: 'Year' as const };
+
+    // $60,000 for 20 hours a week is $57.69/hr
+    const partTime = compareWage({ amount: 60000, unit: 'Year' }, required, 20);
+    expect(partTime.meets).toBe(true);
+    expect(partTime.offeredHourly).toBeCloseTo(57.69, 2);
+    expect(partTime.offeredAnnual).toBeCloseTo(120000, 6);
+    expect(compareWage({ amount: 60000, unit: 'Year' }, required).meets).toBe(false);
+    expect(compareWage({ amount: 50000, unit: 'Year' }, required, 20).meets).toBe(false);
+  });
+
+  it('compares a part-time hourly rate as is', () => {
+    expect(compareWage({ amount: 50, unit: 'Hour' }, { amount: 104000, unit: 'Year' }, 20).meets).toBe(true);
+  });
+});
+
+describe('jobHoursPerWeek', () => {
+  it('is the weekly hours of a part-time position only', () => {
+    expect(jobHoursPerWeek({ isFullTime: false, hoursPerWeek: 20 })).toBe(20);
+    expect(jobHoursPerWeek({ isFullTime: true, hoursPerWeek: 20 })).toBeUndefined();
+    expect(jobHoursPerWeek({ isFullTime: false, hoursPerWeek: 0 })).toBeUndefined();
+  });
+});
+
+describe('highestWage', () => {
+  it('picks the highest hourly rate and skips empty wages', () => {
+    expect(
+      highestWage([
+        { amount: 100000, unit: 'Year' },
+        { amount: 50, unit: 'Hour' },
+        { amount: 0, unit: 'Year' },
+      ])
+    ).toEqual({ amount: 50, unit: 'Hour' });
+    expect(highestWage([])).toBeUndefined();
+  });
+});
+
+describe('formatWage', () => {
+  it('formats to the cent', () => {
+    expect(formatWage(84099.999, 'Year')).toBe('$84,100.00 / Year');
+    expect(formatWageRange({ from: 100000, to: 120000, unit: 'Year' })).toBe('$100,000.00 / Year to $120,000.00 / Year');
+    expect(formatWageRange({ from: 50, unit: 'Hour' })).toBe('$50.00 / Hour');
+  });
+});
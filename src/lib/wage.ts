@@ -0,0 +1,134 @@
+import type { JobDetails, WageUnit } from '@/types/paf';
+
+export type { WageUnit };
+
+/**
+ * Wage units, conversion and comparison.
+ *
+ * Amounts in different units are only ever compared after normalizing them
+ * with DOL's standard multipliers: 2080 hours, 52 weeks, 26 bi-weekly pay
+ * periods or 12 months per year. Prevailing wages are full-time figures; a
+ * part-time worker's wage is compared as an hourly rate over the hours they
+ * actually work, so a lower salary for fewer hours isn't flagged and a full
+ * salary spread over fewer hours isn't overstated.
+ */
+
+export const WAGE_UNITS: WageUnit[] = ['Hour', 'Week', 'Bi-Weekly', 'Month', 'Year'];
+
+export const FULL_TIME_HOURS_PER_WEEK = 40;
+
+const WEEKS_PER_YEAR = 52;
+
+// Pay periods per year for each unit at full time
+export const PERIODS_PER_YEAR: Record<WageUnit, number> = {
+  Hour: FULL_TIME_HOURS_PER_WEEK * WEEKS_PER_YEAR,
+  Week: WEEKS_PER_YEAR,
+  'Bi-Weekly': 26,
+  Month: 12,
+  Year: 1,
+};
+
+export interface WageAmount {
+  amount: number;
+  unit: WageUnit;
+}
+
+// An offered wage, optionally a range (wageRateFrom/wageRateTo)
+export interface WageRange {
+  from: number;
+  to?: number;
+  unit: WageUnit;
+}
+
+export interface WageComparison {
+  meets: boolean;
+  // Both sides as annual full-time-equivalent amounts
+  offeredAnnual: number;
+  requiredAnnual: number;
+  // Both sides as hourly rates, the basis of the comparison
+  offeredHourly: number;
+  requiredHourly: number;
+}
+
+function hoursPerYear(hoursPerWeek = FULL_TIME_HOURS_PER_WEEK): number {
+  return hoursPerWeek * WEEKS_PER_YEAR;
+}
+
+/** Weekly hours of a part-time position, or undefined for full time. */
+export function jobHoursPerWeek(job: Partial<Pick<JobDetails, 'isFullTime' | 'hoursPerWeek'>>): number | undefined {
+  return job.isFullTime === false && job.hoursPerWeek && job.hoursPerWeek > 0 ? job.hoursPerWeek : undefined;
+}
+
+/**
+ * Hourly rate of a wage. Salaried amounts are spread over the hours actually
+ * worked (full time unless hoursPerWeek is given).
+ */
+export function toHourlyRate(amount: number, unit: WageUnit, hoursPerWeek?: number): number {
+  if (unit === 'Hour') return amount;
+  return (amount * PERIODS_PER_YEAR[unit]) / hoursPerYear(hoursPerWeek);
+}
+
+/**
+ * Annual amount actually paid. Hourly rates are multiplied by the hours
+ * worked (2080 at full time); salaried amounts by their periods per year.
+ */
+export function annualize(amount: number, unit: WageUnit, hoursPerWeek?: number): number {
+  if (unit === 'Hour') return amount * hoursPerYear(hoursPerWeek);
+  return amount * PERIODS_PER_YEAR[unit];
+}
+
+/** Converts a wage to another unit at the same hourly rate. */
+export function convertWage(amount: number, from: WageUnit, to: WageUnit, hoursPerWeek?: number): number {
+  const hourly = toHourlyRate(amount, from, hoursPerWeek);
+  if (to === 'Hour') return hourly;
+  return (hourly * hoursPerYear(hoursPerWeek)) / PERIODS_PER_YEAR[to];
+}
+
+export function isWageRange(wage: WageAmount | WageRange): wage is WageRange {
+  return 'from' in wage;
+}
+
+/**
+ * Compares an offered wage against a required (prevailing) wage. For a range
+ * the lower bound must meet the requirement. The required wage is a full-time
+ * figure; hoursPerWeek applies to the offered wage only.
+ */
+export function compareWage(offered: WageAmount | WageRange, required: WageAmount, hoursPerWeek?: number): WageComparison {
+  const offeredAmount = isWageRange(offered) ? offered.from : offered.amount;
+  const offeredHourly = toHourlyRate(offeredAmount, offered.unit, hoursPerWeek);
+  const requiredHourly = toHourlyRate(required.amount, required.unit);
+  const offeredAnnual = annualize(offeredHourly, 'Hour');
+  const requiredAnnual = annualize(requiredHourly, 'Hour');
+  // Compared in annual cents so unit round-trips (e.g. $50/hr vs $104,000/yr) compare equal
+  // without letting an annual shortfall hide in hourly rounding
+  const meets = Math.round(offeredAnnual * 100) >= Math.round(requiredAnnual * 100);
+  return { meets, offeredAnnual, requiredAnnual, offeredHourly, requiredHourly };
+}
+
+/** The highest of several required wages, by hourly rate. */
+export function highestWage(wages: WageAmount[]): WageAmount | undefined {
+  return wages
+    .filter((w) => w.amount > 0)
+    .reduce<WageAmount | undefined>(
+      (max, w) => (!max || toHourlyRate(w.amount, w.unit) > toHourlyRate(max.amount, max.unit) ? w : max),
+      undefined
+    );
+}
+
+/** '$120,000.00 / Year' */
+export function formatWage(amount: number, unit: string): string {
+  // Round to 2 decimal places to avoid floating-point precision issues (e.g. 84099.98 instead of 84100)
+  const rounded = Math.round(amount * 100) / 100;
+  const formatted = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(rounded);
+  return `${formatted} / ${unit}`;
+}
+
+/** '$100,000.00 / Year to $120,000.00 / Year', or a single wage without an upper bound. */
+export function formatWageRange(range: WageRange, separator = ' to '): string {
+  return range.to
+    ? `${formatWage(range.from, range.unit)}${separator}${formatWage(range.to, range.unit)}`
+    : formatWage(range.from, range.unit);
+}
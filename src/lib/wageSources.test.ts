@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detailsForWageSource,
+  requiresWageSourceDocument,
+  wageSourceDetailIssues,
+  wageSourceLabel,
+  wageSourceNotInEffect,
+  wageSourceType,
+} from './wageSources';
+
+describe('wageSourceType', () => {
+  it('maps option codes to their source type', () => {
+    expect(wageSourceType('OES-ACWIA')).toBe('oflc');
+    expect(wageSourceType('PWD')).toBe('pwd');
+    expect(wageSourceType('CBA')).toBe('cba');
+    expect(wageSourceType('Other')).toBe('survey');
+    expect(wageSourceType('DBA')).toBe('statute');
+  });
+
+  it('treats free text from older records as the OFLC wage library', () => {
+    expect(wageSourceType('OFLC Online Data Center')).toBe('oflc');
+    expect(wageSourceType(undefined)).toBe('oflc');
+  });
+});
+
+describe('wageSourceLabel', () => {
+  it('labels option codes and passes free text through', () => {
+    expect(wageSourceLabel('PWD')).toBe('Prevailing Wage Determination (ETA-9141)');
+    expect(wageSourceLabel('OFLC Online Data Center')).toBe('OFLC Online Data Center');
+    expect(wageSourceLabel(null)).toBe('');
+  });
+});
+
+describe('requiresWageSourceDocument', () => {
+  it('asks for a copy of every source outside the OFLC wage library', () => {
+    expect(requiresWageSourceDocument('OES')).toBe(false);
+    expect(requiresWageSourceDocument('CBA')).toBe(true);
+    expect(requiresWageSourceDocument('SCA')).toBe(true);
+  });
+});
+
+describe('detailsForWageSource', () => {
+  const details = {
+    pwdCaseNumber: 'P-100-24001-123456',
+    cbaName: 'Local 123 Agreement',
+    documentPath: 'wage-sources/pwd.pdf',
+  };
+
+  it('keeps the details of the chosen source type and its document', () => {
+    expect(detailsForWageSource('PWD', details)).toEqual({
+      document: undefined,
+      documentPath: 'wage-sources/pwd.pdf',
+      pwdCaseNumber: 'P-100-24001-123456',
+      pwdIssueDate: undefined,
+      pwdExpirationDate: undefined,
+    });
+  });
+
+  it('drops the details of an OFLC source', () => {
+    expect(detailsForWageSource('OES', details)).toBeUndefined();
+  });
+});
+
+describe('wageSourceDetailIssues', () => {
+  it('requires the PWD case number and dates', () => {
+    expect(wageSourceDetailIssues('PWD', { pwdCaseNumber: ' ' }).map((issue) => issue.field)).toEqual([
+      'pwdCaseNumber',
+      'pwdIssueDate',
+      'pwdExpirationDate',
+    ]);
+  });
+
+  it('rejects an expiration before the determination date', () => {
+    expect(
+      wageSourceDetailIssues('PWD', { pwdCaseNumber: 'P-100-24001-123456', pwdIssueDate: '2024-06-01', pwdExpirationDate: '2024-05-31' })
+    ).toEqual([{ field: 'pwdExpirationDate', message: 'Expiration date must be on or after the determination date' }]);
+  });
+
+  it('checks the survey publication year', () => {
+    expect(wageSourceDetailIssues('Other', { surveyName: 'Tech Pay', surveyPublisher: 'Radford', surveyYear: 24 })).toEqual([
+      { field: 'surveyYear', message: 'Enter the four-digit publication year' },
+    ]);
+  });
+
+  it('requires nothing for OFLC and statutory sources', () => {
+    expect(wageSourceDetailIssues('OES')).toEqual([]);
+    expect(wageSourceDetailIssues('DBA')).toEqual([]);
+  });
+});
+
+describe('wageSourceNotInEffect', () => {
+  const pwd = { wageSource: 'PWD', wageSourceDetails: { pwdIssueDate: '2024-06-01', pwdExpirationDate: '2025-06-30' } };
+
+  it('is null for a filing inside the determination validity period', () => {
+    expect(wageSourceNotInEffect(pwd, '2024-11-20')).toBeNull();
+  });
+
+  it('describes a filing before issue or after expiration', () => {
+    expect(wageSourceNotInEffect(pwd, '2024-05-15')).toBe(
+      'The prevailing wage determination was issued on 2024-06-01, after the LCA was filed on 2024-05-15.'
+    );
+    expect(wageSourceNotInEffect({ wageSource: 'CBA', wageSourceDetails: { cbaExpirationDate: '2024-10-31' } }, '2024-11-20')).toBe(
+      'The collective bargaining agreement expired on 2024-10-31, before the LCA was filed on 2024-11-20.'
+    );
+  });
+
+  it('is null for sources without validity dates or an unknown filing date', () => {
+    expect(wageSourceNotInEffect({ wageSource: 'Other', wageSourceDetails: {} }, '2024-11-20')).toBeNull();
+    expect(wageSourceNotInEffect(pwd, null)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { parseISO, isValid } from 'date-fns';
+import type { WageInfo, WageSourceDetails } from '@/types/paf';
+
+/**
+ * Prevailing wage sources.
+ *
+ * Most wages come from the OFLC wage library (All Industries or ACWIA table).
+ * An LCA may instead rely on the wage rate of a collective bargaining
+ * agreement (20 CFR 655.731(a)(2)(i)), a prevailing wage determination issued
+ * on ETA-9141, or an independent authoritative or other legitimate survey
+ * (20 CFR 655.731(a)(2)(ii)). wageSource stores the option code; its type
+ * decides which details are required and how the PAF documents the source.
+ */
+
+export type WageSourceType = 'oflc' | 'pwd' | 'cba' | 'survey' | 'statute';
+
+export interface WageSourceOption {
+  value: string;
+  label: string;
+  type: WageSourceType;
+}
+
+export const WAGE_SOURCE_OPTIONS: WageSourceOption[] = [
+  { value: 'OES', label: 'OES (OEWS)', type: 'oflc' },
+  { value: 'OES-ACWIA', label: 'OES (OEWS) - ACWIA', type: 'oflc' },
+  { value: 'PWD', label: 'Prevailing Wage Determination (ETA-9141)', type: 'pwd' },
+  { value: 'CBA', label: 'Collective Bargaining Agreement', type: 'cba' },
+  { value: 'DBA', label: 'Davis-Bacon Act', type: 'statute' },
+  { value: 'SCA', label: 'Service Contract Act', type: 'statute' },
+  { value: 'Other', label: 'Other Survey', type: 'survey' },
+];
+
+// Details kept for each source type; the rest are cleared when the source changes
+const DETAIL_FIELDS: Record<WageSourceType, (keyof WageSourceDetails)[]> = {
+  oflc: [],
+  pwd: ['pwdCaseNumber', 'pwdIssueDate', 'pwdExpirationDate'],
+  cba: ['cbaName', 'cbaEffectiveDate', 'cbaExpirationDate'],
+  survey: ['surveyName', 'surveyPublisher', 'surveyYear'],
+  statute: [],
+};
+
+export interface WageSourceIssue {
+  field: keyof WageSourceDetails;
+  message: string;
+}
+
+function parseDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+/** Type of a wage source code. Free text from older records counts as the OFLC wage library. */
+export function wageSourceType(wageSource?: string | null): WageSourceType {
+  return WAGE_SOURCE_OPTIONS.find((o) => o.value === wageSource)?.type ?? 'oflc';
+}
+
+export function wageSourceLabel(wageSource?: string | null): string {
+  return WAGE_SOURCE_OPTIONS.find((o) => o.value === wageSource)?.label ?? wageSource ?? '';
+}
+
+/** Sources other than the OFLC wage library are documented with the PWD, agreement or survey itself. */
+export function requiresWageSourceDocument(wageSource?: string | null): boolean {
+  return wageSourceType(wageSource) !== 'oflc';
+}
+
+/** The details that apply to the source, with the evidence document; undefined for OFLC sources. */
+export function detailsForWageSource(wageSource: string, details?: WageSourceDetails): WageSourceDetails | undefined {
+  if (!details || !requiresWageSourceDocument(wageSource)) return undefined;
+  const kept: WageSourceDetails = { document: details.document, documentPath: details.documentPath };
+  for (const field of DETAIL_FIELDS[wageSourceType(wageSource)]) {
+    (kept as Record<string, unknown>)[field] = details[field];
+  }
+  return kept;
+}
+
+/** Required details that are missing or inconsistent for the source type. */
+export function wageSourceDetailIssues(wageSource: string, details: WageSourceDetails = {}): WageSourceIssue[] {
+  const issues: WageSourceIssue[] = [];
+  const require = (field: keyof WageSourceDetails, label: string) => {
+    const value = details[field];
+    if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+      issues.push({ field, message: `${label} is required` });
+    }
+  };
+
+  switch (wageSourceType(wageSource)) {
+    case 'pwd': {
+      require('pwdCaseNumber', 'PWD case number');
+      require('pwdIssueDate', 'Determination date');
+      require('pwdExpirationDate', 'Expiration date');
+      const issued = parseDate(details.pwdIssueDate);
+      const expires = parseDate(details.pwdExpirationDate);
+      if (issued && expires && expires < issued) {
+        issues.push({ field: 'pwdExpirationDate', message: 'Expiration date must be on or after the determination date' });
+      }
+      break;
+    }
+    case 'cba': {
+      require('cbaName', 'Agreement name');
+      const effective = parseDate(details.cbaEffectiveDate);
+      const expires = parseDate(details.cbaExpirationDate);
+      if (effective && expires && expires < effective) {
+        issues.push({ field: 'cbaExpirationDate', message: 'Expiration date must be on or after the effective date' });
+      }
+      break;
+    }
+    case 'survey': {
+      require('surveyName', 'Survey name');
+      require('surveyPublisher', 'Publisher');
+      require('surveyYear', 'Publication year');
+      const year = details.surveyYear;
+      if (year !== undefined && (!Number.isInteger(year) || year < 1990 || year > new Date().getFullYear() + 1)) {
+        issues.push({ field: 'surveyYear', message: 'Enter the four-digit publication year' });
+      }
+      break;
+    }
+  }
+  return issues;
+}
+
+/**
+ * Describes a PWD or collective bargaining agreement that wasn't in effect
+ * when the LCA was filed, or null when it was (or the dates are unknown).
+ */
+export function wageSourceNotInEffect(
+  wage: Pick<WageInfo, 'wageSource' | 'wageSourceDetails'>,
+  filingDate?: string | null
+): string | null {
+  const filed = parseDate(filingDate);
+  const details = wage.wageSourceDetails;
+  if (!filed || !details) return null;
+
+  const type = wageSourceType(wage.wageSource);
+  const [name, started, from, to] =
+    type === 'pwd'
+      ? ['prevailing wage determination', 'was issued', details.pwdIssueDate, details.pwdExpirationDate]
+      : type === 'cba'
+        ? ['collective bargaining agreement', 'took effect', details.cbaEffectiveDate, details.cbaExpirationDate]
+        : [null, null, undefined, undefined];
+  if (!name) return null;
+
+  const start = parseDate(from);
+  const end = parseDate(to);
+  if (start && filed < start) return `The ${name} ${started} on ${from}, after the LCA was filed on ${filingDate}.`;
+  if (end && filed > end) return `The ${name} expired on ${to}, before the LCA was filed on ${filingDate}.`;
+  return null;
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { WAGE_TABLE_SOURCES, isACWIAWageSource, wageTableForJob } from './wageTables';
+
+describe('wageTableForJob', () => {
+  it('uses the ACWIA table for positions marked ACWIA', () => {
+    expect(wageTableForJob({ isRD: true })).toBe('acwia');
+    expect(wageTableForJob({ isRD: false })).toBe('general');
+    expect(wageTableForJob()).toBe('general');
+  });
+});
+
+describe('isACWIAWageSource', () => {
+  it('recognizes the ACWIA wage source only', () => {
+    expect(isACWIAWageSource(WAGE_TABLE_SOURCES.acwia)).toBe(true);
+    expect(isACWIAWageSource(WAGE_TABLE_SOURCES.general)).toBe(false);
+    expect(isACWIAWageSource(null)).toBe(false);
+  });
+});
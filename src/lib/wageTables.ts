@@ -0,0 +1,32 @@
+import type { JobDetails } from '@/types/paf';
+
+/**
+ * OFLC prevailing wage tables.
+ *
+ * The general (all industries) table covers most employers. Institutions of
+ * higher education, their affiliated nonprofits and nonprofit or government
+ * research organizations use the ACWIA table instead (20 CFR 655.731(a)(2)(vii)).
+ * Both are imported into oflc_prevailing_wages, told apart by table_type.
+ */
+
+export type WageTableType = 'general' | 'acwia';
+
+export const WAGE_TABLE_LABELS: Record<WageTableType, string> = {
+  general: 'All Industries',
+  acwia: 'ACWIA - Higher Education',
+};
+
+// wage_source values recorded on the PAF for each table
+export const WAGE_TABLE_SOURCES: Record<WageTableType, string> = {
+  general: 'OES',
+  acwia: 'OES-ACWIA',
+};
+
+/** The table a position's prevailing wage comes from. */
+export function wageTableForJob(job?: Partial<Pick<JobDetails, 'isRD'>>): WageTableType {
+  return job?.isRD ? 'acwia' : 'general';
+}
+
+export function isACWIAWageSource(wageSource?: string | null): boolean {
+  return wageSource === WAGE_TABLE_SOURCES.acwia;
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { resolveWageYear, wageSourceYearMismatch, wageYearForDate, wageYearStartDate } from './wageYear';
+
+describe('wageYearForDate', () => {
+  it('starts a wage year on July 1', () => {
+    expect(wageYearForDate('2024-06-30')).toBe('2023-2024');
+    expect(wageYearForDate('2024-07-01')).toBe('2024-2025');
+    expect(wageYearForDate('2024-12-31')).toBe('2024-2025');
+    expect(wageYearForDate('2025-01-01')).toBe('2024-2025');
+  });
+
+  it('takes Date objects', () => {
+    expect(wageYearForDate(new Date(2025, 6, 1))).toBe('2025-2026');
+  });
+
+  it('is null for an invalid date', () => {
+    expect(wageYearForDate('not a date')).toBeNull();
+  });
+});
+
+describe('wageYearStartDate', () => {
+  it('is July 1 of the first year', () => {
+    expect(wageYearStartDate('2024-2025')).toBe('2024-07-01');
+  });
+});
+
+describe('resolveWageYear', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses the LCA received date', () => {
+    expect(resolveWageYear('2025-06-30', ['2024-2025'])).toEqual({
+      wageYear: '2024-2025',
+      sourceDate: '2024-07-01',
+      isLoaded: true,
+      basis: 'received_date',
+    });
+  });
+
+  it('reports a wage year without loaded wage data', () => {
+    expect(resolveWageYear('2025-07-01', ['2024-2025'])).toMatchObject({ wageYear: '2025-2026', isLoaded: false });
+  });
+
+  it('falls back to today for an LCA not yet filed', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 6, 1, 12));
+
+    expect(resolveWageYear(null, [])).toEqual({
+      wageYear: '2026-2027',
+      sourceDate: '2026-07-01',
+      isLoaded: false,
+      basis: 'today',
+    });
+  });
+});
+
+describe('wageSourceYearMismatch', () => {
+  it('is null when both dates are in the same wage year', () => {
+    expect(wageSourceYearMismatch('2024-07-01', '2025-06-30')).toBeNull();
+  });
+
+  it('describes dates on either side of July 1', () => {
+    expect(wageSourceYearMismatch('2024-07-01', '2025-07-01')).toBe(
+      'The wage source date 2024-07-01 is in the 2024-2025 wage year, but the LCA was received on 2025-07-01, in the 2025-2026 wage year.'
+    );
+  });
+
+  it('is null when either date is unknown', () => {
+    expect(wageSourceYearMismatch(null, '2025-07-01')).toBeNull();
+    expect(wageSourceYearMismatch('2024-07-01', undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { parseISO, isValid, format } from 'date-fns';
+
+/**
+ * OFLC prevailing wage years.
+ *
+ * A wage year ('2024-2025') runs from July 1 to June 30. The prevailing wage
+ * on an LCA comes from the wage year in effect when the LCA was filed, so
+ * the year is resolved from the LCA received date, not the begin date.
+ */
+
+export interface WageYearResolution {
+  wageYear: string;
+  // July 1 of the wage year, used as the PAF's wage source date
+  sourceDate: string;
+  // Whether oflc_prevailing_wages has data for this year
+  isLoaded: boolean;
+  // How the year was determined
+  basis: 'received_date' | 'today';
+}
+
+function parseDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+/** The wage year in effect on a date ('2025-03-01' → '2024-2025'). */
+export function wageYearForDate(date: string | Date): string | null {
+  const parsed = typeof date === 'string' ? parseDate(date) : date;
+  if (!parsed) return null;
+  const startYear = parsed.getMonth() >= 6 ? parsed.getFullYear() : parsed.getFullYear() - 1;
+  return `${startYear}-${startYear + 1}`;
+}
+
+/** July 1 of the wage year's first year ('2024-2025' → '2024-07-01'). */
+export function wageYearStartDate(wageYear: string): string {
+  return `${wageYear.split('-')[0]}-07-01`;
+}
+
+/**
+ * Resolves the wage year for an LCA from its received date, or from today
+ * for LCAs that haven't been filed yet.
+ */
+export function resolveWageYear(lcaReceivedDate: string | null | undefined, loadedYears: string[]): WageYearResolution {
+  const fromReceived = lcaReceivedDate ? wageYearForDate(lcaReceivedDate) : null;
+  const wageYear = fromReceived ?? (wageYearForDate(format(new Date(), 'yyyy-MM-dd')) as string);
+  return {
+    wageYear,
+    sourceDate: wageYearStartDate(wageYear),
+    isLoaded: loadedYears.includes(wageYear),
+    basis: fromReceived ? 'received_date' : 'today',
+  };
+}
+
+/**
+ * Describes a wage source date from a different wage year than the LCA
+ * received date, or null when they agree (or either is unknown).
+ */
+export function wageSourceYearMismatch(wageSourceDate?: string | null, lcaReceivedDate?: string | null): string | null {
+  const sourceYear = wageSourceDate ? wageYearForDate(wageSourceDate) : null;
+  const expectedYear = lcaReceivedDate ? wageYearForDate(lcaReceivedDate) : null;
+  if (!sourceYear || !expectedYear || sourceYear === expectedYear) return null;
+  return `The wage source date ${wageSourceDate} is in the ${sourceYear} wage year, but the LCA was received on ${lcaReceivedDate}, in the ${expectedYear} wage year.`;
+}
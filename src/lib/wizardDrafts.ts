@@ -0,0 +1,173 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+/**
+ * Auto-saved state of the create wizard, kept in paf_wizard_drafts.
+ *
+ * The wizard's data is plain JSON except for the files the user uploaded
+ * (the LCA, posting proof, wage source document, ...). Those are copied to
+ * the paf-documents bucket and stored as references, which are downloaded
+ * back into File objects on resume. A file is uploaded once per draft; later
+ * saves reuse the stored copy.
+ */
+
+export type WizardDraft = Tables<'paf_wizard_drafts'>;
+export type WizardMode = 'lca' | 'manual';
+
+export interface WizardDraftState<T> {
+  mode: WizardMode;
+  currentStep: number;
+  title: string | null;
+  data: T;
+  selectedLca: unknown;
+  scannedFields: unknown;
+}
+
+interface StoredFile {
+  $file: { path: string; name: string; type: string; lastModified: number };
+}
+
+const BUCKET = 'paf-documents';
+
+const draftFolder = (draftId: string) => `wizard-drafts/${draftId}`;
+
+// Storage path of each File already uploaded, so unchanged files aren't sent again
+const uploadedPaths = new WeakMap<File, string>();
+
+function isStoredFile(value: unknown): value is StoredFile {
+  return typeof value === 'object' && value !== null && '$file' in value;
+}
+
+async function storeFiles(value: unknown, folder: string, paths: string[]): Promise<Json> {
+  if (value instanceof File) {
+    let path = uploadedPaths.get(value);
+    if (!path?.startsWith(`${folder}/`)) {
+      const ext = value.name.split('.').pop() || 'pdf';
+      path = `${folder}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+      const { error } = await supabase.storage
+        .from(BUCKET)
+        .upload(path, value, { contentType: value.type || undefined });
+      if (error) throw error;
+      uploadedPaths.set(value, path);
+    }
+    paths.push(path);
+    return { $file: { path, name: value.name, type: value.type, lastModified: value.lastModified } };
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => storeFiles(item, folder, paths)));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = await Promise.all(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(async ([key, item]) => [key, await storeFiles(item, folder, paths)] as const),
+    );
+    return Object.fromEntries(entries);
+  }
+  return (value ?? null) as Json;
+}
+
+async function restoreFiles(value: Json): Promise<unknown> {
+  if (isStoredFile(value)) {
+    const { path, name, type, lastModified } = value.$file;
+    const { data, error } = await supabase.storage.from(BUCKET).download(path);
+    if (error) throw error;
+    const file = new File([data], name, { type, lastModified });
+    uploadedPaths.set(file, path);
+    return file;
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(restoreFiles));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await restoreFiles(item ?? null)] as const),
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+async function removeFiles(draftId: string, keep: string[] = []): Promise<void> {
+  const folder = draftFolder(draftId);
+  const { data: files, error } = await supabase.storage.from(BUCKET).list(folder);
+  if (error) throw error;
+
+  const stale = files.map((file) => `${folder}/${file.name}`).filter((path) => !keep.includes(path));
+  if (stale.length === 0) return;
+  const { error: removeError } = await supabase.storage.from(BUCKET).remove(stale);
+  if (removeError) throw removeError;
+}
+
+/** Saves the wizard state into the draft, creating it if needed; returns the draft's id. */
+export async function saveWizardDraft<T>(
+  draftId: string | null,
+  employerId: string,
+  state: WizardDraftState<T>,
+): Promise<string> {
+  let id = draftId;
+  if (!id) {
+    const { data, error } = await supabase
+      .from('paf_wizard_drafts')
+      .insert({ employer_id: employerId, mode: state.mode })
+      .select('id')
+      .single();
+    if (error) throw error;
+    id = data.id;
+  }
+
+  const paths: string[] = [];
+  const folder = draftFolder(id);
+  const { error } = await supabase
+    .from('paf_wizard_drafts')
+    .update({
+      current_step: state.currentStep,
+      title: state.title,
+      data: await storeFiles(state.data, folder, paths),
+      selected_lca: await storeFiles(state.selectedLca, folder, paths),
+      scanned_fields: await storeFiles(state.scannedFields, folder, paths),
+    })
+    .eq('id', id);
+  if (error) throw error;
+
+  // Files the user has since replaced or removed
+  await removeFiles(id, paths);
+  return id;
+}
+
+/** Loads a draft with its files downloaded back into File objects. */
+export async function loadWizardDraft<T>(draftId: string): Promise<WizardDraftState<T>> {
+  const { data: draft, error } = await supabase
+    .from('paf_wizard_drafts')
+    .select('*')
+    .eq('id', draftId)
+    .single();
+  if (error) throw error;
+
+  return {
+    mode: draft.mode as WizardMode,
+    currentStep: draft.current_step,
+    title: draft.title,
+    data: (await restoreFiles(draft.data)) as T,
+    selectedLca: await restoreFiles(draft.selected_lca),
+    scannedFields: await restoreFiles(draft.scanned_fields),
+  };
+}
+
+export async function fetchWizardDrafts(employerId: string, userId: string): Promise<WizardDraft[]> {
+  const { data, error } = await supabase
+    .from('paf_wizard_drafts')
+    .select('*')
+    .eq('employer_id', employerId)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteWizardDraft(draftId: string): Promise<void> {
+  await removeFiles(draftId);
+  const { error } = await supabase.from('paf_wizard_drafts').delete().eq('id', draftId);
+  if (error) throw error;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { SecondaryWageInfo, SecondaryWorksite } from '@/types/paf';
+import { isInDifferentWageArea, secondaryWorksiteLabel, secondaryWorksites, secondaryWorksiteWages } from './worksites';
+
+const austin = { state: 'TX', county: 'Travis County', areaCode: '12420' };
+
+const dallas: SecondaryWorksite = {
+  address1: '1 Client Plaza',
+  city: 'Dallas',
+  state: 'TX',
+  postalCode: '75201',
+  county: 'Dallas County',
+  areaCode: '19124',
+};
+
+const dallasWage: SecondaryWageInfo = {
+  prevailingWage: 130000,
+  prevailingWageUnit: 'Year',
+  wageLevel: 'Level II',
+  wageSource: 'OES',
+  wageSourceDate: '2024-07-01',
+};
+
+describe('secondaryWorksites', () => {
+  it('is empty without Appendix A worksites', () => {
+    expect(secondaryWorksites()).toEqual([]);
+    expect(secondaryWorksites(austin)).toEqual([]);
+  });
+});
+
+describe('secondaryWorksiteLabel', () => {
+  it('numbers worksites only when there are several', () => {
+    expect(secondaryWorksiteLabel(0, 1)).toBe('Secondary Worksite');
+    expect(secondaryWorksiteLabel(1, 3)).toBe('Secondary Worksite 2');
+  });
+});
+
+describe('isInDifferentWageArea', () => {
+  it('compares the wage area codes when both are known', () => {
+    expect(isInDifferentWageArea(austin, dallas)).toBe(true);
+    // Williamson County shares the Austin wage area
+    expect(isInDifferentWageArea(austin, { state: 'TX', county: 'Williamson County', areaCode: '12420' })).toBe(false);
+  });
+
+  it('falls back to the county and state', () => {
+    expect(isInDifferentWageArea({ state: 'TX', county: 'Travis County' }, { state: 'TX', county: 'Dallas County' })).toBe(true);
+    expect(isInDifferentWageArea({ state: 'TX', county: 'Travis County' }, { state: 'TX', county: 'Travis County' })).toBe(false);
+  });
+
+  it('assumes the primary area for a worksite without a county', () => {
+    expect(isInDifferentWageArea(austin, { state: 'TX' })).toBe(false);
+  });
+});
+
+describe('secondaryWorksiteWages', () => {
+  it('lists the worksites with their own wage under their Appendix A labels', () => {
+    const plano: SecondaryWorksite = { ...dallas, city: 'Plano', postalCode: '75024', county: 'Collin County' };
+    const worksite = { ...austin, secondaryWorksites: [plano, { ...dallas, wage: dallasWage }] };
+
+    expect(secondaryWorksiteWages(worksite)).toEqual([
+      { label: 'Secondary Worksite 2', worksite: { ...dallas, wage: dallasWage }, wage: dallasWage },
+    ]);
+  });
+});
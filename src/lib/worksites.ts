@@ -0,0 +1,38 @@
+import type { SecondaryWageInfo, SecondaryWorksite, WorksiteLocation } from '@/types/paf';
+
+/**
+ * Places of employment on an LCA.
+ *
+ * Section F of the ETA-9035 lists the primary worksite; Appendix A lists any
+ * number of additional worksites. Each additional worksite in a different
+ * wage area carries its own prevailing wage; the rest share the primary wage.
+ */
+
+export function secondaryWorksites(worksite?: Partial<WorksiteLocation>): SecondaryWorksite[] {
+  return worksite?.secondaryWorksites ?? [];
+}
+
+/** 'Secondary Worksite' when there is only one, otherwise numbered in Appendix A order. */
+export function secondaryWorksiteLabel(index: number, count: number): string {
+  return count > 1 ? `Secondary Worksite ${index + 1}` : 'Secondary Worksite';
+}
+
+/** Whether the secondary worksite lies in another wage area, so needs its own prevailing wage. */
+export function isInDifferentWageArea(
+  primary: Partial<Pick<WorksiteLocation, 'areaCode' | 'county' | 'state'>>,
+  secondary: Partial<Pick<SecondaryWorksite, 'areaCode' | 'county' | 'state'>>
+): boolean {
+  if (primary.areaCode && secondary.areaCode) return primary.areaCode !== secondary.areaCode;
+  if (!secondary.county) return false;
+  return secondary.county !== primary.county || secondary.state !== primary.state;
+}
+
+/** Secondary worksites with a prevailing wage of their own, with their labels. */
+export function secondaryWorksiteWages(
+  worksite?: Partial<WorksiteLocation>
+): { label: string; worksite: SecondaryWorksite; wage: SecondaryWageInfo }[] {
+  const all = secondaryWorksites(worksite);
+  return all.flatMap((site, index) =>
+    site.wage ? [{ label: secondaryWorksiteLabel(index, all.length), worksite: site, wage: site.wage }] : []
+  );
+}
@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { setPDFRuntime } from "./lib/pdf/runtime";
+import { browserPDFRuntime } from "./lib/pdf/browserRuntime";
 import "./index.css";
 
+setPDFRuntime(browserPDFRuntime);
+
 createRoot(document.getElementById("root")!).render(<App />);
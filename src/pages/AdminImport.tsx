@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { Upload, FileSpreadsheet, CheckCircle, AlertCircle, Loader2, Database, RefreshCw } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { WAGE_TABLE_LABELS, type WageTableType } from "@/lib/wageTables";
 
 const WAGE_YEARS = [
   { label: '2025-2026', value: '2025-2026', url: 'https://flag.dol.gov/sites/default/files/wages/OFLC_Wages_2025-26.zip', totalRows: 451984 },
@@ -21,6 +22,11 @@ const WAGE_YEARS = [
   { label: '2019-2020', value: '2019-2020', url: 'https://flag.dol.gov/sites/default/files/wages/OFLC_Wages_2019-20.zip', totalRows: 436442 },
 ];
 
+// Import status is tracked per wage year and table
+function wageStatusKey(wageYear: string, tableType: WageTableType): string {
+  return tableType === 'acwia' ? `${wageYear}:acwia` : wageYear;
+}
+
 export default function AdminImport() {
   // LCA import state
   const [isUploading, setIsUploading] = useState(false);
@@ -191,28 +197,32 @@ export default function AdminImport() {
     }
   };
 
-  const importWageYear = async (year: typeof WAGE_YEARS[0], skipRows = 0, clearExisting = false) => {
+  const importWageYear = async (year: typeof WAGE_YEARS[0], skipRows = 0, clearExisting = false, tableType: WageTableType = 'general') => {
+    const statusKey = wageStatusKey(year.value, tableType);
+    const label = tableType === 'acwia' ? `${year.label} ACWIA` : year.label;
     setWageImportStatus(prev => ({
       ...prev,
-      [year.value]: { status: 'importing', skipRows, message: `Importing from row ${skipRows}...` }
+      [statusKey]: { status: 'importing', skipRows, message: `Importing from row ${skipRows}...` }
     }));
 
     try {
       const { data, error } = await supabase.functions.invoke('import-wage-data', {
-        body: { zipUrl: year.url, wageYear: year.value, skipRows, clearExisting }
+        body: { zipUrl: year.url, wageYear: year.value, skipRows, clearExisting, tableType }
       });
 
       if (error) throw new Error(error.message);
       if (!data.success) throw new Error(data.error || 'Import failed');
 
       const nextSkip = data.nextSkipRows || (skipRows + data.recordCount);
-      const isDone = nextSkip >= year.totalRows;
+      // The ACWIA table's size varies by year, so rely on the row count the function read
+      const totalRows = tableType === 'acwia' ? data.totalRowsInFile : year.totalRows;
+      const isDone = nextSkip >= totalRows;
 
       if (isDone) {
         // Patch area names after full import
         setWageImportStatus(prev => ({
           ...prev,
-          [year.value]: { status: 'patching', rowCount: nextSkip, message: 'Patching area names...' }
+          [statusKey]: { status: 'patching', rowCount: nextSkip, message: 'Patching area names...' }
         }));
 
         const { data: patchData, error: patchError } = await supabase.functions.invoke('patch-wage-area-names', {
@@ -220,31 +230,31 @@ export default function AdminImport() {
         });
 
         if (patchError || !patchData?.success) {
-          toast.warning(`${year.label} imported but area name patch failed`);
+          toast.warning(`${label} imported but area name patch failed`);
         }
 
         setWageImportStatus(prev => ({
           ...prev,
-          [year.value]: { status: 'done', rowCount: nextSkip, message: `Complete — ${nextSkip.toLocaleString()} rows` }
+          [statusKey]: { status: 'done', rowCount: nextSkip, message: `Complete — ${nextSkip.toLocaleString()} rows` }
         }));
-        toast.success(`${year.label} wage data fully imported`);
+        toast.success(`${label} wage data fully imported`);
       } else {
         // More rows remain — continue automatically
         setWageImportStatus(prev => ({
           ...prev,
-          [year.value]: { status: 'importing', skipRows: nextSkip, rowCount: nextSkip, message: `${nextSkip.toLocaleString()} / ~${year.totalRows.toLocaleString()} rows...` }
+          [statusKey]: { status: 'importing', skipRows: nextSkip, rowCount: nextSkip, message: `${nextSkip.toLocaleString()} / ~${totalRows.toLocaleString()} rows...` }
         }));
-        toast.info(`${year.label}: ${nextSkip.toLocaleString()} rows done, continuing...`);
+        toast.info(`${label}: ${nextSkip.toLocaleString()} rows done, continuing...`);
         // Continue automatically
-        await importWageYear(year, nextSkip, false);
+        await importWageYear(year, nextSkip, false, tableType);
       }
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Unknown error';
       setWageImportStatus(prev => ({
         ...prev,
-        [year.value]: { status: 'error', message: msg }
+        [statusKey]: { status: 'error', message: msg }
       }));
-      toast.error(`${year.label} import failed: ${msg}`);
+      toast.error(`${label} import failed: ${msg}`);
     }
   };
 
@@ -299,44 +309,70 @@ export default function AdminImport() {
             <CardDescription>
               Import FLAG.gov OFLC wage tables for each year. Rows are upserted so re-running is safe.
               Each year ~450K rows — the import automatically continues in chunks until complete.
+              The ACWIA table (higher education and research employers) is imported separately for each year.
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
               {WAGE_YEARS.map((year) => {
                 const st = wageImportStatus[year.value];
+                const acwiaSt = wageImportStatus[wageStatusKey(year.value, 'acwia')];
                 const busy = st?.status === 'importing' || st?.status === 'patching';
+                const acwiaBusy = acwiaSt?.status === 'importing' || acwiaSt?.status === 'patching';
                 return (
-                  <div key={year.value} className="flex items-center gap-3 p-3 rounded-lg border bg-card">
-                    <div className="w-24 shrink-0">
-                      <span className="font-mono font-medium text-sm">{year.label}</span>
-                    </div>
-                    <div className="flex-1 text-sm text-muted-foreground">
-                      {st ? st.message : `~${year.totalRows.toLocaleString()} rows`}
-                    </div>
-                    <div className="flex items-center gap-2">
-                      {st?.status === 'done' && <Badge variant="secondary" className="text-xs">✓ Done</Badge>}
-                      {st?.status === 'error' && <Badge variant="destructive" className="text-xs">Error</Badge>}
-                      {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        disabled={busy}
-                        onClick={() => importWageYear(year, 0, false)}
-                      >
-                        {busy ? 'Running...' : st?.status === 'done' ? 'Re-import' : 'Import'}
-                      </Button>
-                      {(st?.status === 'done' || st?.status === 'error') && (
+                  <div key={year.value} className="p-3 rounded-lg border bg-card space-y-2">
+                    <div className="flex items-center gap-3">
+                      <div className="w-24 shrink-0">
+                        <span className="font-mono font-medium text-sm">{year.label}</span>
+                      </div>
+                      <div className="flex-1 text-sm text-muted-foreground">
+                        {st ? st.message : `~${year.totalRows.toLocaleString()} rows`}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {st?.status === 'done' && <Badge variant="secondary" className="text-xs">✓ Done</Badge>}
+                        {st?.status === 'error' && <Badge variant="destructive" className="text-xs">Error</Badge>}
+                        {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
                         <Button
                           size="sm"
-                          variant="ghost"
+                          variant="outline"
                           disabled={busy}
-                          onClick={() => patchAreaNames(year)}
-                          title="Re-run area name patch only"
+                          onClick={() => importWageYear(year, 0, false)}
                         >
-                          <RefreshCw className="h-3 w-3" />
+                          {busy ? 'Running...' : st?.status === 'done' ? 'Re-import' : 'Import'}
                         </Button>
-                      )}
+                        {(st?.status === 'done' || st?.status === 'error') && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={busy}
+                            onClick={() => patchAreaNames(year)}
+                            title="Re-run area name patch only"
+                          >
+                            <RefreshCw className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="w-24 shrink-0">
+                        <Badge variant="outline" className="text-xs">ACWIA</Badge>
+                      </div>
+                      <div className="flex-1 text-sm text-muted-foreground">
+                        {acwiaSt ? acwiaSt.message : WAGE_TABLE_LABELS.acwia}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {acwiaSt?.status === 'done' && <Badge variant="secondary" className="text-xs">✓ Done</Badge>}
+                        {acwiaSt?.status === 'error' && <Badge variant="destructive" className="text-xs">Error</Badge>}
+                        {acwiaBusy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={acwiaBusy}
+                          onClick={() => importWageYear(year, 0, false, 'acwia')}
+                        >
+                          {acwiaBusy ? 'Running...' : acwiaSt?.status === 'done' ? 'Re-import' : 'Import'}
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 );
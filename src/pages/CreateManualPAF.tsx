@@ -1,7 +1,13 @@
+import { useSearchParams } from 'react-router-dom';
 import { Layout } from '@/components/layout/Layout';
 import { PAFWizard } from '@/components/wizard/PAFWizard';
+import { useActiveEmployer } from '@/hooks/useEmployer';
 
 export default function CreateManualPAF() {
+  const employer = useActiveEmployer();
+  const [searchParams] = useSearchParams();
+  const draftId = searchParams.get('draft') ?? undefined;
+
   return (
     <Layout>
       <div className="bg-muted/30 py-8 border-b border-border">
@@ -14,7 +20,7 @@ export default function CreateManualPAF() {
       </div>
 
       <div className="container mx-auto px-4 py-8">
-        <PAFWizard mode="manual" />
+        <PAFWizard key={`${employer.id}-${draftId}`} mode="manual" draftId={draftId} />
       </div>
     </Layout>
   );
@@ -6,22 +6,39 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft, Download, FileText, Save, Pencil, X, Upload, Loader2, CheckCircle, AlertCircle, Calendar } from 'lucide-react';
+import { ArrowLeft, RefreshCw, Download, FileText, Save, Pencil, X, Upload, Loader2, CheckCircle, AlertCircle, Calendar, History, RotateCcw, Lock } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { downloadPAF } from '@/lib/pdfGenerator';
-import type { PAFData } from '@/types/paf';
+import { downloadStoredPAF, regeneratePAF } from '@/lib/pafVersions';
+import { pafAttachmentPath, pafRecordToPAFData, pafRecordToSupportingDocs, type PAFRecordRow } from '@/lib/pafRecord';
+import { evaluateCompliance, blockingFindings, complianceOverrideColumns, unoverriddenFindings } from '@/lib/complianceRules';
+import { ComplianceReport } from '@/components/compliance/ComplianceReport';
+import { LCAReconciliationSummary } from '@/components/compliance/LCAReconciliationSummary';
+import { recordedLCAReconciliation } from '@/lib/lcaReconciliation';
+import { proposePostingEndDate } from '@/lib/businessDays';
+import { wageYearForDate, wageSourceYearMismatch } from '@/lib/wageYear';
+import { wageSourceLabel, wageSourceType } from '@/lib/wageSources';
+import { fetchPAFRevisions, restorePAFRevision, diffRevisionData, formatRevisionValue, type PAFRevision } from '@/lib/pafRevisions';
+import { useRoles } from '@/hooks/useRoles';
+import { PAFReviewCard } from '@/components/review/PAFReviewCard';
+import { isLockedStatus, PAF_STATUS_LABELS } from '@/lib/pafReview';
+import { areaForCounty } from '@/lib/areaResolver';
+import { loadGeography } from '@/lib/dataLoader';
+import type { GeographyArea } from '@/types/paf';
 import { toast } from 'sonner';
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 
 // LCA Status Card with re-upload capability + post remove date
-function LCAStatusCard({ pafRecord, pafId }: { pafRecord: any; pafId: string }) {
+function LCAStatusCard({ pafRecord, pafId, canEdit }: { pafRecord: PAFRecordRow; pafId: string; canEdit: boolean }) {
   const queryClient = useQueryClient();
   const lcaStatus = pafRecord.lca_status || 'certified';
   const isInProcess = lcaStatus === 'in_process';
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [postRemoveDate, setPostRemoveDate] = useState(pafRecord.notice_posting_end_date || '');
+  const earliestRemoveDate = proposePostingEndDate(
+    [pafRecord.notice_posting_start_date, pafRecord.notice_posting_start_date2].filter(Boolean).sort().pop()
+  );
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -57,9 +74,17 @@ function LCAStatusCard({ pafRecord, pafId }: { pafRecord: any; pafId: string })
         return;
       }
 
-      // Update the PAF record: status to certified, case number, and post remove date
+      // Keep the certified LCA with the record so regenerated PAFs include it
+      const lcaFilePath = pafAttachmentPath(pafId, uploadedFile.name);
+      const { error: lcaUploadError } = await supabase.storage
+        .from('paf-documents')
+        .upload(lcaFilePath, uploadedFile, { contentType: uploadedFile.type });
+      if (lcaUploadError) throw lcaUploadError;
+
+      // Update the PAF record: status to certified, LCA file, case number, and post remove date
       const updates: Record<string, unknown> = {
         lca_status: 'certified',
+        lca_file_path: lcaFilePath,
       };
       if (scanData.caseNumber) updates.lca_case_number = scanData.caseNumber;
       if (postRemoveDate) updates.notice_posting_end_date = postRemoveDate;
@@ -126,57 +151,62 @@ function LCAStatusCard({ pafRecord, pafId }: { pafRecord: any; pafId: string })
               </div>
             </div>
 
-            <div className="space-y-3">
-              <Label>Upload Certified LCA</Label>
-              <div className="flex gap-3">
-                <div className="relative flex-1">
+            {canEdit && (
+              <>
+                <div className="space-y-3">
+                  <Label>Upload Certified LCA</Label>
+                  <div className="flex gap-3">
+                    <div className="relative flex-1">
+                      <Input
+                        type="file"
+                        accept=".pdf"
+                        onChange={handleFileChange}
+                        className="cursor-pointer"
+                      />
+                    </div>
+                  </div>
+                  {uploadedFile && (
+                    <p className="text-xs text-muted-foreground">
+                      Selected: {uploadedFile.name} ({(uploadedFile.size / 1024).toFixed(1)} KB)
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="postRemoveDate">LCA Post Remove Date</Label>
                   <Input
-                    type="file"
-                    accept=".pdf"
-                    onChange={handleFileChange}
-                    className="cursor-pointer"
+                    id="postRemoveDate"
+                    type="date"
+                    value={postRemoveDate}
+                    onChange={(e) => setPostRemoveDate(e.target.value)}
+                    className="max-w-xs"
                   />
+                  <p className="text-xs text-muted-foreground">
+                    Date the LCA notice was removed (after 10 business days)
+                    {earliestRemoveDate && ` — earliest: ${new Date(`${earliestRemoveDate}T00:00:00`).toLocaleDateString()}`}
+                  </p>
                 </div>
-              </div>
-              {uploadedFile && (
-                <p className="text-xs text-muted-foreground">
-                  Selected: {uploadedFile.name} ({(uploadedFile.size / 1024).toFixed(1)} KB)
-                </p>
-              )}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="postRemoveDate">LCA Post Remove Date</Label>
-              <Input
-                id="postRemoveDate"
-                type="date"
-                value={postRemoveDate}
-                onChange={(e) => setPostRemoveDate(e.target.value)}
-                className="max-w-xs"
-              />
-              <p className="text-xs text-muted-foreground">
-                Date the LCA notice was removed (after 10 business days)
-              </p>
-            </div>
 
-            <Button
-              onClick={handleUploadCertifiedLCA}
-              disabled={!uploadedFile || isUploading}
-              variant="wizard"
-              className="w-full"
-            >
-              {isUploading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Scanning & Certifying...
-                </>
-              ) : (
-                <>
-                  <Upload className="mr-2 h-4 w-4" />
-                  Upload Certified LCA & Close Posting
-                </>
-              )}
-            </Button>
+                <Button
+                  onClick={handleUploadCertifiedLCA}
+                  disabled={!uploadedFile || isUploading}
+                  variant="wizard"
+                  className="w-full"
+                >
+                  {isUploading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Scanning & Certifying...
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload Certified LCA & Close Posting
+                    </>
+                  )}
+                </Button>
+              </>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
@@ -202,6 +232,8 @@ function LCAStatusCard({ pafRecord, pafId }: { pafRecord: any; pafId: string })
                 <p className="text-muted-foreground">Post Remove Date</p>
                 {pafRecord.notice_posting_end_date ? (
                   <p className="font-medium">{new Date(pafRecord.notice_posting_end_date).toLocaleDateString()}</p>
+                ) : !canEdit ? (
+                  <p className="font-medium text-muted-foreground">Not set</p>
                 ) : (
                   <div className="flex gap-2 items-end">
                     <Input
@@ -225,12 +257,115 @@ function LCAStatusCard({ pafRecord, pafId }: { pafRecord: any; pafId: string })
   );
 }
 
+// Revision history with field-level diffs and restore
+function RevisionHistoryCard({ pafId, canEdit }: { pafId: string; canEdit: boolean }) {
+  const queryClient = useQueryClient();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const { data: revisions, isLoading } = useQuery({
+    // Nested under the record's key so every save also refreshes the history
+    queryKey: ['paf-record', pafId, 'revisions'],
+    queryFn: () => fetchPAFRevisions(pafId),
+  });
+
+  const handleRestore = async (revision: PAFRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await restorePAFRevision(revision.id);
+      queryClient.invalidateQueries({ queryKey: ['paf-record', pafId] });
+      toast.success(`Restored revision ${revision.revision}`);
+    } catch (err) {
+      console.error('Restore error:', err);
+      toast.error('Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !revisions || revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded yet.</p>
+        ) : (
+          <div className="divide-y">
+            {revisions.map((revision, index) => {
+              // Revisions are newest first, so the previous one is next in the list
+              const previous = revisions[index + 1];
+              const changes = diffRevisionData(previous?.data ?? null, revision.data);
+              const isLatest = index === 0;
+
+              return (
+                <div key={revision.id} className="py-4 first:pt-0 last:pb-0">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        Revision {revision.revision}
+                        {isLatest && <Badge variant="outline">Current</Badge>}
+                        {revision.restored_from_revision && (
+                          <Badge variant="secondary">Restored from revision {revision.restored_from_revision}</Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {revision.operation === 'INSERT' ? 'Created' : 'Updated'}{' '}
+                        {new Date(revision.changed_at).toLocaleString()}
+                        {' by '}
+                        {revision.changed_by_email || (revision.changed_by ? 'unknown user' : 'system')}
+                      </p>
+                    </div>
+                    {!isLatest && canEdit && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                      >
+                        {restoringId === revision.id ? (
+                          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                        ) : (
+                          <RotateCcw className="mr-1 h-3 w-3" />
+                        )}
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  {previous && changes.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {changes.map((change) => (
+                        <li key={change.field}>
+                          <span className="text-muted-foreground">{change.label}:</span>{' '}
+                          <span className="line-through text-destructive/80">{formatRevisionValue(change.from)}</span>
+                          {' → '}
+                          <span className="font-medium">{formatRevisionValue(change.to)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function EditPAF() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [isEditing, setIsEditing] = useState(false);
   const [workerName, setWorkerName] = useState('');
+  const { hasRole } = useRoles();
 
   const { data: pafRecord, isLoading, error } = useQuery({
     queryKey: ['paf-record', id],
@@ -249,6 +384,41 @@ export default function EditPAF() {
     enabled: !!id,
   });
 
+  // The received date isn't stored on the record; it comes from the disclosure row
+  const { data: lcaReceivedDate } = useQuery({
+    queryKey: ['lca-received-date', pafRecord?.lca_case_number],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('lca_disclosure')
+        .select('received_date')
+        .eq('case_number', pafRecord?.lca_case_number ?? '')
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.received_date ?? null;
+    },
+    enabled: !!pafRecord?.lca_case_number,
+  });
+
+  const [overrideReason, setOverrideReason] = useState('');
+  const findings = useMemo(() => {
+    if (!pafRecord) return [];
+    return evaluateCompliance(pafRecordToPAFData(pafRecord), {
+      ...pafRecordToSupportingDocs(pafRecord),
+      lcaReceivedDate: lcaReceivedDate || undefined,
+    });
+  }, [pafRecord, lcaReceivedDate]);
+  const errors = blockingFindings(findings);
+  // A recorded override only covers the rules it was given for; anything else needs a fresh one
+  const recordedOverrideRules = pafRecord?.compliance_override_reason ? pafRecord.compliance_override_rules : null;
+  const canOverride = hasRole('reviewer');
+  const isBlocked = unoverriddenFindings(errors, recordedOverrideRules).length > 0 && !(canOverride && overrideReason.trim());
+  const lcaReconciliation = recordedLCAReconciliation(pafRecord?.lca_reconciliation);
+  // PAFs in review or approved are locked by the database; approved ones are
+  // changed by revising them
+  const isLocked = !!pafRecord && isLockedStatus(pafRecord.status);
+  const canEdit = hasRole('preparer') && !isLocked;
+
   // Initialize workerName when data loads
   useState(() => {
     if (pafRecord?.worker_name) {
@@ -276,6 +446,34 @@ export default function EditPAF() {
     },
   });
 
+  const { data: geography } = useQuery({
+    queryKey: ['geography'],
+    queryFn: loadGeography,
+    staleTime: Infinity,
+  });
+  const areaMutation = useMutation({
+    mutationFn: async (area: GeographyArea) => {
+      const { error } = await supabase
+        .from('paf_records')
+        .update({
+          worksite_county: area.countyName,
+          worksite_area_code: area.areaCode,
+          worksite_area_name: area.areaName,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['paf-record', id] });
+      toast.success('Wage area updated');
+    },
+    onError: (error) => {
+      console.error('Area update error:', error);
+      toast.error('Failed to update wage area');
+    },
+  });
+
   const handleSave = () => {
     updateMutation.mutate({ worker_name: workerName });
   };
@@ -293,96 +491,40 @@ export default function EditPAF() {
   const handleDownload = async () => {
     if (!pafRecord) return;
 
-    // Map database record to PAFData structure
-    const pafData: PAFData = {
-      visaType: pafRecord.visa_type as PAFData['visaType'],
-      caseNumber: pafRecord.lca_case_number || undefined,
-      caseStatus: pafRecord.lca_status === 'in_process' ? 'In Process' : 'Certified',
-      isH1BDependent: pafRecord.is_h1b_dependent,
-      isWillfulViolator: pafRecord.is_willful_violator,
-      employer: {
-        legalBusinessName: pafRecord.employer_legal_name,
-        tradeName: pafRecord.employer_trade_name || undefined,
-        address1: pafRecord.employer_address1,
-        address2: pafRecord.employer_address2 || undefined,
-        city: pafRecord.employer_city,
-        state: pafRecord.employer_state,
-        postalCode: pafRecord.employer_postal_code,
-        country: pafRecord.employer_country,
-        telephone: pafRecord.employer_telephone,
-        fein: pafRecord.employer_fein,
-        naicsCode: pafRecord.employer_naics_code,
-        employeeName: pafRecord.worker_name || undefined,
-      },
-      contact: {
-        lastName: '',
-        firstName: '',
-        jobTitle: '',
-        address1: pafRecord.employer_address1,
-        city: pafRecord.employer_city,
-        state: pafRecord.employer_state,
-        postalCode: pafRecord.employer_postal_code,
-        country: pafRecord.employer_country,
-        telephone: pafRecord.employer_telephone,
-        email: '',
-      },
-      job: {
-        jobTitle: pafRecord.job_title,
-        socCode: pafRecord.soc_code,
-        socTitle: pafRecord.soc_title,
-        onetCode: pafRecord.onet_code || undefined,
-        onetTitle: pafRecord.onet_title || undefined,
-        isFullTime: pafRecord.is_full_time,
-        beginDate: pafRecord.begin_date,
-        endDate: pafRecord.end_date,
-        wageRateFrom: pafRecord.wage_rate_from,
-        wageRateTo: pafRecord.wage_rate_to || undefined,
-        wageUnit: pafRecord.wage_unit as PAFData['job']['wageUnit'],
-        workersNeeded: pafRecord.workers_needed,
-        isRD: pafRecord.is_rd || undefined,
-      },
-      worksite: {
-        address1: pafRecord.worksite_address1,
-        address2: pafRecord.worksite_address2 || undefined,
-        city: pafRecord.worksite_city,
-        state: pafRecord.worksite_state,
-        postalCode: pafRecord.worksite_postal_code,
-        county: pafRecord.worksite_county || undefined,
-        areaCode: pafRecord.worksite_area_code || undefined,
-        areaName: pafRecord.worksite_area_name || undefined,
-      },
-      wage: {
-        prevailingWage: pafRecord.prevailing_wage,
-        prevailingWageUnit: pafRecord.prevailing_wage_unit as PAFData['wage']['prevailingWageUnit'],
-        wageLevel: pafRecord.wage_level as PAFData['wage']['wageLevel'],
-        wageSource: pafRecord.wage_source,
-        wageSourceDate: pafRecord.wage_source_date,
-        actualWage: pafRecord.actual_wage,
-        actualWageUnit: pafRecord.actual_wage_unit as PAFData['wage']['actualWageUnit'],
-      },
-    };
-
-    // Build supportingDocs from stored posting data
-    const supportingDocs = {
-      lcaCaseNumber: pafRecord.lca_case_number || '',
-      lcaFile: null,
-      actualWageMemo: '',
-      noticePostingProof: null,
-      noticePostingStartDate: pafRecord.notice_posting_start_date || '',
-      noticePostingEndDate: pafRecord.notice_posting_end_date || '',
-      noticePostingLocation: pafRecord.notice_posting_location || '',
-      noticePostingLocation2: pafRecord.notice_posting_location2 || '',
-      benefitsComparisonFile: null,
-      benefitsNotes: '',
-    };
-
     try {
-      toast.loading('Generating PDF...', { id: 'download' });
-      await downloadPAF(pafData, supportingDocs);
+      toast.loading('Preparing PDF...', { id: 'download' });
+      await downloadStoredPAF(pafRecord.id);
+      queryClient.invalidateQueries({ queryKey: ['paf-record', id] });
       toast.success('PAF downloaded successfully', { id: 'download' });
     } catch (err) {
       console.error('Download error:', err);
-      toast.error('Failed to generate PAF document', { id: 'download' });
+      toast.error('Failed to download PAF document', { id: 'download' });
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!pafRecord) return;
+
+    try {
+      toast.loading('Generating new version...', { id: 'regenerate' });
+      let record = pafRecord;
+      if (errors.length > 0 && canOverride && overrideReason.trim()) {
+        const { data: updated, error: overrideError } = await supabase
+          .from('paf_records')
+          .update(complianceOverrideColumns({ reason: overrideReason, ruleIds: errors.map((e) => e.ruleId) }))
+          .eq('id', pafRecord.id)
+          .select('*')
+          .single();
+        if (overrideError) throw overrideError;
+        record = updated;
+        setOverrideReason('');
+      }
+      const { version } = await regeneratePAF(record);
+      queryClient.invalidateQueries({ queryKey: ['paf-record', id] });
+      toast.success(`Saved as version ${version.version}`, { id: 'regenerate' });
+    } catch (err) {
+      console.error('Regenerate error:', err);
+      toast.error('Failed to generate new version', { id: 'regenerate' });
     }
   };
 
@@ -417,6 +559,18 @@ export default function EditPAF() {
     );
   }
 
+  const wageYearMismatch = wageSourceType(pafRecord.wage_source) === 'oflc'
+    ? wageSourceYearMismatch(pafRecord.wage_source_date, lcaReceivedDate)
+    : null;
+  const countyArea = geography && pafRecord.worksite_county
+    ? areaForCounty(geography, pafRecord.worksite_state, pafRecord.worksite_county)
+    : undefined;
+  // The stored area disagrees with the OFLC area of the stored county
+  const suggestedArea = countyArea
+    && (countyArea.areaCode !== pafRecord.worksite_area_code || countyArea.countyName !== pafRecord.worksite_county)
+    ? countyArea
+    : null;
+
   return (
     <Layout>
       <div className="bg-muted/30 py-8 border-b border-border">
@@ -432,15 +586,26 @@ export default function EditPAF() {
               <h1 className="text-3xl font-bold text-foreground">{pafRecord.job_title}</h1>
               <p className="mt-2 text-muted-foreground">
                 {pafRecord.employer_legal_name} • {pafRecord.lca_case_number || 'No case number'}
+                {pafRecord.current_version ? ` • Version ${pafRecord.current_version}` : ''}
               </p>
             </div>
             <div className="flex gap-2">
-              {!isEditing && (
+              {!isEditing && canEdit && (
                 <Button onClick={handleStartEdit} variant="outline">
                   <Pencil className="mr-2 h-4 w-4" />
                   Edit
                 </Button>
               )}
+              {canEdit && (
+                <Button
+                  onClick={handleRegenerate}
+                  variant="outline"
+                  disabled={isBlocked}
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Regenerate
+                </Button>
+              )}
               <Button onClick={handleDownload} variant="wizard">
                 <Download className="mr-2 h-4 w-4" />
                 Download PAF
@@ -451,6 +616,37 @@ export default function EditPAF() {
       </div>
 
       <div className="container mx-auto px-4 py-8">
+        {isLocked && (
+          <div className="mb-6 flex items-center gap-2 rounded-lg border border-border bg-muted/50 p-4 text-sm text-muted-foreground">
+            <Lock className="h-4 w-4 shrink-0" />
+            This PAF is {PAF_STATUS_LABELS[pafRecord.status].toLowerCase()} and can no longer be edited.
+            {pafRecord.status === 'in_review' && ' It opens again for edits once the reviewer requests changes.'}
+            {pafRecord.status === 'approved' && ' Revise it to make changes in a new draft.'}
+          </div>
+        )}
+
+        <PAFReviewCard pafRecord={pafRecord} hasRole={hasRole} />
+
+        <div className="mb-6">
+          <ComplianceReport
+            findings={findings}
+            overrideReason={overrideReason}
+            onOverrideReasonChange={setOverrideReason}
+            canOverride={canOverride}
+            recordedOverride={pafRecord.compliance_override_reason ? {
+              reason: pafRecord.compliance_override_reason,
+              by: pafRecord.compliance_override_by_email,
+              at: pafRecord.compliance_override_at,
+            } : null}
+          />
+        </div>
+
+        {lcaReconciliation && (
+          <div className="mb-6">
+            <LCAReconciliationSummary reconciliation={lcaReconciliation} />
+          </div>
+        )}
+
         {/* Editable Worker Info Card */}
         <Card className="mb-6 border-2 border-primary/20">
           <CardHeader className="flex flex-row items-center justify-between">
@@ -569,7 +765,7 @@ export default function EditPAF() {
               </div>
               <div className="flex gap-2">
                 <Badge variant={pafRecord.is_full_time ? "default" : "secondary"}>
-                  {pafRecord.is_full_time ? 'Full-Time' : 'Part-Time'}
+                  {pafRecord.is_full_time ? 'Full-Time' : `Part-Time${pafRecord.hours_per_week ? ` (${pafRecord.hours_per_week} hrs/week)` : ''}`}
                 </Badge>
                 {pafRecord.is_rd && (
                   <Badge variant="outline">R&D</Badge>
@@ -605,6 +801,16 @@ export default function EditPAF() {
                   <p className="font-medium">{pafRecord.worksite_area_name}</p>
                 </div>
               )}
+              {suggestedArea && canEdit && (
+                <div className="rounded-md border border-warning/30 bg-warning/10 p-3 space-y-2">
+                  <p className="text-sm text-foreground">
+                    {suggestedArea.countyName} is in {suggestedArea.areaName} ({suggestedArea.areaCode}).
+                  </p>
+                  <Button size="sm" variant="outline" onClick={() => areaMutation.mutate(suggestedArea)} disabled={areaMutation.isPending}>
+                    Use this area
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -642,13 +848,34 @@ export default function EditPAF() {
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Wage Source</p>
-                <p className="font-medium">{pafRecord.wage_source}</p>
+                <p className="font-medium">{wageSourceLabel(pafRecord.wage_source)}</p>
+                {pafRecord.pwd_case_number && (
+                  <p className="text-xs text-muted-foreground">
+                    {pafRecord.pwd_case_number}
+                    {pafRecord.pwd_expiration_date && ` · valid through ${pafRecord.pwd_expiration_date}`}
+                  </p>
+                )}
+                {pafRecord.cba_name && <p className="text-xs text-muted-foreground">{pafRecord.cba_name}</p>}
+                {pafRecord.survey_name && (
+                  <p className="text-xs text-muted-foreground">
+                    {pafRecord.survey_name}
+                    {pafRecord.survey_publisher && `, ${pafRecord.survey_publisher}`}
+                    {pafRecord.survey_year && ` (${pafRecord.survey_year})`}
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Wage Year</p>
+                <p className="font-medium">{wageYearForDate(pafRecord.wage_source_date) ?? pafRecord.wage_source_date}</p>
+                {wageYearMismatch && (
+                  <p className="mt-1 text-xs text-warning">⚠ {wageYearMismatch}</p>
+                )}
               </div>
             </CardContent>
           </Card>
 
           {/* LCA Status & Re-upload */}
-          <LCAStatusCard pafRecord={pafRecord} pafId={id!} />
+          <LCAStatusCard pafRecord={pafRecord} pafId={id!} canEdit={canEdit} />
 
           {/* Status */}
           <Card className="md:col-span-2">
@@ -686,6 +913,8 @@ export default function EditPAF() {
               </div>
             </CardContent>
           </Card>
+
+          <RevisionHistoryCard pafId={id!} canEdit={canEdit} />
         </div>
       </div>
     </Layout>
@@ -11,6 +11,8 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useActiveEmployer } from '@/hooks/useEmployer';
+import { useRoles } from '@/hooks/useRoles';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Link, useNavigate } from 'react-router-dom';
 import { Layout } from '@/components/layout/Layout';
@@ -23,89 +25,10 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { downloadPAF } from '@/lib/pdfGenerator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { downloadStoredPAF } from '@/lib/pafVersions';
+import { PAF_STATUS_BADGE_CLASSES, PAF_STATUS_LABELS, isLockedStatus, type PAFStatus } from '@/lib/pafReview';
 import { toast } from 'sonner';
-import type { PAFData } from '@/types/paf';
-// Fetch full record for download
-async function fetchFullPAFRecord(id: string) {
-  const { data, error } = await supabase
-    .from('paf_records')
-    .select('*')
-    .eq('id', id)
-    .single();
-  
-  if (error) throw error;
-  return data;
-}
-
-// Convert DB record to PAFData format
-function convertToPAFData(record: any): PAFData {
-  return {
-    visaType: record.visa_type || 'H-1B',
-    caseNumber: record.lca_case_number,
-    employer: {
-      legalBusinessName: record.employer_legal_name,
-      tradeName: record.employer_trade_name,
-      address1: record.employer_address1,
-      address2: record.employer_address2,
-      city: record.employer_city,
-      state: record.employer_state,
-      postalCode: record.employer_postal_code,
-      country: record.employer_country,
-      telephone: record.employer_telephone,
-      fein: record.employer_fein,
-      naicsCode: record.employer_naics_code,
-    },
-    contact: {
-      lastName: '',
-      firstName: '',
-      jobTitle: '',
-      address1: record.employer_address1,
-      city: record.employer_city,
-      state: record.employer_state,
-      postalCode: record.employer_postal_code,
-      country: record.employer_country,
-      telephone: record.employer_telephone,
-      email: '',
-    },
-    job: {
-      jobTitle: record.job_title,
-      socCode: record.soc_code,
-      socTitle: record.soc_title,
-      onetCode: record.onet_code,
-      onetTitle: record.onet_title,
-      isFullTime: record.is_full_time,
-      beginDate: record.begin_date,
-      endDate: record.end_date,
-      wageRateFrom: record.wage_rate_from,
-      wageRateTo: record.wage_rate_to,
-      wageUnit: record.wage_unit,
-      workersNeeded: record.workers_needed,
-      isRD: record.is_rd,
-    },
-    worksite: {
-      address1: record.worksite_address1,
-      address2: record.worksite_address2,
-      city: record.worksite_city,
-      state: record.worksite_state,
-      postalCode: record.worksite_postal_code,
-      county: record.worksite_county,
-      areaCode: record.worksite_area_code,
-      areaName: record.worksite_area_name,
-    },
-    wage: {
-      prevailingWage: record.prevailing_wage,
-      prevailingWageUnit: record.prevailing_wage_unit,
-      wageLevel: record.wage_level,
-      wageSource: record.wage_source,
-      wageSourceDate: record.wage_source_date,
-      actualWage: record.actual_wage,
-      actualWageUnit: record.actual_wage_unit,
-    },
-    isH1BDependent: record.is_h1b_dependent,
-    isWillfulViolator: record.is_willful_violator,
-  };
-}
 
 interface PAFRecord {
   id: string;
@@ -113,6 +36,7 @@ interface PAFRecord {
   employer_legal_name: string;
   lca_case_number: string | null;
   lca_status: string;
+  status: PAFStatus;
   created_at: string;
   soc_code: string;
   soc_title: string;
@@ -123,14 +47,19 @@ interface PAFRecord {
 }
 export default function GeneratedPAFs() {
   const navigate = useNavigate();
+  const { hasRole } = useRoles();
+  const canEdit = hasRole('preparer');
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<PAFStatus | 'all'>('all');
+  const employer = useActiveEmployer();
 
   const { data: pafs, isLoading } = useQuery({
-    queryKey: ['all-pafs'],
+    queryKey: ['all-pafs', employer.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('paf_records')
-        .select('id, job_title, employer_legal_name, lca_case_number, lca_status, created_at, soc_code, soc_title, begin_date, end_date, worksite_city, worksite_state')
+        .select('id, job_title, employer_legal_name, lca_case_number, lca_status, status, created_at, soc_code, soc_title, begin_date, end_date, worksite_city, worksite_state')
+        .eq('employer_id', employer.id)
         .order('created_at', { ascending: false });
       
       if (error) throw error;
@@ -139,18 +68,19 @@ export default function GeneratedPAFs() {
   });
 
   const filteredPafs = pafs?.filter(paf => 
-    paf.job_title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    paf.lca_case_number?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    paf.soc_code.toLowerCase().includes(searchTerm.toLowerCase())
+    (statusFilter === 'all' || paf.status === statusFilter) && (
+      paf.job_title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      paf.lca_case_number?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      paf.soc_code.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   );
+  const isFiltered = !!searchTerm || statusFilter !== 'all';
 
   const handleDownload = async (e: React.MouseEvent, pafId: string) => {
     e.stopPropagation();
     try {
-      toast.loading('Generating PDF...', { id: 'download' });
-      const fullRecord = await fetchFullPAFRecord(pafId);
-      const pafData = convertToPAFData(fullRecord);
-      await downloadPAF(pafData);
+      toast.loading('Preparing PDF...', { id: 'download' });
+      await downloadStoredPAF(pafId);
       toast.success('PAF downloaded successfully', { id: 'download' });
     } catch (error) {
       console.error('Download error:', error);
@@ -183,9 +113,24 @@ export default function GeneratedPAFs() {
                   className="pl-10 w-80"
                 />
               </div>
-              <Button asChild>
-                <Link to="/create">Create New PAF</Link>
-              </Button>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PAFStatus | 'all')}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {Object.entries(PAF_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canEdit && (
+                <Button asChild>
+                  <Link to="/create">Create New PAF</Link>
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -201,12 +146,12 @@ export default function GeneratedPAFs() {
             <div className="text-center py-12 text-muted-foreground">
               <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
               <p className="font-medium">
-                {searchTerm ? 'No PAFs match your search' : 'No PAFs generated yet'}
+                {isFiltered ? 'No PAFs match your search' : 'No PAFs generated yet'}
               </p>
               <p className="text-sm mt-1">
-                {searchTerm ? 'Try a different search term' : 'Create your first Public Access File to get started'}
+                {isFiltered ? 'Try a different search term or status' : 'Create your first Public Access File to get started'}
               </p>
-              {!searchTerm && (
+              {!isFiltered && canEdit && (
                 <Button asChild className="mt-4">
                   <Link to="/create">Create PAF</Link>
                 </Button>
@@ -218,6 +163,7 @@ export default function GeneratedPAFs() {
                 <TableRow>
                   <TableHead>Job Title</TableHead>
                   <TableHead>Case Number</TableHead>
+                  <TableHead>Status</TableHead>
                   <TableHead>LCA Status</TableHead>
                   <TableHead>SOC Code</TableHead>
                   <TableHead>Worksite</TableHead>
@@ -246,6 +192,11 @@ export default function GeneratedPAFs() {
                         {paf.lca_case_number || 'N/A'}
                       </code>
                     </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={PAF_STATUS_BADGE_CLASSES[paf.status]}>
+                        {PAF_STATUS_LABELS[paf.status]}
+                      </Badge>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Badge 
@@ -254,7 +205,7 @@ export default function GeneratedPAFs() {
                         >
                           {paf.lca_status === 'certified' ? '🟢 Certified' : '🟡 In Process'}
                         </Badge>
-                        {paf.lca_status === 'in_process' && (
+                        {canEdit && !isLockedStatus(paf.status) && paf.lca_status === 'in_process' && (
                           <Button
                             size="sm"
                             variant="outline"
@@ -295,12 +246,14 @@ export default function GeneratedPAFs() {
                               <Eye className="mr-2 h-4 w-4" /> View
                             </Link>
                           </DropdownMenuItem>
-                          <DropdownMenuItem asChild>
-                            <Link to={`/edit/${paf.id}`}>
-                              <Edit className="mr-2 h-4 w-4" /> Edit
-                            </Link>
-                          </DropdownMenuItem>
-                          {paf.lca_status === 'in_process' && (
+                          {canEdit && !isLockedStatus(paf.status) && (
+                            <DropdownMenuItem asChild>
+                              <Link to={`/edit/${paf.id}`}>
+                                <Edit className="mr-2 h-4 w-4" /> Edit
+                              </Link>
+                            </DropdownMenuItem>
+                          )}
+                          {canEdit && !isLockedStatus(paf.status) && paf.lca_status === 'in_process' && (
                             <DropdownMenuItem asChild>
                               <Link to={`/edit/${paf.id}`}>
                                 <Upload className="mr-2 h-4 w-4" /> Upload Certified LCA
@@ -310,10 +263,14 @@ export default function GeneratedPAFs() {
                           <DropdownMenuItem onClick={(e) => handleDownload(e, paf.id)}>
                             <Download className="mr-2 h-4 w-4" /> Download
                           </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem className="text-destructive">
-                            <Trash2 className="mr-2 h-4 w-4" /> Delete
-                          </DropdownMenuItem>
+                          {hasRole('admin') && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem className="text-destructive">
+                                <Trash2 className="mr-2 h-4 w-4" /> Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -5,26 +5,33 @@ import { Layout } from '@/components/layout/Layout';
 import { StatsCard } from '@/components/dashboard/StatsCard';
 import { QuickActions } from '@/components/dashboard/QuickActions';
 import { RecentPAFs } from '@/components/dashboard/RecentPAFs';
+import { WizardDrafts } from '@/components/dashboard/WizardDrafts';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
-
-const EMPLOYER_NAME = 'Sai Business Solutions LLC';
+import { useActiveEmployer } from '@/hooks/useEmployer';
+import { useRoles } from '@/hooks/useRoles';
+import { employerNames } from '@/lib/employers';
 
 const Index = () => {
-  // Fetch stats from lca_disclosure for Sai Business Solutions LLC
+  const employer = useActiveEmployer();
+  const { hasRole } = useRoles();
+  const names = employerNames(employer);
+
+  // Fetch stats from lca_disclosure for the active employer
   const { data: stats } = useQuery({
-    queryKey: ['dashboard-stats', EMPLOYER_NAME],
+    queryKey: ['dashboard-stats', employer.id],
     queryFn: async () => {
       // Get PAF records count
       const { count: pafCount } = await supabase
         .from('paf_records')
-        .select('*', { count: 'exact', head: true });
+        .select('*', { count: 'exact', head: true })
+        .eq('employer_id', employer.id);
 
       // Get Active LCAs (certified, not yet PAF generated)
       const { count: activeLcaCount } = await supabase
         .from('lca_disclosure')
         .select('*', { count: 'exact', head: true })
-        .eq('employer_name', EMPLOYER_NAME)
+        .in('employer_name', names)
         .eq('paf_generated', false)
         .ilike('case_status', '%certified%');
 
@@ -32,14 +39,14 @@ const Index = () => {
       const { count: generatedPafCount } = await supabase
         .from('lca_disclosure')
         .select('*', { count: 'exact', head: true })
-        .eq('employer_name', EMPLOYER_NAME)
+        .in('employer_name', names)
         .eq('paf_generated', true);
 
       // Get total LCAs for this employer
       const { count: totalLcaCount } = await supabase
         .from('lca_disclosure')
         .select('*', { count: 'exact', head: true })
-        .eq('employer_name', EMPLOYER_NAME);
+        .in('employer_name', names);
 
       return {
         totalPafs: generatedPafCount || 0,
@@ -67,12 +74,14 @@ const Index = () => {
               and geographic areas directly from official sources.
             </p>
             <div className="flex flex-wrap gap-4">
-              <Link to="/create">
-                <Button variant="hero" size="xl">
-                  Create New PAF
-                  <ArrowRight className="ml-2 h-5 w-5" />
-                </Button>
-              </Link>
+              {hasRole('preparer') && (
+                <Link to="/create">
+                  <Button variant="hero" size="xl">
+                    Create New PAF
+                    <ArrowRight className="ml-2 h-5 w-5" />
+                  </Button>
+                </Link>
+              )}
               <Link to="/lookup">
                 <Button variant="nav" size="xl" className="border border-white/20">
                   Lookup Occupations
@@ -103,7 +112,7 @@ const Index = () => {
             <StatsCard
               title="Total LCAs"
               value={stats?.totalLcas ?? 0}
-              description="Sai Business Solutions LLC"
+              description={employer.legal_business_name}
               icon={Clock}
             />
             <StatsCard
@@ -121,6 +130,7 @@ const Index = () => {
         <div className="container mx-auto px-4">
           <div className="grid gap-8 lg:grid-cols-3">
             <div className="lg:col-span-2">
+              <WizardDrafts />
               <RecentPAFs />
             </div>
             <div>
@@ -34,8 +34,12 @@ import {
   useSetDefaultSignatory,
   useUploadSignatureImage,
   useRemoveSignatureImage,
+  useUploadSigningCertificate,
+  useSignatoryUsers,
   type Signatory
 } from '@/hooks/useSignatories';
+import { useRoles } from '@/hooks/useRoles';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Plus, 
   Pencil, 
@@ -44,8 +48,11 @@ import {
   Star,
   X,
   Settings as SettingsIcon,
-  UserPen
+  UserPen,
+  KeyRound
 } from 'lucide-react';
+import { format } from 'date-fns';
+import { EmployerProfileCard } from '@/components/settings/EmployerProfileCard';
 
 export default function Settings() {
   const { data: signatories, isLoading } = useSignatories();
@@ -55,15 +62,24 @@ export default function Settings() {
   const setDefault = useSetDefaultSignatory();
   const uploadImage = useUploadSignatureImage();
   const removeImage = useRemoveSignatureImage();
+  const uploadCertificate = useUploadSigningCertificate();
+  const { hasRole } = useRoles();
+  const canManage = hasRole('admin');
+  const { data: signatoryUsers } = useSignatoryUsers();
 
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingSignatory, setEditingSignatory] = useState<Signatory | null>(null);
   const [newName, setNewName] = useState('');
   const [newTitle, setNewTitle] = useState('');
+  const [newUserId, setNewUserId] = useState<string | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadingId, setUploadingId] = useState<string | null>(null);
 
+  const [certificateSignatory, setCertificateSignatory] = useState<Signatory | null>(null);
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [certificatePassword, setCertificatePassword] = useState('');
+
   const handleAddSignatory = async () => {
     if (!newName.trim() || !newTitle.trim()) return;
     
@@ -84,6 +100,7 @@ export default function Settings() {
       id: editingSignatory.id,
       name: newName.trim(),
       title: newTitle.trim(),
+      user_id: newUserId,
     });
     
     setEditingSignatory(null);
@@ -109,10 +126,29 @@ export default function Settings() {
     }
   };
 
+  const handleCertificateUpload = async () => {
+    if (!certificateSignatory || !certificateFile) return;
+
+    await uploadCertificate.mutateAsync({
+      id: certificateSignatory.id,
+      file: certificateFile,
+      password: certificatePassword,
+    });
+
+    closeCertificateDialog();
+  };
+
+  const closeCertificateDialog = () => {
+    setCertificateSignatory(null);
+    setCertificateFile(null);
+    setCertificatePassword('');
+  };
+
   const startEdit = (signatory: Signatory) => {
     setEditingSignatory(signatory);
     setNewName(signatory.name);
     setNewTitle(signatory.title);
+    setNewUserId(signatory.user_id);
   };
 
   return (
@@ -122,10 +158,12 @@ export default function Settings() {
           <SettingsIcon className="h-8 w-8 text-primary" />
           <div>
             <h1 className="text-3xl font-bold">Settings</h1>
-            <p className="text-muted-foreground">Manage authorized signatories and preferences</p>
+            <p className="text-muted-foreground">Manage the employer profile, authorized signatories and preferences</p>
           </div>
         </div>
 
+        <EmployerProfileCard />
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -133,56 +171,59 @@ export default function Settings() {
                 <UserPen className="h-5 w-5 text-primary" />
                 <CardTitle>Authorized Signatories</CardTitle>
               </div>
-              <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button size="sm">
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Signatory
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Add Signatory</DialogTitle>
-                    <DialogDescription>
-                      Add a new authorized signatory for PAF documents
-                    </DialogDescription>
-                  </DialogHeader>
-                  <div className="space-y-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="name">Full Name</Label>
-                      <Input
-                        id="name"
-                        value={newName}
-                        onChange={(e) => setNewName(e.target.value)}
-                        placeholder="Enter full name"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="title">Title</Label>
-                      <Input
-                        id="title"
-                        value={newTitle}
-                        onChange={(e) => setNewTitle(e.target.value)}
-                        placeholder="e.g., Director of Operations"
-                      />
-                    </div>
-                  </div>
-                  <DialogFooter>
-                    <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button 
-                      onClick={handleAddSignatory}
-                      disabled={!newName.trim() || !newTitle.trim() || createSignatory.isPending}
-                    >
-                      {createSignatory.isPending ? 'Adding...' : 'Add Signatory'}
+              {canManage && (
+                <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm">
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Signatory
                     </Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Add Signatory</DialogTitle>
+                      <DialogDescription>
+                        Add a new authorized signatory for PAF documents
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="name">Full Name</Label>
+                        <Input
+                          id="name"
+                          value={newName}
+                          onChange={(e) => setNewName(e.target.value)}
+                          placeholder="Enter full name"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="title">Title</Label>
+                        <Input
+                          id="title"
+                          value={newTitle}
+                          onChange={(e) => setNewTitle(e.target.value)}
+                          placeholder="e.g., Director of Operations"
+                        />
+                      </div>
+                    </div>
+                    <DialogFooter>
+                      <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button 
+                        onClick={handleAddSignatory}
+                        disabled={!newName.trim() || !newTitle.trim() || createSignatory.isPending}
+                      >
+                        {createSignatory.isPending ? 'Adding...' : 'Add Signatory'}
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              )}
             </div>
             <CardDescription>
               Manage individuals authorized to sign PAF documents. Upload signature images for digital signing.
+              {!canManage && ' Only administrators can change signatories.'}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -232,136 +273,228 @@ export default function Settings() {
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground">{signatory.title}</p>
+                      {signatory.user_id && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Signs as {signatoryUsers?.find((u) => u.user_id === signatory.user_id)?.email ?? 'a linked user'}
+                        </p>
+                      )}
+                      {signatory.certificate_fingerprint && (
+                        <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                          <KeyRound className="h-3 w-3" />
+                          Signing certificate: {signatory.certificate_subject || 'Unnamed'}
+                          {signatory.certificate_expires_at &&
+                            ` (expires ${format(new Date(signatory.certificate_expires_at), 'MMM d, yyyy')})`}
+                        </p>
+                      )}
                     </div>
 
                     {/* Actions */}
-                    <div className="flex items-center gap-2 flex-wrap">
-                      <input
-                        ref={uploadingId === signatory.id ? fileInputRef : undefined}
-                        type="file"
-                        accept="image/*"
-                        className="hidden"
-                        id={`upload-${signatory.id}`}
-                        onChange={(e) => handleFileUpload(e, signatory.id)}
-                      />
+                    {canManage && (
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <input
+                          ref={uploadingId === signatory.id ? fileInputRef : undefined}
+                          type="file"
+                          accept="image/*"
+                          className="hidden"
+                          id={`upload-${signatory.id}`}
+                          onChange={(e) => handleFileUpload(e, signatory.id)}
+                        />
                       
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setUploadingId(signatory.id);
-                          document.getElementById(`upload-${signatory.id}`)?.click();
-                        }}
-                        disabled={uploadImage.isPending}
-                      >
-                        <Upload className="h-4 w-4 mr-1" />
-                        {signatory.signature_image_path ? 'Replace' : 'Upload'}
-                      </Button>
-
-                      {signatory.signature_image_path && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => removeImage.mutate(signatory.id)}
-                          disabled={removeImage.isPending}
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      )}
-
-                      {!signatory.is_default && (
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => setDefault.mutate(signatory.id)}
-                          disabled={setDefault.isPending}
-                          title="Set as default"
+                          onClick={() => {
+                            setUploadingId(signatory.id);
+                            document.getElementById(`upload-${signatory.id}`)?.click();
+                          }}
+                          disabled={uploadImage.isPending}
                         >
-                          <Star className="h-4 w-4" />
+                          <Upload className="h-4 w-4 mr-1" />
+                          {signatory.signature_image_path ? 'Replace' : 'Upload'}
                         </Button>
-                      )}
 
-                      <Dialog 
-                        open={editingSignatory?.id === signatory.id} 
-                        onOpenChange={(open) => !open && setEditingSignatory(null)}
-                      >
-                        <DialogTrigger asChild>
+                        {signatory.signature_image_path && (
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => startEdit(signatory)}
+                            onClick={() => removeImage.mutate(signatory.id)}
+                            disabled={removeImage.isPending}
                           >
-                            <Pencil className="h-4 w-4" />
+                            <X className="h-4 w-4" />
                           </Button>
-                        </DialogTrigger>
-                        <DialogContent>
-                          <DialogHeader>
-                            <DialogTitle>Edit Signatory</DialogTitle>
-                            <DialogDescription>
-                              Update signatory information
-                            </DialogDescription>
-                          </DialogHeader>
-                          <div className="space-y-4 py-4">
-                            <div className="space-y-2">
-                              <Label htmlFor="edit-name">Full Name</Label>
-                              <Input
-                                id="edit-name"
-                                value={newName}
-                                onChange={(e) => setNewName(e.target.value)}
-                              />
-                            </div>
-                            <div className="space-y-2">
-                              <Label htmlFor="edit-title">Title</Label>
-                              <Input
-                                id="edit-title"
-                                value={newTitle}
-                                onChange={(e) => setNewTitle(e.target.value)}
-                              />
-                            </div>
-                          </div>
-                          <DialogFooter>
-                            <Button variant="outline" onClick={() => setEditingSignatory(null)}>
-                              Cancel
-                            </Button>
-                            <Button 
-                              onClick={handleUpdateSignatory}
-                              disabled={!newName.trim() || !newTitle.trim() || updateSignatory.isPending}
+                        )}
+
+                        <Dialog 
+                          open={certificateSignatory?.id === signatory.id} 
+                          onOpenChange={(open) => !open && closeCertificateDialog()}
+                        >
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setCertificateSignatory(signatory)}
+                              title="Signing certificate"
                             >
-                              {updateSignatory.isPending ? 'Saving...' : 'Save Changes'}
+                              <KeyRound className="h-4 w-4" />
                             </Button>
-                          </DialogFooter>
-                        </DialogContent>
-                      </Dialog>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Signing Certificate</DialogTitle>
+                              <DialogDescription>
+                                Upload a PKCS#12 (.p12 / .pfx) certificate to digitally sign PAFs as {signatory.name}
+                              </DialogDescription>
+                            </DialogHeader>
+                            <div className="space-y-4 py-4">
+                              <div className="space-y-2">
+                                <Label htmlFor="certificate-file">Certificate File</Label>
+                                <Input
+                                  id="certificate-file"
+                                  type="file"
+                                  accept=".p12,.pfx,application/x-pkcs12"
+                                  onChange={(e) => setCertificateFile(e.target.files?.[0] ?? null)}
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <Label htmlFor="certificate-password">Password</Label>
+                                <Input
+                                  id="certificate-password"
+                                  type="password"
+                                  value={certificatePassword}
+                                  onChange={(e) => setCertificatePassword(e.target.value)}
+                                />
+                              </div>
+                            </div>
+                            <DialogFooter>
+                              <Button variant="outline" onClick={closeCertificateDialog}>
+                                Cancel
+                              </Button>
+                              <Button 
+                                onClick={handleCertificateUpload}
+                                disabled={!certificateFile || uploadCertificate.isPending}
+                              >
+                                {uploadCertificate.isPending ? 'Saving...' : 'Save Certificate'}
+                              </Button>
+                            </DialogFooter>
+                          </DialogContent>
+                        </Dialog>
 
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
+                        {!signatory.is_default && (
                           <Button
                             variant="outline"
                             size="sm"
-                            className="text-destructive hover:text-destructive"
+                            onClick={() => setDefault.mutate(signatory.id)}
+                            disabled={setDefault.isPending}
+                            title="Set as default"
                           >
-                            <Trash2 className="h-4 w-4" />
+                            <Star className="h-4 w-4" />
                           </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete Signatory?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              This will permanently remove {signatory.name} from the authorized signatories list.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => deleteSignatory.mutate(signatory.id)}
-                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        )}
+
+                        <Dialog 
+                          open={editingSignatory?.id === signatory.id} 
+                          onOpenChange={(open) => !open && setEditingSignatory(null)}
+                        >
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => startEdit(signatory)}
                             >
-                              Delete
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    </div>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Edit Signatory</DialogTitle>
+                              <DialogDescription>
+                                Update signatory information
+                              </DialogDescription>
+                            </DialogHeader>
+                            <div className="space-y-4 py-4">
+                              <div className="space-y-2">
+                                <Label htmlFor="edit-name">Full Name</Label>
+                                <Input
+                                  id="edit-name"
+                                  value={newName}
+                                  onChange={(e) => setNewName(e.target.value)}
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <Label htmlFor="edit-title">Title</Label>
+                                <Input
+                                  id="edit-title"
+                                  value={newTitle}
+                                  onChange={(e) => setNewTitle(e.target.value)}
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <Label>Signs as</Label>
+                                <Select
+                                  value={newUserId ?? 'none'}
+                                  onValueChange={(value) => setNewUserId(value === 'none' ? null : value)}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="none">No linked user</SelectItem>
+                                    {signatoryUsers?.map((u) => (
+                                      <SelectItem key={u.user_id} value={u.user_id}>
+                                        {u.email}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <p className="text-xs text-muted-foreground">
+                                  Only this user can approve and digitally sign PAFs as {newName || 'the signatory'}.
+                                </p>
+                              </div>
+                            </div>
+                            <DialogFooter>
+                              <Button variant="outline" onClick={() => setEditingSignatory(null)}>
+                                Cancel
+                              </Button>
+                              <Button 
+                                onClick={handleUpdateSignatory}
+                                disabled={!newName.trim() || !newTitle.trim() || updateSignatory.isPending}
+                              >
+                                {updateSignatory.isPending ? 'Saving...' : 'Save Changes'}
+                              </Button>
+                            </DialogFooter>
+                          </DialogContent>
+                        </Dialog>
+
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Signatory?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This will permanently remove {signatory.name} from the authorized signatories list.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteSignatory.mutate(signatory.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ShieldCheck, ShieldAlert, ShieldQuestion, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { sha256Hex, readPAFFingerprint, formatDocumentId } from '@/lib/pdf/fingerprint';
+import type { Database } from '@/integrations/supabase/types';
+
+type VerifyMatch = Database['public']['Functions']['verify_paf_document']['Returns'][number];
+
+interface VerifyResult {
+  fileName: string;
+  pdfSha256: string;
+  fingerprint: string | null;
+  matches: VerifyMatch[];
+}
+
+function formatGeneratedAt(value: string): string {
+  return format(new Date(value), "MMMM d, yyyy 'at' h:mm a");
+}
+
+/**
+ * Public verification page: checks an uploaded PAF against the fingerprints
+ * recorded when it was generated. No sign-in needed, so PAFs handed to a
+ * Wage and Hour investigator can be checked independently.
+ */
+export default function Verify() {
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsVerifying(true);
+    setResult(null);
+    setError(null);
+    try {
+      const bytes = await file.arrayBuffer();
+      const pdfSha256 = await sha256Hex(bytes);
+      const fingerprint = await readPAFFingerprint(bytes);
+
+      const { data, error: rpcError } = await supabase.rpc('verify_paf_document', {
+        p_pdf_sha256: pdfSha256,
+        p_content_hash: fingerprint,
+      });
+      if (rpcError) throw rpcError;
+
+      setResult({ fileName: file.name, pdfSha256, fingerprint, matches: data ?? [] });
+    } catch (err) {
+      console.error('Verification error:', err);
+      setError((err as { message?: string })?.message || 'The file could not be verified.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const exactMatch = result?.matches.find((match) => match.pdf_matches);
+  const contentMatch = result?.matches.find((match) => match.content_matches);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/10 p-4">
+      <Card className="w-full max-w-xl">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-xl bg-primary">
+            <ShieldCheck className="h-7 w-7 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Verify a Public Access File</CardTitle>
+          <CardDescription>
+            Upload a PAF PDF to check that it matches the copy recorded when it was generated
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="paf-file">PAF document (PDF)</Label>
+            <Input
+              id="paf-file"
+              type="file"
+              accept="application/pdf,.pdf"
+              onChange={handleFileChange}
+              disabled={isVerifying}
+            />
+          </div>
+
+          {isVerifying && (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Verifying...
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Verification failed</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {result && exactMatch && (
+            <Alert>
+              <ShieldCheck className="h-4 w-4" />
+              <AlertTitle>Authentic - matches the stored PAF</AlertTitle>
+              <AlertDescription>
+                This file is identical to version {exactMatch.version}, generated on {formatGeneratedAt(exactMatch.pdf_generated_at)} for{' '}
+                {exactMatch.employer_legal_name}, {exactMatch.job_title}
+                {exactMatch.lca_case_number ? ` (LCA ${exactMatch.lca_case_number})` : ''}.
+                {!exactMatch.is_current_version && ' A newer version of this PAF has since been generated.'}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {result && !exactMatch && contentMatch && (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>File differs from the stored PAF</AlertTitle>
+              <AlertDescription>
+                The document ID matches the PAF for {contentMatch.employer_legal_name}, {contentMatch.job_title}
+                {contentMatch.lca_case_number ? ` (LCA ${contentMatch.lca_case_number})` : ''}, stored as version {contentMatch.version} on{' '}
+                {formatGeneratedAt(contentMatch.pdf_generated_at)}, but the file itself is not that stored version.
+                It was regenerated or modified after generation.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {result && !exactMatch && !contentMatch && (
+            <Alert variant="destructive">
+              <ShieldQuestion className="h-4 w-4" />
+              <AlertTitle>No matching PAF found</AlertTitle>
+              <AlertDescription>
+                {result.fingerprint
+                  ? 'This file carries a PAF document ID, but no stored PAF has that fingerprint.'
+                  : 'This file does not carry a PAF document ID and does not match any stored PAF.'}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {result && (
+            <dl className="space-y-1 text-xs text-muted-foreground break-all">
+              <div>
+                <dt className="inline font-medium">File: </dt>
+                <dd className="inline">{result.fileName}</dd>
+              </div>
+              {result.fingerprint && (
+                <div>
+                  <dt className="inline font-medium">Document ID: </dt>
+                  <dd className="inline">{formatDocumentId(result.fingerprint)}</dd>
+                </div>
+              )}
+              <div>
+                <dt className="inline font-medium">File SHA-256: </dt>
+                <dd className="inline font-mono">{result.pdfSha256}</dd>
+              </div>
+            </dl>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+export type WageUnit = 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year';
+
 export interface Employer {
   legalBusinessName: string;
   tradeName?: string;
@@ -39,15 +41,17 @@ export interface JobDetails {
   onetCode?: string;
   onetTitle?: string;
   isFullTime: boolean;
+  hoursPerWeek?: number; // Part-time positions only
   beginDate: string;
   endDate: string;
   wageRateFrom: number;
   wageRateTo?: number;
-  wageUnit: 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year';
+  wageUnit: WageUnit;
   workersNeeded: number;
   isRD?: boolean; // R&D classification for ACWIA
 }
 
+// An additional place of employment listed in Appendix A of the ETA-9035
 export interface SecondaryWorksite {
   worksiteName?: string;
   address1: string;
@@ -56,6 +60,12 @@ export interface SecondaryWorksite {
   state: string;
   postalCode: string;
   county?: string;
+  areaCode?: string;
+  areaName?: string;
+  // Where the LCA notice is posted at this worksite
+  postingLocations?: string[];
+  // Prevailing wage for this worksite's area; the primary wage applies when absent
+  wage?: SecondaryWageInfo;
 }
 
 export interface WorksiteLocation {
@@ -68,13 +78,13 @@ export interface WorksiteLocation {
   county?: string;
   areaCode?: string;
   areaName?: string;
-  hasSecondaryWorksite?: boolean;
-  secondaryWorksite?: SecondaryWorksite;
+  // Additional worksites in Appendix A order
+  secondaryWorksites?: SecondaryWorksite[];
 }
 
 export interface SecondaryWageInfo {
   prevailingWage: number;
-  prevailingWageUnit: 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year';
+  prevailingWageUnit: WageUnit;
   wageLevel: 'Level I' | 'Level II' | 'Level III' | 'Level IV';
   wageSource: string;
   wageSourceDate: string;
@@ -93,19 +103,37 @@ export interface WageLevelData {
   levelIV_annual: number | null;
 }
 
+// Source-specific details of a prevailing wage that doesn't come from the OFLC wage library
+export interface WageSourceDetails {
+  // ETA-9141 prevailing wage determination
+  pwdCaseNumber?: string;
+  pwdIssueDate?: string;
+  pwdExpirationDate?: string;
+  // Collective bargaining agreement
+  cbaName?: string;
+  cbaEffectiveDate?: string;
+  cbaExpirationDate?: string;
+  // Independent authoritative or other legitimate survey
+  surveyName?: string;
+  surveyPublisher?: string;
+  surveyYear?: number;
+  // The determination, agreement wage schedule or survey excerpt
+  document?: File | null;
+  // Storage path of the document once saved (paf-documents bucket)
+  documentPath?: string;
+}
+
 export interface WageInfo {
   prevailingWage: number;
-  prevailingWageUnit: 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year';
+  prevailingWageUnit: WageUnit;
   wageLevel: 'Level I' | 'Level II' | 'Level III' | 'Level IV';
   wageSource: string;
   wageSourceDate: string;
+  wageSourceDetails?: WageSourceDetails;
   actualWage: number;
-  actualWageUnit: 'Hour' | 'Week' | 'Bi-Weekly' | 'Month' | 'Year';
+  actualWageUnit: WageUnit;
   // All 4 wage levels from DB lookup (used in PDF generation)
   wageLevelData?: WageLevelData;
-  // Secondary worksite wage (when in different county)
-  hasSecondaryWage?: boolean;
-  secondaryWage?: SecondaryWageInfo;
 }
 
 export interface PAFData {
@@ -0,0 +1,134 @@
+import { createClient } from "@supabase/supabase-js";
+import { generatePAFDocument, archivalOptions } from "@/lib/pdfGenerator";
+import { setPDFRuntime } from "@/lib/pdf/runtime";
+import { readPAFFingerprint, sha256Hex } from "@/lib/pdf/fingerprint";
+import { loadPAFRecordFiles, pafRecordToGeneratorInput, pafVersionPath } from "@/lib/pafRecord";
+import type { Database } from "@/integrations/supabase/types";
+
+/**
+ * Builds a PAF on the server from a stored paf_records row, using the same
+ * engine as the browser (imported from src/ via deno.json).
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Same TrueType fonts the browser bundles from pdfjs-dist
+const FONT_BASE_URL = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/standard_fonts';
+const SIGNED_URL_TTL_SECONDS = 3600;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function loadFont(fileName: string): Promise<ArrayBuffer> {
+  const response = await fetch(`${FONT_BASE_URL}/${fileName}`);
+  if (!response.ok) throw new Error(`Could not load archival font ${fileName}`);
+  return response.arrayBuffer();
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    // Everything runs as the caller, so RLS limits the records, signatories
+    // and files the PAF can draw on to the caller's employers
+    const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    });
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ success: false, error: 'Invalid authentication' }, 401);
+    }
+
+    // No rasterizer here: attachments that can't be merged as vector pages get a notice page
+    setPDFRuntime({ supabase, loadFont });
+
+    const { pafId } = await req.json();
+    if (!pafId || typeof pafId !== 'string') {
+      return jsonResponse({ success: false, error: 'pafId is required' }, 400);
+    }
+
+    const { data: record, error: recordError } = await supabase
+      .from('paf_records')
+      .select('*, employers(*)')
+      .eq('id', pafId)
+      .single();
+    if (recordError || !record?.employers) {
+      return jsonResponse({ success: false, error: 'PAF record not found' }, 404);
+    }
+
+    // Generating adds a version, which only preparers may do
+    const { data: isPreparer, error: roleError } = await supabase
+      .rpc('has_employer_role', { p_employer_id: record.employer_id, p_role: 'preparer' });
+    if (roleError || !isPreparer) {
+      return jsonResponse({ success: false, error: 'Only preparers can generate PAFs' }, 403);
+    }
+
+    const downloadFile = async (path: string): Promise<File | null> => {
+      const { data, error } = await supabase.storage.from('paf-documents').download(path);
+      if (error || !data) {
+        console.error(`Could not download ${path}:`, error);
+        return null;
+      }
+      return new File([data], path.split('/').pop() || 'attachment', { type: data.type });
+    };
+
+    const files = await loadPAFRecordFiles(record, downloadFile);
+    const { data, supportingDocs, options } = pafRecordToGeneratorInput(record, record.employers, files);
+    const bytes = await generatePAFDocument(data, supportingDocs, { ...archivalOptions, ...options });
+
+    // Every generation is stored as a new immutable version
+    const path = pafVersionPath(record.id);
+    const { error: uploadError } = await supabase.storage
+      .from('paf-documents')
+      .upload(path, bytes, { contentType: 'application/pdf' });
+    if (uploadError) throw uploadError;
+
+    const contentHash = await readPAFFingerprint(bytes);
+    const { data: version, error: versionError } = await supabase.rpc('add_paf_version', {
+      p_paf_record_id: record.id,
+      p_pdf_path: path,
+      p_pdf_sha256: await sha256Hex(bytes),
+      p_content_hash: contentHash,
+    });
+    if (versionError) throw versionError;
+
+    const { data: signed, error: signedUrlError } = await supabase.storage
+      .from('paf-documents')
+      .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+    if (signedUrlError || !signed) throw signedUrlError ?? new Error('Could not create signed URL');
+
+    console.log(`Generated PAF ${record.id} version ${version.version} (${bytes.length} bytes)`);
+
+    return jsonResponse({
+      success: true,
+      path,
+      version: version.version,
+      signedUrl: signed.signedUrl,
+      contentHash,
+      generatedAt: version.generated_at,
+    });
+  } catch (error) {
+    console.error('PAF generation error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
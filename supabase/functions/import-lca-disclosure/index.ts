@@ -41,6 +41,7 @@ interface LCARecord {
   worksite_county: string | null;
   worksite_state: string | null;
   worksite_postal_code: string | null;
+  additional_worksites: Record<string, unknown>[] | null;
 }
 
 // Parse CSV line handling quoted fields
@@ -93,6 +94,52 @@ function parseBoolean(boolStr: string | null): boolean | null {
   return boolStr.toUpperCase() === 'Y' || boolStr.toUpperCase() === 'YES' || boolStr === '1';
 }
 
+// Worksites 2..10 of multi-worksite disclosure files (worksite_city_2, prevailing_wage_2, ...),
+// kept in additional_worksites; worksite 1 fills the worksite_* columns
+const ADDITIONAL_WORKSITE_COUNT = 10;
+const additionalWorksiteColumns: Record<string, string> = {
+  'worksite_city': 'city',
+  'worksite_county': 'county',
+  'worksite_state': 'state',
+  'worksite_postal_code': 'postal_code',
+  'prevailing_wage': 'prevailing_wage',
+  'pw_unit_of_pay': 'pw_unit',
+  'pw_wage_level': 'pw_wage_level',
+  'pw_source': 'pw_source',
+};
+
+function additionalWorksiteIndices(headers: string[]): Record<string, number>[] {
+  const worksites: Record<string, number>[] = [];
+  for (let n = 2; n <= ADDITIONAL_WORKSITE_COUNT; n++) {
+    const indices: Record<string, number> = {};
+    for (const [column, field] of Object.entries(additionalWorksiteColumns)) {
+      const idx = headers.indexOf(`${column}_${n}`);
+      if (idx !== -1) indices[field] = idx;
+    }
+    if (Object.keys(indices).length > 0) worksites.push(indices);
+  }
+  return worksites;
+}
+
+function parseAdditionalWorksites(values: string[], worksiteIndices: Record<string, number>[]): Record<string, unknown>[] | null {
+  const worksites = worksiteIndices
+    .map((indices) => {
+      const value = (field: string) => (indices[field] !== undefined ? values[indices[field]] || null : null);
+      return {
+        city: value('city'),
+        county: value('county'),
+        state: value('state'),
+        postal_code: value('postal_code'),
+        prevailing_wage: parseNumber(value('prevailing_wage')),
+        pw_unit: value('pw_unit'),
+        pw_wage_level: value('pw_wage_level'),
+        pw_source: value('pw_source'),
+      };
+    })
+    .filter((w) => w.city || w.state || w.postal_code);
+  return worksites.length > 0 ? worksites : null;
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -123,6 +170,15 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Imported data is shared by every organization, so only admins may load it
+    const { data: isAdmin, error: roleError } = await authClient.rpc('has_role', { p_role: 'admin' });
+    if (roleError || !isAdmin) {
+      return new Response(
+        JSON.stringify({ error: 'Only administrators can import LCA data' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Use service role for data operations
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
@@ -205,6 +261,7 @@ Deno.serve(async (req) => {
     });
 
     console.log('Column mapping:', colIndices);
+    const worksiteIndices = additionalWorksiteIndices(headers);
 
     const records: any[] = [];
     let skipped = 0;
@@ -259,6 +316,7 @@ Deno.serve(async (req) => {
         worksite_county: values[colIndices['worksite_county']] || null,
         worksite_state: values[colIndices['worksite_state']] || null,
         worksite_postal_code: values[colIndices['worksite_postal_code']] || null,
+        additional_worksites: parseAdditionalWorksites(values, worksiteIndices),
         fiscal_year: fiscalYear || null,
         received_date: parseDate(values[colIndices['received_date']]),
         decision_date: parseDate(values[colIndices['decision_date']]),
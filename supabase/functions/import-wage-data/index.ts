@@ -6,8 +6,11 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type WageTableType = 'general' | 'acwia';
+
 interface WageRecord {
   wage_year: string;
+  table_type: WageTableType;
   area_code: string;
   area_name: string;
   soc_code: string;
@@ -54,6 +57,21 @@ function parseNumber(value: string): number | null {
   return isNaN(num) ? null : num;
 }
 
+// The OFLC ZIP holds ALC_Export.csv (All Industries) and EDC_Export.csv (ACWIA)
+function findTableEntry<T extends { filename: string }>(entries: T[], tableType: WageTableType): T | undefined {
+  const csvFiles = entries.filter(e => e.filename.toLowerCase().endsWith('.csv'));
+  const isACWIAFile = (name: string) => name.includes('edc') || name.includes('acwia');
+
+  if (tableType === 'acwia') {
+    return csvFiles.find(e => isACWIAFile(e.filename.toLowerCase()));
+  }
+
+  return csvFiles.find(e => {
+    const name = e.filename.toLowerCase();
+    return !isACWIAFile(name) && (name.includes('alc') || name.includes('oews') || name.includes('wage'));
+  }) ?? csvFiles.find(e => !isACWIAFile(e.filename.toLowerCase()) && !e.filename.toLowerCase().includes('geography'));
+}
+
 // Determine wage year from filename or URL
 function getWageYear(url: string): string {
   if (url.includes('2025-26')) return '2025-2026';
@@ -100,9 +118,24 @@ Deno.serve(async (req) => {
           { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+      // Wage data is shared by every organization, so only admins may load it
+      const { data: isAdmin, error: roleError } = await authClient.rpc('has_role', { p_role: 'admin' });
+      if (roleError || !isAdmin) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Only administrators can import wage data' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
     }
 
-    const { zipUrl, wageYear: customWageYear, skipRows = 0, clearExisting = true } = await req.json();
+    const { zipUrl, wageYear: customWageYear, skipRows = 0, clearExisting = true, tableType = 'general' } = await req.json();
+
+    if (tableType !== 'general' && tableType !== 'acwia') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'tableType must be "general" or "acwia"' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     if (!zipUrl) {
       return new Response(
@@ -129,7 +162,7 @@ Deno.serve(async (req) => {
     }
 
     const wageYear = customWageYear || getWageYear(zipUrl);
-    console.log(`Importing wage data for year: ${wageYear} from ${zipUrl}, skipRows: ${skipRows}`);
+    console.log(`Importing ${tableType} wage data for year: ${wageYear} from ${zipUrl}, skipRows: ${skipRows}`);
 
     // Initialize Supabase client with service role
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -150,25 +183,17 @@ Deno.serve(async (req) => {
     const zipReader = new ZipReader(new BlobReader(zipBlob));
     const entries = await zipReader.getEntries();
     
-    // Find the main wage data CSV
+    // Find the wage table CSV
     const csvFiles = entries.filter(e => e.filename.toLowerCase().endsWith('.csv'));
     console.log('CSV files found:', csvFiles.map(e => e.filename));
 
-    let wageDataEntry = entries.find(e => 
-      e.filename.toLowerCase().endsWith('.csv') &&
-      (e.filename.toLowerCase().includes('oews') || 
-       e.filename.toLowerCase().includes('wage'))
-    );
-    
-    if (!wageDataEntry && csvFiles.length > 0) {
-      wageDataEntry = csvFiles[0];
-    }
+    const wageDataEntry = findTableEntry(entries, tableType);
 
     if (!wageDataEntry) {
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: 'Could not find wage data CSV in ZIP',
+          error: `Could not find ${tableType === 'acwia' ? 'ACWIA' : 'wage data'} CSV in ZIP`,
           availableFiles: entries.map(e => e.filename)
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -229,9 +254,9 @@ Deno.serve(async (req) => {
 
     // Only delete if clearExisting and not resuming
     if (clearExisting && skipRows === 0) {
-      console.log(`Clearing existing data for ${wageYear} using batched delete...`);
+      console.log(`Clearing existing ${tableType} data for ${wageYear} using batched delete...`);
       const { data: deletedCount, error: deleteError } = await supabase
-        .rpc('clear_wage_year', { p_wage_year: wageYear });
+        .rpc('clear_wage_year', { p_wage_year: wageYear, p_table_type: tableType });
 
       if (deleteError) {
         console.error('Delete error:', deleteError);
@@ -249,7 +274,7 @@ Deno.serve(async (req) => {
     const flushBatch = async (records: WageRecord[]) => {
       const { error: upsertError } = await supabase
         .from('oflc_prevailing_wages')
-        .upsert(records, { onConflict: 'wage_year,area_code,soc_code' });
+        .upsert(records, { onConflict: 'wage_year,table_type,area_code,soc_code' });
 
       if (upsertError) {
         console.error(`Batch upsert error:`, upsertError.message);
@@ -288,6 +313,7 @@ Deno.serve(async (req) => {
       // FLAG.gov data stores HOURLY wages in level columns
       const record: WageRecord = {
         wage_year: wageYear,
+        table_type: tableType,
         area_code: areaCode,
         area_name: label,
         soc_code: socCode,
@@ -322,8 +348,9 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: `Successfully imported ${totalInserted} wage records for ${wageYear}`,
+        message: `Successfully imported ${totalInserted} ${tableType} wage records for ${wageYear}`,
         wageYear,
+        tableType,
         recordCount: totalInserted,
         skippedCount: skipped,
         sourceFile: wageDataEntry.filename,
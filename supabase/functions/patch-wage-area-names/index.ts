@@ -46,6 +46,10 @@ Deno.serve(async (req) => {
       if (claimsError || !claimsData?.claims) {
         return new Response(JSON.stringify({ success: false, error: 'Invalid authentication' }), { status: 401, headers: corsHeaders });
       }
+      const { data: isAdmin, error: roleError } = await authClient.rpc('has_role', { p_role: 'admin' });
+      if (roleError || !isAdmin) {
+        return new Response(JSON.stringify({ success: false, error: 'Only administrators can patch wage data' }), { status: 403, headers: corsHeaders });
+      }
     }
 
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -0,0 +1,123 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import forge from "https://esm.sh/node-forge@1.3.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    });
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ success: false, error: 'Invalid authentication' }, 401);
+    }
+
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { signatoryId, p12Base64, password } = await req.json();
+    if (!signatoryId || !p12Base64 || typeof p12Base64 !== 'string') {
+      return jsonResponse({ success: false, error: 'signatoryId and p12Base64 are required' }, 400);
+    }
+
+    // Read as the caller so RLS only finds signatories of the caller's employers
+    const { data: signatory } = await authClient
+      .from('authorized_signatories')
+      .select('employer_id')
+      .eq('id', signatoryId)
+      .maybeSingle();
+    if (!signatory) {
+      return jsonResponse({ success: false, error: 'Signatory not found' }, 404);
+    }
+    const { data: isAdmin, error: roleError } = await authClient
+      .rpc('has_employer_role', { p_employer_id: signatory.employer_id, p_role: 'admin' });
+    if (roleError || !isAdmin) {
+      return jsonResponse({ success: false, error: 'Only administrators can manage signing certificates' }, 403);
+    }
+
+    // Validate the file and password before storing anything
+    const p12Binary = atob(p12Base64);
+    let p12;
+    try {
+      p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(p12Binary), password ?? '');
+    } catch {
+      return jsonResponse({ success: false, error: 'Could not open certificate file - check the password' }, 400);
+    }
+    const key = p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag]?.[0]?.key as
+      forge.pki.rsa.PrivateKey | undefined;
+    const certificate = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [])
+      .map((bag) => bag.cert)
+      .find((cert) => key && cert && (cert.publicKey as forge.pki.rsa.PublicKey).n.equals(key.n));
+    if (!key || !certificate) {
+      return jsonResponse({ success: false, error: 'Certificate file must contain a private key and its certificate' }, 400);
+    }
+    if (certificate.validity.notAfter < new Date()) {
+      return jsonResponse({ success: false, error: 'Certificate has expired' }, 400);
+    }
+
+    const certificatePath = `${signatoryId}.p12`;
+    const { error: uploadError } = await supabase.storage
+      .from('signing-certificates')
+      .upload(certificatePath, binaryToBytes(p12Binary), { contentType: 'application/x-pkcs12', upsert: true });
+    if (uploadError) throw uploadError;
+
+    const { error: passwordError } = await supabase.rpc('set_signatory_certificate_password', {
+      p_signatory_id: signatoryId,
+      p_password: password ?? '',
+    });
+    if (passwordError) throw passwordError;
+
+    const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+    const certificateInfo = {
+      certificate_path: certificatePath,
+      certificate_fingerprint: forge.md.sha256.create().update(der).digest().toHex(),
+      certificate_subject: certificate.subject.getField('CN')?.value ?? null,
+      certificate_expires_at: certificate.validity.notAfter.toISOString(),
+    };
+
+    const { error: updateError } = await supabase
+      .from('authorized_signatories')
+      .update(certificateInfo)
+      .eq('id', signatoryId);
+    if (updateError) throw updateError;
+
+    console.log(`Registered signing certificate for signatory ${signatoryId}`);
+
+    return jsonResponse({ success: true, ...certificateInfo });
+  } catch (error) {
+    console.error('Certificate registration error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
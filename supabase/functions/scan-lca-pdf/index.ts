@@ -35,12 +35,28 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { pdfBase64 } = await req.json();
+    const { data: isPreparer, error: roleError } = await authClient.rpc('has_role', { p_role: 'preparer' });
+    if (roleError || !isPreparer) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Only preparers can scan LCAs' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { pdfBase64, fields } = await req.json();
 
     if (!pdfBase64 || typeof pdfBase64 !== 'string') {
       throw new Error('Missing or invalid pdfBase64 parameter');
     }
 
+    // The browser parser reads most fields itself and asks only for the ones it couldn't find
+    const requestedFields = Array.isArray(fields)
+      ? fields.filter((field): field is string => typeof field === 'string')
+      : [];
+    const fieldScope = requestedFields.length > 0
+      ? `\n- Only these fields are needed; leave every other field out of the JSON except fieldSources: ${requestedFields.join(', ')}`
+      : '';
+
     const apiKey = Deno.env.get('LOVABLE_API_KEY');
     if (!apiKey) throw new Error('LOVABLE_API_KEY not configured');
 
@@ -86,18 +102,14 @@ Deno.serve(async (req) => {
 
   "wageSourceYear": "string or null - the OES/prevailing wage source period date shown on page 3 (e.g. 'July 2025' or '07/01/2025'). Extract the FIRST date if a range is shown (e.g. from 'July 1, 2025 - June 30, 2026' extract 'July 1, 2025'). Return in YYYY-MM-DD format.",
 
-  "hasSecondaryWorksite": "boolean - true if there is a secondary/additional worksite listed (check page 7 / Appendix A)",
-  "secondaryWorksiteAddress": "string or null - secondary worksite street address from Appendix A or additional worksite section",
-  "secondaryWorksiteCity": "string or null - secondary worksite city",
-  "secondaryWorksiteState": "string or null - secondary worksite state (full name)",
-  "secondaryWorksitePostalCode": "string or null - secondary worksite zip code",
-  "secondaryWorksiteCounty": "string or null - secondary worksite county",
-  "secondaryWorksiteName": "string or null - the name of the secondary entity / place of employment at the SECONDARY worksite (page 7 / Appendix A, question 3, the legal business name of the secondary entity where the worker is placed)",
+  "secondaryWorksites": "array - every additional place of employment listed in Appendix A (page 7 onward), in the order listed; an empty array if there are none. Each item is an object with: address (street address), city, state (full name), postalCode, county, worksiteName (string or null - the legal business name of the secondary entity where the worker is placed), prevailingWage (number or null), prevailingWageUnit (Year, Hour, Week, Bi-Weekly, or Month, or null), wageLevel (Level I, Level II, Level III, Level IV, or null), wageSourceYear (string or null - the wage source period start in YYYY-MM-DD format)",
 
   "h1bDependent": "boolean - whether the employer is H-1B dependent",
   "willfulViolator": "boolean - whether the employer is a willful violator",
   "h1bExemptionChecked": "boolean or null - whether the H-1B exemption box (Section H, Item H-4) is checked on the LCA, indicating the worker is exempt from displacement/recruitment attestations. Return true if H-4 is checked, false if not, null if not determinable.",
-  "lcaReceivedDate": "string or null - the date the LCA was received/filed with DOL, in YYYY-MM-DD format (often shown as 'Date Received' near top of form)"
+  "lcaReceivedDate": "string or null - the date the LCA was received/filed with DOL, in YYYY-MM-DD format (often shown as 'Date Received' near top of form)",
+
+  "fieldSources": "object - for every field above that has a value, keyed by field name (secondary worksite fields as secondaryWorksites.N.fieldName, N from 0): { page: number - the 1-based PDF page the value was read from, snippet: string - the exact text on that page the value was read from (at most 120 characters), confidence: number from 0 to 1 - how certain the value is correct }"
 }
 
 IMPORTANT:
@@ -108,9 +120,9 @@ IMPORTANT:
 - Dates must be in YYYY-MM-DD format
 - Wage amounts must be plain numbers (no currency symbols or commas)
 - Boolean fields must be true or false (not strings)
-- For secondary worksite, check the "Additional Worksite" or "Appendix A" section
+- For secondaryWorksites, list EVERY worksite in the "Additional Worksite" or "Appendix A" section, not only the first one
 
-- lcaReceivedDate can often be found as a stamped date or 'Received' field at the top of certified LCA copies`;
+- lcaReceivedDate can often be found as a stamped date or 'Received' field at the top of certified LCA copies${fieldScope}`;
 
     const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
       method: 'POST',
@@ -135,7 +147,7 @@ IMPORTANT:
           },
         ],
         temperature: 0.1,
-        max_tokens: 3000,
+        max_tokens: 6000,
       }),
     });
 
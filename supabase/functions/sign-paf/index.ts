@@ -0,0 +1,292 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PDFDocument, PDFArray, PDFName, PDFNumber, PDFHexString, PDFString, PDFDict } from "https://esm.sh/pdf-lib@1.17.1";
+import forge from "https://esm.sh/node-forge@1.3.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Bytes reserved for the PKCS#7 signature (written as hex, so the placeholder is twice as long)
+const SIGNATURE_LENGTH = 16384;
+const BYTE_RANGE_PLACEHOLDER = '**********';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function bytesToBinary(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Extract the signing key and certificate (plus any chain) from a PKCS#12 file
+function readPkcs12(p12Bytes: Uint8Array, password: string) {
+  const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(bytesToBinary(p12Bytes)), password);
+  const keyBags = p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] ?? [];
+  const key = keyBags[0]?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!key) throw new Error('Certificate file does not contain a private key');
+
+  const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [])
+    .map((bag) => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+  const certificate = certificates.find((cert) => (cert.publicKey as forge.pki.rsa.PublicKey).n.equals(key.n));
+  if (!certificate) throw new Error('No certificate matches the private key');
+
+  return { key, certificate, chain: certificates.filter((cert) => cert !== certificate) };
+}
+
+function certificateFingerprint(certificate: forge.pki.Certificate): string {
+  const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+  return forge.md.sha256.create().update(der).digest().toHex();
+}
+
+/**
+ * Adds an invisible signature field whose value has a fixed-size /Contents
+ * placeholder and a /ByteRange to be filled in after serialization.
+ */
+async function addSignaturePlaceholder(pdfBytes: Uint8Array, name: string, reason: string, signingTime: Date) {
+  const pdf = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const context = pdf.context;
+
+  const byteRange = PDFArray.withContext(context);
+  byteRange.push(PDFNumber.of(0));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+
+  const signatureRef = context.register(context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'adbe.pkcs7.detached',
+    ByteRange: byteRange,
+    Contents: PDFHexString.of('0'.repeat(SIGNATURE_LENGTH * 2)),
+    Reason: PDFString.of(reason),
+    Name: PDFString.of(name),
+    M: PDFString.fromDate(signingTime),
+  }));
+
+  // Zero-size widget: no appearance stream needed (also valid for PDF/A)
+  const page = pdf.getPage(0);
+  const widgetRef = context.register(context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    Rect: [0, 0, 0, 0],
+    V: signatureRef,
+    T: PDFString.of('PAF Signature'),
+    F: 132, // Print + Locked
+    P: page.ref,
+  }));
+  page.node.addAnnot(widgetRef);
+
+  const acroForm = pdf.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (acroForm) {
+    const fields = acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray);
+    if (fields) fields.push(widgetRef);
+    else acroForm.set(PDFName.of('Fields'), context.obj([widgetRef]));
+    acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+  } else {
+    pdf.catalog.set(PDFName.of('AcroForm'), context.obj({ SigFlags: 3, Fields: [widgetRef] }));
+  }
+
+  return pdf.save({ useObjectStreams: false });
+}
+
+/**
+ * Fills in /ByteRange and writes a detached PKCS#7 signature over
+ * everything except the /Contents placeholder.
+ */
+function signPlaceholder(pdf: Uint8Array, signer: ReturnType<typeof readPkcs12>, signingTime: Date): Uint8Array {
+  const text = new TextDecoder('latin1').decode(pdf);
+  const placeholder = `/ByteRange [ 0 /${BYTE_RANGE_PLACEHOLDER} /${BYTE_RANGE_PLACEHOLDER} /${BYTE_RANGE_PLACEHOLDER} ]`;
+  const byteRangeStart = text.lastIndexOf(placeholder);
+  if (byteRangeStart < 0) throw new Error('Signature placeholder not found');
+
+  const contentsStart = text.indexOf('<', text.indexOf('/Contents', byteRangeStart));
+  const contentsEnd = text.indexOf('>', contentsStart) + 1;
+  const byteRange = [0, contentsStart, contentsEnd, pdf.length - contentsEnd];
+  const byteRangeText = `/ByteRange [ ${byteRange.join(' ')} ]`.padEnd(placeholder.length, ' ');
+
+  const output = pdf.slice();
+  output.set(new TextEncoder().encode(byteRangeText), byteRangeStart);
+
+  const signedContent = new Uint8Array(contentsStart + byteRange[3]);
+  signedContent.set(output.subarray(0, contentsStart), 0);
+  signedContent.set(output.subarray(contentsEnd), contentsStart);
+
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(bytesToBinary(signedContent));
+  p7.addCertificate(signer.certificate);
+  signer.chain.forEach((cert) => p7.addCertificate(cert));
+  p7.addSigner({
+    key: signer.key,
+    certificate: signer.certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime, value: signingTime },
+    ],
+  });
+  p7.sign({ detached: true });
+
+  const signatureHex = forge.util.bytesToHex(forge.asn1.toDer(p7.toAsn1()).getBytes());
+  if (signatureHex.length > SIGNATURE_LENGTH * 2) throw new Error('Signature too large for placeholder');
+  output.set(new TextEncoder().encode(signatureHex.padEnd(SIGNATURE_LENGTH * 2, '0')), contentsStart + 1);
+  return output;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    });
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ success: false, error: 'Invalid authentication' }, 401);
+    }
+
+    // Certificates and key passwords are only readable with the service role
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { versionId, signatoryId, reason } = await req.json();
+    if (!versionId || typeof versionId !== 'string' || !signatoryId) {
+      return jsonResponse({ success: false, error: 'versionId and signatoryId are required' }, 400);
+    }
+
+    // Read as the caller so RLS only finds versions of the caller's employers
+    const { data: version, error: versionError } = await authClient
+      .from('paf_versions')
+      .select('id, pdf_path, paf_records!paf_versions_paf_record_id_fkey(id, employer_id, status, current_version_id, signatory_id)')
+      .eq('id', versionId)
+      .single();
+    const record = version?.paf_records;
+    if (versionError || !version || !record) {
+      return jsonResponse({ success: false, error: 'PAF version not found' }, 404);
+    }
+    // PAFs are signed as they're approved
+    if (record.status !== 'in_review') {
+      return jsonResponse({ success: false, error: 'Only PAFs in review can be signed' }, 409);
+    }
+    if (record.current_version_id !== version.id) {
+      return jsonResponse({ success: false, error: 'Only the current version of a PAF can be signed' }, 409);
+    }
+
+    const { data: signatory, error: signatoryError } = await supabase
+      .from('authorized_signatories')
+      .select('id, name, title, certificate_path, employer_id, user_id')
+      .eq('id', signatoryId)
+      .single();
+    if (signatoryError || !signatory || signatory.employer_id !== record.employer_id) {
+      return jsonResponse({ success: false, error: 'Signatory not found' }, 404);
+    }
+    // The PAF's sections carry the signature of the signatory chosen for it
+    if (record.signatory_id && record.signatory_id !== signatory.id) {
+      return jsonResponse({ success: false, error: `This PAF is signed by its chosen signatory, not ${signatory.name}` }, 409);
+    }
+
+    // A signatory's certificate is only used by the user linked to it
+    const userId = claimsData.claims.sub;
+    if (signatory.user_id !== userId) {
+      return jsonResponse({ success: false, error: `Only the user linked to ${signatory.name} can sign as them` }, 403);
+    }
+
+    const { data: isSignatory, error: roleError } = await authClient
+      .rpc('has_employer_role', { p_employer_id: signatory.employer_id, p_role: 'signatory' });
+    if (roleError || !isSignatory) {
+      return jsonResponse({ success: false, error: 'Only signatories can sign PAFs' }, 403);
+    }
+    if (!signatory.certificate_path) {
+      return jsonResponse({ success: false, error: `${signatory.name} has no signing certificate` }, 400);
+    }
+
+    const { data: storedPdf, error: pdfError } = await supabase.storage
+      .from('paf-documents')
+      .download(version.pdf_path);
+    if (pdfError || !storedPdf) {
+      throw new Error(`Could not load the stored PAF: ${pdfError?.message}`);
+    }
+
+    const { data: certificateFile, error: downloadError } = await supabase.storage
+      .from('signing-certificates')
+      .download(signatory.certificate_path);
+    if (downloadError || !certificateFile) {
+      throw new Error(`Could not load signing certificate: ${downloadError?.message}`);
+    }
+
+    const { data: password, error: passwordError } = await supabase
+      .rpc('get_signatory_certificate_password', { p_signatory_id: signatoryId });
+    if (passwordError) throw passwordError;
+
+    const signer = readPkcs12(new Uint8Array(await certificateFile.arrayBuffer()), password ?? '');
+    const signingTime = new Date();
+    const prepared = await addSignaturePlaceholder(
+      new Uint8Array(await storedPdf.arrayBuffer()),
+      `${signatory.name}, ${signatory.title}`,
+      reason || 'H-1B Public Access File',
+      signingTime
+    );
+    const signed = signPlaceholder(prepared, signer, signingTime);
+    const fingerprint = certificateFingerprint(signer.certificate);
+
+    // The signed copy becomes the next version (same layout as pafVersionPath in src/lib/pafRecord.ts)
+    const path = `paf-versions/${record.id}/${Date.now()}.pdf`;
+    const { error: uploadError } = await supabase.storage
+      .from('paf-documents')
+      .upload(path, signed, { contentType: 'application/pdf' });
+    if (uploadError) throw uploadError;
+
+    const { data: signedVersion, error: addError } = await supabase.rpc('add_signed_paf_version', {
+      p_source_version_id: version.id,
+      p_pdf_path: path,
+      p_pdf_sha256: forge.md.sha256.create().update(bytesToBinary(signed)).digest().toHex(),
+      p_signed_by_signatory_id: signatory.id,
+      p_signing_certificate_fingerprint: fingerprint,
+      p_signed_at: signingTime.toISOString(),
+      p_signed_by_user_id: userId,
+    });
+    if (addError) throw addError;
+
+    console.log(`Signed PAF ${record.id} version ${signedVersion.version} for signatory ${signatory.id}`);
+
+    return jsonResponse({
+      success: true,
+      versionId: signedVersion.id,
+      version: signedVersion.version,
+      certificateFingerprint: fingerprint,
+      signedAt: signingTime.toISOString(),
+    });
+  } catch (error) {
+    console.error('Signing error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
@@ -0,0 +1,3 @@
+-- Storage path of the archival (PDF/A-2b) copy of the generated PAF
+ALTER TABLE public.paf_records 
+ADD COLUMN archived_pdf_path text;
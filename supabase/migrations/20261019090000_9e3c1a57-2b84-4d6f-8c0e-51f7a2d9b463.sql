@@ -0,0 +1,42 @@
+-- Tamper-evidence: SHA-256 of the canonical PAF data + attachments (embedded
+-- in the PDF) and SHA-256 of the stored PDF file itself
+ALTER TABLE public.paf_records 
+ADD COLUMN content_hash text,
+ADD COLUMN pdf_sha256 text,
+ADD COLUMN pdf_generated_at timestamp with time zone;
+
+CREATE INDEX idx_paf_records_content_hash ON public.paf_records (content_hash);
+CREATE INDEX idx_paf_records_pdf_sha256 ON public.paf_records (pdf_sha256);
+
+-- Public verification of an uploaded PAF. Runs as definer so investigators
+-- can verify without an account; only returns identifying summary fields.
+CREATE OR REPLACE FUNCTION public.verify_paf_document(p_pdf_sha256 text, p_content_hash text)
+RETURNS TABLE (
+  id uuid,
+  lca_case_number text,
+  employer_legal_name text,
+  job_title text,
+  pdf_generated_at timestamp with time zone,
+  pdf_matches boolean,
+  content_matches boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    r.id,
+    r.lca_case_number,
+    r.employer_legal_name,
+    r.job_title,
+    r.pdf_generated_at,
+    r.pdf_sha256 IS NOT DISTINCT FROM p_pdf_sha256 AS pdf_matches,
+    r.content_hash IS NOT DISTINCT FROM p_content_hash AS content_matches
+  FROM public.paf_records r
+  WHERE r.pdf_sha256 = p_pdf_sha256
+     OR (p_content_hash IS NOT NULL AND r.content_hash = p_content_hash)
+  ORDER BY (r.pdf_sha256 = p_pdf_sha256) DESC, r.pdf_generated_at DESC NULLS LAST;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_paf_document(text, text) TO anon, authenticated;
@@ -0,0 +1,63 @@
+-- PKCS#12 signing certificate per authorized signatory
+ALTER TABLE public.authorized_signatories 
+ADD COLUMN certificate_path text,
+ADD COLUMN certificate_fingerprint text,
+ADD COLUMN certificate_subject text,
+ADD COLUMN certificate_expires_at timestamp with time zone,
+ADD COLUMN certificate_password_secret_id uuid;
+
+-- Record which certificate signed each PAF
+ALTER TABLE public.paf_records 
+ADD COLUMN signed_by_signatory_id uuid REFERENCES public.authorized_signatories(id) ON DELETE SET NULL,
+ADD COLUMN signing_certificate_fingerprint text,
+ADD COLUMN signed_at timestamp with time zone;
+
+-- Private bucket for certificate files; no policies, so only the service
+-- role (sign-paf / register-signing-certificate edge functions) can access it
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('signing-certificates', 'signing-certificates', false);
+
+-- Certificate passwords are kept in Vault, never in the table
+CREATE OR REPLACE FUNCTION public.set_signatory_certificate_password(p_signatory_id uuid, p_password text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_secret_id uuid;
+BEGIN
+  SELECT certificate_password_secret_id INTO v_secret_id
+  FROM public.authorized_signatories
+  WHERE id = p_signatory_id;
+
+  IF v_secret_id IS NULL THEN
+    v_secret_id := vault.create_secret(p_password, 'signatory-certificate-' || p_signatory_id::text);
+    UPDATE public.authorized_signatories
+    SET certificate_password_secret_id = v_secret_id
+    WHERE id = p_signatory_id;
+  ELSE
+    PERFORM vault.update_secret(v_secret_id, p_password);
+  END IF;
+
+  RETURN v_secret_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_signatory_certificate_password(p_signatory_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT s.decrypted_secret
+  FROM public.authorized_signatories a
+  JOIN vault.decrypted_secrets s ON s.id = a.certificate_password_secret_id
+  WHERE a.id = p_signatory_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_signatory_certificate_password(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_signatory_certificate_password(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_signatory_certificate_password(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_signatory_certificate_password(uuid) TO service_role;
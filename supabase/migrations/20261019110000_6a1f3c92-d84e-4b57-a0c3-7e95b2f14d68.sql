@@ -0,0 +1,166 @@
+-- Immutable PAF versions: every generation stores the exact PDF and gets a
+-- version number. Downloads serve the stored file; regeneration adds a new
+-- version instead of replacing the old one.
+CREATE TABLE public.paf_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  paf_record_id uuid NOT NULL REFERENCES public.paf_records(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  pdf_path text NOT NULL,
+  pdf_sha256 text NOT NULL,
+  content_hash text,
+  signed_by_signatory_id uuid REFERENCES public.authorized_signatories(id) ON DELETE SET NULL,
+  signing_certificate_fingerprint text,
+  signed_at timestamp with time zone,
+  generated_at timestamp with time zone NOT NULL DEFAULT now(),
+  generated_by uuid DEFAULT auth.uid(),
+  UNIQUE (paf_record_id, version)
+);
+
+CREATE INDEX idx_paf_versions_pdf_sha256 ON public.paf_versions (pdf_sha256);
+CREATE INDEX idx_paf_versions_content_hash ON public.paf_versions (content_hash);
+
+ALTER TABLE public.paf_versions ENABLE ROW LEVEL SECURITY;
+
+-- Read and insert only: versions are never updated or deleted by users
+CREATE POLICY "Authenticated users can read PAF versions"
+ON public.paf_versions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can add PAF versions"
+ON public.paf_versions
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+-- The record points at its current version; archived_pdf_path, hashes and
+-- signing columns mirror that version
+ALTER TABLE public.paf_records
+ADD COLUMN current_version integer,
+ADD COLUMN current_version_id uuid REFERENCES public.paf_versions(id) ON DELETE SET NULL;
+
+-- Existing archived PDFs become version 1
+INSERT INTO public.paf_versions (
+  paf_record_id, version, pdf_path, pdf_sha256, content_hash,
+  signed_by_signatory_id, signing_certificate_fingerprint, signed_at, generated_at, generated_by
+)
+SELECT
+  id, 1, archived_pdf_path, pdf_sha256, content_hash,
+  signed_by_signatory_id, signing_certificate_fingerprint, signed_at, COALESCE(pdf_generated_at, created_at), NULL
+FROM public.paf_records
+WHERE archived_pdf_path IS NOT NULL AND pdf_sha256 IS NOT NULL;
+
+UPDATE public.paf_records r
+SET current_version = v.version, current_version_id = v.id
+FROM public.paf_versions v
+WHERE v.paf_record_id = r.id;
+
+-- Adds the next version of a PAF and makes it current. Runs as the caller so
+-- RLS applies; the row lock keeps version numbers unique under concurrency.
+CREATE OR REPLACE FUNCTION public.add_paf_version(
+  p_paf_record_id uuid,
+  p_pdf_path text,
+  p_pdf_sha256 text,
+  p_content_hash text,
+  p_signed_by_signatory_id uuid DEFAULT NULL,
+  p_signing_certificate_fingerprint text DEFAULT NULL,
+  p_signed_at timestamp with time zone DEFAULT NULL
+)
+RETURNS public.paf_versions
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_next integer;
+  v_version public.paf_versions;
+BEGIN
+  SELECT COALESCE(current_version, 0) + 1 INTO v_next
+  FROM public.paf_records
+  WHERE id = p_paf_record_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+
+  INSERT INTO public.paf_versions (
+    paf_record_id, version, pdf_path, pdf_sha256, content_hash,
+    signed_by_signatory_id, signing_certificate_fingerprint, signed_at
+  )
+  VALUES (
+    p_paf_record_id, v_next, p_pdf_path, p_pdf_sha256, p_content_hash,
+    p_signed_by_signatory_id, p_signing_certificate_fingerprint, p_signed_at
+  )
+  RETURNING * INTO v_version;
+
+  UPDATE public.paf_records
+  SET current_version = v_version.version,
+      current_version_id = v_version.id,
+      archived_pdf_path = v_version.pdf_path,
+      pdf_sha256 = v_version.pdf_sha256,
+      content_hash = v_version.content_hash,
+      pdf_generated_at = v_version.generated_at,
+      signed_by_signatory_id = v_version.signed_by_signatory_id,
+      signing_certificate_fingerprint = v_version.signing_certificate_fingerprint,
+      signed_at = v_version.signed_at
+  WHERE id = p_paf_record_id;
+
+  RETURN v_version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_paf_version(uuid, text, text, text, uuid, text, timestamp with time zone) TO authenticated, service_role;
+
+-- Verification also matches superseded versions
+DROP FUNCTION public.verify_paf_document(text, text);
+
+CREATE FUNCTION public.verify_paf_document(p_pdf_sha256 text, p_content_hash text)
+RETURNS TABLE (
+  id uuid,
+  lca_case_number text,
+  employer_legal_name text,
+  job_title text,
+  version integer,
+  is_current_version boolean,
+  pdf_generated_at timestamp with time zone,
+  pdf_matches boolean,
+  content_matches boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    r.id,
+    r.lca_case_number,
+    r.employer_legal_name,
+    r.job_title,
+    v.version,
+    v.id IS NOT DISTINCT FROM r.current_version_id AS is_current_version,
+    v.generated_at AS pdf_generated_at,
+    v.pdf_sha256 IS NOT DISTINCT FROM p_pdf_sha256 AS pdf_matches,
+    v.content_hash IS NOT DISTINCT FROM p_content_hash AS content_matches
+  FROM public.paf_versions v
+  JOIN public.paf_records r ON r.id = v.paf_record_id
+  WHERE v.pdf_sha256 = p_pdf_sha256
+     OR (p_content_hash IS NOT NULL AND v.content_hash = p_content_hash)
+  ORDER BY (v.pdf_sha256 = p_pdf_sha256) DESC, v.generated_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_paf_document(text, text) TO anon, authenticated;
+
+-- Stored PAF PDFs can't be overwritten or deleted through the API
+DROP POLICY IF EXISTS "Authenticated users can update in paf-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete from paf-documents" ON storage.objects;
+
+CREATE POLICY "Authenticated users can update in paf-documents"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'paf-documents' AND (storage.foldername(name))[1] NOT IN ('paf-versions', 'archived-pafs'));
+
+CREATE POLICY "Authenticated users can delete from paf-documents"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'paf-documents' AND (storage.foldername(name))[1] NOT IN ('paf-versions', 'archived-pafs'));
@@ -0,0 +1,42 @@
+-- Compliance overrides: when a reviewer generates a PAF despite blocking
+-- compliance errors, the reason and the overridden rules are kept on the
+-- record. Who overrode and when is stamped by the database, not the client.
+ALTER TABLE public.paf_records
+  ADD COLUMN compliance_override_reason text,
+  ADD COLUMN compliance_override_rules text[],
+  ADD COLUMN compliance_override_by uuid,
+  ADD COLUMN compliance_override_by_email text,
+  ADD COLUMN compliance_override_at timestamp with time zone;
+
+CREATE OR REPLACE FUNCTION public.stamp_paf_compliance_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NULLIF(btrim(NEW.compliance_override_reason), '') IS NULL THEN
+    NEW.compliance_override_reason := NULL;
+    NEW.compliance_override_rules := NULL;
+    NEW.compliance_override_by := NULL;
+    NEW.compliance_override_by_email := NULL;
+    NEW.compliance_override_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+     OR NEW.compliance_override_reason IS DISTINCT FROM OLD.compliance_override_reason
+     OR NEW.compliance_override_rules IS DISTINCT FROM OLD.compliance_override_rules THEN
+    NEW.compliance_override_by := auth.uid();
+    NEW.compliance_override_by_email := auth.jwt() ->> 'email';
+    NEW.compliance_override_at := now();
+  ELSE
+    NEW.compliance_override_by := OLD.compliance_override_by;
+    NEW.compliance_override_by_email := OLD.compliance_override_by_email;
+    NEW.compliance_override_at := OLD.compliance_override_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_paf_records_compliance_override
+BEFORE INSERT OR UPDATE ON public.paf_records
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_paf_compliance_override();
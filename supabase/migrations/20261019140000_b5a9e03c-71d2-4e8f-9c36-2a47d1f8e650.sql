@@ -0,0 +1,94 @@
+-- Per-location posting start dates, for display areas posted later than the
+-- shared notice_posting_start_date
+ALTER TABLE public.paf_records
+ADD COLUMN notice_posting_start_date2 TEXT,
+ADD COLUMN notice_posting_start_date3 TEXT,
+ADD COLUMN notice_posting_start_date4 TEXT;
+
+-- Restoring a revision also restores the per-location start dates
+CREATE OR REPLACE FUNCTION public.restore_paf_revision(p_revision_id uuid)
+RETURNS public.paf_records
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_revision public.paf_record_revisions;
+  v_old public.paf_records;
+  v_record public.paf_records;
+BEGIN
+  SELECT * INTO v_revision FROM public.paf_record_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id;
+  END IF;
+
+  v_old := jsonb_populate_record(NULL::public.paf_records, v_revision.data);
+  PERFORM set_config('paf.restored_from_revision', v_revision.revision::text, true);
+
+  UPDATE public.paf_records r
+  SET visa_type = v_old.visa_type,
+      lca_case_number = v_old.lca_case_number,
+      lca_status = v_old.lca_status,
+      is_h1b_dependent = v_old.is_h1b_dependent,
+      is_willful_violator = v_old.is_willful_violator,
+      is_full_time = v_old.is_full_time,
+      is_rd = v_old.is_rd,
+      worker_name = v_old.worker_name,
+      employer_legal_name = v_old.employer_legal_name,
+      employer_trade_name = v_old.employer_trade_name,
+      employer_address1 = v_old.employer_address1,
+      employer_address2 = v_old.employer_address2,
+      employer_city = v_old.employer_city,
+      employer_state = v_old.employer_state,
+      employer_postal_code = v_old.employer_postal_code,
+      employer_country = v_old.employer_country,
+      employer_telephone = v_old.employer_telephone,
+      employer_fein = v_old.employer_fein,
+      employer_naics_code = v_old.employer_naics_code,
+      job_title = v_old.job_title,
+      soc_code = v_old.soc_code,
+      soc_title = v_old.soc_title,
+      onet_code = v_old.onet_code,
+      onet_title = v_old.onet_title,
+      begin_date = v_old.begin_date,
+      end_date = v_old.end_date,
+      wage_rate_from = v_old.wage_rate_from,
+      wage_rate_to = v_old.wage_rate_to,
+      wage_unit = v_old.wage_unit,
+      workers_needed = v_old.workers_needed,
+      worksite_address1 = v_old.worksite_address1,
+      worksite_address2 = v_old.worksite_address2,
+      worksite_city = v_old.worksite_city,
+      worksite_state = v_old.worksite_state,
+      worksite_postal_code = v_old.worksite_postal_code,
+      worksite_county = v_old.worksite_county,
+      worksite_area_code = v_old.worksite_area_code,
+      worksite_area_name = v_old.worksite_area_name,
+      prevailing_wage = v_old.prevailing_wage,
+      prevailing_wage_unit = v_old.prevailing_wage_unit,
+      wage_level = v_old.wage_level,
+      wage_source = v_old.wage_source,
+      wage_source_date = v_old.wage_source_date,
+      actual_wage = v_old.actual_wage,
+      actual_wage_unit = v_old.actual_wage_unit,
+      notice_posting_start_date = v_old.notice_posting_start_date,
+      notice_posting_end_date = v_old.notice_posting_end_date,
+      notice_posting_location = v_old.notice_posting_location,
+      notice_posting_location2 = v_old.notice_posting_location2,
+      notice_posting_location3 = v_old.notice_posting_location3,
+      notice_posting_location4 = v_old.notice_posting_location4,
+      notice_posting_start_date2 = v_old.notice_posting_start_date2,
+      notice_posting_start_date3 = v_old.notice_posting_start_date3,
+      notice_posting_start_date4 = v_old.notice_posting_start_date4,
+      lca_file_path = v_old.lca_file_path,
+      actual_wage_memo_path = v_old.actual_wage_memo_path,
+      notice_posting_proof_path = v_old.notice_posting_proof_path,
+      benefits_comparison_path = v_old.benefits_comparison_path
+  WHERE r.id = v_revision.paf_record_id
+  RETURNING * INTO v_record;
+
+  PERFORM set_config('paf.restored_from_revision', '', true);
+  RETURN v_record;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_paf_revision(uuid) TO authenticated;
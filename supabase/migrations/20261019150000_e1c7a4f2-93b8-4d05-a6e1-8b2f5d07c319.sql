@@ -0,0 +1,14 @@
+-- Wage years that have been imported into oflc_prevailing_wages, newest first.
+-- Used to resolve an LCA's wage year against the data actually available.
+CREATE OR REPLACE FUNCTION public.get_loaded_wage_years()
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT DISTINCT wage_year
+  FROM oflc_prevailing_wages
+  ORDER BY wage_year DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_loaded_wage_years() TO authenticated;
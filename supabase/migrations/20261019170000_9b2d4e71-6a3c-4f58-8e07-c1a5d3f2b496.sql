@@ -0,0 +1,45 @@
+-- ACWIA (American Competitiveness and Workforce Improvement Act) wage levels
+-- for institutions of higher education, affiliated nonprofits and nonprofit or
+-- government research organizations are imported alongside the general
+-- all-industries table. table_type tells them apart.
+ALTER TABLE public.oflc_prevailing_wages
+ADD COLUMN table_type TEXT NOT NULL DEFAULT 'general'
+  CHECK (table_type IN ('general', 'acwia'));
+
+ALTER TABLE public.oflc_prevailing_wages
+DROP CONSTRAINT oflc_prevailing_wages_wage_year_area_code_soc_code_key;
+
+ALTER TABLE public.oflc_prevailing_wages
+ADD CONSTRAINT oflc_prevailing_wages_year_table_area_soc_key
+  UNIQUE (wage_year, table_type, area_code, soc_code);
+
+DROP INDEX IF EXISTS public.idx_oflc_wages_lookup;
+CREATE INDEX idx_oflc_wages_lookup ON public.oflc_prevailing_wages(wage_year, table_type, soc_code, area_code);
+
+-- Clearing a year before re-import only clears the table being imported
+DROP FUNCTION IF EXISTS public.clear_wage_year(text);
+
+CREATE OR REPLACE FUNCTION public.clear_wage_year(p_wage_year text, p_table_type text DEFAULT 'general')
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  deleted_total INTEGER := 0;
+  deleted_batch INTEGER;
+BEGIN
+  LOOP
+    DELETE FROM oflc_prevailing_wages
+    WHERE id IN (
+      SELECT id FROM oflc_prevailing_wages
+      WHERE wage_year = p_wage_year
+        AND table_type = p_table_type
+      LIMIT 10000
+    );
+    GET DIAGNOSTICS deleted_batch = ROW_COUNT;
+    deleted_total := deleted_total + deleted_batch;
+    EXIT WHEN deleted_batch = 0;
+  END LOOP;
+  RETURN deleted_total;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Result of cross-checking the scanned LCA against its lca_disclosure row:
+-- the case checked, and for each field where the two disagreed, which value
+-- the preparer kept and why. NULL when no disclosure row was found or the
+-- LCA wasn't scanned.
+ALTER TABLE public.paf_records
+ADD COLUMN lca_reconciliation JSONB;
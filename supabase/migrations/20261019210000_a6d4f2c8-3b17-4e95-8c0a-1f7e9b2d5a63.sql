@@ -0,0 +1,181 @@
+-- Multi-tenant employers. An organization (a client, or a group of related
+-- entities) has members and one or more employers. Every PAF and signatory
+-- belongs to an employer, and users only see the employers of the
+-- organizations they are members of.
+CREATE TABLE public.organizations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user ON public.organization_members (user_id);
+
+-- Keyed by FEIN. name_variants lists other spellings of the legal name used in
+-- the DOL disclosure files, so imported LCAs can be matched to the employer.
+-- The address is the registered one: copies of it elsewhere in a PAF (e.g. the
+-- worksite) take its postal code.
+CREATE TABLE public.employers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  fein text NOT NULL UNIQUE,
+  legal_business_name text NOT NULL,
+  trade_name text,
+  name_variants text[] NOT NULL DEFAULT '{}',
+  address1 text NOT NULL,
+  address2 text,
+  city text NOT NULL,
+  state text NOT NULL,
+  postal_code text NOT NULL,
+  country text NOT NULL DEFAULT 'United States Of America',
+  telephone text,
+  naics_code text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_employers_organization ON public.employers (organization_id);
+
+CREATE TRIGGER update_employers_updated_at
+BEFORE UPDATE ON public.employers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Security definer so policies on organization_members can use it without recursing
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_employer_member(p_employer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM employers e
+    JOIN organization_members m ON m.organization_id = e.organization_id
+    WHERE e.id = p_employer_id AND m.user_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.employers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organizations"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (public.is_organization_member(id));
+
+CREATE POLICY "Members can read their organizations' members"
+ON public.organization_members
+FOR SELECT
+TO authenticated
+USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can read their employers"
+ON public.employers
+FOR SELECT
+TO authenticated
+USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can manage their employers"
+ON public.employers
+FOR ALL
+TO authenticated
+USING (public.is_organization_member(organization_id))
+WITH CHECK (public.is_organization_member(organization_id));
+
+-- The deployment so far served one employer; it becomes the first tenant and
+-- every existing user a member of it
+WITH org AS (
+  INSERT INTO public.organizations (name)
+  VALUES ('Sai Business Solutions')
+  RETURNING id
+)
+INSERT INTO public.employers (
+  organization_id, fein, legal_business_name, trade_name,
+  address1, address2, city, state, postal_code, country, telephone, naics_code
+)
+SELECT
+  org.id, '20-3420634', 'Sai Business Solutions LLC', 'SBS Corp',
+  '16001 Park Ten Pl', 'Suite 400L', 'Houston', 'Texas', '77084', 'United States Of America', '+12814776467', '541511'
+FROM org;
+
+INSERT INTO public.organization_members (organization_id, user_id)
+SELECT o.id, u.id
+FROM public.organizations o
+CROSS JOIN auth.users u;
+
+-- PAFs and signatories belong to an employer
+ALTER TABLE public.paf_records
+ADD COLUMN employer_id uuid REFERENCES public.employers(id);
+
+ALTER TABLE public.authorized_signatories
+ADD COLUMN employer_id uuid REFERENCES public.employers(id) ON DELETE CASCADE;
+
+UPDATE public.paf_records SET employer_id = (SELECT id FROM public.employers WHERE fein = '20-3420634');
+UPDATE public.authorized_signatories SET employer_id = (SELECT id FROM public.employers WHERE fein = '20-3420634');
+
+ALTER TABLE public.paf_records ALTER COLUMN employer_id SET NOT NULL;
+ALTER TABLE public.authorized_signatories ALTER COLUMN employer_id SET NOT NULL;
+
+CREATE INDEX idx_paf_records_employer ON public.paf_records (employer_id);
+CREATE INDEX idx_authorized_signatories_employer ON public.authorized_signatories (employer_id);
+
+-- One default signatory per employer
+UPDATE public.authorized_signatories s
+SET is_default = false
+WHERE is_default AND id <> (
+  SELECT id FROM public.authorized_signatories d
+  WHERE d.employer_id = s.employer_id AND d.is_default
+  ORDER BY created_at
+  LIMIT 1
+);
+
+CREATE UNIQUE INDEX idx_authorized_signatories_default
+ON public.authorized_signatories (employer_id)
+WHERE is_default;
+
+DROP POLICY IF EXISTS "Authenticated users can manage PAF records" ON public.paf_records;
+DROP POLICY IF EXISTS "Authenticated users can read signatories" ON public.authorized_signatories;
+DROP POLICY IF EXISTS "Authenticated users can manage signatories" ON public.authorized_signatories;
+
+CREATE POLICY "Members can manage their employers' PAF records"
+ON public.paf_records
+FOR ALL
+TO authenticated
+USING (public.is_employer_member(employer_id))
+WITH CHECK (public.is_employer_member(employer_id));
+
+CREATE POLICY "Members can read their employers' signatories"
+ON public.authorized_signatories
+FOR SELECT
+TO authenticated
+USING (public.is_employer_member(employer_id));
+
+CREATE POLICY "Members can manage their employers' signatories"
+ON public.authorized_signatories
+FOR ALL
+TO authenticated
+USING (public.is_employer_member(employer_id))
+WITH CHECK (public.is_employer_member(employer_id));
@@ -0,0 +1,201 @@
+-- Roles. A member of an organization holds one or more roles there:
+--   preparer   creates and edits the PAFs of the organization's employers
+--   reviewer   reviews PAFs
+--   signatory  digitally signs PAFs
+--   admin      everything above, plus signatories, employer profiles,
+--              member roles, deleting PAFs and importing DOL data
+-- The DOL disclosure and wage data is shared by every organization, so the
+-- roles that apply to it are those held in any organization.
+CREATE TYPE public.app_role AS ENUM ('preparer', 'reviewer', 'signatory', 'admin');
+
+CREATE TABLE public.user_roles (
+  organization_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  role public.app_role NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id, role),
+  FOREIGN KEY (organization_id, user_id)
+    REFERENCES public.organization_members (organization_id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_user_roles_user ON public.user_roles (user_id);
+
+-- Admin implies every other role
+CREATE OR REPLACE FUNCTION public.has_organization_role(p_organization_id uuid, p_role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND role IN (p_role, 'admin')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_employer_role(p_employer_id uuid, p_role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM employers e
+    JOIN user_roles r ON r.organization_id = e.organization_id
+    WHERE e.id = p_employer_id
+      AND r.user_id = auth.uid()
+      AND r.role IN (p_role, 'admin')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_role(p_role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles
+    WHERE user_id = auth.uid() AND role IN (p_role, 'admin')
+  );
+$$;
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organizations' roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Admins can manage their organizations' roles"
+ON public.user_roles
+FOR ALL
+TO authenticated
+USING (public.has_organization_role(organization_id, 'admin'))
+WITH CHECK (public.has_organization_role(organization_id, 'admin'));
+
+CREATE POLICY "Admins can manage their organizations' members"
+ON public.organization_members
+FOR ALL
+TO authenticated
+USING (public.has_organization_role(organization_id, 'admin'))
+WITH CHECK (public.has_organization_role(organization_id, 'admin'));
+
+-- Until now every user could do everything; existing members keep that as admins
+INSERT INTO public.user_roles (organization_id, user_id, role)
+SELECT organization_id, user_id, 'admin'
+FROM public.organization_members;
+
+-- Employers: admins maintain the profiles
+DROP POLICY IF EXISTS "Members can manage their employers" ON public.employers;
+
+CREATE POLICY "Admins can manage their employers"
+ON public.employers
+FOR ALL
+TO authenticated
+USING (public.has_organization_role(organization_id, 'admin'))
+WITH CHECK (public.has_organization_role(organization_id, 'admin'));
+
+-- PAF records: members read, preparers create and edit, admins delete
+DROP POLICY IF EXISTS "Members can manage their employers' PAF records" ON public.paf_records;
+
+CREATE POLICY "Members can read their employers' PAF records"
+ON public.paf_records
+FOR SELECT
+TO authenticated
+USING (public.is_employer_member(employer_id));
+
+CREATE POLICY "Preparers can create PAF records"
+ON public.paf_records
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_employer_role(employer_id, 'preparer'));
+
+CREATE POLICY "Preparers can update PAF records"
+ON public.paf_records
+FOR UPDATE
+TO authenticated
+USING (public.has_employer_role(employer_id, 'preparer'))
+WITH CHECK (public.has_employer_role(employer_id, 'preparer'));
+
+CREATE POLICY "Admins can delete PAF records"
+ON public.paf_records
+FOR DELETE
+TO authenticated
+USING (public.has_employer_role(employer_id, 'admin'));
+
+-- Signatories: members read, admins manage
+DROP POLICY IF EXISTS "Members can manage their employers' signatories" ON public.authorized_signatories;
+
+CREATE POLICY "Admins can manage their employers' signatories"
+ON public.authorized_signatories
+FOR ALL
+TO authenticated
+USING (public.has_employer_role(employer_id, 'admin'))
+WITH CHECK (public.has_employer_role(employer_id, 'admin'));
+
+DROP POLICY IF EXISTS "Allow public upload of signatures" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public update of signatures" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public delete of signatures" ON storage.objects;
+
+CREATE POLICY "Admins can upload signatures"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'signatures' AND public.has_role('admin'));
+
+CREATE POLICY "Admins can update signatures"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'signatures' AND public.has_role('admin'));
+
+CREATE POLICY "Admins can delete signatures"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'signatures' AND public.has_role('admin'));
+
+-- LCA disclosure data: everyone reads, preparers mark LCAs as having a PAF.
+-- Rows are only written by the import functions, which require an admin.
+DROP POLICY IF EXISTS "Authenticated users can update LCA status" ON public.lca_disclosure;
+
+CREATE POLICY "Preparers can update LCA status"
+ON public.lca_disclosure
+FOR UPDATE
+TO authenticated
+USING (public.has_role('preparer'))
+WITH CHECK (public.has_role('preparer'));
+
+DROP POLICY IF EXISTS "Authenticated users can upload to lca-imports" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can read from lca-imports" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete from lca-imports" ON storage.objects;
+
+CREATE POLICY "Admins can upload to lca-imports"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'lca-imports' AND public.has_role('admin'));
+
+CREATE POLICY "Admins can read from lca-imports"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'lca-imports' AND public.has_role('admin'));
+
+CREATE POLICY "Admins can delete from lca-imports"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'lca-imports' AND public.has_role('admin'));
+
+-- Prevailing wages: signed-in users read; only the admin-checked import
+-- functions write them, with the service role
+DROP POLICY IF EXISTS "Allow public read access to wage data" ON public.oflc_prevailing_wages;
+
+CREATE POLICY "Authenticated users can read wage data"
+ON public.oflc_prevailing_wages
+FOR SELECT
+TO authenticated
+USING (true);
@@ -0,0 +1,320 @@
+-- Review workflow. A PAF starts as a draft, is submitted to a reviewer, goes
+-- back to the preparer with changes requested or is approved by a user with
+-- the signatory role on behalf of one of the employer's authorized
+-- signatories. An approved PAF is locked; changing it means revising it into
+-- a new draft, which supersedes the original once that draft is approved.
+CREATE TYPE public.paf_status AS ENUM ('draft', 'in_review', 'changes_requested', 'approved', 'superseded');
+
+-- PAFs generated before the workflow were final, so they start out approved
+ALTER TABLE public.paf_records
+  ADD COLUMN status public.paf_status NOT NULL DEFAULT 'approved',
+  ADD COLUMN reviewer_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewer_email text,
+  ADD COLUMN review_requested_at timestamp with time zone,
+  ADD COLUMN approved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN approved_by_email text,
+  ADD COLUMN approved_by_signatory_id uuid REFERENCES public.authorized_signatories(id) ON DELETE SET NULL,
+  ADD COLUMN approved_at timestamp with time zone,
+  ADD COLUMN supersedes_id uuid REFERENCES public.paf_records(id) ON DELETE SET NULL;
+
+ALTER TABLE public.paf_records ALTER COLUMN status SET DEFAULT 'draft';
+
+CREATE INDEX idx_paf_records_status ON public.paf_records (employer_id, status);
+CREATE INDEX idx_paf_records_supersedes ON public.paf_records (supersedes_id);
+
+-- Review comments, each on a section of the PAF
+CREATE TABLE public.paf_review_comments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  paf_record_id uuid NOT NULL REFERENCES public.paf_records(id) ON DELETE CASCADE,
+  section text NOT NULL CHECK (section IN ('general', 'employer', 'job', 'worksite', 'wage', 'documents')),
+  body text NOT NULL CHECK (btrim(body) <> ''),
+  author_id uuid NOT NULL DEFAULT auth.uid(),
+  author_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  resolved_at timestamp with time zone
+);
+
+CREATE INDEX idx_paf_review_comments_record ON public.paf_review_comments (paf_record_id, created_at);
+
+ALTER TABLE public.paf_review_comments ENABLE ROW LEVEL SECURITY;
+
+-- The paf_records subqueries are themselves limited by its RLS
+CREATE POLICY "Members can read review comments"
+ON public.paf_review_comments
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.paf_records r WHERE r.id = paf_record_id));
+
+CREATE POLICY "Preparers and reviewers can comment"
+ON public.paf_review_comments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  author_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.paf_records r
+    WHERE r.id = paf_record_id
+      AND (public.has_employer_role(r.employer_id, 'preparer') OR public.has_employer_role(r.employer_id, 'reviewer'))
+  )
+);
+
+CREATE POLICY "Preparers and reviewers can resolve comments"
+ON public.paf_review_comments
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.paf_records r
+    WHERE r.id = paf_record_id
+      AND (public.has_employer_role(r.employer_id, 'preparer') OR public.has_employer_role(r.employer_id, 'reviewer'))
+  )
+);
+
+-- Status and review columns only change through the functions below, which
+-- set paf.workflow_transition for the duration of their update. Approved and
+-- superseded PAFs keep their content; only new PDF versions are recorded.
+CREATE OR REPLACE FUNCTION public.guard_paf_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_transition boolean := current_setting('paf.workflow_transition', true) = 'on';
+  v_workflow text[] := ARRAY[
+    'status', 'reviewer_id', 'reviewer_email', 'review_requested_at', 'approved_by',
+    'approved_by_email', 'approved_by_signatory_id', 'approved_at', 'supersedes_id'
+  ];
+  v_versioning text[] := ARRAY[
+    'updated_at', 'current_version', 'current_version_id', 'archived_pdf_path', 'pdf_sha256',
+    'content_hash', 'pdf_generated_at', 'signed_by_signatory_id', 'signing_certificate_fingerprint', 'signed_at'
+  ];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT v_transition AND (NEW.status <> 'draft' OR NEW.supersedes_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'New PAFs start as drafts';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT v_transition AND EXISTS (
+    SELECT 1 FROM unnest(v_workflow) AS k
+    WHERE to_jsonb(NEW) -> k IS DISTINCT FROM to_jsonb(OLD) -> k
+  ) THEN
+    RAISE EXCEPTION 'PAF status changes go through the review workflow';
+  END IF;
+
+  IF OLD.status IN ('approved', 'superseded')
+     AND to_jsonb(NEW) - v_workflow - v_versioning <> to_jsonb(OLD) - v_workflow - v_versioning THEN
+    RAISE EXCEPTION 'PAF % is % and can no longer be edited; revise it instead', OLD.id, OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_paf_records_workflow
+BEFORE INSERT OR UPDATE ON public.paf_records
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_paf_workflow();
+
+-- Members of the employer's organization holding a role, for picking reviewers
+CREATE OR REPLACE FUNCTION public.employer_members_with_role(p_employer_id uuid, p_role public.app_role)
+RETURNS TABLE (user_id uuid, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT DISTINCT u.id, u.email::text
+  FROM employers e
+  JOIN user_roles r ON r.organization_id = e.organization_id
+  JOIN auth.users u ON u.id = r.user_id
+  WHERE e.id = p_employer_id
+    AND r.role IN (p_role, 'admin')
+    AND public.is_employer_member(p_employer_id)
+  ORDER BY 2;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_paf_for_review(p_paf_record_id uuid, p_reviewer_id uuid)
+RETURNS public.paf_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_record public.paf_records;
+  v_reviewer_email text;
+BEGIN
+  SELECT * INTO v_record FROM public.paf_records WHERE id = p_paf_record_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.is_employer_member(v_record.employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_record.employer_id, 'preparer') THEN
+    RAISE EXCEPTION 'Only preparers can submit PAFs for review';
+  END IF;
+  IF v_record.status NOT IN ('draft', 'changes_requested') THEN
+    RAISE EXCEPTION 'PAF is % and cannot be submitted for review', v_record.status;
+  END IF;
+
+  SELECT m.email INTO v_reviewer_email
+  FROM public.employer_members_with_role(v_record.employer_id, 'reviewer') m
+  WHERE m.user_id = p_reviewer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The reviewer needs the reviewer role for this employer';
+  END IF;
+
+  PERFORM set_config('paf.workflow_transition', 'on', true);
+  UPDATE public.paf_records
+  SET status = 'in_review',
+      reviewer_id = p_reviewer_id,
+      reviewer_email = v_reviewer_email,
+      review_requested_at = now()
+  WHERE id = p_paf_record_id
+  RETURNING * INTO v_record;
+  PERFORM set_config('paf.workflow_transition', '', true);
+
+  RETURN v_record;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_paf_changes(p_paf_record_id uuid)
+RETURNS public.paf_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_record public.paf_records;
+BEGIN
+  SELECT * INTO v_record FROM public.paf_records WHERE id = p_paf_record_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.is_employer_member(v_record.employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_record.employer_id, 'reviewer') THEN
+    RAISE EXCEPTION 'Only reviewers can request changes';
+  END IF;
+  IF v_record.status <> 'in_review' THEN
+    RAISE EXCEPTION 'PAF is % and not in review', v_record.status;
+  END IF;
+
+  PERFORM set_config('paf.workflow_transition', 'on', true);
+  UPDATE public.paf_records
+  SET status = 'changes_requested'
+  WHERE id = p_paf_record_id
+  RETURNING * INTO v_record;
+  PERFORM set_config('paf.workflow_transition', '', true);
+
+  RETURN v_record;
+END;
+$$;
+
+-- Approval is given as one of the employer's authorized signatories. The PAF
+-- it was revised from, if any, becomes superseded.
+CREATE OR REPLACE FUNCTION public.approve_paf(p_paf_record_id uuid, p_signatory_id uuid)
+RETURNS public.paf_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_record public.paf_records;
+BEGIN
+  SELECT * INTO v_record FROM public.paf_records WHERE id = p_paf_record_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.is_employer_member(v_record.employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_record.employer_id, 'signatory') THEN
+    RAISE EXCEPTION 'Only signatories can approve PAFs';
+  END IF;
+  IF v_record.status <> 'in_review' THEN
+    RAISE EXCEPTION 'PAF is % and not in review', v_record.status;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.authorized_signatories
+    WHERE id = p_signatory_id AND employer_id = v_record.employer_id
+  ) THEN
+    RAISE EXCEPTION 'Signatory % is not authorized for this employer', p_signatory_id;
+  END IF;
+
+  PERFORM set_config('paf.workflow_transition', 'on', true);
+  UPDATE public.paf_records
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_by_email = auth.jwt() ->> 'email',
+      approved_by_signatory_id = p_signatory_id,
+      approved_at = now()
+  WHERE id = p_paf_record_id
+  RETURNING * INTO v_record;
+
+  UPDATE public.paf_records
+  SET status = 'superseded'
+  WHERE id = v_record.supersedes_id AND status = 'approved';
+  PERFORM set_config('paf.workflow_transition', '', true);
+
+  RETURN v_record;
+END;
+$$;
+
+-- Copies an approved PAF into a new draft that supersedes it once approved.
+-- The copy has no PDF versions of its own yet.
+CREATE OR REPLACE FUNCTION public.revise_paf(p_paf_record_id uuid)
+RETURNS public.paf_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_record public.paf_records;
+BEGIN
+  SELECT * INTO v_record FROM public.paf_records WHERE id = p_paf_record_id;
+  IF NOT FOUND OR NOT public.is_employer_member(v_record.employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_record.employer_id, 'preparer') THEN
+    RAISE EXCEPTION 'Only preparers can revise PAFs';
+  END IF;
+  IF v_record.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved PAFs can be revised';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.paf_records
+    WHERE supersedes_id = p_paf_record_id AND status NOT IN ('approved', 'superseded')
+  ) THEN
+    RAISE EXCEPTION 'PAF % already has a revision in progress', p_paf_record_id;
+  END IF;
+
+  v_record.id := gen_random_uuid();
+  v_record.status := 'draft';
+  v_record.supersedes_id := p_paf_record_id;
+  v_record.reviewer_id := NULL;
+  v_record.reviewer_email := NULL;
+  v_record.review_requested_at := NULL;
+  v_record.approved_by := NULL;
+  v_record.approved_by_email := NULL;
+  v_record.approved_by_signatory_id := NULL;
+  v_record.approved_at := NULL;
+  v_record.current_version := NULL;
+  v_record.current_version_id := NULL;
+  v_record.archived_pdf_path := NULL;
+  v_record.pdf_sha256 := NULL;
+  v_record.content_hash := NULL;
+  v_record.pdf_generated_at := NULL;
+  v_record.signed_by_signatory_id := NULL;
+  v_record.signing_certificate_fingerprint := NULL;
+  v_record.signed_at := NULL;
+  v_record.created_at := now();
+  v_record.updated_at := now();
+
+  PERFORM set_config('paf.workflow_transition', 'on', true);
+  INSERT INTO public.paf_records SELECT v_record.* RETURNING * INTO v_record;
+  PERFORM set_config('paf.workflow_transition', '', true);
+
+  RETURN v_record;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.employer_members_with_role(uuid, public.app_role) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_paf_for_review(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_paf_changes(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_paf(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revise_paf(uuid) TO authenticated;
@@ -0,0 +1,34 @@
+-- Wizard drafts. The create wizard saves its state at every step transition so
+-- a half-built PAF survives a refresh or an expired session. data holds the
+-- wizard's PAF data with uploaded files replaced by references to copies in
+-- the paf-documents bucket (under wizard-drafts/<draft id>/). Drafts are
+-- private to the user who started them.
+CREATE TABLE public.paf_wizard_drafts (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  employer_id uuid NOT NULL REFERENCES public.employers(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  mode text NOT NULL CHECK (mode IN ('lca', 'manual')),
+  current_step integer NOT NULL DEFAULT 0,
+  title text,
+  data jsonb NOT NULL DEFAULT '{}',
+  selected_lca jsonb,
+  scanned_fields jsonb NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_paf_wizard_drafts_user ON public.paf_wizard_drafts (user_id, employer_id, updated_at DESC);
+
+CREATE TRIGGER update_paf_wizard_drafts_updated_at
+BEFORE UPDATE ON public.paf_wizard_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.paf_wizard_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Preparers can manage their own wizard drafts"
+ON public.paf_wizard_drafts
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid() AND public.has_employer_role(employer_id, 'preparer'))
+WITH CHECK (user_id = auth.uid() AND public.has_employer_role(employer_id, 'preparer'));
@@ -0,0 +1,34 @@
+-- Only reviewers may override blocking compliance errors. A revision copied
+-- by revise_paf keeps the override of the PAF it was copied from as is.
+CREATE OR REPLACE FUNCTION public.stamp_paf_compliance_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NULLIF(btrim(NEW.compliance_override_reason), '') IS NULL THEN
+    NEW.compliance_override_reason := NULL;
+    NEW.compliance_override_rules := NULL;
+    NEW.compliance_override_by := NULL;
+    NEW.compliance_override_by_email := NULL;
+    NEW.compliance_override_at := NULL;
+  ELSIF TG_OP = 'INSERT' AND current_setting('paf.workflow_transition', true) = 'on' THEN
+    NULL;
+  ELSIF TG_OP = 'INSERT'
+     OR NEW.compliance_override_reason IS DISTINCT FROM OLD.compliance_override_reason
+     OR NEW.compliance_override_rules IS DISTINCT FROM OLD.compliance_override_rules THEN
+    IF NOT public.has_employer_role(NEW.employer_id, 'reviewer') THEN
+      RAISE EXCEPTION 'Only reviewers can override compliance errors';
+    END IF;
+    NEW.compliance_override_by := auth.uid();
+    NEW.compliance_override_by_email := auth.jwt() ->> 'email';
+    NEW.compliance_override_at := now();
+  ELSE
+    NEW.compliance_override_by := OLD.compliance_override_by;
+    NEW.compliance_override_by_email := OLD.compliance_override_by_email;
+    NEW.compliance_override_at := OLD.compliance_override_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
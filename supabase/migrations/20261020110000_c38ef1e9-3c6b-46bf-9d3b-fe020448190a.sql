@@ -0,0 +1,71 @@
+-- PAF versions are only visible to members of the PAF's employer, and only
+-- add_paf_version creates them, for preparers. Without a direct insert
+-- policy nobody can add a version that wasn't numbered and made current.
+DROP POLICY IF EXISTS "Authenticated users can read PAF versions" ON public.paf_versions;
+DROP POLICY IF EXISTS "Authenticated users can add PAF versions" ON public.paf_versions;
+
+CREATE POLICY "Members can read their employers' PAF versions"
+ON public.paf_versions
+FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.paf_records r
+  WHERE r.id = paf_record_id AND public.is_employer_member(r.employer_id)
+));
+
+CREATE OR REPLACE FUNCTION public.add_paf_version(
+  p_paf_record_id uuid,
+  p_pdf_path text,
+  p_pdf_sha256 text,
+  p_content_hash text,
+  p_signed_by_signatory_id uuid DEFAULT NULL,
+  p_signing_certificate_fingerprint text DEFAULT NULL,
+  p_signed_at timestamp with time zone DEFAULT NULL
+)
+RETURNS public.paf_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_employer_id uuid;
+  v_next integer;
+  v_version public.paf_versions;
+BEGIN
+  SELECT employer_id, COALESCE(current_version, 0) + 1 INTO v_employer_id, v_next
+  FROM public.paf_records
+  WHERE id = p_paf_record_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_employer_member(v_employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_employer_id, 'preparer') THEN
+    RAISE EXCEPTION 'Only preparers can add PAF versions';
+  END IF;
+
+  INSERT INTO public.paf_versions (
+    paf_record_id, version, pdf_path, pdf_sha256, content_hash,
+    signed_by_signatory_id, signing_certificate_fingerprint, signed_at
+  )
+  VALUES (
+    p_paf_record_id, v_next, p_pdf_path, p_pdf_sha256, p_content_hash,
+    p_signed_by_signatory_id, p_signing_certificate_fingerprint, p_signed_at
+  )
+  RETURNING * INTO v_version;
+
+  UPDATE public.paf_records
+  SET current_version = v_version.version,
+      current_version_id = v_version.id,
+      archived_pdf_path = v_version.pdf_path,
+      pdf_sha256 = v_version.pdf_sha256,
+      content_hash = v_version.content_hash,
+      pdf_generated_at = v_version.generated_at,
+      signed_by_signatory_id = v_version.signed_by_signatory_id,
+      signing_certificate_fingerprint = v_version.signing_certificate_fingerprint,
+      signed_at = v_version.signed_at
+  WHERE id = p_paf_record_id;
+
+  RETURN v_version;
+END;
+$$;
@@ -0,0 +1,74 @@
+-- paf-documents objects belong to the employer of the PAF record or wizard
+-- draft their path is filed under: paf-versions/<record id>/,
+-- paf-attachments/<record id>/ or wizard-drafts/<draft id>/. Files from
+-- before these folders (posting-proofs/, wage-sources/, archived-pafs/, ...)
+-- belong to the record that references them.
+CREATE OR REPLACE FUNCTION public.paf_document_employer(p_name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT CASE (storage.foldername(p_name))[1]
+    WHEN 'paf-versions' THEN
+      (SELECT r.employer_id FROM paf_records r WHERE r.id::text = (storage.foldername(p_name))[2])
+    WHEN 'paf-attachments' THEN
+      (SELECT r.employer_id FROM paf_records r WHERE r.id::text = (storage.foldername(p_name))[2])
+    WHEN 'wizard-drafts' THEN
+      (SELECT d.employer_id FROM paf_wizard_drafts d WHERE d.id::text = (storage.foldername(p_name))[2])
+    ELSE COALESCE(
+      (SELECT r.employer_id FROM paf_records r
+       WHERE p_name IN (r.archived_pdf_path, r.lca_file_path, r.notice_posting_proof_path,
+                        r.wage_source_document_path, r.actual_wage_memo_path, r.benefits_comparison_path)
+       LIMIT 1),
+      (SELECT r.employer_id FROM paf_versions v JOIN paf_records r ON r.id = v.paf_record_id
+       WHERE v.pdf_path = p_name
+       LIMIT 1)
+    )
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Authenticated users can upload to paf-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can read from paf-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update in paf-documents" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete from paf-documents" ON storage.objects;
+
+CREATE POLICY "Members can read their employers' PAF documents"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'paf-documents' AND public.is_employer_member(public.paf_document_employer(name)));
+
+-- New files only go into the record and draft folders
+CREATE POLICY "Preparers can upload their employers' PAF documents"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'paf-documents'
+  AND (storage.foldername(name))[1] IN ('paf-versions', 'paf-attachments', 'wizard-drafts')
+  AND public.has_employer_role(public.paf_document_employer(name), 'preparer')
+);
+
+-- Stored PAF PDFs stay immutable
+CREATE POLICY "Preparers can update their employers' PAF documents"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'paf-documents'
+  AND (storage.foldername(name))[1] NOT IN ('paf-versions', 'archived-pafs')
+  AND public.has_employer_role(public.paf_document_employer(name), 'preparer')
+)
+WITH CHECK (
+  bucket_id = 'paf-documents'
+  AND (storage.foldername(name))[1] IN ('paf-attachments', 'wizard-drafts')
+  AND public.has_employer_role(public.paf_document_employer(name), 'preparer')
+);
+
+CREATE POLICY "Preparers can delete their employers' PAF documents"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'paf-documents'
+  AND (storage.foldername(name))[1] NOT IN ('paf-versions', 'archived-pafs')
+  AND public.has_employer_role(public.paf_document_employer(name), 'preparer')
+);
@@ -0,0 +1,68 @@
+-- Signature images are filed under the employer they belong to
+-- (<employer id>/<signatory id>.<ext>) and managed by that employer's admins.
+DROP POLICY IF EXISTS "Admins can upload signatures" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can update signatures" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can delete signatures" ON storage.objects;
+
+CREATE OR REPLACE FUNCTION public.signature_image_employer(p_name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT e.id FROM employers e WHERE e.id::text = (storage.foldername(p_name))[1];
+$$;
+
+CREATE POLICY "Admins can upload their employers' signatures"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'signatures' AND public.has_employer_role(public.signature_image_employer(name), 'admin'));
+
+CREATE POLICY "Admins can update their employers' signatures"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'signatures' AND public.has_employer_role(public.signature_image_employer(name), 'admin'))
+WITH CHECK (bucket_id = 'signatures' AND public.has_employer_role(public.signature_image_employer(name), 'admin'));
+
+CREATE POLICY "Admins can delete their employers' signatures"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'signatures' AND public.has_employer_role(public.signature_image_employer(name), 'admin'));
+
+-- Preparers can only mark the LCA of one of their PAFs as having a PAF, not
+-- rewrite LCA rows
+DROP POLICY IF EXISTS "Preparers can update LCA status" ON public.lca_disclosure;
+
+CREATE OR REPLACE FUNCTION public.mark_lca_paf_generated(p_lca_id uuid, p_paf_record_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_record public.paf_records;
+BEGIN
+  SELECT * INTO v_record FROM public.paf_records WHERE id = p_paf_record_id;
+
+  IF NOT FOUND OR NOT public.is_employer_member(v_record.employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+
+  IF NOT public.has_employer_role(v_record.employer_id, 'preparer') THEN
+    RAISE EXCEPTION 'Only preparers can mark LCAs as having a PAF';
+  END IF;
+
+  UPDATE public.lca_disclosure
+  SET paf_generated = true,
+      paf_generated_at = now()
+  WHERE id = p_lca_id
+    AND case_number = v_record.lca_case_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'LCA % is not the LCA of PAF record %', p_lca_id, p_paf_record_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_lca_paf_generated(uuid, uuid) TO authenticated;
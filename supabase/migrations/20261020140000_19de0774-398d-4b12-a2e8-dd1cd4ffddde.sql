@@ -0,0 +1,119 @@
+-- A signatory signs as the user linked to it, and only the sign-paf function
+-- records signatures: it signs a stored version and adds the signed copy as
+-- the next version. Versions added by clients are never signed.
+ALTER TABLE public.authorized_signatories
+ADD COLUMN user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+DROP FUNCTION public.add_paf_version(uuid, text, text, text, uuid, text, timestamp with time zone);
+
+CREATE FUNCTION public.add_paf_version(
+  p_paf_record_id uuid,
+  p_pdf_path text,
+  p_pdf_sha256 text,
+  p_content_hash text
+)
+RETURNS public.paf_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_employer_id uuid;
+  v_next integer;
+  v_version public.paf_versions;
+BEGIN
+  SELECT employer_id, COALESCE(current_version, 0) + 1 INTO v_employer_id, v_next
+  FROM public.paf_records
+  WHERE id = p_paf_record_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_employer_member(v_employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_employer_id, 'preparer') THEN
+    RAISE EXCEPTION 'Only preparers can add PAF versions';
+  END IF;
+
+  INSERT INTO public.paf_versions (paf_record_id, version, pdf_path, pdf_sha256, content_hash)
+  VALUES (p_paf_record_id, v_next, p_pdf_path, p_pdf_sha256, p_content_hash)
+  RETURNING * INTO v_version;
+
+  UPDATE public.paf_records
+  SET current_version = v_version.version,
+      current_version_id = v_version.id,
+      archived_pdf_path = v_version.pdf_path,
+      pdf_sha256 = v_version.pdf_sha256,
+      content_hash = v_version.content_hash,
+      pdf_generated_at = v_version.generated_at,
+      signed_by_signatory_id = NULL,
+      signing_certificate_fingerprint = NULL,
+      signed_at = NULL
+  WHERE id = p_paf_record_id;
+
+  RETURN v_version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_paf_version(uuid, text, text, text) TO authenticated, service_role;
+
+-- Adds the signed copy of a version as the record's next version. Only
+-- sign-paf calls it, with the service role, after checking the signatory.
+CREATE OR REPLACE FUNCTION public.add_signed_paf_version(
+  p_source_version_id uuid,
+  p_pdf_path text,
+  p_pdf_sha256 text,
+  p_signed_by_signatory_id uuid,
+  p_signing_certificate_fingerprint text,
+  p_signed_at timestamp with time zone,
+  p_signed_by_user_id uuid
+)
+RETURNS public.paf_versions
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_source public.paf_versions;
+  v_next integer;
+  v_version public.paf_versions;
+BEGIN
+  SELECT * INTO v_source FROM public.paf_versions WHERE id = p_source_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAF version % not found', p_source_version_id;
+  END IF;
+
+  SELECT COALESCE(current_version, 0) + 1 INTO v_next
+  FROM public.paf_records
+  WHERE id = v_source.paf_record_id AND current_version_id = v_source.id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAF version % is no longer the current version', p_source_version_id;
+  END IF;
+
+  INSERT INTO public.paf_versions (
+    paf_record_id, version, pdf_path, pdf_sha256, content_hash,
+    signed_by_signatory_id, signing_certificate_fingerprint, signed_at, generated_by
+  )
+  VALUES (
+    v_source.paf_record_id, v_next, p_pdf_path, p_pdf_sha256, v_source.content_hash,
+    p_signed_by_signatory_id, p_signing_certificate_fingerprint, p_signed_at, p_signed_by_user_id
+  )
+  RETURNING * INTO v_version;
+
+  UPDATE public.paf_records
+  SET current_version = v_version.version,
+      current_version_id = v_version.id,
+      archived_pdf_path = v_version.pdf_path,
+      pdf_sha256 = v_version.pdf_sha256,
+      content_hash = v_version.content_hash,
+      pdf_generated_at = v_version.generated_at,
+      signed_by_signatory_id = v_version.signed_by_signatory_id,
+      signing_certificate_fingerprint = v_version.signing_certificate_fingerprint,
+      signed_at = v_version.signed_at
+  WHERE id = v_version.paf_record_id;
+
+  RETURN v_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_signed_paf_version(uuid, text, text, uuid, text, timestamp with time zone, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_signed_paf_version(uuid, text, text, uuid, text, timestamp with time zone, uuid) TO service_role;
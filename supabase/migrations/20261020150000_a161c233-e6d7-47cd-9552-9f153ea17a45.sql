@@ -0,0 +1,59 @@
+-- Approving is signing: the approver must be the user linked to the
+-- signatory, and a signatory with a certificate must have signed the current
+-- version (sign-paf) before the PAF can be approved.
+CREATE OR REPLACE FUNCTION public.approve_paf(p_paf_record_id uuid, p_signatory_id uuid)
+RETURNS public.paf_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_record public.paf_records;
+  v_signatory public.authorized_signatories;
+BEGIN
+  SELECT * INTO v_record FROM public.paf_records WHERE id = p_paf_record_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.is_employer_member(v_record.employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_record.employer_id, 'signatory') THEN
+    RAISE EXCEPTION 'Only signatories can approve PAFs';
+  END IF;
+  IF v_record.status <> 'in_review' THEN
+    RAISE EXCEPTION 'PAF is % and not in review', v_record.status;
+  END IF;
+
+  SELECT * INTO v_signatory
+  FROM public.authorized_signatories
+  WHERE id = p_signatory_id AND employer_id = v_record.employer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Signatory % is not authorized for this employer', p_signatory_id;
+  END IF;
+  IF v_signatory.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the user linked to % can approve as them', v_signatory.name;
+  END IF;
+  IF v_record.current_version_id IS NULL THEN
+    RAISE EXCEPTION 'PAF % has no generated version to approve', p_paf_record_id;
+  END IF;
+  IF v_signatory.certificate_path IS NOT NULL
+     AND v_record.signed_by_signatory_id IS DISTINCT FROM p_signatory_id THEN
+    RAISE EXCEPTION 'The current version must be signed by % before approval', v_signatory.name;
+  END IF;
+
+  PERFORM set_config('paf.workflow_transition', 'on', true);
+  UPDATE public.paf_records
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_by_email = auth.jwt() ->> 'email',
+      approved_by_signatory_id = p_signatory_id,
+      approved_at = now()
+  WHERE id = p_paf_record_id
+  RETURNING * INTO v_record;
+
+  UPDATE public.paf_records
+  SET status = 'superseded'
+  WHERE id = v_record.supersedes_id AND status = 'approved';
+  PERFORM set_config('paf.workflow_transition', '', true);
+
+  RETURN v_record;
+END;
+$$;
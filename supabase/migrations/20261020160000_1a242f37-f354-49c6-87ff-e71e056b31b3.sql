@@ -0,0 +1,28 @@
+-- Files of a wizard draft are as private as the draft: only the user who
+-- started it can read or change wizard-drafts/<draft id>/.
+CREATE OR REPLACE FUNCTION public.paf_document_employer(p_name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT CASE (storage.foldername(p_name))[1]
+    WHEN 'paf-versions' THEN
+      (SELECT r.employer_id FROM paf_records r WHERE r.id::text = (storage.foldername(p_name))[2])
+    WHEN 'paf-attachments' THEN
+      (SELECT r.employer_id FROM paf_records r WHERE r.id::text = (storage.foldername(p_name))[2])
+    WHEN 'wizard-drafts' THEN
+      (SELECT d.employer_id FROM paf_wizard_drafts d
+       WHERE d.id::text = (storage.foldername(p_name))[2] AND d.user_id = auth.uid())
+    ELSE COALESCE(
+      (SELECT r.employer_id FROM paf_records r
+       WHERE p_name IN (r.archived_pdf_path, r.lca_file_path, r.notice_posting_proof_path,
+                        r.wage_source_document_path, r.actual_wage_memo_path, r.benefits_comparison_path)
+       LIMIT 1),
+      (SELECT r.employer_id FROM paf_versions v JOIN paf_records r ON r.id = v.paf_record_id
+       WHERE v.pdf_path = p_name
+       LIMIT 1)
+    )
+  END;
+$$;
@@ -0,0 +1,4 @@
+-- Per-employer PAF section profile: { "order": [section ids], "disabled":
+-- [section ids] }, applied by every generation path.
+ALTER TABLE public.employers
+ADD COLUMN section_profile jsonb NOT NULL DEFAULT '{}';
@@ -0,0 +1,175 @@
+-- The columns describing a PAF's current PDF version only change through
+-- add_paf_version and add_signed_paf_version, which set paf.versioning for the
+-- duration of their update; a direct update could otherwise point an approved
+-- PAF at any PDF. A PAF in review is locked like an approved one: the reviewer
+-- requests changes to hand it back, and no new versions are added meanwhile
+-- except the signed copy sign-paf records.
+CREATE OR REPLACE FUNCTION public.guard_paf_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_transition boolean := current_setting('paf.workflow_transition', true) = 'on';
+  v_new_version boolean := current_setting('paf.versioning', true) = 'on';
+  v_workflow text[] := ARRAY[
+    'status', 'reviewer_id', 'reviewer_email', 'review_requested_at', 'approved_by',
+    'approved_by_email', 'approved_by_signatory_id', 'approved_at', 'supersedes_id'
+  ];
+  v_versioning text[] := ARRAY[
+    'current_version', 'current_version_id', 'archived_pdf_path', 'pdf_sha256', 'content_hash',
+    'pdf_generated_at', 'signed_by_signatory_id', 'signing_certificate_fingerprint', 'signed_at'
+  ];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT v_transition AND (NEW.status <> 'draft' OR NEW.supersedes_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'New PAFs start as drafts';
+    END IF;
+    IF NOT v_new_version AND EXISTS (
+      SELECT 1 FROM unnest(v_versioning) AS k
+      WHERE to_jsonb(NEW) -> k <> 'null'::jsonb
+    ) THEN
+      RAISE EXCEPTION 'New PAFs start without PDF versions';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT v_transition AND EXISTS (
+    SELECT 1 FROM unnest(v_workflow) AS k
+    WHERE to_jsonb(NEW) -> k IS DISTINCT FROM to_jsonb(OLD) -> k
+  ) THEN
+    RAISE EXCEPTION 'PAF status changes go through the review workflow';
+  END IF;
+
+  IF NOT v_new_version AND EXISTS (
+    SELECT 1 FROM unnest(v_versioning) AS k
+    WHERE to_jsonb(NEW) -> k IS DISTINCT FROM to_jsonb(OLD) -> k
+  ) THEN
+    RAISE EXCEPTION 'PAF PDF versions are only added with add_paf_version';
+  END IF;
+
+  IF to_jsonb(NEW) - v_workflow - v_versioning - 'updated_at'
+     <> to_jsonb(OLD) - v_workflow - v_versioning - 'updated_at' THEN
+    IF OLD.status = 'in_review' THEN
+      RAISE EXCEPTION 'PAF % is in review and can only be edited once changes are requested', OLD.id;
+    ELSIF OLD.status IN ('approved', 'superseded') THEN
+      RAISE EXCEPTION 'PAF % is % and can no longer be edited; revise it instead', OLD.id, OLD.status;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_paf_version(
+  p_paf_record_id uuid,
+  p_pdf_path text,
+  p_pdf_sha256 text,
+  p_content_hash text
+)
+RETURNS public.paf_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_employer_id uuid;
+  v_status public.paf_status;
+  v_next integer;
+  v_version public.paf_versions;
+BEGIN
+  SELECT employer_id, status, COALESCE(current_version, 0) + 1 INTO v_employer_id, v_status, v_next
+  FROM public.paf_records
+  WHERE id = p_paf_record_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_employer_member(v_employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_employer_id, 'preparer') THEN
+    RAISE EXCEPTION 'Only preparers can add PAF versions';
+  END IF;
+  IF v_status = 'in_review' THEN
+    RAISE EXCEPTION 'PAF % is in review; no versions can be added until changes are requested', p_paf_record_id;
+  END IF;
+
+  INSERT INTO public.paf_versions (paf_record_id, version, pdf_path, pdf_sha256, content_hash)
+  VALUES (p_paf_record_id, v_next, p_pdf_path, p_pdf_sha256, p_content_hash)
+  RETURNING * INTO v_version;
+
+  PERFORM set_config('paf.versioning', 'on', true);
+  UPDATE public.paf_records
+  SET current_version = v_version.version,
+      current_version_id = v_version.id,
+      archived_pdf_path = v_version.pdf_path,
+      pdf_sha256 = v_version.pdf_sha256,
+      content_hash = v_version.content_hash,
+      pdf_generated_at = v_version.generated_at,
+      signed_by_signatory_id = NULL,
+      signing_certificate_fingerprint = NULL,
+      signed_at = NULL
+  WHERE id = p_paf_record_id;
+  PERFORM set_config('paf.versioning', '', true);
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_signed_paf_version(
+  p_source_version_id uuid,
+  p_pdf_path text,
+  p_pdf_sha256 text,
+  p_signed_by_signatory_id uuid,
+  p_signing_certificate_fingerprint text,
+  p_signed_at timestamp with time zone,
+  p_signed_by_user_id uuid
+)
+RETURNS public.paf_versions
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_source public.paf_versions;
+  v_next integer;
+  v_version public.paf_versions;
+BEGIN
+  SELECT * INTO v_source FROM public.paf_versions WHERE id = p_source_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAF version % not found', p_source_version_id;
+  END IF;
+
+  SELECT COALESCE(current_version, 0) + 1 INTO v_next
+  FROM public.paf_records
+  WHERE id = v_source.paf_record_id AND current_version_id = v_source.id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAF version % is no longer the current version', p_source_version_id;
+  END IF;
+
+  INSERT INTO public.paf_versions (
+    paf_record_id, version, pdf_path, pdf_sha256, content_hash,
+    signed_by_signatory_id, signing_certificate_fingerprint, signed_at, generated_by
+  )
+  VALUES (
+    v_source.paf_record_id, v_next, p_pdf_path, p_pdf_sha256, v_source.content_hash,
+    p_signed_by_signatory_id, p_signing_certificate_fingerprint, p_signed_at, p_signed_by_user_id
+  )
+  RETURNING * INTO v_version;
+
+  PERFORM set_config('paf.versioning', 'on', true);
+  UPDATE public.paf_records
+  SET current_version = v_version.version,
+      current_version_id = v_version.id,
+      archived_pdf_path = v_version.pdf_path,
+      pdf_sha256 = v_version.pdf_sha256,
+      content_hash = v_version.content_hash,
+      pdf_generated_at = v_version.generated_at,
+      signed_by_signatory_id = v_version.signed_by_signatory_id,
+      signing_certificate_fingerprint = v_version.signing_certificate_fingerprint,
+      signed_at = v_version.signed_at
+  WHERE id = v_version.paf_record_id;
+  PERFORM set_config('paf.versioning', '', true);
+
+  RETURN v_version;
+END;
+$$;
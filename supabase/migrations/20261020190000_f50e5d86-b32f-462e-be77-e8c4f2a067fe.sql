@@ -0,0 +1,163 @@
+-- A new version keeps the signatory who signs the PAF; only the signature
+-- itself (certificate and time) belongs to the signed version. Approval with
+-- a certificate therefore checks that the current version itself is signed.
+CREATE OR REPLACE FUNCTION public.add_paf_version(
+  p_paf_record_id uuid,
+  p_pdf_path text,
+  p_pdf_sha256 text,
+  p_content_hash text
+)
+RETURNS public.paf_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_employer_id uuid;
+  v_status public.paf_status;
+  v_next integer;
+  v_version public.paf_versions;
+BEGIN
+  SELECT employer_id, status, COALESCE(current_version, 0) + 1 INTO v_employer_id, v_status, v_next
+  FROM public.paf_records
+  WHERE id = p_paf_record_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_employer_member(v_employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_employer_id, 'preparer') THEN
+    RAISE EXCEPTION 'Only preparers can add PAF versions';
+  END IF;
+  IF v_status = 'in_review' THEN
+    RAISE EXCEPTION 'PAF % is in review; no versions can be added until changes are requested', p_paf_record_id;
+  END IF;
+
+  INSERT INTO public.paf_versions (paf_record_id, version, pdf_path, pdf_sha256, content_hash)
+  VALUES (p_paf_record_id, v_next, p_pdf_path, p_pdf_sha256, p_content_hash)
+  RETURNING * INTO v_version;
+
+  PERFORM set_config('paf.versioning', 'on', true);
+  UPDATE public.paf_records
+  SET current_version = v_version.version,
+      current_version_id = v_version.id,
+      archived_pdf_path = v_version.pdf_path,
+      pdf_sha256 = v_version.pdf_sha256,
+      content_hash = v_version.content_hash,
+      pdf_generated_at = v_version.generated_at,
+      signing_certificate_fingerprint = NULL,
+      signed_at = NULL
+  WHERE id = p_paf_record_id;
+  PERFORM set_config('paf.versioning', '', true);
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_paf(p_paf_record_id uuid, p_signatory_id uuid)
+RETURNS public.paf_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_record public.paf_records;
+  v_signatory public.authorized_signatories;
+BEGIN
+  SELECT * INTO v_record FROM public.paf_records WHERE id = p_paf_record_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.is_employer_member(v_record.employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_record.employer_id, 'signatory') THEN
+    RAISE EXCEPTION 'Only signatories can approve PAFs';
+  END IF;
+  IF v_record.status <> 'in_review' THEN
+    RAISE EXCEPTION 'PAF is % and not in review', v_record.status;
+  END IF;
+
+  SELECT * INTO v_signatory
+  FROM public.authorized_signatories
+  WHERE id = p_signatory_id AND employer_id = v_record.employer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Signatory % is not authorized for this employer', p_signatory_id;
+  END IF;
+  IF v_signatory.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the user linked to % can approve as them', v_signatory.name;
+  END IF;
+  IF v_record.current_version_id IS NULL THEN
+    RAISE EXCEPTION 'PAF % has no generated version to approve', p_paf_record_id;
+  END IF;
+  IF v_signatory.certificate_path IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.paf_versions
+    WHERE id = v_record.current_version_id
+      AND signed_by_signatory_id = p_signatory_id
+      AND signed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'The current version must be signed by % before approval', v_signatory.name;
+  END IF;
+
+  PERFORM set_config('paf.workflow_transition', 'on', true);
+  UPDATE public.paf_records
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_by_email = auth.jwt() ->> 'email',
+      approved_by_signatory_id = p_signatory_id,
+      approved_at = now()
+  WHERE id = p_paf_record_id
+  RETURNING * INTO v_record;
+
+  UPDATE public.paf_records
+  SET status = 'superseded'
+  WHERE id = v_record.supersedes_id AND status = 'approved';
+  PERFORM set_config('paf.workflow_transition', '', true);
+
+  RETURN v_record;
+END;
+$$;
+
+-- Check that guard_paf_workflow rejects a direct update of any version
+-- column, on a scratch copy of paf_records that the same trigger guards. The
+-- copy is a draft, so only the version guard can reject the updates.
+CREATE TEMP TABLE paf_records_guard_check AS
+SELECT * FROM public.paf_records WITH NO DATA;
+
+CREATE TRIGGER guard_paf_records_guard_check
+BEFORE INSERT OR UPDATE ON paf_records_guard_check
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_paf_workflow();
+
+DO $$
+DECLARE
+  v_id uuid := gen_random_uuid();
+  v_column text;
+  v_rejected boolean;
+BEGIN
+  PERFORM set_config('paf.versioning', 'on', true);
+  INSERT INTO paf_records_guard_check (
+    id, status, current_version, current_version_id, archived_pdf_path, pdf_sha256, content_hash,
+    pdf_generated_at, signed_by_signatory_id, signing_certificate_fingerprint, signed_at
+  )
+  VALUES (
+    v_id, 'draft', 1, gen_random_uuid(), 'paf-versions/check/1.pdf', 'sha', 'hash',
+    now(), gen_random_uuid(), 'fingerprint', now()
+  );
+  PERFORM set_config('paf.versioning', '', true);
+
+  FOREACH v_column IN ARRAY ARRAY[
+    'current_version', 'current_version_id', 'archived_pdf_path', 'pdf_sha256', 'content_hash',
+    'pdf_generated_at', 'signed_by_signatory_id', 'signing_certificate_fingerprint', 'signed_at'
+  ] LOOP
+    BEGIN
+      EXECUTE format('UPDATE paf_records_guard_check SET %I = NULL WHERE id = $1', v_column) USING v_id;
+      v_rejected := false;
+    EXCEPTION WHEN raise_exception THEN
+      v_rejected := true;
+    END;
+    IF NOT v_rejected THEN
+      RAISE EXCEPTION 'guard_paf_workflow let a direct update change paf_records.%', v_column;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+DROP TABLE paf_records_guard_check;
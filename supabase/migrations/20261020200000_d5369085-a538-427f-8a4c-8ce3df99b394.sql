@@ -0,0 +1,114 @@
+-- The signatory chosen for a PAF is stored with it: its signature is the one
+-- the generated sections carry, so only that signatory can sign and approve
+-- the PAF. Without a choice the PAF gets the signatory the sections fall back
+-- to, the employer's default or else its first.
+ALTER TABLE public.paf_records
+ADD COLUMN signatory_id uuid REFERENCES public.authorized_signatories(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.set_paf_signatory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.signatory_id IS NULL THEN
+    SELECT id INTO NEW.signatory_id
+    FROM public.authorized_signatories
+    WHERE employer_id = NEW.employer_id
+    ORDER BY is_default DESC, created_at
+    LIMIT 1;
+  ELSIF NEW.signatory_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.authorized_signatories
+    WHERE id = NEW.signatory_id AND employer_id = NEW.employer_id
+  ) THEN
+    RAISE EXCEPTION 'Signatory % is not authorized for this employer', NEW.signatory_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_paf_records_signatory
+BEFORE INSERT OR UPDATE OF signatory_id, employer_id ON public.paf_records
+FOR EACH ROW
+EXECUTE FUNCTION public.set_paf_signatory();
+
+-- Existing PAFs keep the signatory that approved or signed them, else the one
+-- their sections print. This is bookkeeping, not an edit, so it bypasses the
+-- workflow guard and revision history.
+ALTER TABLE public.paf_records DISABLE TRIGGER USER;
+UPDATE public.paf_records r
+SET signatory_id = COALESCE(
+  r.approved_by_signatory_id,
+  r.signed_by_signatory_id,
+  (SELECT s.id FROM public.authorized_signatories s
+   WHERE s.employer_id = r.employer_id
+   ORDER BY s.is_default DESC, s.created_at
+   LIMIT 1)
+);
+ALTER TABLE public.paf_records ENABLE TRIGGER USER;
+
+CREATE OR REPLACE FUNCTION public.approve_paf(p_paf_record_id uuid, p_signatory_id uuid)
+RETURNS public.paf_records
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_record public.paf_records;
+  v_signatory public.authorized_signatories;
+BEGIN
+  SELECT * INTO v_record FROM public.paf_records WHERE id = p_paf_record_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.is_employer_member(v_record.employer_id) THEN
+    RAISE EXCEPTION 'PAF record % not found', p_paf_record_id;
+  END IF;
+  IF NOT public.has_employer_role(v_record.employer_id, 'signatory') THEN
+    RAISE EXCEPTION 'Only signatories can approve PAFs';
+  END IF;
+  IF v_record.status <> 'in_review' THEN
+    RAISE EXCEPTION 'PAF is % and not in review', v_record.status;
+  END IF;
+
+  SELECT * INTO v_signatory
+  FROM public.authorized_signatories
+  WHERE id = p_signatory_id AND employer_id = v_record.employer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Signatory % is not authorized for this employer', p_signatory_id;
+  END IF;
+  IF v_record.signatory_id IS NOT NULL AND v_record.signatory_id <> p_signatory_id THEN
+    RAISE EXCEPTION 'PAF % is signed by its chosen signatory, not %', p_paf_record_id, v_signatory.name;
+  END IF;
+  IF v_signatory.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the user linked to % can approve as them', v_signatory.name;
+  END IF;
+  IF v_record.current_version_id IS NULL THEN
+    RAISE EXCEPTION 'PAF % has no generated version to approve', p_paf_record_id;
+  END IF;
+  IF v_signatory.certificate_path IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.paf_versions
+    WHERE id = v_record.current_version_id
+      AND signed_by_signatory_id = p_signatory_id
+      AND signed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'The current version must be signed by % before approval', v_signatory.name;
+  END IF;
+
+  PERFORM set_config('paf.workflow_transition', 'on', true);
+  UPDATE public.paf_records
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_by_email = auth.jwt() ->> 'email',
+      approved_by_signatory_id = p_signatory_id,
+      approved_at = now()
+  WHERE id = p_paf_record_id
+  RETURNING * INTO v_record;
+
+  UPDATE public.paf_records
+  SET status = 'superseded'
+  WHERE id = v_record.supersedes_id AND status = 'approved';
+  PERFORM set_config('paf.workflow_transition', '', true);
+
+  RETURN v_record;
+END;
+$$;